@@ -13,14 +13,23 @@ import remarkGfm from 'remark-gfm';
 import rehypeRaw from 'rehype-raw';
 import { BuildContext } from './context';
 import { BuildCache } from './cache';
+import { loadMarkdownPlugins, markdownPluginsFingerprint, resolveMarkdownPlugins } from './markdown-plugins';
 import {
   createAutoImportPlugin,
   createNotProsePlugin,
+  createIslandsPlugin,
   createFootnotesPlugin,
+  createHeadingIdsPlugin,
   createShikiPlugin,
   createPackageResolverPlugin,
+  createNavigationPlugin,
+  createCollectionsPlugin,
+  createDataFilesPlugin,
   createImagePathsPlugin,
   createLinkPathsPlugin,
+  createHmrRegisterPlugin,
+  createHmrSharedModulesPlugin,
+  hmrRegistrationCode,
 } from './plugins';
 // Note: createFrontmatterPlugin removed — frontmatter is now extracted in step 03
 
@@ -41,6 +50,8 @@ export interface BunBuildConfigOptions {
   entryPts: string[];
   outDir: string;
   root: string;
+  /** Register components with the HMR runtime (dev server only) */
+  hmr?: boolean;
 }
 
 /**
@@ -48,7 +59,7 @@ export interface BunBuildConfigOptions {
  * (e.g., plugins added/removed, processing logic modified) to invalidate
  * all previously cached results.
  */
-const MDX_DISK_CACHE_VERSION = 1;
+const MDX_DISK_CACHE_VERSION = 3;
 
 // MDX node types that should pass through rehype-raw unchanged
 const MDX_NODE_TYPES = [
@@ -66,13 +77,15 @@ const MDX_NODE_TYPES = [
  * reuses the compilation results from the first build (server), avoiding
  * duplicate MDX processing of every file.
  */
-async function createMdxBuildPlugin(ctx: BuildContext): Promise<BunPlugin> {
+async function createMdxBuildPlugin(ctx: BuildContext, hmr = false): Promise<BunPlugin> {
   const componentMap = await ctx.getComponentMap();
   const componentConflicts = ctx.getComponentConflicts();
+  const projectPlugins = await resolveMarkdownPlugins(ctx);
+  const islandModulePath = await ctx.islandComponentPath();
 
   // Compute a fingerprint of the entire plugin pipeline configuration.
   // This is included in disk cache keys so that config changes (strict mode,
-  // highlight mode, component additions/removals) invalidate stale entries.
+  // highlight mode, component additions/removals, project plugins) invalidate stale entries.
   const pipelineFingerprint = JSON.stringify({
     v: MDX_DISK_CACHE_VERSION,
     strict: !!ctx.options.strict,
@@ -80,6 +93,8 @@ async function createMdxBuildPlugin(ctx: BuildContext): Promise<BunPlugin> {
     base: ctx.options.base || '',
     components: Object.entries(componentMap).sort((a, b) => a[0].localeCompare(b[0])),
     conflicts: [...componentConflicts].sort(),
+    plugins: await markdownPluginsFingerprint(projectPlugins),
+    island: islandModulePath,
   });
 
   // Initialize module-level cache on first use (rootDir determines disk location)
@@ -96,15 +111,20 @@ async function createMdxBuildPlugin(ctx: BuildContext): Promise<BunPlugin> {
   function getProcessor(): Promise<(file: VFile) => Promise<VFile>> {
     if (!processorPromise) {
       processorPromise = (async () => {
+        const extra = await loadMarkdownPlugins(projectPlugins);
+
         // Build remark plugins list
-        const remarkPlugins: any[] = [remarkGfm, remarkFrontmatter];
+        const remarkPlugins: any[] = [remarkGfm, remarkFrontmatter, ...extra.remark.before];
         if (!ctx.options.strict) {
           remarkPlugins.push(createAutoImportPlugin(componentMap, componentConflicts));
           remarkPlugins.push(createNotProsePlugin());
         }
+        remarkPlugins.push(createIslandsPlugin(islandModulePath));
+        remarkPlugins.push(...extra.remark.after);
 
         // Build rehype plugins list
-        const rehypePlugins: any[] = [[rehypeRaw, { passThrough: MDX_NODE_TYPES }]];
+        const rehypePlugins: any[] = [[rehypeRaw, { passThrough: MDX_NODE_TYPES }], ...extra.rehype.before];
+        rehypePlugins.push(createHeadingIdsPlugin());
         rehypePlugins.push(createImagePathsPlugin(ctx));
         rehypePlugins.push(createLinkPathsPlugin(ctx));
 
@@ -116,6 +136,7 @@ async function createMdxBuildPlugin(ctx: BuildContext): Promise<BunPlugin> {
         if (!ctx.options.strict) {
           rehypePlugins.push(createFootnotesPlugin());
         }
+        rehypePlugins.push(...extra.rehype.after);
 
         const { process } = createFormatAwareProcessors({
           providerImportSource: '@mdx-js/react',
@@ -143,7 +164,9 @@ async function createMdxBuildPlugin(ctx: BuildContext): Promise<BunPlugin> {
             return String((await process(file)).value);
           },
         );
-        return { contents: compiled, loader: 'js' as const, resolveDir: path.dirname(args.path) };
+        // HMR registration is appended after caching so cached output stays shareable
+        const contents = hmr ? compiled + hmrRegistrationCode(ctx, args.path, content) : compiled;
+        return { contents, loader: 'js' as const, resolveDir: path.dirname(args.path) };
       });
     },
   };
@@ -157,7 +180,8 @@ export async function getBunBuildConfig(
   options: BunBuildConfigOptions
 ): Promise<BuildConfig> {
   const nodeModulesDir = ctx.nodeModulesDir;
-  const mdxPlugin = await createMdxBuildPlugin(ctx);
+  const mdxPlugin = await createMdxBuildPlugin(ctx, options.hmr);
+  const hmrPlugins = options.hmr ? [createHmrRegisterPlugin(ctx)] : [];
 
   return {
     entrypoints: options.entryPts,
@@ -182,7 +206,51 @@ export async function getBunBuildConfig(
         : '"production"',
     },
 
-    plugins: [createPackageResolverPlugin(nodeModulesDir), mdxPlugin],
+    plugins: [createPackageResolverPlugin(nodeModulesDir), createNavigationPlugin(ctx), createCollectionsPlugin(ctx), createDataFilesPlugin(ctx), ...hmrPlugins, mdxPlugin],
+  };
+}
+
+/**
+ * Get Bun.build() configuration for an HMR update bundle.
+ * Each changed module becomes a self-contained entry that uses the page's
+ * copies of React (see createHmrSharedModulesPlugin).
+ */
+export async function getHmrUpdateBunBuildConfig(
+  ctx: BuildContext,
+  options: Omit<BunBuildConfigOptions, 'hmr'>
+): Promise<BuildConfig> {
+  const nodeModulesDir = ctx.nodeModulesDir;
+  const mdxPlugin = await createMdxBuildPlugin(ctx, true);
+
+  return {
+    entrypoints: options.entryPts,
+    outdir: options.outDir,
+    root: options.root,
+
+    target: 'browser',
+    format: 'esm',
+    splitting: false,
+    minify: false,
+    sourcemap: 'inline',
+
+    naming: {
+      entry: '[dir]/[name]-[hash].[ext]',
+      asset: 'assets/[name]-[hash].[ext]',
+    },
+
+    define: {
+      'process.env.NODE_ENV': '"development"',
+    },
+
+    plugins: [
+      createHmrSharedModulesPlugin(nodeModulesDir),
+      createPackageResolverPlugin(nodeModulesDir),
+      createNavigationPlugin(ctx),
+      createCollectionsPlugin(ctx),
+      createDataFilesPlugin(ctx),
+      createHmrRegisterPlugin(ctx),
+      mdxPlugin,
+    ],
   };
 }
 
@@ -220,6 +288,6 @@ export async function getServerBunBuildConfig(
       'process.env.NODE_ENV': '"development"',
     },
 
-    plugins: [createPackageResolverPlugin(nodeModulesDir), mdxPlugin],
+    plugins: [createPackageResolverPlugin(nodeModulesDir), createNavigationPlugin(ctx), createCollectionsPlugin(ctx), createDataFilesPlugin(ctx), mdxPlugin],
   };
 }
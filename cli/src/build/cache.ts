@@ -2,14 +2,15 @@
  * Reusable build cache with 3-layer lookup: memory → inflight → disk → compute.
  *
  * Disk cache lives at `.scratchwork/{name}-cache/` which survives `resetTempDir()`
- * (that only clears `.scratchwork/cache/`). Memory and inflight caches are cleared
- * between builds via `resetMemory()`.
+ * (that only clears `.scratchwork/cache/`). Memory entries remember the content
+ * hash they were computed from, so they stay valid across incremental rebuilds and
+ * a changed file simply misses. Full builds clear them via `resetMemory()`.
  */
 import path from 'path';
 import fs from 'fs/promises';
 
 export class BuildCache {
-  private memory = new Map<string, string>();
+  private memory = new Map<string, { cacheKey: string; value: string }>();
   private inflight = new Map<string, Promise<string>>();
   private diskCacheDir: string;
   private diskCacheReady: Promise<void>;
@@ -35,9 +36,11 @@ export class BuildCache {
     fingerprint: string,
     compute: () => Promise<string>,
   ): Promise<string> {
-    // 1. In-memory cache (instant)
+    const cacheKey = Bun.hash(fingerprint + '\0' + key + '\0' + content).toString(16);
+
+    // 1. In-memory cache (instant, only if computed from the same content)
     const cached = this.memory.get(key);
-    if (cached !== undefined) return cached;
+    if (cached !== undefined && cached.cacheKey === cacheKey) return cached.value;
 
     // 2. In-flight deduplication (parallel build requests for same key)
     const existing = this.inflight.get(key);
@@ -45,7 +48,6 @@ export class BuildCache {
 
     // 3. Disk + compute
     const promise = (async () => {
-      const cacheKey = Bun.hash(fingerprint + '\0' + key + '\0' + content).toString(16);
       await this.diskCacheReady;
       const diskPath = path.join(this.diskCacheDir, cacheKey + this.extension);
 
@@ -54,7 +56,7 @@ export class BuildCache {
         const diskFile = Bun.file(diskPath);
         if (await diskFile.exists()) {
           const result = await diskFile.text();
-          this.memory.set(key, result);
+          this.memory.set(key, { cacheKey, value: result });
           this.inflight.delete(key);
           return result;
         }
@@ -64,7 +66,7 @@ export class BuildCache {
 
       // 4. Compute (expensive)
       const result = await compute();
-      this.memory.set(key, result);
+      this.memory.set(key, { cacheKey, value: result });
       this.inflight.delete(key);
 
       // Write to disk cache for next build (fire-and-forget)
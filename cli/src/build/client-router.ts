@@ -0,0 +1,36 @@
+/**
+ * Client-side navigation between pages.
+ *
+ * Enabled in .scratchwork/project.toml:
+ *
+ *   [build]
+ *   client_router = true
+ *
+ * The page's client entry hands its render function to the router
+ * (_build/router.ts) instead of rendering directly. The router then intercepts
+ * clicks on internal links, fetches the target page's SSG HTML (prefetched
+ * with its JS on hover), swaps the #mdx content and frontmatter <head> tags,
+ * and hydrates the new page. Every page is still a standalone HTML file, so
+ * reloads, crawlers and browsers without JavaScript see the same site.
+ */
+import type { BuildContext } from './context';
+import type { BuildOptions } from './types';
+import { loadProjectConfig } from '../config/project-config';
+import log from '../logger';
+
+/**
+ * Whether this build uses the client router. The router swaps in pre-rendered
+ * HTML, so it needs SSG, and every page needs its client entry, so it can't be
+ * combined with islands.
+ */
+export async function clientRouterEnabled(ctx: BuildContext, options: BuildOptions): Promise<boolean> {
+  if (options.ssg !== true) return false;
+  const config = await loadProjectConfig(ctx.rootDir);
+  if (config.build?.client_router !== true) return false;
+
+  if (config.build.islands === true) {
+    log.info('client_router is ignored in islands mode: pages without islands have no JavaScript to run it.');
+    return false;
+  }
+  return true;
+}
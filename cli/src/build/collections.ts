@@ -0,0 +1,290 @@
+/**
+ * Content collections: groups of pages whose frontmatter follows a schema,
+ * declared in .scratchwork/project.toml:
+ *
+ *   [collections.blog]
+ *   pattern = "pages/blog/**"
+ *   schema = "./schemas/blog.ts"
+ *
+ * The schema module's default export is a zod schema (anything with
+ * safeParse() works). Every build validates the frontmatter of each page in a
+ * collection, and frontmatter keys the schema doesn't know are errors, so a
+ * typo can't silently do nothing. Pages and components query the validated
+ * data at build time:
+ *
+ *   import { getCollection, getEntry } from 'scratchwork:collections';
+ *
+ * Types for the module are written to .scratchwork/collections.d.ts.
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import type { BuildContext, Entry } from './context';
+import type { ErrorSourceLocation } from './errors';
+import { formatWithSourceLocation } from './errors';
+import { entryUrlPath } from './steps/07b-site-metadata';
+import { importFresh, isPlainObject, normalizeBase, toJs } from './util';
+import { routeParam } from './dynamic-routes';
+import { loadProjectConfig } from '../config/project-config';
+import { PATHS } from '../config/paths';
+
+export const COLLECTIONS_MODULE_ID = 'scratchwork:collections';
+
+export const COLLECTIONS_TYPES_FILE = '.scratchwork/collections.d.ts';
+
+export interface ResolvedCollection {
+  name: string;
+  /** Glob as written in project.toml, relative to the project root */
+  pattern: string;
+  /** Schema module as written in project.toml */
+  schema: string;
+  /** Absolute path of the schema module */
+  schemaPath: string;
+}
+
+export interface CollectionEntry {
+  /** Entry name, e.g. "blog/hello" */
+  id: string;
+  /** Link to the page including the base path */
+  url: string;
+  /** Frontmatter as parsed by the schema (with defaults and coercions applied) */
+  data: unknown;
+}
+
+export interface CollectionProblem {
+  message: string;
+  location: ErrorSourceLocation;
+}
+
+export interface CollectionsResult {
+  collections: Record<string, CollectionEntry[]>;
+  problems: CollectionProblem[];
+}
+
+interface Schema {
+  safeParse(data: unknown): { success: true; data: unknown } | { success: false; error: { issues: SchemaIssue[] } };
+}
+
+interface SchemaIssue {
+  path: PropertyKey[];
+  message: string;
+}
+
+/**
+ * Read the collections in the project config and find their schema modules.
+ * Throws if a collection is incomplete or its schema can't be found.
+ */
+export async function resolveCollections(ctx: BuildContext): Promise<ResolvedCollection[]> {
+  const { collections = {} } = await loadProjectConfig(ctx.rootDir);
+
+  return Object.entries(collections).map(([name, config]) => {
+    const { pattern, schema } = config ?? {};
+    if (typeof pattern !== 'string' || !pattern || typeof schema !== 'string' || !schema) {
+      throw new Error(
+        `Invalid collection "${name}" in ${PATHS.projectConfig}: it needs a "pattern" (e.g. "pages/blog/**") and a "schema" module.`
+      );
+    }
+
+    let schemaPath: string;
+    try {
+      schemaPath = Bun.resolveSync(path.resolve(ctx.rootDir, schema), ctx.rootDir);
+    } catch {
+      throw new Error(
+        `Schema "${schema}" for collection "${name}" in ${PATHS.projectConfig} was not found.\n` +
+          `  Check the path is relative to the project root.`
+      );
+    }
+
+    return { name, pattern, schema, schemaPath };
+  });
+}
+
+async function loadSchema(collection: ResolvedCollection): Promise<Schema> {
+  let mod: any;
+  try {
+    // Loaded fresh so `scratch dev` picks up edits to the schema
+    mod = await importFresh(collection.schemaPath);
+  } catch (err: any) {
+    throw new Error(`Failed to load schema "${collection.schema}" for collection "${collection.name}": ${err.message}`);
+  }
+  if (typeof mod.default?.safeParse !== 'function') {
+    throw new Error(
+      `Schema "${collection.schema}" for collection "${collection.name}" must have a zod schema as its default export.`
+    );
+  }
+  return mod.default;
+}
+
+/**
+ * Location of a top-level frontmatter key, or of the frontmatter's opening
+ * line if the key isn't there (e.g. a missing required key)
+ */
+async function frontmatterKeyLocation(ctx: BuildContext, entry: Entry, key: PropertyKey | undefined): Promise<ErrorSourceLocation> {
+  const lines = (await Bun.file(entry.absPath).text()).split('\n');
+  let line = 1;
+  if (lines[0]?.trim() === '---' && typeof key === 'string') {
+    const keyRe = new RegExp(`^(["']?)${key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\1\\s*:`);
+    for (let i = 1; i < lines.length && lines[i]!.trim() !== '---'; i++) {
+      if (keyRe.test(lines[i]!)) {
+        line = i + 1;
+        break;
+      }
+    }
+  }
+  return {
+    filePath: path.relative(ctx.rootDir, entry.absPath),
+    line,
+    column: 1,
+    lineText: lines[line - 1]?.trim(),
+    lineFromSourceFile: true,
+  };
+}
+
+function formatIssuePath(issuePath: PropertyKey[]): string {
+  return issuePath.map((segment, i) => (typeof segment === 'number' ? `[${segment}]` : `${i ? '.' : ''}${String(segment)}`)).join('');
+}
+
+/**
+ * Validate the frontmatter of every page in a collection. Entries in each
+ * collection are sorted by id; pages with invalid frontmatter are left out
+ * and reported as problems.
+ */
+export async function collectCollections(ctx: BuildContext, entries: Entry[]): Promise<CollectionsResult> {
+  const base = normalizeBase(ctx.options.base);
+  const sorted = [...entries].sort((a, b) => a.name.localeCompare(b.name));
+  const result: CollectionsResult = { collections: {}, problems: [] };
+
+  for (const collection of await resolveCollections(ctx)) {
+    const schema = await loadSchema(collection);
+    const glob = new Bun.Glob(collection.pattern);
+    const members: CollectionEntry[] = [];
+
+    for (const entry of sorted) {
+      // Route templates and the pages generated from them take their data from records
+      if (routeParam(entry.relPath) || !glob.match(path.relative(ctx.rootDir, entry.absPath))) continue;
+
+      const frontmatter = entry.frontmatterData ?? {};
+      const parsed = schema.safeParse(frontmatter);
+      const problems: CollectionProblem[] = [];
+
+      if (!parsed.success) {
+        for (const issue of parsed.error.issues) {
+          const key = issue.path.length ? ` "${formatIssuePath(issue.path)}"` : '';
+          problems.push({
+            message: `Invalid frontmatter${key} for collection "${collection.name}": ${issue.message}`,
+            location: await frontmatterKeyLocation(ctx, entry, issue.path[0]),
+          });
+        }
+      } else if (isPlainObject(parsed.data)) {
+        // zod drops keys an object schema doesn't declare; report them instead,
+        // since they're usually typos (use .passthrough() to allow extra keys)
+        for (const key of Object.keys(frontmatter)) {
+          if (key in parsed.data) continue;
+          problems.push({
+            message: `Unknown frontmatter key "${key}" for collection "${collection.name}"`,
+            location: await frontmatterKeyLocation(ctx, entry, key),
+          });
+        }
+      }
+
+      if (problems.length > 0) {
+        result.problems.push(...problems);
+      } else if (parsed.success) {
+        members.push({ id: entry.name, url: `${base}${entryUrlPath(entry)}`, data: parsed.data });
+      }
+    }
+
+    result.collections[collection.name] = members;
+  }
+
+  return result;
+}
+
+export function formatCollectionProblems(problems: CollectionProblem[]): string {
+  return problems.map((problem) => formatWithSourceLocation(problem.message, problem.location)).join('\n\n');
+}
+
+/**
+ * Fingerprint of the collection data. When it changes, every page that
+ * bundles the collections module has to be rebuilt.
+ */
+export function collectionsFingerprint(collections: Record<string, CollectionEntry[]> | undefined): string {
+  return JSON.stringify(collections ?? {});
+}
+
+/**
+ * Source of the collections module
+ */
+export function generateCollectionsModule(collections: Record<string, CollectionEntry[]>): string {
+  return `const collections = ${toJs(collections)};
+
+/** The entries of a collection, optionally filtered */
+export function getCollection(name, filter) {
+  const entries = collections[name];
+  if (!entries) {
+    throw new Error(\`Unknown collection "\${name}". Collections are declared in .scratchwork/project.toml.\`);
+  }
+  return filter ? entries.filter(filter) : entries.slice();
+}
+
+/** An entry of a collection by id, e.g. getEntry("blog", "blog/hello") */
+export function getEntry(name, id) {
+  return getCollection(name).find((entry) => entry.id === id);
+}
+`;
+}
+
+/**
+ * Declarations for the collections module, with each collection's data typed
+ * as the output of its schema
+ */
+export function generateCollectionsTypes(collections: ResolvedCollection[], typesPath: string): string {
+  const schemas = collections
+    .map((c) => {
+      let specifier = path.relative(path.dirname(typesPath), c.schemaPath).replace(/\.[cm]?[jt]sx?$/, '');
+      if (!specifier.startsWith('.')) specifier = `./${specifier}`;
+      return `    ${JSON.stringify(c.name)}: typeof import(${JSON.stringify(specifier)}).default;`;
+    })
+    .join('\n');
+
+  return `// Generated by scratch build from the collections in project.toml. Do not edit.
+declare module '${COLLECTIONS_MODULE_ID}' {
+  interface Schemas {
+${schemas}
+  }
+
+  type SchemaOutput<S> = S extends { _output: infer T } ? T : unknown;
+
+  export type CollectionName = keyof Schemas;
+
+  export interface CollectionEntry<C extends CollectionName> {
+    id: string;
+    url: string;
+    data: SchemaOutput<Schemas[C]>;
+  }
+
+  export function getCollection<C extends CollectionName>(
+    name: C,
+    filter?: (entry: CollectionEntry<C>) => boolean
+  ): CollectionEntry<C>[];
+
+  export function getEntry<C extends CollectionName>(name: C, id: string): CollectionEntry<C> | undefined;
+}
+`;
+}
+
+/**
+ * Write the collection types into the project, if it has collections.
+ * The file is only rewritten when it changes.
+ */
+export async function writeCollectionsTypes(ctx: BuildContext): Promise<void> {
+  const collections = await resolveCollections(ctx);
+  if (collections.length === 0) return;
+
+  const typesPath = path.join(ctx.rootDir, COLLECTIONS_TYPES_FILE);
+  const contents = generateCollectionsTypes(collections, typesPath);
+  const existing = await fs.readFile(typesPath, 'utf-8').catch(() => null);
+  if (existing === contents) return;
+
+  await fs.mkdir(path.dirname(typesPath), { recursive: true });
+  await fs.writeFile(typesPath, contents);
+}
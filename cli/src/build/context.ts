@@ -83,6 +83,14 @@ export class BuildContext {
     return path.resolve(this.tempDir, 'server-compiled');
   }
 
+  /**
+   * HMR runtime and update bundles for the dev server.
+   * Outside tempDir and outDir so it survives full rebuilds.
+   */
+  get hmrDir(): string {
+    return path.resolve(this.rootDir, '.scratchwork', 'hmr');
+  }
+
   get embeddedTemplatesDir(): string {
     return path.resolve(this.tempDir, 'embedded-templates');
   }
@@ -236,6 +244,36 @@ export class BuildContext {
     return this.materializeEmbeddedFile('_build/entry-server.jsx');
   }
 
+  /**
+   * Get the path to the client entry template for pages in islands mode.
+   * Falls back to embedded template if not in project.
+   */
+  async islandsTsxSrcPath(): Promise<string> {
+    const userPath = path.resolve(this.rootDir, '_build/entry-islands.tsx');
+    if (await fs.exists(userPath)) return userPath;
+    return this.materializeEmbeddedFile('_build/entry-islands.tsx');
+  }
+
+  /**
+   * Get the path to the Island component that wraps client:* components.
+   * Falls back to embedded template if not in project.
+   */
+  async islandComponentPath(): Promise<string> {
+    const userPath = path.resolve(this.rootDir, '_build/island.tsx');
+    if (await fs.exists(userPath)) return userPath;
+    return this.materializeEmbeddedFile('_build/island.tsx');
+  }
+
+  /**
+   * Get the path to the client router imported by the client entry.
+   * Falls back to embedded template if not in project.
+   */
+  async clientRouterPath(): Promise<string> {
+    const userPath = path.resolve(this.rootDir, '_build/router.ts');
+    if (await fs.exists(userPath)) return userPath;
+    return this.materializeEmbeddedFile('_build/router.ts');
+  }
+
   /**
    * Materialize an embedded template file to the temp directory.
    * Used for internal build templates like entry-client.tsx.
@@ -347,6 +385,13 @@ export class Entry {
   // Frontmatter data extracted from the source file
   frontmatterData?: Record<string, any>;
 
+  // For a page generated from a route template (see dynamic-routes.ts), the
+  // record passed to the page as props
+  props?: Record<string, unknown>;
+
+  // The absolute path to the data file the record came from, if any
+  dataFile?: string;
+
   constructor(sourceFile: string, baseDir: string) {
     this.absPath = path.resolve(sourceFile);
     this.baseDir = path.resolve(baseDir);
@@ -0,0 +1,171 @@
+/**
+ * Data files (JSON, YAML, CSV and TOML): records for dynamic routes, and
+ * modules pages and components import:
+ *
+ *   import metrics from './metrics.csv';
+ *
+ * Bun loads JSON itself; the other formats are turned into modules by the
+ * data files plugin. Their types are written to .scratchwork/data-files.d.ts.
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import { globSync } from 'fast-glob';
+import matter from 'gray-matter';
+import { parse as parseToml } from 'smol-toml';
+import type { BuildContext } from './context';
+import { isPlainObject, toJs } from './util';
+
+// gray-matter parses frontmatter with js-yaml. Reusing it makes data files read
+// YAML the same way as frontmatter (e.g. dates become Dates). Its engines
+// aren't in the typings.
+const yaml = (matter as unknown as { engines: { yaml: { parse(text: string): unknown } } }).engines.yaml;
+
+export const DATA_FILE_EXTS = ['.json', '.yaml', '.yml', '.csv', '.toml'];
+
+/** Data files the build turns into modules when imported */
+export const DATA_MODULE_EXTS = ['.yaml', '.yml', '.csv', '.toml'];
+
+export const DATA_FILES_TYPES_FILE = '.scratchwork/data-files.d.ts';
+
+/**
+ * Parse CSV into one object per row, keyed by the header row. Values are kept
+ * as strings. Quoted fields may contain commas, line breaks and doubled quotes.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  text = text.replace(/^\uFEFF/, ''); // byte order mark
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (quoted) {
+      if (ch !== '"') {
+        field += ch;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines (e.g. a trailing newline) aren't records
+  const [header = [], ...records] = rows.filter((r) => r.length > 1 || r[0] !== '');
+  const keys = header.map((key) => key.trim());
+  return records.map((values) => Object.fromEntries(keys.map((key, i) => [key, values[i] ?? ''])));
+}
+
+/**
+ * Read and parse a data file by its extension
+ */
+export async function loadDataFile(filePath: string): Promise<unknown> {
+  const ext = path.extname(filePath).toLowerCase();
+  if (!DATA_FILE_EXTS.includes(ext)) {
+    throw new Error(`Unsupported data file type "${ext}" (expected ${DATA_FILE_EXTS.join(', ')})`);
+  }
+
+  const text = await Bun.file(filePath).text();
+  switch (ext) {
+    case '.json':
+      return JSON.parse(text);
+    case '.csv':
+      return parseCsv(text);
+    case '.toml':
+      return parseToml(text);
+    default:
+      return yaml.parse(text);
+  }
+}
+
+/**
+ * Source of the module for an imported data file
+ */
+export function generateDataModule(data: unknown): string {
+  return `export default ${toJs(data)};\n`;
+}
+
+/**
+ * A TypeScript type describing a parsed value
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (value instanceof Date) return 'Date';
+  if (Array.isArray(value)) {
+    const types = [...new Set(value.map(typeOf))];
+    if (types.length === 0) return 'unknown[]';
+    return types.length === 1 ? `${types[0]}[]` : `(${types.join(' | ')})[]`;
+  }
+  if (isPlainObject(value)) {
+    const props = Object.entries(value).map(([key, v]) => `${JSON.stringify(key)}: ${typeOf(v)}`);
+    return props.length > 0 ? `{ ${props.join('; ')} }` : 'Record<string, never>';
+  }
+  return ['string', 'number', 'boolean'].includes(typeof value) ? typeof value : 'unknown';
+}
+
+/**
+ * Declarations typing each data file by its contents. Modules are matched by
+ * file name, so files sharing a name get the union of their types.
+ */
+export function generateDataFilesTypes(files: { path: string; data: unknown }[]): string {
+  const typesByName = new Map<string, Set<string>>();
+  for (const file of files) {
+    const name = path.basename(file.path);
+    if (!typesByName.has(name)) typesByName.set(name, new Set());
+    typesByName.get(name)!.add(typeOf(file.data));
+  }
+
+  const modules = [...typesByName]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, types]) => `declare module '*/${name}' {
+  const data: ${[...types].join(' | ')};
+  export default data;
+}`);
+
+  return `// Generated by scratch build from the data files in pages/ and src/. Do not edit.
+${modules.join('\n\n')}
+`;
+}
+
+/**
+ * Write the data file types into the project, if it has data files to import.
+ * Files that don't parse are typed as unknown; importing them fails the build.
+ * The file is only rewritten when it changes.
+ */
+export async function writeDataFilesTypes(ctx: BuildContext): Promise<void> {
+  const pattern = `**/*{${DATA_MODULE_EXTS.join(',')}}`;
+  const paths = [ctx.pagesDir, ctx.srcDir].flatMap((dir) =>
+    globSync(pattern, { cwd: dir, absolute: true, ignore: ['**/node_modules/**'] })
+  );
+  if (paths.length === 0) return;
+
+  const files = await Promise.all(
+    paths.map(async (file) => ({ path: file, data: await loadDataFile(file).catch(() => undefined) }))
+  );
+  const typesPath = path.join(ctx.rootDir, DATA_FILES_TYPES_FILE);
+  const contents = generateDataFilesTypes(files);
+  const existing = await fs.readFile(typesPath, 'utf-8').catch(() => null);
+  if (existing === contents) return;
+
+  await fs.mkdir(path.dirname(typesPath), { recursive: true });
+  await fs.writeFile(typesPath, contents);
+}
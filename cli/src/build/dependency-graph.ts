@@ -0,0 +1,216 @@
+/**
+ * Dependency graph for incremental rebuilds in `scratch dev`.
+ *
+ * Maps every source file a page uses (the MDX file itself, its relative imports,
+ * auto-imported components, PageWrapper, markdown components, and anything those
+ * import in turn) to the entries that depend on it. When a file changes, only the
+ * entries returned by getAffectedEntries() need to be recompiled.
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import type { Entry } from './context';
+import type { ComponentMap } from './plugins';
+
+// Extensions tried when resolving an extensionless relative import
+const RESOLVE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.mjs', '.mdx', '.md'];
+
+// Files with these extensions are bundled as leaves (no imports to follow)
+const LEAF_EXTENSIONS = [
+  '.css', '.json', '.yaml', '.yml', '.csv', '.toml', '.svg', '.png', '.jpg', '.jpeg', '.gif', '.webp',
+];
+
+const transpiler = new Bun.Transpiler({ loader: 'tsx' });
+
+export interface DependencyGraphOptions {
+  /** Auto-importable components, keyed by component name */
+  componentMap: ComponentMap;
+
+  /** Files or directories every entry depends on regardless of content (e.g. PageWrapper) */
+  sharedFiles?: string[];
+}
+
+/**
+ * Find the relative import specifiers in an MDX file.
+ * Uses a regex instead of a full MDX parse since the graph only needs paths.
+ */
+export function scanMdxImports(content: string): string[] {
+  const specifiers: string[] = [];
+  const importRegex = /^\s*import\s+(?:[\s\S]*?\s+from\s+)?['"]([^'"]+)['"]/gm;
+  for (const match of content.matchAll(importRegex)) {
+    if (match[1]!.startsWith('.')) {
+      specifiers.push(match[1]!);
+    }
+  }
+  return specifiers;
+}
+
+/**
+ * Find the component names invoked as JSX in an MDX file (uppercase tags).
+ */
+export function scanMdxComponents(content: string): Set<string> {
+  const names = new Set<string>();
+  for (const match of content.matchAll(/<([A-Z][\w]*)/g)) {
+    names.add(match[1]!);
+  }
+  return names;
+}
+
+/**
+ * Resolve a relative import to an existing file, trying known extensions
+ * and directory index files. Returns null if nothing matches.
+ */
+async function resolveImport(specifier: string, fromDir: string): Promise<string | null> {
+  const base = path.resolve(fromDir, specifier);
+  const candidates = [
+    base,
+    ...RESOLVE_EXTENSIONS.map((ext) => base + ext),
+    ...RESOLVE_EXTENSIONS.map((ext) => path.join(base, 'index' + ext)),
+  ];
+
+  for (const candidate of candidates) {
+    try {
+      const stat = await fs.stat(candidate);
+      if (stat.isFile()) return candidate;
+    } catch {
+      // Not found, try next candidate
+    }
+  }
+  return null;
+}
+
+export class DependencyGraph {
+  private componentMap: ComponentMap;
+
+  // Resolved once: every entry depends on the same shared files
+  private sharedRoots: Promise<string[]>;
+
+  // file -> entry names that depend on it
+  private dependents = new Map<string, Set<string>>();
+
+  // entry name -> files it depends on
+  private dependencies = new Map<string, Set<string>>();
+
+  // module file -> resolved direct imports (memoized across entries)
+  private moduleImports = new Map<string, string[]>();
+
+  constructor(options: DependencyGraphOptions) {
+    this.componentMap = options.componentMap;
+    this.sharedRoots = Promise.all(
+      (options.sharedFiles ?? []).map((f) => resolveImport(f, process.cwd()))
+    ).then((resolved) => resolved.filter((f): f is string => f !== null));
+  }
+
+  /**
+   * Build a graph for all entries.
+   */
+  static async build(
+    entries: Record<string, Entry>,
+    options: DependencyGraphOptions
+  ): Promise<DependencyGraph> {
+    const graph = new DependencyGraph(options);
+    await Promise.all(Object.values(entries).map((entry) => graph.addEntry(entry)));
+    return graph;
+  }
+
+  /**
+   * Scan an entry's source and register its dependencies.
+   * Replaces any dependencies recorded for the entry previously.
+   */
+  async addEntry(entry: Entry): Promise<void> {
+    const files = new Set<string>([entry.absPath]);
+    const content = await Bun.file(entry.absPath).text();
+    const fromDir = path.dirname(entry.absPath);
+
+    const roots: string[] = [...(await this.sharedRoots)];
+    for (const specifier of scanMdxImports(content)) {
+      const resolved = await resolveImport(specifier, fromDir);
+      if (resolved) roots.push(resolved);
+    }
+    for (const name of scanMdxComponents(content)) {
+      const componentPath = this.componentMap[name];
+      if (componentPath) roots.push(path.resolve(componentPath));
+    }
+
+    for (const root of roots) {
+      await this.collectModule(root, files);
+    }
+
+    // Swap edges only once the scan is done, so concurrent calls never see a partial entry
+    this.removeEntry(entry.name);
+    this.dependencies.set(entry.name, files);
+    for (const file of files) {
+      let set = this.dependents.get(file);
+      if (!set) {
+        set = new Set();
+        this.dependents.set(file, set);
+      }
+      set.add(entry.name);
+    }
+  }
+
+  /**
+   * Remove an entry and its edges from the graph.
+   */
+  removeEntry(name: string): void {
+    const files = this.dependencies.get(name);
+    if (!files) return;
+    for (const file of files) {
+      const set = this.dependents.get(file);
+      set?.delete(name);
+      if (set && set.size === 0) {
+        this.dependents.delete(file);
+      }
+    }
+    this.dependencies.delete(name);
+  }
+
+  /**
+   * Forget the memoized imports of a module so the next addEntry() rescans it.
+   * Call this for every changed file before re-adding its dependents.
+   */
+  invalidateFile(filePath: string): void {
+    this.moduleImports.delete(path.resolve(filePath));
+  }
+
+  /**
+   * Get the entries affected by a change to the given file.
+   * Returns null if the file is not part of the graph (e.g. a new file).
+   */
+  getAffectedEntries(filePath: string): Set<string> | null {
+    const set = this.dependents.get(path.resolve(filePath));
+    return set ? new Set(set) : null;
+  }
+
+  /**
+   * Depth-first walk of a module's relative imports.
+   */
+  private async collectModule(filePath: string, files: Set<string>): Promise<void> {
+    if (files.has(filePath)) return;
+    files.add(filePath);
+
+    const ext = path.extname(filePath).toLowerCase();
+    if (LEAF_EXTENSIONS.includes(ext)) return;
+
+    let imports = this.moduleImports.get(filePath);
+    if (!imports) {
+      imports = [];
+      try {
+        const content = await Bun.file(filePath).text();
+        const specifiers = ext === '.mdx' || ext === '.md'
+          ? scanMdxImports(content)
+          : transpiler.scanImports(content).map((i) => i.path).filter((p) => p.startsWith('.'));
+        for (const specifier of specifiers) {
+          const resolved = await resolveImport(specifier, path.dirname(filePath));
+          if (resolved) imports.push(resolved);
+        }
+      } catch {
+        // Unreadable or unparseable module - Bun.build will report the real error
+      }
+      this.moduleImports.set(filePath, imports);
+    }
+
+    for (const imported of imports) {
+      await this.collectModule(imported, files);
+    }
+  }
+}
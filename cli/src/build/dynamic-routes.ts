@@ -0,0 +1,154 @@
+/**
+ * Dynamic routes: a page named after a parameter, e.g. pages/people/[slug].mdx,
+ * is a template for one page per record of a data source named in its
+ * frontmatter. The source is a data file (JSON, YAML or CSV, relative to the
+ * project root) holding a list of records:
+ *
+ *   ---
+ *   data: data/people.json
+ *   title: "{name}"
+ *   ---
+ *
+ *   # {props.name}
+ *
+ * or `collection: blog`, whose records are the collection's entries: their
+ * data plus `id`, `url` and a `slug` taken from the page's file name.
+ *
+ * The record's parameter field names each page (people/ada/) and the record
+ * is passed to the page as props. `{field}` placeholders in the template's
+ * frontmatter are filled in from the record, so every page gets its own title
+ * and description.
+ */
+import path from 'path';
+import { Entry } from './context';
+import type { BuildContext } from './context';
+import type { CollectionEntry } from './collections';
+import { loadDataFile } from './data-files';
+import { isPlainObject } from './util';
+import { PATHS } from '../config/paths';
+
+const ROUTE_PARAM_RE = /^\[([A-Za-z_$][\w$]*)\]$/;
+
+export interface DynamicRoutes {
+  /** Route template entries, which aren't pages themselves */
+  templates: Entry[];
+  /** One entry per record of each template's data source */
+  pages: Entry[];
+}
+
+/**
+ * The route parameter of a page template, e.g. "slug" for "people/[slug].mdx",
+ * or null if the page isn't a template
+ */
+export function routeParam(relPath: string): string | null {
+  const name = path.basename(relPath).replace(/\.[^/.]+$/, '');
+  return ROUTE_PARAM_RE.exec(name)?.[1] ?? null;
+}
+
+/**
+ * Fill `{field}` placeholders in frontmatter strings from a record. A string
+ * that is just a placeholder takes the field's value as is (e.g. a date or list).
+ */
+export function fillPlaceholders(value: unknown, record: Record<string, unknown>): unknown {
+  if (typeof value === 'string') {
+    const whole = /^\{(\w+)\}$/.exec(value);
+    if (whole && record[whole[1]!] != null) return record[whole[1]!];
+    return value.replace(/\{(\w+)\}/g, (match, key: string) => (record[key] != null ? String(record[key]) : match));
+  }
+  if (Array.isArray(value)) return value.map((item) => fillPlaceholders(item, record));
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, fillPlaceholders(v, record)]));
+  }
+  return value;
+}
+
+interface RouteSource {
+  records: Record<string, unknown>[];
+  /** Description for error messages, e.g. "data/people.json" */
+  label: string;
+  /** Absolute path of the data file, if the records come from one */
+  dataFile?: string;
+}
+
+async function loadRouteSource(
+  ctx: BuildContext,
+  template: Entry,
+  collections: Record<string, CollectionEntry[]>
+): Promise<RouteSource> {
+  const { data, collection } = template.frontmatterData ?? {};
+  const where = `Route template pages/${template.relPath}`;
+
+  if (typeof data === 'string') {
+    const dataFile = path.resolve(ctx.rootDir, data);
+    let records: unknown;
+    try {
+      records = await loadDataFile(dataFile);
+    } catch (err: any) {
+      throw new Error(`${where}: failed to load data file "${data}": ${err.message}`);
+    }
+    if (!Array.isArray(records) || !records.every(isPlainObject)) {
+      throw new Error(`${where}: data file "${data}" must contain a list of records (objects with fields).`);
+    }
+    return { records, label: `"${data}"`, dataFile };
+  }
+
+  if (typeof collection === 'string') {
+    const entries = collections[collection];
+    if (!entries) {
+      throw new Error(`${where}: unknown collection "${collection}". Collections are declared in ${PATHS.projectConfig}.`);
+    }
+    const records = entries.map((entry) => ({
+      slug: path.posix.basename(entry.id),
+      ...(isPlainObject(entry.data) ? entry.data : {}),
+      id: entry.id,
+      url: entry.url,
+    }));
+    return { records, label: `collection "${collection}"` };
+  }
+
+  throw new Error(
+    `${where} needs a data source in its frontmatter: "data" (a JSON, YAML or CSV file) or "collection".`
+  );
+}
+
+/**
+ * Expand every route template among the entries into one page per record.
+ * Needs the entries' frontmatter, and the collections for collection sources.
+ */
+export async function expandDynamicRoutes(
+  ctx: BuildContext,
+  entries: Entry[],
+  collections: Record<string, CollectionEntry[]>
+): Promise<DynamicRoutes> {
+  const result: DynamicRoutes = { templates: [], pages: [] };
+
+  for (const template of entries) {
+    const param = routeParam(template.relPath);
+    if (!param) continue;
+    result.templates.push(template);
+
+    const { records, label, dataFile } = await loadRouteSource(ctx, template, collections);
+    const { data: _data, collection: _collection, ...frontmatter } = template.frontmatterData ?? {};
+
+    records.forEach((record, i) => {
+      const value = record[param];
+      const segment = typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+      if (!segment || segment === '.' || segment === '..' || /[/\\]/.test(segment)) {
+        throw new Error(
+          `Record ${i + 1} of ${label} needs a "${param}" to name its page (pages/${template.relPath}).\n` +
+            `  Got ${JSON.stringify(value) ?? 'undefined'}; it must be a string or number without slashes.`
+        );
+      }
+
+      const page = new Entry(template.absPath, template.baseDir);
+      page.name = path.join(path.dirname(template.name), segment);
+      page.props = record;
+      page.dataFile = dataFile;
+      const filled = fillPlaceholders(frontmatter, record) as Record<string, unknown>;
+      page.frontmatterData = Object.keys(filled).length > 0 ? filled : undefined;
+      result.pages.push(page);
+    });
+  }
+
+  return result;
+}
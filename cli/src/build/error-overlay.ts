@@ -0,0 +1,93 @@
+/**
+ * Browser error overlay for `scratch dev`.
+ *
+ * When a rebuild fails, the dev server pushes the formatted error to every open
+ * page over the live-reload websocket, together with the source lines around
+ * the failing location. The overlay goes away on the next successful build.
+ */
+import path from 'path';
+import type { BuildContext } from './context';
+import { extractSourceLocation } from './errors';
+
+// Lines shown above and below the failing line
+const SNIPPET_CONTEXT_LINES = 3;
+
+// Bundler errors point at any source file: "  at /abs/path/Chart.tsx:12:5"
+const BUNDLER_LOCATION_RE = /\n\s*at ((?:\/|[A-Za-z]:\\)[^\n]+?\.(?:mdx|md|tsx|jsx|ts|js|css)):(\d+):(\d+)/;
+
+/**
+ * A build error pushed to the browser over the live-reload websocket.
+ */
+export interface ErrorOverlay {
+  type: 'error';
+  /** Error message, as formatted by formatBuildError() */
+  message: string;
+  location?: {
+    /** Path relative to the project root, for display */
+    file: string;
+    /** Absolute path, opened by the dev server's open-in-editor endpoint */
+    absPath: string;
+    line?: number;
+    column?: number;
+  };
+  /** Source lines around the error, starting at line number `start` */
+  snippet?: { start: number; lines: string[] };
+}
+
+/**
+ * Describe a failed build for the browser overlay.
+ */
+export async function createErrorOverlay(ctx: BuildContext, error: Error): Promise<ErrorOverlay> {
+  const overlay: ErrorOverlay = { type: 'error', message: error.message };
+
+  const location = findSourceLocation(error);
+  if (!location) {
+    return overlay;
+  }
+
+  const absPath = path.resolve(ctx.rootDir, location.file);
+  const file = Bun.file(absPath);
+  if (!(await file.exists())) {
+    return overlay;
+  }
+
+  overlay.location = {
+    file: path.relative(ctx.rootDir, absPath),
+    absPath,
+    line: location.line,
+    column: location.column,
+  };
+
+  if (location.line !== undefined) {
+    const lines = (await file.text()).split('\n');
+    const start = Math.max(1, location.line - SNIPPET_CONTEXT_LINES);
+    const end = Math.min(lines.length, location.line + SNIPPET_CONTEXT_LINES);
+    if (start <= end) {
+      overlay.snippet = { start, lines: lines.slice(start - 1, end) };
+    }
+  }
+
+  return overlay;
+}
+
+/**
+ * Find the source file, and the line in it, that an error points at.
+ * Lines that refer to the generated render entry rather than the source are dropped.
+ */
+function findSourceLocation(error: Error): { file: string; line?: number; column?: number } | null {
+  const location = extractSourceLocation(error);
+  if (location?.filePath) {
+    const fromSource = location.lineFromSourceFile === true || !location.renderEntryPath;
+    return {
+      file: location.filePath,
+      line: fromSource ? location.line : undefined,
+      column: fromSource ? location.column : undefined,
+    };
+  }
+
+  const match = error.message.match(BUNDLER_LOCATION_RE);
+  if (match?.[1]) {
+    return { file: match[1], line: Number(match[2]), column: Number(match[3]) };
+  }
+  return null;
+}
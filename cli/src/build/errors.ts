@@ -80,7 +80,7 @@ const ERROR_PATTERNS: Array<{
 /**
  * Attempt to extract source file/line info from an error for better diagnostics.
  */
-function extractSourceLocation(error: Error | string): ErrorSourceLocation | null {
+export function extractSourceLocation(error: Error | string): ErrorSourceLocation | null {
   const errorStr =
     error instanceof Error
       ? [error.message, error.stack].filter(Boolean).join('\n')
@@ -216,6 +216,24 @@ function extractAdditionalRenderErrors(errorStr: string): string {
   return `\n\n${match[0].trimStart()}`;
 }
 
+/**
+ * Append a source reference to a message:
+ *
+ *   Broken link to /about
+ *     at pages/index.mdx:12:3:
+ *     12 | See [about](/about).
+ */
+export function formatWithSourceLocation(message: string, location: ErrorSourceLocation): string {
+  if (!location.filePath) {
+    return message;
+  }
+  const atReference = formatAtReference(location);
+  if (location.lineText && location.line !== undefined) {
+    return `${message}\n  at ${atReference}:\n  ${location.line} | ${location.lineText}`;
+  }
+  return `${message}\n  at ${atReference}`;
+}
+
 /**
  * Transform build errors into more helpful messages
  */
@@ -232,15 +250,11 @@ export function formatBuildError(error: Error | string): string {
   }
 
   if (sourceLocation?.filePath) {
-    const atReference = formatAtReference(sourceLocation);
-    const existingAtLine = `\n  at ${atReference}`;
+    const existingAtLine = `\n  at ${formatAtReference(sourceLocation)}`;
     if (errorStr.includes(existingAtLine)) {
       return errorStr;
     }
-    if (sourceLocation?.lineText && sourceLocation.line !== undefined) {
-      return `${errorStr}\n  at ${atReference}:\n  ${sourceLocation.line} | ${sourceLocation.lineText}`;
-    }
-    return `${errorStr}\n  at ${atReference}`;
+    return formatWithSourceLocation(errorStr, sourceLocation);
   }
 
   if (sourceLocation?.line !== undefined && sourceLocation.lineText) {
@@ -8,6 +8,8 @@ export interface ScratchGlobals {
   __SCRATCH_BASE__: string;
   /** Whether SSG (server-side generation) is enabled */
   __SCRATCH_SSG__: boolean;
+  /** Whether pages hand rendering to the client router (see client-router.ts) */
+  __SCRATCH_ROUTER__: boolean;
 }
 
 /**
@@ -16,10 +18,12 @@ export interface ScratchGlobals {
 export function buildGlobals(options: {
   base?: string;
   ssg?: boolean;
+  router?: boolean;
 }): ScratchGlobals {
   return {
     __SCRATCH_BASE__: options.base || '',
     __SCRATCH_SSG__: options.ssg ?? false,
+    __SCRATCH_ROUTER__: options.router ?? false,
   };
 }
 
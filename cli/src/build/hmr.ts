@@ -0,0 +1,192 @@
+/**
+ * Hot module replacement for `scratch dev`.
+ *
+ * Page components and MDX pages register themselves with React Fast Refresh as
+ * they load (see plugins/bun-hmr.ts). After an incremental rebuild that only
+ * touched such modules, the dev server bundles just those modules and the
+ * browser swaps them in place, keeping component state and scroll position.
+ * Anything the module graph can't patch falls back to a full reload.
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import type { BuildContext } from './context';
+import type { BuildPipelineState } from './types';
+import { getHmrUpdateBunBuildConfig } from './buncfg';
+import { runBunBuild } from './bundler';
+import { createPackageResolverPlugin, isHmrBoundary } from './plugins';
+import { normalizeBase } from './util';
+import log from '../logger';
+
+/** URL prefix the dev server serves ctx.hmrDir under */
+export const HMR_URL_PREFIX = '/__hmr';
+
+/**
+ * A hot update pushed to the browser over the live-reload websocket.
+ */
+export interface HmrUpdate {
+  type: 'update';
+  /** Changed modules, by id (path relative to the project root) and bundle URL */
+  modules: { id: string; url: string }[];
+  /** New stylesheet URL, if the CSS filename changed */
+  css?: string;
+}
+
+// Browser side: injects React Fast Refresh before react-dom loads, and keeps
+// the registry that component modules and page entries report to
+const RUNTIME_SOURCE = `import * as RefreshRuntime from 'react-refresh/runtime';
+
+RefreshRuntime.injectIntoGlobalHook(window);
+
+globalThis.__SCRATCH_HMR__ = {
+  modules: {},
+  registered: new Set(),
+  provide(modules) {
+    Object.assign(this.modules, modules);
+  },
+  register(value, moduleId, name, signature) {
+    const isComponent = typeof value === 'function' ||
+      (typeof value === 'object' && value !== null && '$$typeof' in value);
+    if (!isComponent) return;
+    RefreshRuntime.register(value, moduleId + ' ' + name);
+    RefreshRuntime.setSignature(value, signature);
+    this.registered.add(moduleId);
+  },
+  refresh() {
+    RefreshRuntime.performReactRefresh();
+  },
+};
+`;
+
+/**
+ * Build the browser runtime into ctx.hmrDir. Returns false if the project
+ * doesn't have react-refresh installed, in which case the dev server keeps
+ * using full reloads.
+ */
+export async function buildHmrRuntime(ctx: BuildContext): Promise<boolean> {
+  try {
+    Bun.resolveSync('react-refresh/runtime', ctx.rootDir);
+  } catch {
+    log.info('react-refresh is not installed, so changes reload the page.');
+    log.info('Run `bun add react-refresh` to keep component state while editing.');
+    return false;
+  }
+
+  const entryPath = path.join(ctx.hmrDir, 'runtime-entry.js');
+  await fs.mkdir(ctx.hmrDir, { recursive: true });
+  await Bun.write(entryPath, RUNTIME_SOURCE);
+
+  await runBunBuild(
+    {
+      entrypoints: [entryPath],
+      outdir: ctx.hmrDir,
+      target: 'browser',
+      format: 'esm',
+      naming: { entry: 'runtime.[ext]' },
+      define: { 'process.env.NODE_ENV': '"development"' },
+      plugins: [createPackageResolverPlugin(ctx.nodeModulesDir)],
+    },
+    'Client'
+  );
+  return true;
+}
+
+/**
+ * Snapshot each entry's frontmatter before a rebuild. Frontmatter ends up in
+ * the page's <head>, which a hot update can't change.
+ */
+export function snapshotFrontmatter(state: BuildPipelineState): Map<string, string> {
+  const snapshot = new Map<string, string>();
+  for (const [name, entry] of Object.entries(state.outputs.entries ?? {})) {
+    snapshot.set(name, JSON.stringify(entry.frontmatterData ?? null));
+  }
+  return snapshot;
+}
+
+/**
+ * Work out which modules a finished incremental rebuild can hot-swap.
+ * Returns null when the browser needs a full reload instead.
+ */
+export async function planHmrUpdate(
+  state: BuildPipelineState,
+  frontmatterBefore: Map<string, string>
+): Promise<string[] | null> {
+  const plan = state.incremental;
+  const graph = state.outputs.dependencyGraph;
+  if (!plan || !graph) {
+    return null;
+  }
+
+  // public/ files and assets copied from pages/ may be used anywhere
+  const inGraph = (file: string) => graph.getAffectedEntries(file) !== null;
+  if (plan.staticFiles.some((file) => !inGraph(file))) {
+    return null;
+  }
+
+  for (const name of plan.entries) {
+    const entry = state.outputs.entries?.[name];
+    if (entry && JSON.stringify(entry.frontmatterData ?? null) !== frontmatterBefore.get(name)) {
+      return null;
+    }
+  }
+
+  const modules: string[] = [];
+  for (const file of plan.changedFiles) {
+    if (!inGraph(file)) {
+      // Stylesheets and unused components: covered by the CSS swap
+      continue;
+    }
+    const content = await Bun.file(file).text();
+    if (!isHmrBoundary(file, content)) {
+      return null;
+    }
+    modules.push(file);
+  }
+  return modules;
+}
+
+/**
+ * Bundle the changed modules for the browser and describe the update.
+ * Previous update bundles are removed first.
+ */
+export async function buildHmrUpdate(
+  ctx: BuildContext,
+  state: BuildPipelineState,
+  modules: string[]
+): Promise<HmrUpdate> {
+  const updatesDir = path.join(ctx.hmrDir, 'updates');
+  await fs.rm(updatesDir, { recursive: true, force: true });
+
+  const update: HmrUpdate = { type: 'update', modules: [] };
+
+  if (modules.length > 0) {
+    const buildConfig = await getHmrUpdateBunBuildConfig(ctx, {
+      entryPts: modules,
+      outDir: updatesDir,
+      root: ctx.rootDir,
+    });
+    const result = await runBunBuild(buildConfig, 'Client');
+
+    // Match outputs to modules by the [dir]/[name]- prefix of the naming pattern
+    for (const file of modules) {
+      const relative = path.relative(ctx.rootDir, file);
+      const prefix = path.join(updatesDir, path.dirname(relative), path.parse(file).name + '-');
+      const output = result.outputs.find(
+        (o) => o.kind === 'entry-point' && o.path.startsWith(prefix) && o.path.endsWith('.js')
+      );
+      if (!output) continue;
+      update.modules.push({
+        id: relative,
+        url: `${HMR_URL_PREFIX}/${path.relative(ctx.hmrDir, output.path).split(path.sep).join('/')}`,
+      });
+    }
+    log.debug(`  Built ${update.modules.length} HMR update modules`);
+  }
+
+  const plan = state.incremental!;
+  const cssFilename = state.outputs.cssFilename;
+  if (cssFilename && cssFilename !== plan.previousCssFilename) {
+    update.css = `${normalizeBase(ctx.options.base)}/${cssFilename}`;
+  }
+
+  return update;
+}
@@ -0,0 +1,136 @@
+/**
+ * Project build hooks from scratch.config.ts (or scratch.config.js).
+ *
+ *   export default {
+ *     steps: [
+ *       {
+ *         name: 'search-index',
+ *         description: 'Write search index',
+ *         after: '07-generate-html',
+ *         async execute(ctx, state) { ... },
+ *       },
+ *     ],
+ *   };
+ *
+ * Each hook is a BuildStep placed before or after a built-in step. Hooks run in
+ * full builds and, unless `incremental: false`, in the incremental rebuilds of
+ * `scratch dev` (where state.incremental lists what changed). Placement is by
+ * step number, so a hook anchored to a step that incremental rebuilds skip still
+ * runs at the same point in the order.
+ */
+import path from 'path';
+import type { BuildContext } from './context';
+import type { BuildStep } from './types';
+import { getStepNumber } from './step-order';
+import { importFresh } from './util';
+
+export const CONFIG_FILENAMES = ['scratch.config.ts', 'scratch.config.js', 'scratch.config.mjs'];
+
+export interface BuildHook extends BuildStep {
+  /** Built-in step to run before, e.g. '07-generate-html' */
+  before?: string;
+  /** Built-in step to run after, e.g. '10-copy-to-dist' */
+  after?: string;
+  /** Run during incremental rebuilds in `scratch dev` (default: true) */
+  incremental?: boolean;
+}
+
+export interface ScratchConfig {
+  steps?: BuildHook[];
+}
+
+/**
+ * Find the project's config file, if any.
+ */
+export async function findConfigFile(rootDir: string): Promise<string | null> {
+  for (const filename of CONFIG_FILENAMES) {
+    const configPath = path.join(rootDir, filename);
+    if (await Bun.file(configPath).exists()) {
+      return configPath;
+    }
+  }
+  return null;
+}
+
+/**
+ * Load the build hooks declared in the project's config file.
+ * Returns an empty list if the project has no config file.
+ */
+export async function loadBuildHooks(ctx: BuildContext): Promise<BuildHook[]> {
+  const configPath = await findConfigFile(ctx.rootDir);
+  if (!configPath) {
+    return [];
+  }
+
+  const filename = path.basename(configPath);
+  let config: ScratchConfig;
+  try {
+    // Loaded fresh so `scratch dev` picks up edits to the config
+    const mod = await importFresh(configPath);
+    config = mod.default ?? mod;
+  } catch (error) {
+    throw new Error(`Failed to load ${filename}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const hooks = config.steps ?? [];
+  if (!Array.isArray(hooks)) {
+    throw new Error(`${filename}: "steps" must be an array of build steps.`);
+  }
+  return hooks.map((hook: BuildHook) => {
+    if (!hook || typeof hook.name !== 'string' || typeof hook.execute !== 'function') {
+      throw new Error(`${filename}: every step needs a name and an execute(ctx, state) function.`);
+    }
+    if (!hook.before === !hook.after) {
+      throw new Error(`${filename}: step "${hook.name}" needs exactly one of "before" or "after".`);
+    }
+    return { ...hook, description: hook.description ?? hook.name };
+  });
+}
+
+/**
+ * Insert hooks into a step list. Hooks placed at the same point keep their
+ * config order. A hook whose anchor falls inside a parallel group runs before
+ * or after the whole group.
+ */
+export function insertHooks(
+  steps: (BuildStep | BuildStep[])[],
+  hooks: BuildHook[],
+  knownSteps: string[]
+): (BuildStep | BuildStep[])[] {
+  if (hooks.length === 0) {
+    return steps;
+  }
+
+  const numbersOf = (unit: BuildStep | BuildStep[]) =>
+    (Array.isArray(unit) ? unit : [unit]).map((s) => getStepNumber(s.name));
+  const before: BuildHook[][] = steps.map(() => []);
+  const after: BuildHook[][] = steps.map(() => []);
+  const atStart: BuildHook[] = [];
+  const atEnd: BuildHook[] = [];
+
+  for (const hook of hooks) {
+    const anchor = (hook.before ?? hook.after)!;
+    if (!knownSteps.includes(anchor)) {
+      throw new Error(
+        `Build step "${hook.name}" is placed relative to unknown step "${anchor}".\n` +
+          `  Known steps: ${knownSteps.join(', ')}`
+      );
+    }
+    if (knownSteps.includes(hook.name)) {
+      throw new Error(`Build step "${hook.name}" has the same name as a built-in step.`);
+    }
+
+    const anchorNumber = getStepNumber(anchor);
+    if (hook.before) {
+      // Before the first step at or past the anchor
+      const index = steps.findIndex((unit) => numbersOf(unit).some((n) => n >= anchorNumber));
+      (index === -1 ? atEnd : before[index]!).push(hook);
+    } else {
+      // After the last step at or before the anchor
+      const index = steps.findLastIndex((unit) => numbersOf(unit).some((n) => n <= anchorNumber));
+      (index === -1 ? atStart : after[index]!).push(hook);
+    }
+  }
+
+  return [...atStart, ...steps.flatMap((unit, i) => [...before[i]!, unit, ...after[i]!]), ...atEnd];
+}
@@ -1,3 +1,4 @@
-export { runBuildPipeline } from './orchestrator';
+export { runBuildPipeline, runIncrementalBuild } from './orchestrator';
 export { formatBuildError } from './errors';
-export type { BuildOptions } from './types';
+export type { BuildOptions, BuildPipelineState } from './types';
+export type { BuildHook, ScratchConfig } from './hooks';
@@ -0,0 +1,191 @@
+/**
+ * Islands mode: pages ship JavaScript only for their interactive components.
+ *
+ * Enabled in .scratchwork/project.toml:
+ *
+ *   [build]
+ *   islands = true
+ *
+ * A component becomes an island when it's marked in the MDX:
+ *
+ *   <Counter client:load />          hydrate as soon as the page loads
+ *   <Chart data={data} client:visible />   hydrate when it scrolls into view
+ *
+ * The SSG HTML wraps each island in a <scratch-island> element carrying its
+ * component name and props (see _build/island.tsx). A page with islands gets an
+ * entry that imports just those components and hydrates them
+ * (_build/entry-islands.tsx); a page without islands ships no JavaScript at all.
+ * Without SSG (e.g. `scratch dev`) the whole page renders on the client as usual.
+ */
+import path from 'path';
+import { createProcessor } from '@mdx-js/mdx';
+import remarkFrontmatter from 'remark-frontmatter';
+import remarkGfm from 'remark-gfm';
+import { visit } from 'unist-util-visit';
+import type { Node } from 'mdast';
+import type { BuildContext, Entry } from './context';
+import type { BuildOptions } from './types';
+import type { JsxElementNode, MdxJsxAttribute } from './plugins/types';
+import { hasDefaultExport } from './plugins/remark-auto-import';
+import { loadMarkdownPlugins, resolveMarkdownPlugins } from './markdown-plugins';
+import { loadProjectConfig } from '../config/project-config';
+import log from '../logger';
+
+export const ISLAND_DIRECTIVES = ['load', 'visible'] as const;
+export type IslandDirective = (typeof ISLAND_DIRECTIVES)[number];
+
+const CLIENT_ATTRIBUTE_PREFIX = 'client:';
+
+/** The islands of one page */
+export interface PageIslands {
+  /** Island component names as written in the MDX, e.g. "Counter" or "Charts.Line" */
+  components: string[];
+  /** Import statements for those components, with absolute paths */
+  imports: string[];
+}
+
+/**
+ * Whether this build uses islands. Islands hydrate the SSG HTML, so they need SSG.
+ */
+export async function islandsEnabled(ctx: BuildContext, options: BuildOptions): Promise<boolean> {
+  if (options.ssg !== true) return false;
+  const config = await loadProjectConfig(ctx.rootDir);
+  return config.build?.islands === true;
+}
+
+export function isClientAttribute(attribute: MdxJsxAttribute): boolean {
+  return attribute.type === 'mdxJsxAttribute' && attribute.name.startsWith(CLIENT_ATTRIBUTE_PREFIX);
+}
+
+/**
+ * The hydration directive of a JSX element (`client:load` → "load"), or null if
+ * it isn't an island. Throws if the directive is misused.
+ */
+export function getIslandDirective(node: JsxElementNode): IslandDirective | null {
+  const attribute = node.attributes?.find(isClientAttribute);
+  if (!attribute || attribute.type !== 'mdxJsxAttribute') return null;
+
+  const directive = attribute.name.slice(CLIENT_ATTRIBUTE_PREFIX.length);
+  if (!(ISLAND_DIRECTIVES as readonly string[]).includes(directive)) {
+    throw new Error(
+      `Unknown directive "${attribute.name}" on <${node.name}>. Use ${ISLAND_DIRECTIVES.map((d) => CLIENT_ATTRIBUTE_PREFIX + d).join(' or ')}.`
+    );
+  }
+  if (!node.name || !/^[A-Z]/.test(node.name)) {
+    throw new Error(`"${attribute.name}" can only be used on components, not on <${node.name ?? ''}>.`);
+  }
+  if (node.children && node.children.length > 0) {
+    throw new Error(
+      `<${node.name} ${attribute.name}> can't have children: islands are hydrated from their props alone.`
+    );
+  }
+  return directive as IslandDirective;
+}
+
+/**
+ * An import statement for `name` equivalent to the MDX import declaring it,
+ * with relative sources made absolute
+ */
+function importFromDeclaration(declaration: any, name: string, mdxDir: string): string | null {
+  const specifier = declaration.specifiers.find((s: any) => s.local.name === name);
+  if (!specifier) return null;
+
+  const source: string = declaration.source.value;
+  const resolved = JSON.stringify(source.startsWith('.') ? path.resolve(mdxDir, source) : source);
+
+  if (specifier.type === 'ImportDefaultSpecifier') return `import ${name} from ${resolved};`;
+  if (specifier.type === 'ImportNamespaceSpecifier') return `import * as ${name} from ${resolved};`;
+  const imported = specifier.imported.type === 'Identifier' ? specifier.imported.name : JSON.stringify(specifier.imported.value);
+  return `import { ${imported} as ${name} } from ${resolved};`;
+}
+
+/**
+ * Find the islands in a page and how to import their components: an import in
+ * the MDX itself, or else the component auto-imported from src/ or pages/.
+ * Returns null for a page without islands.
+ */
+export async function findPageIslands(
+  entry: Entry,
+  componentMap: Record<string, string>,
+  parse: (source: string, filePath: string) => Node
+): Promise<PageIslands | null> {
+  // Plain Markdown has no JSX
+  if (!entry.absPath.endsWith('.mdx')) return null;
+
+  let tree: Node;
+  try {
+    tree = parse(await Bun.file(entry.absPath).text(), entry.absPath);
+  } catch (err: any) {
+    // The same syntax error fails the page's compile, which reports it properly
+    log.debug(`  Could not parse ${entry.relPath} for islands: ${err.message}`);
+    return null;
+  }
+  const components = new Set<string>();
+  const declarations: any[] = [];
+
+  visit(tree, ['mdxJsxFlowElement', 'mdxJsxTextElement', 'mdxjsEsm'], (node: any) => {
+    if (node.type === 'mdxjsEsm') {
+      declarations.push(...(node.data?.estree?.body ?? []).filter((n: any) => n.type === 'ImportDeclaration'));
+      return;
+    }
+    try {
+      if (getIslandDirective(node)) components.add(node.name);
+    } catch {
+      // Misused directives are reported when the page is compiled
+    }
+  });
+
+  if (components.size === 0) return null;
+
+  const mdxDir = path.dirname(entry.absPath);
+  const imports = new Set<string>();
+  for (const component of components) {
+    const name = component.split('.')[0]!;
+    const declared = declarations.map((d) => importFromDeclaration(d, name, mdxDir)).find(Boolean);
+    if (declared) {
+      imports.add(declared);
+    } else if (componentMap[name]) {
+      const file = JSON.stringify(componentMap[name]);
+      imports.add(hasDefaultExport(componentMap[name]) ? `import ${name} from ${file};` : `import { ${name} } from ${file};`);
+    } else {
+      throw new Error(
+        `Island <${component}> in ${entry.relPath} isn't imported, and no component named ${name} was found in src/ or pages/.`
+      );
+    }
+  }
+
+  return { components: [...components], imports: [...imports] };
+}
+
+/**
+ * Find the islands of every page. Pages without islands are left out.
+ */
+export async function findIslands(ctx: BuildContext, entries: Entry[]): Promise<Record<string, PageIslands>> {
+  const componentMap = ctx.options.strict ? {} : await ctx.getComponentMap();
+
+  // Parse with the same syntax extensions as the compile (frontmatter, GFM and
+  // project remark plugins such as remark-math)
+  const extra = await loadMarkdownPlugins(await resolveMarkdownPlugins(ctx));
+  const processor = createProcessor({
+    remarkPlugins: [remarkGfm, remarkFrontmatter, ...extra.remark.before, ...extra.remark.after],
+  });
+  const parse = (source: string, filePath: string) => processor.parse({ value: source, path: filePath }) as Node;
+
+  const islands: Record<string, PageIslands> = {};
+  for (const entry of entries) {
+    const page = await findPageIslands(entry, componentMap, parse);
+    if (page) {
+      islands[entry.name] = page;
+      log.debug(`  ${entry.relPath}: ${page.components.length} island(s)`);
+    }
+  }
+  return islands;
+}
+
+/**
+ * The statements adding a page's components to its islands entry:
+ * components["Charts.Line"] = Charts.Line;
+ */
+export function islandComponentAssignments(components: string[]): string {
+  return components.map((c) => `components[${JSON.stringify(c)}] = ${c};`).join('\n');
+}
@@ -0,0 +1,193 @@
+/**
+ * Broken link checker, run after a build by `scratch build --check-links` and
+ * (as warnings) by `scratch dev`.
+ *
+ * Internal links, images and #fragment anchors in every page are checked
+ * against the build output, so pages, static files and generated files all
+ * count. Fragments are checked against the heading ids the build assigns and
+ * any explicit id attributes in the page's JSX. Relative links and images
+ * resolve from the source file's directory, as image paths do.
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import { createProcessor } from '@mdx-js/mdx';
+import remarkFrontmatter from 'remark-frontmatter';
+import remarkGfm from 'remark-gfm';
+import { visit } from 'unist-util-visit';
+import type { BuildContext, Entry } from './context';
+import type { ErrorSourceLocation } from './errors';
+import { formatWithSourceLocation } from './errors';
+import { entryUrlPath } from './steps/07b-site-metadata';
+import { createSlugger } from './util';
+
+export interface LinkReference {
+  url: string;
+  kind: 'link' | 'image';
+  line?: number;
+  column?: number;
+}
+
+export interface PageLinks {
+  links: LinkReference[];
+  /** Ids a #fragment can point to */
+  anchors: Set<string>;
+}
+
+export interface LinkProblem {
+  message: string;
+  location: ErrorSourceLocation;
+}
+
+// Schemes and protocol-relative URLs point outside the site
+const EXTERNAL_RE = /^(?:[a-z][a-z0-9+.-]*:|\/\/)/i;
+const HTML_ATTR_RE = /<(a|img)\b[^>]*?\s(href|src)\s*=\s*["']([^"']*)["']/gi;
+// GFM footnote ids are generated, not written by the author
+const GENERATED_ANCHOR_RE = /^user-content-/;
+
+function nodeText(node: any): string {
+  if (node.type === 'text' || node.type === 'inlineCode') return node.value;
+  return (node.children ?? []).map(nodeText).join('');
+}
+
+function jsxAttribute(node: any, name: string): string | undefined {
+  const attr = node.attributes?.find((a: any) => a.type === 'mdxJsxAttribute' && a.name === name);
+  return typeof attr?.value === 'string' ? attr.value : undefined;
+}
+
+/**
+ * Find the links, images and anchors in a page's source.
+ */
+export function scanPageLinks(source: string, format: 'md' | 'mdx'): PageLinks {
+  const processor = createProcessor({ format, remarkPlugins: [remarkGfm, remarkFrontmatter] });
+  const tree = processor.parse(source);
+  const links: LinkReference[] = [];
+  const anchors = new Set<string>();
+  const slug = createSlugger();
+
+  const add = (url: string | undefined, kind: LinkReference['kind'], node: any) => {
+    if (url) links.push({ url, kind, line: node.position?.start.line, column: node.position?.start.column });
+  };
+
+  visit(tree, (node: any) => {
+    switch (node.type) {
+      case 'heading':
+        anchors.add(slug(nodeText(node).trim()));
+        break;
+      case 'link':
+      case 'definition':
+        add(node.url, 'link', node);
+        break;
+      case 'image':
+        add(node.url, 'image', node);
+        break;
+      case 'html':
+        for (const match of node.value.matchAll(HTML_ATTR_RE)) {
+          add(match[3], match[1].toLowerCase() === 'img' ? 'image' : 'link', node);
+        }
+        break;
+      case 'mdxJsxFlowElement':
+      case 'mdxJsxTextElement': {
+        const id = jsxAttribute(node, 'id');
+        if (id) anchors.add(id);
+        if (node.name === 'a') add(jsxAttribute(node, 'href'), 'link', node);
+        if (node.name === 'img') add(jsxAttribute(node, 'src'), 'image', node);
+        break;
+      }
+    }
+  });
+
+  return { links, anchors };
+}
+
+/**
+ * Check if a URL path exists in the build output, the way the servers look
+ * files up: exact file, then /index.html, then .html.
+ */
+async function existsInOutput(buildDir: string, urlPath: string): Promise<boolean> {
+  const filePath = path.join(buildDir, urlPath);
+  const candidates = [filePath, path.join(filePath, 'index.html'), filePath.replace(/\/$/, '') + '.html'];
+  for (const candidate of candidates) {
+    const stat = await fs.stat(candidate).catch(() => null);
+    if (stat?.isFile()) return true;
+  }
+  return false;
+}
+
+/**
+ * Check every page's internal links and images against the build output.
+ */
+export async function checkLinks(ctx: BuildContext, entries: Entry[]): Promise<LinkProblem[]> {
+  const pagesByRoute = new Map(entries.map((entry) => [entryUrlPath(entry), entry]));
+  const scans = new Map<Entry, { links: PageLinks; lines: string[] }>();
+  for (const entry of entries) {
+    const source = await Bun.file(entry.absPath).text();
+    const format = path.extname(entry.absPath).toLowerCase() === '.md' ? 'md' : 'mdx';
+    scans.set(entry, { links: scanPageLinks(source, format), lines: source.split('\n') });
+  }
+
+  const problems: LinkProblem[] = [];
+  const sorted = [...entries].sort((a, b) => a.relPath.localeCompare(b.relPath));
+
+  for (const entry of sorted) {
+    const { links, lines } = scans.get(entry)!;
+    const sourceDir = path.posix.dirname('/' + entry.name);
+
+    for (const link of links.links) {
+      if (EXTERNAL_RE.test(link.url)) continue;
+
+      const report = (message: string) =>
+        problems.push({
+          message,
+          location: {
+            filePath: path.relative(ctx.rootDir, entry.absPath),
+            line: link.line,
+            column: link.column,
+            lineText: link.line !== undefined ? lines[link.line - 1]?.trim() : undefined,
+            lineFromSourceFile: true,
+          },
+        });
+
+      const [pathPart = '', rawFragment] = link.url.split('#', 2);
+      let urlPath: string;
+      let fragment: string | undefined;
+      try {
+        urlPath = decodeURIComponent(pathPart.split('?')[0]!);
+        fragment = rawFragment && decodeURIComponent(rawFragment);
+      } catch {
+        report(`Malformed ${link.kind} URL ${link.url}`);
+        continue;
+      }
+
+      // A bare #fragment points into this page
+      let target: Entry | undefined = entry;
+      if (urlPath) {
+        // Relative URLs resolve from the source file's directory, without the
+        // .md/.mdx extension the link rewriting strips. Like browsers, ".."
+        // stops at the site root.
+        const relative = link.kind === 'link' ? urlPath.replace(/\.mdx?$/, '') : urlPath;
+        urlPath = urlPath.startsWith('/') ? path.posix.join('/', urlPath) : path.posix.join(sourceDir, relative);
+        if (!(await existsInOutput(ctx.buildDir, urlPath))) {
+          report(link.kind === 'image' ? `Missing image ${link.url}` : `Broken link to ${link.url}`);
+          continue;
+        }
+        const route = urlPath.replace(/\/index\.html$/, '/').replace(/\/?$/, '/');
+        target = pagesByRoute.get(route);
+      }
+
+      if (fragment && target && !GENERATED_ANCHOR_RE.test(fragment)) {
+        if (!scans.get(target)!.links.anchors.has(fragment)) {
+          report(`Broken anchor in link ${link.url}: no heading or element with id "${fragment}"`);
+        }
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * One message per problem, each with its source location.
+ */
+export function formatLinkProblems(problems: LinkProblem[]): string {
+  return problems.map((problem) => formatWithSourceLocation(problem.message, problem.location)).join('\n\n');
+}
@@ -0,0 +1,120 @@
+/**
+ * Extra remark and rehype plugins configured in .scratchwork/project.toml:
+ *
+ *   [markdown]
+ *   remark_plugins = ["remark-math"]
+ *   rehype_plugins = [{ plugin = "rehype-katex", options = { strict = false } }]
+ *
+ * A plugin is an npm package installed in the project, or a file path relative
+ * to the project root. Plugins run after the built-in plugins unless they set
+ * position = "before":
+ *
+ * - remark "before": after remark-gfm and remark-frontmatter, before auto-imports
+ * - rehype "before": after rehype-raw, before image/link rewriting and Shiki
+ */
+import path from 'path';
+import type { BuildContext } from './context';
+import { loadProjectConfig } from '../config/project-config';
+import { PATHS } from '../config/paths';
+import type { MarkdownPluginEntry } from '../config/types';
+
+export type MarkdownPluginPosition = 'before' | 'after';
+
+export interface ResolvedMarkdownPlugin {
+  /** Specifier as written in project.toml */
+  spec: string;
+  /** Absolute path of the module to import */
+  modulePath: string;
+  options?: Record<string, unknown>;
+  position: MarkdownPluginPosition;
+}
+
+export interface MarkdownPluginConfig {
+  remark: ResolvedMarkdownPlugin[];
+  rehype: ResolvedMarkdownPlugin[];
+}
+
+/** Plugins ready for the unified pipeline, split by insertion point */
+export interface LoadedMarkdownPlugins {
+  remark: Record<MarkdownPluginPosition, any[]>;
+  rehype: Record<MarkdownPluginPosition, any[]>;
+}
+
+/**
+ * Read and resolve the plugins listed in the project config.
+ * Throws if a plugin can't be found, so a typo doesn't silently drop it.
+ */
+export async function resolveMarkdownPlugins(ctx: BuildContext): Promise<MarkdownPluginConfig> {
+  const { markdown } = await loadProjectConfig(ctx.rootDir);
+  return {
+    remark: (markdown?.remark_plugins ?? []).map((entry) => resolvePlugin(ctx, entry, 'remark_plugins')),
+    rehype: (markdown?.rehype_plugins ?? []).map((entry) => resolvePlugin(ctx, entry, 'rehype_plugins')),
+  };
+}
+
+function resolvePlugin(ctx: BuildContext, entry: MarkdownPluginEntry, key: string): ResolvedMarkdownPlugin {
+  const { plugin: spec, options, position = 'after' } = typeof entry === 'string' ? { plugin: entry } : entry;
+
+  if (typeof spec !== 'string' || !spec) {
+    throw new Error(`Invalid entry in ${key} in ${PATHS.projectConfig}: each plugin needs a "plugin" name or path.`);
+  }
+  if (position !== 'before' && position !== 'after') {
+    throw new Error(
+      `Invalid position "${position}" for markdown plugin "${spec}" in ${PATHS.projectConfig}. Use "before" or "after".`
+    );
+  }
+
+  let modulePath: string;
+  try {
+    const isLocal = spec.startsWith('.') || path.isAbsolute(spec);
+    modulePath = Bun.resolveSync(isLocal ? path.resolve(ctx.rootDir, spec) : spec, ctx.rootDir);
+  } catch {
+    throw new Error(
+      `Markdown plugin "${spec}" listed in ${PATHS.projectConfig} was not found.\n` +
+        `  Install it with \`bun add ${spec}\`, or check the path is relative to the project root.`
+    );
+  }
+
+  return { spec, modulePath, options, position };
+}
+
+/**
+ * Fingerprint of the configured plugins for the MDX cache key. Includes each
+ * plugin's module content, so editing a local plugin or upgrading a package
+ * invalidates cached output.
+ */
+export async function markdownPluginsFingerprint(config: MarkdownPluginConfig): Promise<string> {
+  const describe = async (plugin: ResolvedMarkdownPlugin) => ({
+    spec: plugin.spec,
+    options: plugin.options ?? null,
+    position: plugin.position,
+    hash: Bun.hash(await Bun.file(plugin.modulePath).arrayBuffer()).toString(36),
+  });
+  return JSON.stringify({
+    remark: await Promise.all(config.remark.map(describe)),
+    rehype: await Promise.all(config.rehype.map(describe)),
+  });
+}
+
+/**
+ * Import the configured plugins. Called lazily, on the first MDX cache miss.
+ */
+export async function loadMarkdownPlugins(config: MarkdownPluginConfig): Promise<LoadedMarkdownPlugins> {
+  const loaded: LoadedMarkdownPlugins = {
+    remark: { before: [], after: [] },
+    rehype: { before: [], after: [] },
+  };
+
+  for (const type of ['remark', 'rehype'] as const) {
+    for (const plugin of config[type]) {
+      const mod = await import(plugin.modulePath);
+      const fn = mod.default ?? mod;
+      if (typeof fn !== 'function') {
+        throw new Error(`Markdown plugin "${plugin.spec}" does not export a plugin function.`);
+      }
+      loaded[type][plugin.position].push(plugin.options ? [fn, plugin.options] : fn);
+    }
+  }
+
+  return loaded;
+}
@@ -0,0 +1,176 @@
+/**
+ * Site navigation data, importable by PageWrapper and components:
+ *
+ *   import { tree, pages, getCurrentPage, getPrevNext, getBreadcrumbs } from 'scratchwork:navigation';
+ *
+ * The tree follows the pages/ directory. Each node takes its title from the
+ * page's frontmatter (a directory from its index page) and is sorted by the
+ * frontmatter `order` key, then by title. Pages with `nav: false` are left out.
+ */
+import type { Entry } from './context';
+import { entryUrlPath, isNotFoundPage } from './steps/07b-site-metadata';
+
+export const NAVIGATION_MODULE_ID = 'scratchwork:navigation';
+
+export interface NavNode {
+  title: string;
+  /** URL path relative to the site root, e.g. "/docs/intro/" */
+  path: string;
+  /** Link to the page including the base path, or null for a directory without an index page */
+  url: string | null;
+  order: number | null;
+  children: NavNode[];
+}
+
+/**
+ * Turn a file or directory name into a title: "getting-started" → "Getting started"
+ */
+function humanize(segment: string): string {
+  const words = segment.replace(/[-_]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function parseOrder(value: unknown): number | null {
+  const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  return Number.isFinite(n) ? n : null;
+}
+
+function compareNodes(a: NavNode, b: NavNode): number {
+  if (a.order !== b.order) {
+    if (a.order === null) return 1;
+    if (b.order === null) return -1;
+    return a.order - b.order;
+  }
+  return a.title.localeCompare(b.title);
+}
+
+/**
+ * Build the page tree. The root node is the site's index page.
+ */
+export function buildNavigationTree(entries: Entry[], base: string): NavNode {
+  const root: NavNode = { title: 'Home', path: '/', url: null, order: null, children: [] };
+  const dirs = new Map<string, NavNode>([['', root]]);
+
+  const getDir = (dirName: string): NavNode => {
+    let node = dirs.get(dirName);
+    if (!node) {
+      const slash = dirName.lastIndexOf('/');
+      node = {
+        title: humanize(dirName.slice(slash + 1)),
+        path: `/${dirName}/`,
+        url: null,
+        order: null,
+        children: [],
+      };
+      dirs.set(dirName, node);
+      getDir(slash === -1 ? '' : dirName.slice(0, slash)).children.push(node);
+    }
+    return node;
+  };
+
+  for (const entry of entries) {
+    const data = entry.frontmatterData ?? {};
+    if (data.nav === false || isNotFoundPage(entry)) continue;
+
+    const route = entryUrlPath(entry);
+    const segments = entry.name.split('/');
+    const isIndex = segments[segments.length - 1] === 'index';
+
+    if (isIndex) {
+      // An index page gives its directory a link, title and order
+      const node = getDir(segments.slice(0, -1).join('/'));
+      node.url = `${base}${route}`;
+      if (data.title) node.title = String(data.title);
+      node.order = parseOrder(data.order);
+    } else {
+      getDir(segments.slice(0, -1).join('/')).children.push({
+        title: data.title ? String(data.title) : humanize(segments[segments.length - 1]!),
+        path: route,
+        url: `${base}${route}`,
+        order: parseOrder(data.order),
+        children: [],
+      });
+    }
+  }
+
+  const sort = (node: NavNode) => {
+    node.children.sort(compareNodes);
+    node.children.forEach(sort);
+  };
+  sort(root);
+  return root;
+}
+
+/**
+ * Fingerprint of the frontmatter the tree is built from. When it changes,
+ * every page that bundles the navigation module has to be rebuilt.
+ */
+export function navigationFingerprint(entries: Entry[]): string {
+  return JSON.stringify(
+    entries
+      .map((entry) => {
+        const { title, order, nav } = entry.frontmatterData ?? {};
+        return [entry.name, title ?? null, order ?? null, nav ?? null];
+      })
+      .sort((a, b) => String(a[0]).localeCompare(String(b[0])))
+  );
+}
+
+/**
+ * Source of the navigation module. The current page is found from the URL in
+ * the browser, and from the path the server entry sets while rendering.
+ */
+export function generateNavigationModule(tree: NavNode, base: string): string {
+  return `export const tree = ${JSON.stringify(tree)};
+
+const baseDepth = ${JSON.stringify(base.split('/').filter(Boolean).length)};
+const parents = new Map();
+
+function flatten(node, list) {
+  if (node.url !== null) list.push(node);
+  for (const child of node.children) {
+    parents.set(child, node);
+    flatten(child, list);
+  }
+  return list;
+}
+
+/** Pages in tree order */
+export const pages = flatten(tree, []);
+
+// Route of a URL path: drop the site prefix (base path, or the equivalent
+// segments a published site is served under) and any index.html
+function toRoute(pathname) {
+  const segments = pathname.split('/').filter(Boolean).slice(baseDepth);
+  if (segments[segments.length - 1] === 'index.html') segments.pop();
+  return segments.length ? '/' + segments.join('/') + '/' : '/';
+}
+
+function currentPathname() {
+  if (typeof window !== 'undefined') return window.location.pathname;
+  return globalThis.__SCRATCH_PATH__ || '/';
+}
+
+/** The page at pathname (default: the page being viewed) */
+export function getCurrentPage(pathname = currentPathname()) {
+  const route = toRoute(pathname);
+  return pages.find((page) => page.path === route) || null;
+}
+
+/** The pages before and after pathname in tree order */
+export function getPrevNext(pathname = currentPathname()) {
+  const index = pages.indexOf(getCurrentPage(pathname));
+  if (index === -1) return { prev: null, next: null };
+  return { prev: pages[index - 1] || null, next: pages[index + 1] || null };
+}
+
+/** Nodes from the root down to the page at pathname */
+export function getBreadcrumbs(pathname = currentPathname()) {
+  const crumbs = [];
+  for (let node = getCurrentPage(pathname); node; node = parents.get(node)) {
+    crumbs.unshift(node);
+  }
+  return crumbs;
+}
+`;
+}
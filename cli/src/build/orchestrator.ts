@@ -1,6 +1,10 @@
+import fs from 'fs/promises';
+import path from 'path';
 import type { BuildContext } from './context';
-import type { BuildOptions, BuildPipelineState, BuildStep } from './types';
-import { resetPluginState } from './plugins';
+import type { BuildOptions, BuildPipelineState, BuildStep, IncrementalPlan } from './types';
+import { resetPluginState, resetAutoImportState } from './plugins';
+import { insertHooks, loadBuildHooks } from './hooks';
+import { getStepNumber } from './step-order';
 import log from '../logger';
 
 // Import all steps
@@ -8,14 +12,19 @@ import {
   ensureDependenciesStep,
   resetDirectoriesStep,
   createTsxEntriesStep,
+  refreshEntriesStep,
+  dependencyGraphStep,
   tailwindCssStep,
   serverBuildStep,
   renderServerStep,
   clientBuildStep,
   generateHtmlStep,
+  siteMetadataStep,
+  searchIndexStep,
   checkConflictsStep,
   copyStaticStep,
   copyToDistStep,
+  checkLinksStep,
 } from './steps';
 
 /**
@@ -37,13 +46,38 @@ const BUILD_STEPS: (BuildStep | BuildStep[])[] = [
   resetDirectoriesStep,
   checkConflictsStep, // Must run early to catch conflicts before build fails for other reasons
   createTsxEntriesStep,
+  dependencyGraphStep, // Only with incremental: true, for later runIncrementalBuild() calls
   [tailwindCssStep, serverBuildStep], // Tailwind runs in parallel with server build
   [renderServerStep, clientBuildStep], // Independent: render uses server output, client uses MDX cache
   generateHtmlStep, // Includes frontmatter injection (step 08 merged to avoid read-back pass)
+  siteMetadataStep,
+  searchIndexStep,
   copyStaticStep,
   copyToDistStep,
+  checkLinksStep,
 ];
 
+/**
+ * Steps for an incremental rebuild. Directories are not reset, and each step
+ * limits its work to the entries and files in state.incremental.
+ */
+const INCREMENTAL_STEPS: (BuildStep | BuildStep[])[] = [
+  refreshEntriesStep,
+  [tailwindCssStep, clientBuildStep],
+  generateHtmlStep,
+  siteMetadataStep,
+  searchIndexStep,
+  copyStaticStep,
+  copyToDistStep,
+  checkLinksStep,
+];
+
+// Names project hooks may be placed relative to
+const BUILT_IN_STEP_NAMES = [...BUILD_STEPS, ...INCREMENTAL_STEPS].flat().map((s) => s.name);
+
+// Source extensions that are compiled rather than copied from pages/
+const COMPILED_EXTS = ['.md', '.mdx', '.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs'];
+
 /**
  * Create initial pipeline state
  */
@@ -55,14 +89,6 @@ function createInitialState(options: BuildOptions): BuildPipelineState {
   };
 }
 
-/**
- * Extract step number from step name (e.g., "03-foo" -> "03", "05b-bar" -> "05b")
- */
-export function getStepNumber(name: string): string {
-  const match = name.match(/^(\d+[a-z]?)-/);
-  return match ? match[1]! : name;
-}
-
 /**
  * Execute a single step with timing
  */
@@ -86,19 +112,14 @@ async function executeStep(
 }
 
 /**
- * Main build orchestrator - executes steps in sequence with fail-fast behavior
+ * Execute steps in order with fail-fast behavior
  */
-export async function runBuildPipeline(
+async function runSteps(
+  steps: (BuildStep | BuildStep[])[],
   ctx: BuildContext,
-  options: BuildOptions = {}
-): Promise<BuildPipelineState> {
-  const state = createInitialState(options);
-
-  // Reset global state from any previous builds
-  resetPluginState();
-
-  // Execute steps in order
-  for (const stepOrGroup of BUILD_STEPS) {
+  state: BuildPipelineState
+): Promise<void> {
+  for (const stepOrGroup of steps) {
     try {
       // Handle parallel group
       if (Array.isArray(stepOrGroup)) {
@@ -133,6 +154,148 @@ export async function runBuildPipeline(
   for (const [name, ms] of Object.entries(state.timings)) {
     log.debug(`  ${name}: ${ms.toFixed(0)}ms`);
   }
+}
+
+/**
+ * Main build orchestrator - executes steps in sequence with fail-fast behavior
+ */
+export async function runBuildPipeline(
+  ctx: BuildContext,
+  options: BuildOptions = {}
+): Promise<BuildPipelineState> {
+  const state = createInitialState(options);
+
+  // Reset global state from any previous builds
+  resetPluginState();
+
+  const hooks = await loadBuildHooks(ctx);
+  await runSteps(insertHooks(BUILD_STEPS, hooks, BUILT_IN_STEP_NAMES), ctx, state);
+  return state;
+}
+
+/**
+ * Work out what an incremental rebuild has to redo for the changed files.
+ * Returns null when the change can't be handled incrementally (a file was added
+ * or removed, or it isn't in the dependency graph) and a full build is needed.
+ */
+export async function planIncrementalBuild(
+  ctx: BuildContext,
+  previous: BuildPipelineState,
+  changedFiles: string[]
+): Promise<IncrementalPlan | null> {
+  const graph = previous.outputs.dependencyGraph;
+  if (!graph || previous.options.ssg) {
+    return null;
+  }
+
+  const plan: IncrementalPlan = {
+    changedFiles: [],
+    entries: new Set(),
+    css: false,
+    staticFiles: [],
+    previousCssFilename: previous.outputs.cssFilename,
+    staleOutputs: [],
+    outputs: [],
+  };
+  const isInside = (file: string, dir: string) => file.startsWith(dir + path.sep);
+  const componentFiles = new Set(Object.values(await ctx.getComponentMap()));
+  const previousEntries = previous.outputs.entries ?? {};
+  const routeDataFiles = new Set(Object.values(previousEntries).map((entry) => entry.dataFile));
+  // Pages generated from a collection (props but no data file) have its records
+  // baked in, so they're expanded again when a page in a collection changes
+  const collectionRoutes = Object.values(previousEntries).some((entry) => entry.props && !entry.dataFile);
+  const collectionPages = new Set(
+    Object.values(previous.outputs.collections ?? {}).flatMap((members) => members.map((member) => member.id))
+  );
+
+  for (const file of changedFiles) {
+    const stat = await fs.stat(file).catch(() => null);
+    if (!stat) {
+      // A deleted page, dependency or component changes what gets built. Anything
+      // else is noise like an editor's atomic-save temp file (vim's 4913,
+      // JetBrains' *___jb_tmp___), which must not force a full rebuild.
+      if (graph.getAffectedEntries(file) || componentFiles.has(file)) {
+        return null;
+      }
+      continue;
+    }
+    // Directory events may add or remove pages
+    if (!stat.isFile()) {
+      return null;
+    }
+    plan.changedFiles.push(file);
+
+    // Pages generated from route templates are expanded again by a full build
+    // when their data file, template or the template's imports change
+    if (routeDataFiles.has(file)) {
+      return null;
+    }
+
+    const affected = graph.getAffectedEntries(file);
+    if (affected) {
+      if ([...affected].some((name) => previousEntries[name]?.props)) {
+        return null;
+      }
+      if (collectionRoutes && [...affected].some((name) => collectionPages.has(name))) {
+        return null;
+      }
+      for (const name of affected) plan.entries.add(name);
+      // Pages are also copied as source (.mdx → .md)
+      if (isInside(file, ctx.pagesDir)) plan.staticFiles.push(file);
+      continue;
+    }
+
+    const ext = path.extname(file).toLowerCase();
+    if (isInside(file, ctx.staticDir)) {
+      plan.staticFiles.push(file);
+    } else if (ext === '.css' || componentFiles.has(file)) {
+      // Stylesheets and components no page uses can only affect Tailwind output
+      plan.css = true;
+    } else if (isInside(file, ctx.pagesDir) && !COMPILED_EXTS.includes(ext)) {
+      plan.staticFiles.push(file);
+    } else {
+      return null;
+    }
+  }
+
+  // Rebuilt entries get new hashed JS files; the old ones are removed after step 10
+  const jsOutputMap = previous.outputs.jsOutputMap ?? {};
+  for (const name of plan.entries) {
+    const jsPath = jsOutputMap[name];
+    if (jsPath) plan.staleOutputs.push(jsPath, jsPath + '.map');
+  }
+
+  return plan;
+}
+
+/**
+ * Rebuild only what the changed files affect, reusing the outputs of a previous
+ * build made with `incremental: true`. Falls back to a full build when the change
+ * can't be handled incrementally.
+ */
+export async function runIncrementalBuild(
+  ctx: BuildContext,
+  previous: BuildPipelineState,
+  changedFiles: string[]
+): Promise<BuildPipelineState> {
+  const plan = await planIncrementalBuild(ctx, previous, changedFiles);
+  if (!plan) {
+    log.debug('Change requires a full rebuild');
+    return runBuildPipeline(ctx, previous.options);
+  }
+
+  log.debug(`Incremental rebuild of ${plan.entries.size} entries`);
+  const state: BuildPipelineState = {
+    options: previous.options,
+    outputs: { ...previous.outputs },
+    timings: {},
+    incremental: plan,
+  };
+
+  // Only clear preprocessing errors; Shiki and the MDX cache stay warm
+  resetAutoImportState();
 
+  const hooks = (await loadBuildHooks(ctx)).filter((hook) => hook.incremental !== false);
+  await runSteps(insertHooks(INCREMENTAL_STEPS, hooks, BUILT_IN_STEP_NAMES), ctx, state);
   return state;
 }
@@ -0,0 +1,33 @@
+/**
+ * Bun plugin that serves the 'scratchwork:collections' virtual module, built
+ * from the current entries' validated frontmatter.
+ */
+import type { BunPlugin } from 'bun';
+import type { BuildContext } from '../context';
+import { COLLECTIONS_MODULE_ID, collectCollections, generateCollectionsModule } from '../collections';
+
+const NAMESPACE = 'scratchwork-collections';
+
+/**
+ * Create a plugin that resolves imports of the collections module.
+ */
+export function createCollectionsPlugin(ctx: BuildContext): BunPlugin {
+  return {
+    name: 'collections',
+    setup(build) {
+      build.onResolve({ filter: /^scratchwork:collections$/ }, () => ({
+        path: COLLECTIONS_MODULE_ID,
+        namespace: NAMESPACE,
+      }));
+
+      build.onLoad({ filter: /.*/, namespace: NAMESPACE }, async () => {
+        // Problems were already reported when the entries were created
+        const { collections } = await collectCollections(ctx, Object.values(await ctx.getEntries()));
+        return {
+          contents: generateCollectionsModule(collections),
+          loader: 'js' as const,
+        };
+      });
+    },
+  };
+}
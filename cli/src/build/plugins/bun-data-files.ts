@@ -0,0 +1,31 @@
+/**
+ * Bun plugin that turns imported CSV, YAML and TOML files into modules whose
+ * default export is the parsed data. Bun loads JSON itself.
+ */
+import type { BunPlugin } from 'bun';
+import path from 'path';
+import type { BuildContext } from '../context';
+import { generateDataModule, loadDataFile } from '../data-files';
+
+/**
+ * Create a plugin that loads data files as modules.
+ */
+export function createDataFilesPlugin(ctx: BuildContext): BunPlugin {
+  return {
+    name: 'data-files',
+    setup(build) {
+      build.onLoad({ filter: /\.(csv|ya?ml|toml)$/ }, async (args) => {
+        let data: unknown;
+        try {
+          data = await loadDataFile(args.path);
+        } catch (err: any) {
+          throw new Error(`Failed to parse ${path.relative(ctx.rootDir, args.path)}: ${err.message}`);
+        }
+        return {
+          contents: generateDataModule(data),
+          loader: 'js' as const,
+        };
+      });
+    },
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Bun plugins for hot module replacement in `scratch dev`.
+ *
+ * - The register plugin appends React Fast Refresh registration to every page
+ *   component module, and makes the page entries publish their copies of React
+ *   so later update bundles can share them.
+ * - The shared modules plugin is used for update bundles: it replaces React and
+ *   friends with the page's copies, so hooks keep working across the swap.
+ */
+import type { BunPlugin } from 'bun';
+import path from 'path';
+import type { BuildContext } from '../context';
+
+/**
+ * Modules an update bundle takes from the page instead of bundling its own copy.
+ */
+export const HMR_SHARED_MODULES = [
+  'react',
+  'react/jsx-runtime',
+  'react/jsx-dev-runtime',
+  'react-dom',
+  'react-dom/client',
+  '@mdx-js/react',
+];
+
+/**
+ * Check if a module can be swapped in place: MDX pages, or component modules
+ * whose exports are all components (PascalCase names or a default export).
+ * Anything else may have side effects on its importers, so needs a reload.
+ */
+export function isHmrBoundary(filePath: string, content: string): boolean {
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext === '.mdx' || ext === '.md') {
+    return true;
+  }
+  if (ext !== '.tsx' && ext !== '.jsx') {
+    return false;
+  }
+
+  try {
+    const { exports } = new Bun.Transpiler({ loader: ext === '.tsx' ? 'tsx' : 'jsx' }).scan(content);
+    return exports.length > 0 && exports.every((name) => name === 'default' || /^[A-Z]/.test(name));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Signature of the hooks a module calls. Fast Refresh keeps component state
+ * only while this stays the same; adding or removing a hook resets it.
+ */
+export function hooksSignature(content: string): string {
+  return [...content.matchAll(/\b(use[A-Z]\w*)\s*(?:<[^>()]*>)?\s*\(/g)].map((m) => m[1]).join(',');
+}
+
+/**
+ * Code appended to a module to register its exports with the HMR runtime.
+ * The module imports its own namespace, which is complete once its body has run.
+ */
+export function hmrRegistrationCode(ctx: BuildContext, filePath: string, content: string): string {
+  const id = path.relative(ctx.rootDir, filePath);
+  return `
+import * as __scratch_hmr_exports__ from ${JSON.stringify(filePath)};
+if (globalThis.__SCRATCH_HMR__) {
+  for (const [name, value] of Object.entries(__scratch_hmr_exports__)) {
+    globalThis.__SCRATCH_HMR__.register(value, ${JSON.stringify(id)}, name, ${JSON.stringify(hooksSignature(content))});
+  }
+}
+`;
+}
+
+/**
+ * Code appended to page entries to publish the page's shared modules.
+ */
+function hmrProvideCode(): string {
+  const imports = HMR_SHARED_MODULES.map(
+    (spec, i) => `import * as __scratch_shared_${i}__ from ${JSON.stringify(spec)};`
+  );
+  const entries = HMR_SHARED_MODULES.map((spec, i) => `${JSON.stringify(spec)}: __scratch_shared_${i}__`);
+  return `
+${imports.join('\n')}
+globalThis.__SCRATCH_HMR__?.provide({ ${entries.join(', ')} });
+`;
+}
+
+/**
+ * Create a plugin that registers page components with the HMR runtime.
+ * MDX modules are registered by the MDX plugin, which owns their onLoad.
+ */
+export function createHmrRegisterPlugin(ctx: BuildContext): BunPlugin {
+  const isInside = (file: string, dir: string) => file.startsWith(dir + path.sep);
+
+  return {
+    name: 'hmr-register',
+    setup(build) {
+      build.onLoad({ filter: /\.[jt]sx$/ }, async (args) => {
+        const loader = args.path.endsWith('.tsx') ? 'tsx' : 'jsx';
+
+        if (isInside(args.path, ctx.clientSrcDir)) {
+          const content = await Bun.file(args.path).text();
+          return { contents: content + hmrProvideCode(), loader };
+        }
+
+        if (isInside(args.path, ctx.pagesDir) || isInside(args.path, ctx.srcDir)) {
+          const content = await Bun.file(args.path).text();
+          return { contents: content + hmrRegistrationCode(ctx, args.path, content), loader };
+        }
+
+        return undefined;
+      });
+    },
+  };
+}
+
+/**
+ * Create a plugin that resolves shared modules to the copies published by the page.
+ * Export names are read from the project's installed packages.
+ */
+export function createHmrSharedModulesPlugin(nodeModulesDir: string): BunPlugin {
+  const resolveBase = path.dirname(nodeModulesDir);
+
+  return {
+    name: 'hmr-shared-modules',
+    setup(build) {
+      const filter = new RegExp(`^(${HMR_SHARED_MODULES.map((m) => m.replace('/', '\\/')).join('|')})$`);
+
+      build.onResolve({ filter }, (args) => ({ path: args.path, namespace: 'scratch-hmr-shared' }));
+
+      build.onLoad({ filter: /.*/, namespace: 'scratch-hmr-shared' }, async (args) => {
+        let names: string[] = [];
+        try {
+          const mod = await import(await Bun.resolve(args.path, resolveBase));
+          names = Object.keys(mod).filter((name) => name !== 'default' && /^[A-Za-z_$][\w$]*$/.test(name));
+        } catch {
+          // Not loadable here; the default export still works
+        }
+
+        const lines = [
+          `const m = globalThis.__SCRATCH_HMR__.modules[${JSON.stringify(args.path)}];`,
+          'export default m.default ?? m;',
+          ...names.map((name) => `export const ${name} = m.${name};`),
+        ];
+        return { contents: lines.join('\n'), loader: 'js' };
+      });
+    },
+  };
+}
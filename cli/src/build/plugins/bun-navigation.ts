@@ -0,0 +1,34 @@
+/**
+ * Bun plugin that serves the 'scratchwork:navigation' virtual module, built
+ * from the current entries and their frontmatter.
+ */
+import type { BunPlugin } from 'bun';
+import type { BuildContext } from '../context';
+import { normalizeBase } from '../util';
+import { NAVIGATION_MODULE_ID, buildNavigationTree, generateNavigationModule } from '../navigation';
+
+const NAMESPACE = 'scratchwork-navigation';
+
+/**
+ * Create a plugin that resolves imports of the navigation module.
+ */
+export function createNavigationPlugin(ctx: BuildContext): BunPlugin {
+  return {
+    name: 'navigation',
+    setup(build) {
+      build.onResolve({ filter: /^scratchwork:navigation$/ }, () => ({
+        path: NAVIGATION_MODULE_ID,
+        namespace: NAMESPACE,
+      }));
+
+      build.onLoad({ filter: /.*/, namespace: NAMESPACE }, async () => {
+        const base = normalizeBase(ctx.options.base);
+        const entries = Object.values(await ctx.getEntries());
+        return {
+          contents: generateNavigationModule(buildNavigationTree(entries, base), base),
+          loader: 'js' as const,
+        };
+      });
+    },
+  };
+}
@@ -14,6 +14,8 @@ export {
   resetAutoImportState,
 } from './remark-auto-import';
 
+export { createIslandsPlugin } from './remark-islands';
+
 export { createNotProsePlugin } from './remark-not-prose';
 
 export { createFrontmatterPlugin } from './remark-frontmatter';
@@ -21,6 +23,8 @@ export { createFrontmatterPlugin } from './remark-frontmatter';
 // Rehype plugins (operate on HAST - HTML AST)
 export { createFootnotesPlugin } from './rehype-footnotes';
 
+export { createHeadingIdsPlugin, type TocEntry } from './rehype-heading-ids';
+
 export {
   createShikiPlugin,
   detectLanguagesFromFiles,
@@ -36,6 +40,21 @@ export { createLinkPathsPlugin } from './rehype-link-paths';
 // Bun plugins (for Bun.build())
 export { createPackageResolverPlugin } from './bun-package-resolver';
 
+export { createNavigationPlugin } from './bun-navigation';
+
+export { createCollectionsPlugin } from './bun-collections';
+
+export { createDataFilesPlugin } from './bun-data-files';
+
+export {
+  createHmrRegisterPlugin,
+  createHmrSharedModulesPlugin,
+  hmrRegistrationCode,
+  hooksSignature,
+  isHmrBoundary,
+  HMR_SHARED_MODULES,
+} from './bun-hmr';
+
 // Import reset functions for consolidated reset
 import { resetAutoImportState } from './remark-auto-import';
 import { resetShikiState } from './rehype-shiki';
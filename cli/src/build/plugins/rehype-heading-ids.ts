@@ -0,0 +1,91 @@
+/**
+ * Rehype plugin that gives every markdown heading a unique slug id and
+ * exposes the page outline:
+ *
+ * - Adds `export const toc = [{ depth, text, id }, ...]` to the compiled page
+ * - Passes it to PageWrapper as a `toc` prop
+ *
+ * Ids match the template's Heading component; repeated headings get a numeric
+ * suffix. Headings that already have an id keep it. A page that declares its
+ * own `toc` export keeps that instead.
+ */
+import type { Plugin } from 'unified';
+import { visit } from 'unist-util-visit';
+import { parse } from 'acorn';
+import { createSlugger } from '../util';
+
+export interface TocEntry {
+  depth: number;
+  text: string;
+  id: string;
+}
+
+const HEADING_RE = /^h([1-6])$/;
+const TOC_EXPORT_RE = /\bexport\s+(?:const|let|var|function)\s+toc\b/;
+
+function textContent(node: any): string {
+  if (node.type === 'text') return node.value;
+  return (node.children ?? []).map(textContent).join('');
+}
+
+function esm(value: string) {
+  return {
+    type: 'mdxjsEsm',
+    value,
+    data: { estree: parse(value, { ecmaVersion: 'latest', sourceType: 'module' }) },
+  };
+}
+
+/**
+ * Create a rehype plugin that assigns heading ids and exports the outline.
+ */
+export function createHeadingIdsPlugin(): Plugin {
+  return () => {
+    return (tree: any) => {
+      const headings: any[] = [];
+      visit(tree, 'element', (node: any) => {
+        // Screen-reader-only headings (like the footnotes label) aren't part of the outline
+        const hidden = [node.properties?.className ?? []].flat().includes('sr-only');
+        if (HEADING_RE.test(node.tagName) && !hidden) headings.push(node);
+      });
+
+      const existing = headings
+        .map((node) => node.properties?.id)
+        .filter((id): id is string => typeof id === 'string' && id !== '');
+      const slug = createSlugger(existing);
+
+      const toc: TocEntry[] = headings.map((node) => {
+        const text = textContent(node).trim();
+        node.properties ??= {};
+        if (typeof node.properties.id !== 'string' || !node.properties.id) {
+          node.properties.id = slug(text);
+        }
+        return { depth: Number(node.tagName[1]), text, id: node.properties.id };
+      });
+
+      const hasOwnToc = tree.children.some(
+        (child: any) => child.type === 'mdxjsEsm' && TOC_EXPORT_RE.test(child.value)
+      );
+      if (!hasOwnToc) {
+        tree.children.unshift(esm(`export const toc = ${JSON.stringify(toc)};`));
+      }
+
+      const pageWrapper = tree.children.find(
+        (child: any) => child.type === 'mdxJsxFlowElement' && child.name === 'PageWrapper'
+      );
+      const hasTocProp = pageWrapper?.attributes?.some((attr: any) => attr.name === 'toc');
+      if (pageWrapper && !hasTocProp) {
+        pageWrapper.attributes ??= [];
+        pageWrapper.attributes.push({
+          type: 'mdxJsxAttribute',
+          name: 'toc',
+          value: {
+            type: 'mdxJsxAttributeValueExpression',
+            value: 'toc',
+            data: { estree: parse('toc', { ecmaVersion: 'latest', sourceType: 'module' }) },
+          },
+        });
+      }
+    };
+  };
+}
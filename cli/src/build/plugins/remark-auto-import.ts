@@ -62,7 +62,7 @@ export function checkDefaultExport(content: string): boolean {
  * Check if a file has a default export.
  * Results are cached for performance.
  */
-function hasDefaultExport(filePath: string): boolean {
+export function hasDefaultExport(filePath: string): boolean {
   if (defaultExportCache.has(filePath)) {
     return defaultExportCache.get(filePath)!;
   }
@@ -146,6 +146,13 @@ export function getPreprocessingErrors(): Error[] {
   return errors;
 }
 
+/**
+ * Record an error from another preprocessing plugin, reported with the ones above
+ */
+export function addPreprocessingError(err: Error): void {
+  preprocessingErrors.push(err);
+}
+
 /**
  * Reset preprocessing state for a new build
  */
@@ -26,6 +26,8 @@ export function createFrontmatterPlugin(ctx: BuildContext) {
       const realFilePath = realpathSync(file.path);
 
       for (const entry of Object.values(entries)) {
+        // Pages generated from a route template keep the frontmatter filled in from their record
+        if (entry.props) continue;
         try {
           const realEntryPath = realpathSync(entry.absPath);
           if (realFilePath === realEntryPath) {
@@ -0,0 +1,82 @@
+/**
+ * Remark plugin that wraps components marked `client:load` or `client:visible`
+ * in the Island component (see ../islands.ts).
+ *
+ *   <Counter start={3} client:load />
+ *
+ * becomes
+ *
+ *   <__ScratchIsland component="Counter" hydrate="load"><Counter start={3} /></__ScratchIsland>
+ *
+ * The wrapper renders the component inside a <scratch-island> element with its
+ * props serialized, so an islands-mode page can hydrate it on its own. It runs
+ * in every build, so the directive never reaches the component as a prop.
+ */
+import path from 'path';
+import type { Plugin } from 'unified';
+import { SKIP, visit } from 'unist-util-visit';
+import { parse } from 'acorn';
+import type { Node, Root } from 'mdast';
+import log from '../../logger';
+import { getIslandDirective, isClientAttribute } from '../islands';
+import { addPreprocessingError } from './remark-auto-import';
+import type { JsxElementNode } from './types';
+
+const ISLAND_COMPONENT = '__ScratchIsland';
+
+/**
+ * Create the plugin. `islandModulePath` is the module exporting the Island component.
+ */
+export const createIslandsPlugin = (islandModulePath: string): Plugin => {
+  return () => {
+    return (tree: Node, file: any) => {
+      const root = tree as Root;
+      let found = false;
+
+      visit(
+        tree,
+        ['mdxJsxFlowElement', 'mdxJsxTextElement'],
+        (node: Node, index: number | undefined, parent: any) => {
+          const jsxNode = node as JsxElementNode;
+
+          let directive;
+          try {
+            directive = getIslandDirective(jsxNode);
+          } catch (err: any) {
+            const filePath = file?.path ? path.relative(process.cwd(), file.path) : 'unknown';
+            // Collect error since Bun.build() swallows thrown errors from remark plugins
+            addPreprocessingError(new Error(`${err.message} (in ${filePath})`));
+            jsxNode.attributes = jsxNode.attributes?.filter((attr) => !isClientAttribute(attr));
+            return;
+          }
+          if (!directive || index === undefined || !parent) return;
+
+          jsxNode.attributes = jsxNode.attributes?.filter((attr) => !isClientAttribute(attr));
+          parent.children[index] = {
+            type: jsxNode.type,
+            name: ISLAND_COMPONENT,
+            attributes: [
+              { type: 'mdxJsxAttribute', name: 'component', value: jsxNode.name },
+              { type: 'mdxJsxAttribute', name: 'hydrate', value: directive },
+            ],
+            children: [jsxNode],
+          };
+          found = true;
+          log.debug(`  - <${jsxNode.name} client:${directive}> is an island`);
+
+          // The wrapped component has no directive left; carry on after the wrapper
+          return [SKIP, index + 1];
+        }
+      );
+
+      if (!found) return;
+
+      const stmt = `import { Island as ${ISLAND_COMPONENT} } from ${JSON.stringify(islandModulePath)};`;
+      root.children.unshift({
+        type: 'mdxjsEsm',
+        value: stmt,
+        data: { estree: parse(stmt, { ecmaVersion: 'latest', sourceType: 'module' }) },
+      } as any);
+    };
+  };
+};
@@ -0,0 +1,11 @@
+/**
+ * Build step numbering, shared by the orchestrator and project hooks.
+ */
+
+/**
+ * Extract step number from step name (e.g., "03-foo" -> "03", "05b-bar" -> "05b")
+ */
+export function getStepNumber(name: string): string {
+  const match = name.match(/^(\d+[a-z]?)-/);
+  return match ? match[1]! : name;
+}
@@ -13,6 +13,7 @@ export const BUILD_DEPENDENCIES = [
   'tailwindcss',
   '@tailwindcss/cli',
   '@tailwindcss/typography',
+  'react-refresh',
 ];
 
 export const ensureDependenciesStep: BuildStep = {
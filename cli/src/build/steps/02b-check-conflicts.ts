@@ -1,7 +1,8 @@
 import path from 'path';
 import { globSync } from 'fast-glob';
-import type { BuildContext } from '../context';
+import type { BuildContext, Entry } from '../context';
 import type { BuildPipelineState, BuildStep } from '../types';
+import { routeParam } from '../dynamic-routes';
 
 // Extensions to exclude from pages/ static copying (executable code files)
 const CODE_FILE_EXTS = ['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs'];
@@ -91,12 +92,16 @@ function computeMdxOutputPaths(relPath: string): { entryName: string; htmlPath:
 /**
  * Detect path and URL conflicts in the build output.
  *
+ * Pages generated from route templates aren't files in pages/, so they're
+ * passed in once the templates have been expanded.
+ *
  * Pass 1: Source → Dist path conflicts
  * Pass 2: Dist → URL conflicts
  */
 export function detectConflicts(
   pagesDir: string,
-  staticDir: string
+  staticDir: string,
+  generatedPages: Entry[] = []
 ): ConflictResult {
   // Map from dist path (relative to buildDir) to source paths
   const distPathMap = new Map<string, string[]>();
@@ -120,10 +125,18 @@ export function detectConflicts(
 
   for (const relPath of mdxFiles) {
     const { htmlPath, staticPath } = computeMdxOutputPaths(relPath);
-    addMapping(htmlPath, `pages/${relPath} (HTML)`);
+    // A route template only produces HTML through its generated pages
+    if (!routeParam(relPath)) {
+      addMapping(htmlPath, `pages/${relPath} (HTML)`);
+    }
     addMapping(staticPath, `pages/${relPath} (static copy)`);
   }
 
+  for (const page of generatedPages) {
+    const { htmlPath } = computeMdxOutputPaths(page.name + path.extname(page.relPath));
+    addMapping(htmlPath, `pages/${page.relPath} (HTML for ${page.name})`);
+  }
+
   // Process non-code static files from pages/
   const pagesStaticFiles = globSync('**/*', {
     cwd: pagesDir,
@@ -218,17 +231,25 @@ export function formatConflictErrors(result: ConflictResult): string {
   return lines.join('\n');
 }
 
+/**
+ * Throw if any output paths or URLs conflict. Step 03 checks again with the
+ * pages generated from route templates.
+ */
+export function checkConflicts(ctx: BuildContext, generatedPages: Entry[] = []): void {
+  const result = detectConflicts(ctx.pagesDir, ctx.staticDir, generatedPages);
+
+  const hasConflicts = result.pathConflicts.length > 0 || result.urlConflicts.length > 0;
+
+  if (hasConflicts) {
+    throw new Error(formatConflictErrors(result));
+  }
+}
+
 export const checkConflictsStep: BuildStep = {
   name: '02b-check-conflicts',
   description: 'Check for path conflicts',
 
   async execute(ctx: BuildContext, state: BuildPipelineState): Promise<void> {
-    const result = detectConflicts(ctx.pagesDir, ctx.staticDir);
-
-    const hasConflicts = result.pathConflicts.length > 0 || result.urlConflicts.length > 0;
-
-    if (hasConflicts) {
-      throw new Error(formatConflictErrors(result));
-    }
+    checkConflicts(ctx);
   },
 };
@@ -1,12 +1,25 @@
 import path from 'path';
 import matter from 'gray-matter';
 import type { BuildContext, Entry } from '../context';
-import type { BuildPipelineState } from '../types';
+import type { BuildPipelineState, StepOutputs } from '../types';
 import type { BuildStep } from '../types';
 import { render } from '../../util';
 import log from '../../logger';
 import { buildGlobals, generateGlobalsAssignment } from '../globals';
-import { normalizeBase } from '../util';
+import { normalizeBase, toJs } from '../util';
+import { navigationFingerprint } from '../navigation';
+import { findIslands, islandComponentAssignments, islandsEnabled, type PageIslands } from '../islands';
+import { clientRouterEnabled } from '../client-router';
+import {
+  collectCollections,
+  collectionsFingerprint,
+  formatCollectionProblems,
+  writeCollectionsTypes,
+  type CollectionEntry,
+} from '../collections';
+import { expandDynamicRoutes } from '../dynamic-routes';
+import { writeDataFilesTypes } from '../data-files';
+import { checkConflicts } from './02b-check-conflicts';
 
 interface CreateEntriesOptions {
   extension: '.tsx' | '.jsx';
@@ -14,6 +27,8 @@ interface CreateEntriesOptions {
   templatePath: string;
   /** Additional template variables (not converted to relative paths) */
   variables?: Record<string, string>;
+  /** Additional template variables converted to relative import paths */
+  importPathVariables?: Record<string, string>;
 }
 
 interface CreateEntriesContext {
@@ -27,7 +42,7 @@ async function createEntries(
   options: CreateEntriesOptions
 ): Promise<Record<string, string>> {
   const { ctx, entries, markdownComponentsPath } = context;
-  const { extension, outDir, templatePath, variables = {} } = options;
+  const { extension, outDir, templatePath, variables = {}, importPathVariables = {} } = options;
   const entryPts: Record<string, string> = {};
 
   // Create all entry files in parallel (each writes to a unique path)
@@ -36,9 +51,12 @@ async function createEntries(
 
     // variables: regular template vars (not path-converted)
     // importPathVariables: converted to relative paths from the rendered file
-    await render(templatePath, artifactPath, variables, {
+    // propsDeclaration: the record of a page generated from a route template
+    const propsDeclaration = `const props = ${toJs(entry.props ?? {})};`;
+    await render(templatePath, artifactPath, { ...variables, propsDeclaration }, {
       entrySourceMdxImportPath: entry.absPath,
       markdownComponentsPath: markdownComponentsPath,
+      ...importPathVariables,
     });
 
     entryPts[name] = artifactPath;
@@ -48,6 +66,76 @@ async function createEntries(
   return entryPts;
 }
 
+/**
+ * Create client entry files for the pages with islands
+ */
+async function createIslandsEntries(
+  ctx: BuildContext,
+  entries: Record<string, Entry>,
+  islands: Record<string, PageIslands>
+): Promise<Record<string, string>> {
+  const templatePath = await ctx.islandsTsxSrcPath();
+  const entryPts: Record<string, string> = {};
+
+  await Promise.all(Object.entries(islands).map(async ([name, page]) => {
+    const artifactPath = entries[name]!.getArtifactPath('.tsx', ctx.clientSrcDir);
+    await render(templatePath, artifactPath, {
+      islandImports: page.imports.join('\n'),
+      islandComponents: islandComponentAssignments(page.components),
+    });
+    entryPts[name] = artifactPath;
+    log.debug(`  ${path.relative(ctx.rootDir, artifactPath)}`);
+  }));
+
+  return entryPts;
+}
+
+/**
+ * Read each entry's source and store its frontmatter on the entry
+ */
+async function extractFrontmatter(entries: Entry[]): Promise<void> {
+  await Promise.all(
+    entries.map(async (entry) => {
+      const content = await Bun.file(entry.absPath).text();
+      const extracted = matter(content);
+      entry.frontmatterData =
+        extracted.data && Object.keys(extracted.data).length > 0 ? extracted.data : undefined;
+    })
+  );
+}
+
+/**
+ * Validate the frontmatter of pages in collections, throwing with every problem found
+ */
+async function validateCollections(ctx: BuildContext, entries: Entry[]): Promise<Record<string, CollectionEntry[]>> {
+  const { collections, problems } = await collectCollections(ctx, entries);
+  if (problems.length > 0) {
+    const summary = `Found ${problems.length} frontmatter problem${problems.length === 1 ? '' : 's'}`;
+    throw new Error(`${summary}:\n\n${formatCollectionProblems(problems)}`);
+  }
+  await writeCollectionsTypes(ctx);
+  return collections;
+}
+
+/**
+ * Replace the route templates with the pages generated from their records.
+ * `entries` is the context's cached map, so plugins (e.g. navigation) see the
+ * generated pages too.
+ */
+async function addDynamicRoutes(
+  ctx: BuildContext,
+  entries: Record<string, Entry>,
+  collections: Record<string, CollectionEntry[]>
+): Promise<void> {
+  const { templates, pages } = await expandDynamicRoutes(ctx, Object.values(entries), collections);
+  if (templates.length === 0) return;
+
+  checkConflicts(ctx, pages);
+  for (const template of templates) delete entries[template.name];
+  for (const page of pages) entries[page.name] = page;
+  log.debug(`  Generated ${pages.length} pages from ${templates.length} route template(s)`);
+}
+
 export const createTsxEntriesStep: BuildStep = {
   name: '03-create-tsx-entries',
   description: 'Create TSX/JSX entry files from MDX pages',
@@ -66,15 +154,16 @@ export const createTsxEntriesStep: BuildStep = {
     }
 
     // Extract frontmatter from all entries upfront (avoids doing it during MDX compilation)
-    await Promise.all(
-      Object.values(entries).map(async (entry) => {
-        const content = await Bun.file(entry.absPath).text();
-        const extracted = matter(content);
-        if (extracted.data && Object.keys(extracted.data).length > 0) {
-          entry.frontmatterData = extracted.data;
-        }
-      })
-    );
+    await extractFrontmatter(Object.values(entries));
+
+    // Check frontmatter against the collection schemas before compiling anything
+    const collections = await validateCollections(ctx, Object.values(entries));
+
+    // Expand route templates like pages/people/[slug].mdx into their pages
+    await addDynamicRoutes(ctx, entries, collections);
+
+    // Type the data files pages and components can import
+    await writeDataFilesTypes(ctx);
 
     // Check for markdown components directory, fall back to empty components
     let markdownComponentsPath = await ctx.markdownComponentsDir();
@@ -97,12 +186,23 @@ export const createTsxEntriesStep: BuildStep = {
       markdownComponentsPath,
     };
 
-    // Create client TSX entry files (template falls back to embedded if not in project)
-    const clientEntryPts = await createEntries(createEntriesContext, {
-      extension: '.tsx',
-      outDir: ctx.clientSrcDir,
-      templatePath: await ctx.clientTsxSrcPath(),
-    });
+    // Create client TSX entry files (template falls back to embedded if not in project).
+    // In islands mode only pages with islands get one, hydrating just those components.
+    let clientEntryPts: Record<string, string>;
+    let islands: StepOutputs['islands'] = null;
+    if (await islandsEnabled(ctx, state.options)) {
+      islands = await findIslands(ctx, Object.values(entries));
+      clientEntryPts = await createIslandsEntries(ctx, entries, islands);
+    } else {
+      clientEntryPts = await createEntries(createEntriesContext, {
+        extension: '.tsx',
+        outDir: ctx.clientSrcDir,
+        templatePath: await ctx.clientTsxSrcPath(),
+        importPathVariables: { clientRouterPath: await ctx.clientRouterPath() },
+      });
+    }
+
+    const clientRouter = await clientRouterEnabled(ctx, state.options);
 
     // Create server JSX entry files if SSG is enabled
     let serverEntryPts: Record<string, string> | null = null;
@@ -111,6 +211,7 @@ export const createTsxEntriesStep: BuildStep = {
       const globals = buildGlobals({
         base: normalizeBase(ctx.options.base),
         ssg: state.options.ssg,
+        router: clientRouter,
       });
       const globalsAssignment = generateGlobalsAssignment(globals);
 
@@ -125,6 +226,54 @@ export const createTsxEntriesStep: BuildStep = {
     // Store outputs
     state.outputs.entries = entries;
     state.outputs.clientEntryPts = clientEntryPts;
+    state.outputs.islands = islands;
+    state.outputs.clientRouter = clientRouter;
+    state.outputs.collections = collections;
     state.outputs.serverEntryPts = serverEntryPts;
   },
 };
+
+export const refreshEntriesStep: BuildStep = {
+  name: '03-refresh-entries',
+  description: 'Refresh frontmatter and dependencies of changed entries',
+
+  async execute(ctx: BuildContext, state: BuildPipelineState): Promise<void> {
+    const plan = state.incremental!;
+    const entries = state.outputs.entries!;
+    const changed = [...plan.entries].map((name) => entries[name]!);
+
+    // The TSX entry files only import the MDX source, so they don't need rewriting
+    const navigationBefore = navigationFingerprint(Object.values(entries));
+    const collectionsBefore = collectionsFingerprint(state.outputs.collections);
+    await extractFrontmatter(changed);
+    state.outputs.collections = await validateCollections(ctx, Object.values(entries));
+    await writeDataFilesTypes(ctx);
+
+    // A new title or order changes the navigation module, and new frontmatter in
+    // a collection the collections module, both bundled into every page
+    if (
+      navigationFingerprint(Object.values(entries)) !== navigationBefore ||
+      collectionsFingerprint(state.outputs.collections) !== collectionsBefore
+    ) {
+      const jsOutputMap = state.outputs.jsOutputMap ?? {};
+      for (const name of Object.keys(entries)) {
+        if (plan.entries.has(name)) continue;
+        plan.entries.add(name);
+        const jsPath = jsOutputMap[name];
+        if (jsPath) plan.staleOutputs.push(jsPath, jsPath + '.map');
+      }
+    }
+
+    const graph = state.outputs.dependencyGraph;
+    if (graph) {
+      for (const file of plan.changedFiles) {
+        graph.invalidateFile(file);
+      }
+      for (const entry of changed) {
+        await graph.addEntry(entry);
+      }
+    }
+
+    log.debug(`  Refreshed ${changed.length} entries`);
+  },
+};
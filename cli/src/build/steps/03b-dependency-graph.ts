@@ -0,0 +1,36 @@
+import type { BuildContext, Entry } from '../context';
+import type { BuildPipelineState, BuildStep } from '../types';
+import { DependencyGraph } from '../dependency-graph';
+import log from '../../logger';
+
+/**
+ * Map the entries' source files, including the PageWrapper and markdown
+ * components every page uses
+ */
+export async function buildDependencyGraph(ctx: BuildContext, entries: Record<string, Entry>): Promise<DependencyGraph> {
+  const sharedFiles: string[] = [];
+  const pageWrapperPath = await ctx.pageWrapperPath();
+  if (pageWrapperPath) sharedFiles.push(pageWrapperPath);
+  const markdownComponentsPath = await ctx.markdownComponentsDir();
+  if (markdownComponentsPath) sharedFiles.push(markdownComponentsPath);
+
+  return DependencyGraph.build(entries, {
+    componentMap: await ctx.getComponentMap(),
+    sharedFiles,
+  });
+}
+
+export const dependencyGraphStep: BuildStep = {
+  name: '03b-dependency-graph',
+  description: 'Map source files to the entries that use them',
+
+  shouldRun(_ctx: BuildContext, state: BuildPipelineState): boolean {
+    return !!state.options.incremental;
+  },
+
+  async execute(ctx: BuildContext, state: BuildPipelineState): Promise<void> {
+    const entries = state.outputs.entries!;
+    state.outputs.dependencyGraph = await buildDependencyGraph(ctx, entries);
+    log.debug(`  Mapped dependencies for ${Object.keys(entries).length} entries`);
+  },
+};
@@ -10,6 +10,12 @@ export const tailwindCssStep: BuildStep = {
   name: '04-tailwind-css',
   description: 'Build Tailwind CSS',
 
+  shouldRun(_ctx: BuildContext, state: BuildPipelineState): boolean {
+    // Incremental rebuilds rerun Tailwind when a stylesheet or any content changed
+    const plan = state.incremental;
+    return !plan || plan.css || plan.entries.size > 0;
+  },
+
   async execute(ctx: BuildContext, state: BuildPipelineState): Promise<void> {
     const inputCss = await ctx.tailwindCssSrcPath();
 
@@ -97,5 +103,12 @@ export const tailwindCssStep: BuildStep = {
     log.debug(`  Built ${hashedFilename}`);
 
     state.outputs.cssFilename = hashedFilename;
+    const plan = state.incremental;
+    if (plan) {
+      plan.outputs.push(hashedOutputCss);
+      if (plan.previousCssFilename && plan.previousCssFilename !== hashedFilename) {
+        plan.staleOutputs.push(path.join(ctx.clientCompiledDir, plan.previousCssFilename));
+      }
+    }
   },
 };
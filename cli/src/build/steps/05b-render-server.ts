@@ -4,6 +4,8 @@ import type { ErrorSourceLocation } from '../errors';
 import { enrichRenderError, aggregateRenderFailures } from '../errors';
 import type { BuildPipelineState } from '../types';
 import type { BuildStep } from '../types';
+import { normalizeBase } from '../util';
+import { entryUrlPath } from './07b-site-metadata';
 import log from '../../logger';
 
 async function extractRenderElementHint(
@@ -59,6 +61,7 @@ export const renderServerStep: BuildStep = {
   async execute(ctx: BuildContext, state: BuildPipelineState): Promise<void> {
     const entries = state.outputs.entries!;
     const renderedContent = new Map<string, string>();
+    const base = normalizeBase(ctx.options.base);
 
     log.debug(`  Rendering ${Object.keys(entries).length} pages...`);
 
@@ -80,7 +83,8 @@ export const renderServerStep: BuildStep = {
       }
 
       try {
-        const html = await serverModule.render();
+        // The URL lets components (e.g. navigation helpers) find the current page
+        const html = await serverModule.render(`${base}${entryUrlPath(entry)}`);
         renderedContent.set(name, html);
       } catch (err: any) {
         const sourcePath = entry.relPath;
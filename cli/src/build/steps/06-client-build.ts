@@ -9,22 +9,52 @@ export const clientBuildStep: BuildStep = {
   name: '06-client-build',
   description: 'Client Bun.build',
 
+  shouldRun(_ctx: BuildContext, state: BuildPipelineState): boolean {
+    return !state.incremental || state.incremental.entries.size > 0;
+  },
+
   async execute(ctx: BuildContext, state: BuildPipelineState): Promise<void> {
-    const clientEntryPts = state.outputs.clientEntryPts!;
+    const plan = state.incremental;
+
+    // Incremental rebuilds only bundle the changed entries; other pages keep
+    // their previous output files, which are left in place
+    const clientEntryPts = plan
+      ? Object.fromEntries(
+          Object.entries(state.outputs.clientEntryPts!).filter(([name]) => plan.entries.has(name))
+        )
+      : state.outputs.clientEntryPts!;
+
+    // In islands mode, pages without islands have no client entry
+    if (Object.keys(clientEntryPts).length === 0) {
+      log.debug('  No client entries to build');
+      state.outputs.jsOutputMap = plan ? state.outputs.jsOutputMap : {};
+      return;
+    }
 
     const buildConfig = await getBunBuildConfig(ctx, {
       entryPts: Object.values(clientEntryPts),
       outDir: ctx.clientCompiledDir,
       root: ctx.clientSrcDir,
+      hmr: state.options.hmr,
     });
 
+    // Without splitting, an incremental rebuild writes no shared chunks, so the
+    // only files it replaces are the entries' own (see IncrementalPlan.staleOutputs)
+    if (plan) {
+      buildConfig.splitting = false;
+    }
+
     const buildResult = await runBunBuild(buildConfig, 'Client');
 
     log.debug(`  Built ${buildResult.outputs.length} client bundles`);
 
     // Build JS output map and store outputs
     state.outputs.clientBuildResult = buildResult;
-    state.outputs.jsOutputMap = buildJsOutputMap(ctx, clientEntryPts, buildResult);
+    state.outputs.jsOutputMap = {
+      ...(plan ? state.outputs.jsOutputMap : {}),
+      ...buildJsOutputMap(ctx, clientEntryPts, buildResult),
+    };
+    plan?.outputs.push(...buildResult.outputs.map((output) => output.path));
   },
 };
 
@@ -13,11 +13,14 @@ export const generateHtmlStep: BuildStep = {
   description: 'Generate HTML files',
 
   async execute(ctx: BuildContext, state: BuildPipelineState): Promise<void> {
+    const plan = state.incremental;
     const entries = state.outputs.entries!;
     const cssFilename = state.outputs.cssFilename;
     const jsOutputMap = state.outputs.jsOutputMap!;
     const ssg = state.options.ssg ?? false;
     const renderedContent = state.outputs.renderedContent ?? new Map();
+    const islands = state.outputs.islands;
+    const router = state.outputs.clientRouter ?? false;
 
     // Normalize base path for URL prefixing
     const base = normalizeBase(ctx.options.base);
@@ -31,23 +34,34 @@ export const generateHtmlStep: BuildStep = {
       : '';
 
     // Build globals script for client-side access (base path, SSG flag, etc.)
-    const globals = buildGlobals({ base, ssg });
+    const globals = buildGlobals({ base, ssg, router });
     const globalsScript = generateGlobalsScript(globals);
 
+    // Incremental rebuilds only rewrite changed pages, unless the CSS filename
+    // changed and every page needs the new link tag
+    const targets = plan && cssFilename === plan.previousCssFilename
+      ? Object.entries(entries).filter(([name]) => plan.entries.has(name))
+      : Object.entries(entries);
+
     // Generate all HTML files in parallel (each entry writes to a unique path)
-    await Promise.all(Object.entries(entries).map(async ([name, entry]) => {
+    await Promise.all(targets.map(async ([name, entry]) => {
       const htmlPath = entry.getArtifactPath('.html', ctx.clientCompiledDir);
 
-      // Look up the actual hashed JS path from the build output
-      const jsPath = jsOutputMap[name];
-      if (!jsPath) {
-        throw new Error(`No JS output found for entry: ${name}`);
+      // In islands mode, a page without islands ships no JavaScript
+      let scriptTags = '';
+      if (!islands || islands[name]) {
+        // Look up the actual hashed JS path from the build output
+        const jsPath = jsOutputMap[name];
+        if (!jsPath) {
+          throw new Error(`No JS output found for entry: ${name}`);
+        }
+
+        // Calculate relative path from HTML to JS (with base path prefix)
+        const relativeJsPath =
+          base + '/' + path.relative(ctx.clientCompiledDir, jsPath);
+        scriptTags = `<script type="module" src="${relativeJsPath}"></script>`;
       }
 
-      // Calculate relative path from HTML to JS (with base path prefix)
-      const relativeJsPath =
-        base + '/' + path.relative(ctx.clientCompiledDir, jsPath);
-
       // Get SSG content if available
       const ssgContent =
         ssg && renderedContent.has(name) ? renderedContent.get(name)! : '';
@@ -66,17 +80,18 @@ export const generateHtmlStep: BuildStep = {
     <meta name="viewport" content="width=device-width, initial-scale=1.0" />
     ${cssLinkTag}
     ${faviconLinks}
-    ${globalsScript}
+    ${scriptTags && globalsScript}
     ${frontmatterTags}
   </head>
   <body>
     <div id="mdx">${ssgContent}</div>
-    <script type="module" src="${relativeJsPath}"></script>
+    ${scriptTags}
   </body>
 </html>`;
 
       await fs.mkdir(path.dirname(htmlPath), { recursive: true });
       await Bun.write(htmlPath, html);
+      plan?.outputs.push(htmlPath);
       log.debug(`  ${path.relative(ctx.rootDir, htmlPath)}`);
     }));
   },
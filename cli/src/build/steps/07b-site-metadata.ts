@@ -0,0 +1,206 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { BuildContext, Entry } from '../context';
+import type { BuildPipelineState, BuildStep } from '../types';
+import { normalizeBase } from '../util';
+import { escapeHtml } from '../../util';
+import log from '../../logger';
+
+/**
+ * A page as it appears in the sitemap and feed.
+ */
+export interface SitePage {
+  url: string;
+  title?: string;
+  description?: string;
+  author?: string;
+  tags: string[];
+  published?: string;
+  updated?: string;
+}
+
+const e = (val: unknown): string => escapeHtml(String(val));
+
+/**
+ * Format a frontmatter date (YAML dates parse to Date objects) as ISO 8601.
+ * Returns undefined for missing or unparseable values.
+ */
+export function toIsoDate(value: unknown): string | undefined {
+  if (!value) return undefined;
+  const date = value instanceof Date ? value : new Date(String(value));
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Public URL path of an entry: "index" → "/", "posts/hello" → "/posts/hello/"
+ */
+export function entryUrlPath(entry: Entry): string {
+  const route = entry.name === 'index' ? '' : entry.name.replace(/\/index$/, '');
+  return route ? `/${route}/` : '/';
+}
+
+/**
+ * Site URL for absolute links: the index page's `siteUrl`, else the first page that sets one.
+ */
+export function findSiteUrl(entries: Entry[]): string | undefined {
+  const sorted = [...entries].sort((a, b) => (a.name === 'index' ? -1 : b.name === 'index' ? 1 : a.name.localeCompare(b.name)));
+  const siteUrl = sorted.find((entry) => entry.frontmatterData?.siteUrl)?.frontmatterData?.siteUrl;
+  return siteUrl ? String(siteUrl).replace(/\/$/, '') : undefined;
+}
+
+/**
+ * Check if an entry is the site's 404 page (pages/404.mdx), which servers show
+ * for missing URLs rather than at a URL of its own.
+ */
+export function isNotFoundPage(entry: Entry): boolean {
+  return entry.name === '404' || entry.name === '404/index';
+}
+
+/**
+ * Check if a page asks search engines not to index it.
+ */
+export function isNoindex(entry: Entry): boolean {
+  return /\bnoindex\b/i.test(String(entry.frontmatterData?.robots ?? ''));
+}
+
+/**
+ * Generate sitemap.xml
+ */
+export function generateSitemap(pages: SitePage[]): string {
+  const urls = pages.map((page) => {
+    const lastmod = page.updated ?? page.published;
+    return [
+      '  <url>',
+      `    <loc>${e(page.url)}</loc>`,
+      lastmod && `    <lastmod>${lastmod}</lastmod>`,
+      '  </url>',
+    ].filter(Boolean).join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Generate robots.txt, pointing crawlers at the sitemap if there is one.
+ */
+export function generateRobotsTxt(sitemapUrl?: string): string {
+  const lines = ['User-agent: *', 'Allow: /'];
+  if (sitemapUrl) {
+    lines.push('', `Sitemap: ${sitemapUrl}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Generate an Atom feed of dated pages, newest first.
+ */
+export function generateFeed(
+  pages: SitePage[],
+  feed: { url: string; siteUrl: string; title: string }
+): string {
+  const dated = pages
+    .filter((page) => page.published)
+    .sort((a, b) => b.published!.localeCompare(a.published!));
+  const updated = dated.reduce((latest, page) => {
+    const date = page.updated ?? page.published!;
+    return date > latest ? date : latest;
+  }, dated[0]?.published ?? new Date(0).toISOString());
+
+  const items = dated.map((page) => [
+    '  <entry>',
+    `    <title>${e(page.title ?? page.url)}</title>`,
+    `    <link href="${e(page.url)}"/>`,
+    `    <id>${e(page.url)}</id>`,
+    `    <published>${page.published}</published>`,
+    `    <updated>${page.updated ?? page.published}</updated>`,
+    page.description && `    <summary>${e(page.description)}</summary>`,
+    page.author && `    <author><name>${e(page.author)}</name></author>`,
+    ...page.tags.map((tag) => `    <category term="${e(tag)}"/>`),
+    '  </entry>',
+  ].filter(Boolean).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${e(feed.title)}</title>`,
+    `  <link href="${e(feed.siteUrl)}"/>`,
+    `  <link rel="self" href="${e(feed.url)}"/>`,
+    `  <id>${e(feed.siteUrl)}</id>`,
+    `  <updated>${updated}</updated>`,
+    ...items,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Write sitemap.xml, robots.txt and feed.xml. A file the project ships itself
+ * (in public/ or pages/) always wins. The sitemap and feed need absolute URLs,
+ * so they are only written when a page sets `siteUrl` in its frontmatter.
+ */
+export const siteMetadataStep: BuildStep = {
+  name: '07b-site-metadata',
+  description: 'Generate sitemap, robots.txt and feed',
+
+  async execute(ctx: BuildContext, state: BuildPipelineState): Promise<void> {
+    const entries = Object.values(state.outputs.entries!);
+    const base = normalizeBase(ctx.options.base);
+    const siteUrl = findSiteUrl(entries);
+
+    const provided = async (filename: string) =>
+      (await fs.exists(path.join(ctx.staticDir, filename))) ||
+      (await fs.exists(path.join(ctx.pagesDir, filename)));
+
+    const write = async (filename: string, content: string) => {
+      if (await provided(filename)) {
+        log.debug(`  Skipping ${filename}: provided by the project`);
+        return;
+      }
+      const outPath = path.join(ctx.clientCompiledDir, filename);
+      await Bun.write(outPath, content);
+      state.incremental?.outputs.push(outPath);
+      log.debug(`  ${filename}`);
+    };
+
+    if (!siteUrl) {
+      log.debug('  No siteUrl in frontmatter, skipping sitemap.xml and feed.xml');
+      await write('robots.txt', generateRobotsTxt());
+      return;
+    }
+
+    const pages: SitePage[] = entries
+      .filter((entry) => !isNoindex(entry) && !isNotFoundPage(entry))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((entry) => {
+        const data = entry.frontmatterData ?? {};
+        const tags = data.tags ? (Array.isArray(data.tags) ? data.tags : [data.tags]) : [];
+        return {
+          url: `${siteUrl}${base}${entryUrlPath(entry)}`,
+          title: data.title,
+          description: data.description,
+          author: data.author,
+          tags: tags.map(String),
+          published: toIsoDate(data.publishDate),
+          updated: toIsoDate(data.modifiedDate),
+        };
+      });
+
+    const sitemapUrl = `${siteUrl}${base}/sitemap.xml`;
+    await write('sitemap.xml', generateSitemap(pages));
+    await write('robots.txt', generateRobotsTxt(sitemapUrl));
+
+    if (pages.some((page) => page.published)) {
+      const index = entries.find((entry) => entry.name === 'index')?.frontmatterData ?? {};
+      await write('feed.xml', generateFeed(pages, {
+        url: `${siteUrl}${base}/feed.xml`,
+        siteUrl: `${siteUrl}${base}/`,
+        title: String(index.siteName ?? index.title ?? siteUrl),
+      }));
+    }
+  },
+};
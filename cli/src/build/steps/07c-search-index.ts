@@ -0,0 +1,195 @@
+import path from 'path';
+import matter from 'gray-matter';
+import type { BuildContext, Entry } from '../context';
+import type { BuildPipelineState, BuildStep } from '../types';
+import { createSlugger, slugify } from '../util';
+import { entryUrlPath, isNoindex, isNotFoundPage } from './07b-site-metadata';
+import log from '../../logger';
+
+export const SEARCH_INDEX_FILENAME = 'search-index.json';
+
+/**
+ * A heading and the text under it. The text before a page's first heading is
+ * a section with no anchor.
+ */
+export interface SearchSection {
+  /** Heading id to link to (omitted for the page intro) */
+  anchor?: string;
+  heading?: string;
+  text: string;
+}
+
+export interface SearchPage {
+  /** Page URL relative to the site root, e.g. "/posts/hello/" */
+  url: string;
+  title: string;
+  tags: string[];
+  sections: SearchSection[];
+}
+
+export interface SearchIndex {
+  pages: SearchPage[];
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, code: string) => {
+    if (code[0] === '#') {
+      const n = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(n) ? match : String.fromCodePoint(n);
+    }
+    return ENTITIES[code.toLowerCase()] ?? match;
+  });
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// Tags that separate words; inline tags are dropped without adding a space
+const BLOCK_TAG_RE =
+  /<\/?(?:p|div|br|hr|li|ul|ol|dl|dt|dd|h[1-6]|pre|blockquote|table|tr|td|th|section|article|header|footer|nav|aside|figure|figcaption)\b[^>]*>/gi;
+
+function htmlToText(html: string): string {
+  return collapse(decodeEntities(html.replace(BLOCK_TAG_RE, ' ').replace(/<[^>]*>/g, '')));
+}
+
+/**
+ * Split SSG-rendered HTML into sections at each h2/h3. Anchors come from the
+ * rendered heading ids, so they match whatever the Heading component produced.
+ */
+export function sectionsFromHtml(html: string): SearchSection[] {
+  const cleaned = html
+    .replace(/<(script|style|template|button)\b[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<a\b[^>]*class="[^"]*\bheading-anchor\b[^"]*"[^>]*>[\s\S]*?<\/a>/gi, '');
+
+  const sections: SearchSection[] = [];
+  const headingRe = /<(h[23])\b([^>]*)>([\s\S]*?)<\/\1>/gi;
+  let current: SearchSection = { text: '' };
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = headingRe.exec(cleaned))) {
+    current.text = htmlToText(cleaned.slice(last, match.index));
+    sections.push(current);
+    const heading = htmlToText(match[3]!);
+    const id = match[2]!.match(/\bid="([^"]*)"/)?.[1];
+    current = { anchor: id ? decodeEntities(id) : slugify(heading), heading, text: '' };
+    last = headingRe.lastIndex;
+  }
+  current.text = htmlToText(cleaned.slice(last));
+  sections.push(current);
+
+  return sections.filter((s) => s.heading || s.text);
+}
+
+function markdownToText(markdown: string): string {
+  return collapse(
+    markdown
+      .replace(/^```.*$/gm, ' ')
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/<[^>]*>/g, ' ')
+      .replace(/\{[^{}]*\}/g, ' ')
+      .replace(/^\s{0,3}(?:#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+      .replace(/[*_~`]/g, '')
+  );
+}
+
+/**
+ * Split MDX source into sections at each "##" and "###" heading. Used when
+ * pages aren't pre-rendered (e.g. `scratch dev`); anchors are the same ids
+ * the build assigns to headings.
+ */
+export function sectionsFromMarkdown(source: string): SearchSection[] {
+  const body = matter(source).content
+    .replace(/^(?:import|export)\s.*$/gm, '');
+
+  const sections: SearchSection[] = [];
+  let current: SearchSection = { text: '' };
+  let lines: string[] = [];
+  let inFence = false;
+  const slug = createSlugger();
+
+  const flush = () => {
+    current.text = markdownToText(lines.join('\n'));
+    sections.push(current);
+  };
+
+  for (const line of body.split('\n')) {
+    if (/^\s*```/.test(line)) {
+      inFence = !inFence;
+    }
+    const heading = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      // Every heading takes an id, but only h2/h3 start a section
+      const text = markdownToText(heading[2]!);
+      const anchor = slug(text);
+      if (heading[1]!.length === 2 || heading[1]!.length === 3) {
+        flush();
+        current = { anchor, heading: text, text: '' };
+        lines = [];
+        continue;
+      }
+    }
+    lines.push(line);
+  }
+  flush();
+
+  return sections.filter((s) => s.heading || s.text);
+}
+
+/**
+ * Index entry for a page: its title and tags from frontmatter, plus its text by section.
+ */
+export function searchPageFromEntry(entry: Entry, sections: SearchSection[]): SearchPage {
+  const data = entry.frontmatterData ?? {};
+  const tags = data.tags ? (Array.isArray(data.tags) ? data.tags : [data.tags]) : [];
+  return {
+    url: entryUrlPath(entry),
+    title: String(data.title ?? sections.find((s) => s.heading)?.heading ?? entry.name),
+    tags: tags.map(String),
+    sections,
+  };
+}
+
+/**
+ * Write search-index.json for the template's <Search /> component. Pages
+ * opt out with `search: false` in frontmatter; pages hidden from search engines
+ * with `robots: noindex` are left out too, as in the sitemap. URLs in the index are relative
+ * to the site root; the component resolves them against the URL it is served
+ * from, so the index works under --base and on the content domain.
+ */
+export const searchIndexStep: BuildStep = {
+  name: '07c-search-index',
+  description: 'Generate search index',
+
+  async execute(ctx: BuildContext, state: BuildPipelineState): Promise<void> {
+    const entries = Object.values(state.outputs.entries!)
+      .filter((entry) => entry.frontmatterData?.search !== false && !isNoindex(entry) && !isNotFoundPage(entry))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    const renderedContent = state.outputs.renderedContent;
+
+    const pages = await Promise.all(entries.map(async (entry) => {
+      const html = renderedContent?.get(entry.name);
+      const sections = html !== undefined
+        ? sectionsFromHtml(html)
+        : sectionsFromMarkdown(await Bun.file(entry.absPath).text());
+      return searchPageFromEntry(entry, sections);
+    }));
+
+    const index: SearchIndex = { pages };
+    const outPath = path.join(ctx.clientCompiledDir, SEARCH_INDEX_FILENAME);
+    await Bun.write(outPath, JSON.stringify(index));
+    state.incremental?.outputs.push(outPath);
+    log.debug(`  ${SEARCH_INDEX_FILENAME} (${pages.length} pages)`);
+  },
+};
@@ -2,17 +2,44 @@ import fs from 'fs/promises';
 import path from 'path';
 import type { BuildContext } from '../context';
 import type { BuildPipelineState, BuildStep } from '../types';
+import { DATA_MODULE_EXTS } from '../data-files';
+import type { DependencyGraph } from '../dependency-graph';
+import { buildDependencyGraph } from './03b-dependency-graph';
 import log from '../../logger';
 
 // Extensions to exclude from pages/ static copying (executable code files)
 const CODE_FILE_EXTS = ['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs'];
 
+/**
+ * Whether a file in pages/ should be copied. YAML, CSV and TOML files a page
+ * or component imports are bundled into it, so they aren't copied. A full build
+ * without a dependency graph maps the imports when the first such file turns up.
+ */
+function createDataFileFilter(
+  ctx: BuildContext,
+  state: BuildPipelineState
+): (relPath: string) => Promise<boolean> {
+  let graph: Promise<DependencyGraph> | undefined;
+  return async (relPath) => {
+    if (!DATA_MODULE_EXTS.includes(path.extname(relPath).toLowerCase())) return true;
+    graph ??= state.outputs.dependencyGraph
+      ? Promise.resolve(state.outputs.dependencyGraph)
+      : buildDependencyGraph(ctx, state.outputs.entries ?? {});
+    return !(await graph).getAffectedEntries(path.join(ctx.pagesDir, relPath));
+  };
+}
+
 /**
  * Copy static files from pages/ directory to build directory.
  * - Copies everything EXCEPT .js, .jsx, .ts, .tsx, .mjs, .cjs
+ * - Skips YAML, CSV and TOML files that pages import
  * - Renames .mdx files to .md when copying
  */
-async function copyPagesStatic(pagesDir: string, buildDir: string): Promise<void> {
+async function copyPagesStatic(
+  pagesDir: string,
+  buildDir: string,
+  shouldCopy: (relPath: string) => Promise<boolean>
+): Promise<void> {
   // Resolve symlinks to avoid issues when pagesDir is a symlink (e.g., in view mode)
   const realPagesDir = await fs.realpath(pagesDir);
 
@@ -35,6 +62,11 @@ async function copyPagesStatic(pagesDir: string, buildDir: string): Promise<void
           continue;
         }
 
+        // Skip data files bundled into the pages that import them
+        if (!(await shouldCopy(path.relative(realPagesDir, srcPath)))) {
+          continue;
+        }
+
         // Rename .mdx to .md
         if (ext === '.mdx') {
           const newName = entry.name.slice(0, -4) + '.md';
@@ -55,13 +87,52 @@ async function copyPagesStatic(pagesDir: string, buildDir: string): Promise<void
   }
 }
 
+/**
+ * Copy individual changed files from pages/ or public/ to the build directory,
+ * applying the same rules as the full copy.
+ */
+async function copyChangedFiles(
+  ctx: BuildContext,
+  files: string[],
+  shouldCopy: (relPath: string) => Promise<boolean>
+): Promise<void> {
+  for (const file of files) {
+    let relPath: string;
+    if (file.startsWith(ctx.staticDir + path.sep)) {
+      relPath = path.relative(ctx.staticDir, file);
+    } else {
+      relPath = path.relative(ctx.pagesDir, file);
+      const ext = path.extname(file).toLowerCase();
+      if (CODE_FILE_EXTS.includes(ext)) continue;
+      if (!(await shouldCopy(relPath))) continue;
+      if (ext === '.mdx') relPath = relPath.slice(0, -4) + '.md';
+    }
+
+    const destPath = path.join(ctx.buildDir, relPath);
+    await fs.mkdir(path.dirname(destPath), { recursive: true });
+    await fs.copyFile(file, destPath);
+    log.debug(`  ${relPath}`);
+  }
+}
+
 export const copyStaticStep: BuildStep = {
   name: '09-copy-static',
   description: 'Copy static assets',
 
+  shouldRun(_ctx: BuildContext, state: BuildPipelineState): boolean {
+    return !state.incremental || state.incremental.staticFiles.length > 0;
+  },
+
   async execute(ctx: BuildContext, state: BuildPipelineState): Promise<void> {
+    const shouldCopy = createDataFileFilter(ctx, state);
+
+    if (state.incremental) {
+      await copyChangedFiles(ctx, state.incremental.staticFiles, shouldCopy);
+      return;
+    }
+
     // Copy pages/ static assets (with .mdx → .md rename)
-    await copyPagesStatic(ctx.pagesDir, ctx.buildDir);
+    await copyPagesStatic(ctx.pagesDir, ctx.buildDir, shouldCopy);
     log.debug('  Copied pages/ static assets');
 
     // Copy public/ static assets
@@ -34,6 +34,27 @@ export const copyToDistStep: BuildStep = {
   description: 'Copy compiled assets to dist/',
 
   async execute(ctx: BuildContext, state: BuildPipelineState): Promise<void> {
+    // Incremental rebuilds copy only the files they wrote
+    const plan = state.incremental;
+    if (plan) {
+      await Promise.all(plan.outputs.map(async (file) => {
+        const dest = path.join(ctx.buildDir, path.relative(ctx.clientCompiledDir, file));
+        await fs.mkdir(path.dirname(dest), { recursive: true });
+        await fs.copyFile(file, dest);
+      }));
+      log.debug(`  Copied ${plan.outputs.length} changed files to ${ctx.buildDir}`);
+
+      // Remove the files this rebuild replaced (unless rewritten with the same hash)
+      const written = new Set(plan.outputs);
+      const stale = plan.staleOutputs.filter((file) => !written.has(file));
+      await Promise.all(stale.flatMap((file) => [
+        fs.rm(file, { force: true }),
+        fs.rm(path.join(ctx.buildDir, path.relative(ctx.clientCompiledDir, file)), { force: true }),
+      ]));
+      log.debug(`  Removed ${stale.length} stale files`);
+      return;
+    }
+
     await fs.cp(ctx.clientCompiledDir, ctx.buildDir, { recursive: true });
 
     // Collect stats on the final output
@@ -0,0 +1,37 @@
+import type { BuildContext } from '../context';
+import type { BuildPipelineState, BuildStep } from '../types';
+import { checkLinks, formatLinkProblems } from '../link-checker';
+import log from '../../logger';
+
+export const checkLinksStep: BuildStep = {
+  name: '11-check-links',
+  description: 'Check internal links and images',
+
+  shouldRun(_ctx: BuildContext, state: BuildPipelineState): boolean {
+    return !!state.options.checkLinks;
+  },
+
+  async execute(ctx: BuildContext, state: BuildPipelineState): Promise<void> {
+    const problems = await checkLinks(ctx, Object.values(state.outputs.entries!));
+    const previous = state.outputs.linkProblems;
+    state.outputs.linkProblems = problems;
+
+    if (problems.length === 0) {
+      log.debug('  No broken links');
+      return;
+    }
+
+    const summary = `Found ${problems.length} broken link${problems.length === 1 ? '' : 's'}`;
+    if (state.options.checkLinks !== 'warn') {
+      throw new Error(`${summary}:\n\n${formatLinkProblems(problems)}`);
+    }
+
+    // In warning mode, a rebuild only repeats problems that are new
+    const key = (p: (typeof problems)[number]) => `${p.location.filePath}:${p.location.line}:${p.message}`;
+    const seen = new Set(previous?.map(key));
+    const fresh = state.incremental ? problems.filter((p) => !seen.has(key(p))) : problems;
+    if (fresh.length > 0) {
+      log.error(`Warning: ${summary}:\n\n${formatLinkProblems(fresh)}\n`);
+    }
+  },
+};
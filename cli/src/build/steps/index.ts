@@ -1,12 +1,16 @@
 export { ensureDependenciesStep } from './01-ensure-dependencies';
 export { resetDirectoriesStep } from './02-reset-directories';
 export { checkConflictsStep } from './02b-check-conflicts';
-export { createTsxEntriesStep } from './03-create-tsx-entries';
+export { createTsxEntriesStep, refreshEntriesStep } from './03-create-tsx-entries';
+export { dependencyGraphStep } from './03b-dependency-graph';
 export { tailwindCssStep } from './04-tailwind-css';
 export { serverBuildStep } from './05-server-build';
 export { renderServerStep } from './05b-render-server';
 export { clientBuildStep } from './06-client-build';
 export { generateHtmlStep } from './07-generate-html';
+export { siteMetadataStep } from './07b-site-metadata';
+export { searchIndexStep } from './07c-search-index';
 export { injectFrontmatterStep } from './08-inject-frontmatter';
 export { copyStaticStep } from './09-copy-static';
 export { copyToDistStep } from './10-copy-to-dist';
+export { checkLinksStep } from './11-check-links';
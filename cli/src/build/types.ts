@@ -1,10 +1,20 @@
 import type { BuildContext, Entry } from './context';
+import type { DependencyGraph } from './dependency-graph';
+import type { LinkProblem } from './link-checker';
+import type { PageIslands } from './islands';
+import type { CollectionEntry } from './collections';
 
 /**
  * Options passed to the build command
  */
 export interface BuildOptions {
   ssg?: boolean;
+  /** Build a dependency graph so later rebuilds can be incremental (dev mode) */
+  incremental?: boolean;
+  /** Register components with React Fast Refresh for hot updates (dev mode) */
+  hmr?: boolean;
+  /** Check internal links and images after building: true fails the build, 'warn' logs them */
+  checkLinks?: boolean | 'warn';
 }
 
 /**
@@ -18,6 +28,12 @@ export type BunBuildResult = Awaited<ReturnType<typeof Bun.build>>;
 export interface StepOutputs {
   entries?: Record<string, Entry>;
   clientEntryPts?: Record<string, string>;
+  /** Islands by entry name when building in islands mode (pages without islands are absent), else null */
+  islands?: Record<string, PageIslands> | null;
+  /** Whether pages use the client router */
+  clientRouter?: boolean;
+  /** Validated collection entries by collection name */
+  collections?: Record<string, CollectionEntry[]>;
   serverEntryPts?: Record<string, string> | null;
   cssFilename?: string | null;
   serverBuildResult?: BunBuildResult | null;
@@ -25,6 +41,34 @@ export interface StepOutputs {
   jsOutputMap?: Record<string, string>;
   renderedContent?: Map<string, string>;
   buildStats?: { fileCount: number; totalBytes: number };
+  dependencyGraph?: DependencyGraph;
+  linkProblems?: LinkProblem[];
+}
+
+/**
+ * What an incremental rebuild needs to redo, derived from the changed files
+ */
+export interface IncrementalPlan {
+  /** Absolute paths reported by the file watcher that still exist */
+  changedFiles: string[];
+
+  /** Entries whose MDX or dependencies changed and must be recompiled */
+  entries: Set<string>;
+
+  /** A stylesheet changed, so Tailwind must run even if no entry changed */
+  css: boolean;
+
+  /** Changed files under pages/ or public/ that are copied as-is */
+  staticFiles: string[];
+
+  /** CSS filename from the previous build, to detect when every page's link tag changes */
+  previousCssFilename?: string | null;
+
+  /** Previous outputs in clientCompiledDir replaced by this rebuild, removed by step 10 */
+  staleOutputs: string[];
+
+  /** Files written to clientCompiledDir during this rebuild, copied to dist by step 10 */
+  outputs: string[];
 }
 
 /**
@@ -45,6 +89,9 @@ export interface BuildPipelineState {
 
   /** The step that failed, if any */
   failedStep?: string;
+
+  /** Set when rebuilding incrementally; steps limit their work to this plan */
+  incremental?: IncrementalPlan;
 }
 
 /**
@@ -1,6 +1,7 @@
 /**
  * Shared utilities for the build system.
  */
+import fs from 'fs/promises';
 
 /**
  * Check if a path is relative (not absolute, not a URL, not a special protocol).
@@ -39,3 +40,63 @@ export function isInternalAbsolutePath(path: string): boolean {
   if (path.startsWith('//')) return false;
   return true;
 }
+
+/**
+ * Heading anchor slug. Must match slugify() in the template's
+ * src/markdown/Heading.tsx so generated links land on rendered ids.
+ */
+export function slugify(text: string): string {
+  return text
+    .toString()
+    .toLowerCase()
+    .trim()
+    .replace(/\s+/g, '-')
+    .replace(/[^\w\-]+/g, '')
+    .replace(/\-\-+/g, '-');
+}
+
+/**
+ * Slugify that keeps ids unique within a page: a repeated heading gets a
+ * numeric suffix ("setup", "setup-1", "setup-2"). Ids in `reserved` are
+ * already taken.
+ */
+export function createSlugger(reserved: Iterable<string> = []): (text: string) => string {
+  const used = new Set(reserved);
+  return (text) => {
+    const slug = slugify(text);
+    let unique = slug;
+    for (let n = 1; used.has(unique); n++) {
+      unique = `${slug}-${n}`;
+    }
+    used.add(unique);
+    return unique;
+  };
+}
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * A value as a JavaScript expression for generated modules. Dates (e.g. from
+ * YAML or z.coerce.date()) stay Dates.
+ */
+export function toJs(value: unknown): string {
+  if (value instanceof Date) return `new Date(${JSON.stringify(value.toISOString())})`;
+  if (Array.isArray(value)) return `[${value.map(toJs).join(', ')}]`;
+  if (isPlainObject(value)) {
+    const props = Object.entries(value).filter(([, v]) => v !== undefined);
+    return `{${props.map(([k, v]) => `${JSON.stringify(k)}: ${toJs(v)}`).join(', ')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+/**
+ * Import a module as it currently is on disk. Bun caches modules by specifier,
+ * so the file's modification time goes in the query to pick up edits made
+ * while `scratch dev` runs.
+ */
+export async function importFresh(modulePath: string) {
+  const { mtimeMs } = await fs.stat(modulePath);
+  return import(`${modulePath}?t=${mtimeMs}`);
+}
@@ -10,12 +10,25 @@ import type {
   ProjectListResponse,
   ProjectResponse,
   DeployListResponse,
+  DeployPromoteResponse,
   DeployCreateResponse,
   DeployCreateParams,
+  DeployCheckResponse,
+  DeployManifest,
   ShareTokenDuration,
   ShareTokenCreateResponse,
   ShareTokenListResponse,
   ShareTokenResponse,
+  DomainListResponse,
+  DomainResponse,
+  TeamListResponse,
+  TeamResponse,
+  TeamMemberListResponse,
+  TeamMemberResponse,
+  TeamRole,
+  ProjectMemberListResponse,
+  ProjectMemberResponse,
+  ProjectMemberRole,
 } from '@scratchwork/shared/api'
 
 // Re-export errors for consumers
@@ -43,16 +56,33 @@ export async function getCurrentUser(token: string, options: GetCurrentUserOptio
 // Projects
 // =============================================================================
 
+/**
+ * API path for a project. Team projects are named "team/project", and other
+ * users' projects the user is a member of "owner@email/project"; the team or
+ * owner goes in the query string.
+ */
+function projectPath(name: string, suffix = ''): string {
+  const slash = name.indexOf('/')
+  if (slash === -1) {
+    return `/api/projects/${encodeURIComponent(name)}${suffix}`
+  }
+  const scope = name.slice(0, slash)
+  const project = name.slice(slash + 1)
+  // Team slugs can't contain @
+  const param = scope.includes('@') ? 'owner' : 'team'
+  return `/api/projects/${encodeURIComponent(project)}${suffix}?${param}=${encodeURIComponent(scope)}`
+}
+
 export async function listProjects(token: string, serverUrl?: string): Promise<ProjectListResponse> {
   return request<ProjectListResponse>('/api/projects', { token, serverUrl })
 }
 
 export async function getProject(token: string, name: string, serverUrl?: string): Promise<ProjectResponse> {
-  return request<ProjectResponse>(`/api/projects/${encodeURIComponent(name)}`, { token, serverUrl })
+  return request<ProjectResponse>(projectPath(name), { token, serverUrl })
 }
 
 export async function deleteProject(token: string, name: string, serverUrl?: string): Promise<void> {
-  return request<void>(`/api/projects/${encodeURIComponent(name)}`, {
+  return request<void>(projectPath(name), {
     method: 'DELETE',
     token,
     serverUrl,
@@ -64,15 +94,48 @@ export async function deleteProject(token: string, name: string, serverUrl?: str
 // =============================================================================
 
 export async function listDeploys(token: string, name: string, serverUrl?: string): Promise<DeployListResponse> {
-  return request<DeployListResponse>(`/api/projects/${encodeURIComponent(name)}/deploys`, { token, serverUrl })
+  return request<DeployListResponse>(projectPath(name, '/deploys'), { token, serverUrl })
+}
+
+export async function promoteDeploy(
+  token: string,
+  name: string,
+  version: number,
+  serverUrl?: string
+): Promise<DeployPromoteResponse> {
+  return request<DeployPromoteResponse>(projectPath(name, `/deploys/${version}/promote`), {
+    method: 'POST',
+    token,
+    serverUrl,
+  })
+}
+
+export async function checkDeploy(
+  token: string,
+  params: Pick<DeployCreateParams, 'name' | 'project_id' | 'team' | 'owner'>,
+  manifest: DeployManifest,
+  serverUrl?: string
+): Promise<DeployCheckResponse> {
+  return request<DeployCheckResponse>(`/api/projects/${encodeURIComponent(params.name)}/deploy/check`, {
+    method: 'POST',
+    body: JSON.stringify({ manifest, project_id: params.project_id, team: params.team, owner: params.owner }),
+    token,
+    serverUrl,
+  })
 }
 
 const DEPLOY_TIMEOUT = 120000 // 2 minutes for file uploads
 
+export interface DeployUpload {
+  manifest: DeployManifest
+  /** Zip of the files the server is missing, each named by its hash */
+  blobs: ArrayBuffer | null
+}
+
 export async function deploy(
   token: string,
   params: DeployCreateParams,
-  zipData: ArrayBuffer,
+  upload: DeployUpload,
   serverUrl?: string
 ): Promise<DeployCreateResponse> {
   // Build query string
@@ -83,17 +146,34 @@ export async function deploy(
   if (params.project_id) {
     queryParams.set('project_id', params.project_id)
   }
+  if (params.team) {
+    queryParams.set('team', params.team)
+  }
+  if (params.owner) {
+    queryParams.set('owner', params.owner)
+  }
   if (params.www) {
     queryParams.set('www', 'true')
   }
+  if (params.preview) {
+    queryParams.set('preview', 'true')
+  }
+  if (params.version !== undefined) {
+    queryParams.set('version', String(params.version))
+  }
   const query = queryParams.toString() ? `?${queryParams.toString()}` : ''
 
+  const body = new FormData()
+  body.set('manifest', JSON.stringify(upload.manifest))
+  if (upload.blobs) {
+    body.set('blobs', new Blob([upload.blobs], { type: 'application/zip' }), 'blobs.zip')
+  }
+
   return request<DeployCreateResponse>(
     `/api/projects/${encodeURIComponent(params.name)}/deploy${query}`,
     {
       method: 'POST',
-      body: zipData,
-      contentType: 'application/zip',
+      body,
       token,
       serverUrl,
       timeout: DEPLOY_TIMEOUT,
@@ -112,15 +192,12 @@ export async function createShareToken(
   duration: ShareTokenDuration,
   serverUrl?: string
 ): Promise<ShareTokenCreateResponse> {
-  return request<ShareTokenCreateResponse>(
-    `/api/projects/${encodeURIComponent(projectName)}/share-tokens`,
-    {
-      method: 'POST',
-      body: JSON.stringify({ name, duration }),
-      token,
-      serverUrl,
-    }
-  )
+  return request<ShareTokenCreateResponse>(projectPath(projectName, '/share-tokens'), {
+    method: 'POST',
+    body: JSON.stringify({ name, duration }),
+    token,
+    serverUrl,
+  })
 }
 
 export async function listShareTokens(
@@ -128,10 +205,7 @@ export async function listShareTokens(
   projectName: string,
   serverUrl?: string
 ): Promise<ShareTokenListResponse> {
-  return request<ShareTokenListResponse>(
-    `/api/projects/${encodeURIComponent(projectName)}/share-tokens`,
-    { token, serverUrl }
-  )
+  return request<ShareTokenListResponse>(projectPath(projectName, '/share-tokens'), { token, serverUrl })
 }
 
 export async function revokeShareToken(
@@ -141,7 +215,148 @@ export async function revokeShareToken(
   serverUrl?: string
 ): Promise<ShareTokenResponse> {
   return request<ShareTokenResponse>(
-    `/api/projects/${encodeURIComponent(projectName)}/share-tokens/${encodeURIComponent(tokenId)}`,
+    projectPath(projectName, `/share-tokens/${encodeURIComponent(tokenId)}`),
     { method: 'DELETE', token, serverUrl }
   )
 }
+
+// =============================================================================
+// Custom Domains
+// =============================================================================
+
+function domainPath(projectName: string, hostname?: string, action = ''): string {
+  const suffix = hostname ? `/domains/${encodeURIComponent(hostname)}${action}` : '/domains'
+  return projectPath(projectName, suffix)
+}
+
+export async function addDomain(
+  token: string,
+  projectName: string,
+  hostname: string,
+  serverUrl?: string
+): Promise<DomainResponse> {
+  return request<DomainResponse>(domainPath(projectName), {
+    method: 'POST',
+    body: JSON.stringify({ hostname }),
+    token,
+    serverUrl,
+  })
+}
+
+export async function listDomains(token: string, projectName: string, serverUrl?: string): Promise<DomainListResponse> {
+  return request<DomainListResponse>(domainPath(projectName), { token, serverUrl })
+}
+
+export async function verifyDomain(
+  token: string,
+  projectName: string,
+  hostname: string,
+  serverUrl?: string
+): Promise<DomainResponse> {
+  return request<DomainResponse>(domainPath(projectName, hostname, '/verify'), {
+    method: 'POST',
+    token,
+    serverUrl,
+  })
+}
+
+export async function removeDomain(
+  token: string,
+  projectName: string,
+  hostname: string,
+  serverUrl?: string
+): Promise<void> {
+  return request<void>(domainPath(projectName, hostname), { method: 'DELETE', token, serverUrl })
+}
+
+// =============================================================================
+// Project Members
+// =============================================================================
+
+export async function listProjectMembers(
+  token: string,
+  projectName: string,
+  serverUrl?: string
+): Promise<ProjectMemberListResponse> {
+  return request<ProjectMemberListResponse>(projectPath(projectName, '/members'), { token, serverUrl })
+}
+
+export async function setProjectMember(
+  token: string,
+  projectName: string,
+  email: string,
+  role: ProjectMemberRole,
+  serverUrl?: string
+): Promise<ProjectMemberResponse> {
+  return request<ProjectMemberResponse>(projectPath(projectName, '/members'), {
+    method: 'POST',
+    body: JSON.stringify({ email, role }),
+    token,
+    serverUrl,
+  })
+}
+
+export async function removeProjectMember(
+  token: string,
+  projectName: string,
+  email: string,
+  serverUrl?: string
+): Promise<void> {
+  return request<void>(projectPath(projectName, `/members/${encodeURIComponent(email)}`), {
+    method: 'DELETE',
+    token,
+    serverUrl,
+  })
+}
+
+// =============================================================================
+// Teams
+// =============================================================================
+
+function teamPath(slug: string, suffix = ''): string {
+  return `/api/teams/${encodeURIComponent(slug)}${suffix}`
+}
+
+export async function listTeams(token: string, serverUrl?: string): Promise<TeamListResponse> {
+  return request<TeamListResponse>('/api/teams', { token, serverUrl })
+}
+
+export async function createTeam(token: string, slug: string, serverUrl?: string): Promise<TeamResponse> {
+  return request<TeamResponse>('/api/teams', {
+    method: 'POST',
+    body: JSON.stringify({ slug }),
+    token,
+    serverUrl,
+  })
+}
+
+export async function deleteTeam(token: string, slug: string, serverUrl?: string): Promise<void> {
+  return request<void>(teamPath(slug), { method: 'DELETE', token, serverUrl })
+}
+
+export async function listTeamMembers(token: string, slug: string, serverUrl?: string): Promise<TeamMemberListResponse> {
+  return request<TeamMemberListResponse>(teamPath(slug, '/members'), { token, serverUrl })
+}
+
+export async function setTeamMember(
+  token: string,
+  slug: string,
+  email: string,
+  role: TeamRole,
+  serverUrl?: string
+): Promise<TeamMemberResponse> {
+  return request<TeamMemberResponse>(teamPath(slug, '/members'), {
+    method: 'POST',
+    body: JSON.stringify({ email, role }),
+    token,
+    serverUrl,
+  })
+}
+
+export async function removeTeamMember(token: string, slug: string, email: string, serverUrl?: string): Promise<void> {
+  return request<void>(teamPath(slug, `/members/${encodeURIComponent(email)}`), {
+    method: 'DELETE',
+    token,
+    serverUrl,
+  })
+}
@@ -218,7 +218,8 @@ export async function request<T>(
   const serverUrl = options.serverUrl || await getServerUrl()
   const url = `${serverUrl}${path}`
   const timeout = options.timeout || DEFAULT_TIMEOUT
-  const contentType = options.contentType || 'application/json'
+  // fetch sets the multipart boundary for FormData bodies itself
+  const contentType = options.body instanceof FormData ? undefined : options.contentType || 'application/json'
 
   const { headers, hasCfAccess } = await buildHeaders(serverUrl, options.token, contentType, options.apiKey)
 
@@ -1,6 +1,6 @@
 import type { BuildContext } from '../build/context';
-import { runBuildPipeline, formatBuildError } from '../build';
-import type { BuildOptions } from '../build';
+import { runBuildPipeline, runIncrementalBuild, formatBuildError } from '../build';
+import type { BuildOptions, BuildPipelineState } from '../build';
 import log from '../logger';
 
 export type { BuildOptions };
@@ -8,6 +8,8 @@ export type { BuildOptions };
 export interface BuildResult {
   fileCount?: number;
   totalBytes?: number;
+  /** Pipeline state, reused by rebuildCommand() for incremental rebuilds */
+  state: BuildPipelineState;
 }
 
 /**
@@ -26,6 +28,29 @@ export async function buildCommand(ctx: BuildContext, options: BuildOptions = {}
     return {
       fileCount: state.outputs.buildStats?.fileCount,
       totalBytes: state.outputs.buildStats?.totalBytes,
+      state,
+    };
+  } catch (error) {
+    const formatted = formatBuildError(error as Error);
+    throw new Error(formatted);
+  }
+}
+
+/**
+ * Rebuild after file changes, recompiling only the affected pages when possible.
+ * `previous` must come from a build run with `incremental: true`.
+ */
+export async function rebuildCommand(
+  ctx: BuildContext,
+  previous: BuildPipelineState,
+  changedFiles: string[]
+): Promise<BuildResult> {
+  try {
+    const state = await runIncrementalBuild(ctx, previous, changedFiles);
+    return {
+      fileCount: state.outputs.buildStats?.fileCount,
+      totalBytes: state.outputs.buildStats?.totalBytes,
+      state,
     };
   } catch (error) {
     const formatted = formatBuildError(error as Error);
@@ -0,0 +1,147 @@
+import log from '../../logger'
+import { listDeploys, promoteDeploy, ApiError } from '../../cloud/api'
+import type { Deploy } from '@scratchwork/shared/api'
+import { resolveProjectOrConfig } from './projects'
+import { formatBytes } from '../../util'
+import { CloudContext } from './context'
+import { formatDateTime } from './util'
+
+// Common error handler for deploy API errors
+function handleApiError(error: ApiError, projectName: string, version?: number): never {
+  const body = error.body as any
+  if (error.status === 404 && body?.code === 'DEPLOY_NOT_FOUND' && version !== undefined) {
+    log.error(`Deploy v${version} of ${projectName} not found`)
+  } else if (error.status === 404) {
+    log.error(`Project "${projectName}" not found`)
+  } else {
+    log.error(body?.error || error.message)
+  }
+  process.exit(1)
+}
+
+/**
+ * Parse a deploy version argument ("3" or "v3").
+ * Returns null if it isn't a positive integer.
+ */
+export function parseDeployVersion(value: string): number | null {
+  const match = /^v?(\d+)$/i.exec(value.trim())
+  if (!match) return null
+  const version = parseInt(match[1]!, 10)
+  return version > 0 ? version : null
+}
+
+/**
+ * Find the deploy to roll back to: the newest deploy older than the live one.
+ * Returns null if there is no live deploy or nothing older than it.
+ */
+export function findRollbackTarget(deploys: Deploy[]): Deploy | null {
+  const live = deploys.find((d) => d.is_live)
+  if (!live) return null
+  const older = deploys.filter((d) => d.version < live.version)
+  if (older.length === 0) return null
+  return older.reduce((a, b) => (b.version > a.version ? b : a))
+}
+
+export async function deployListCommand(ctx: CloudContext, identifier?: string): Promise<void> {
+  const serverUrl = await ctx.getServerUrl()
+  const credentials = await ctx.requireAuth()
+  const projectName = await resolveProjectOrConfig(credentials.token, identifier, serverUrl)
+
+  try {
+    const { deploys } = await listDeploys(credentials.token, projectName, serverUrl)
+
+    if (deploys.length === 0) {
+      log.info('')
+      log.info(`No deploys for ${projectName}`)
+      log.info('Deploy with `scratch publish`')
+      return
+    }
+
+    log.info('')
+    log.info(`Deploys for ${projectName}:`)
+    log.info('')
+
+    for (const deploy of deploys) {
+      const liveLabel = deploy.is_live ? '  (live)' : ''
+      log.info(
+        `  v${deploy.version}  ${formatDateTime(deploy.created_at)}  ` +
+          `${deploy.file_count} files, ${formatBytes(deploy.total_bytes)}${liveLabel}`
+      )
+    }
+
+    log.info('')
+    log.info(`${deploys.length} deploy${deploys.length === 1 ? '' : 's'}`)
+  } catch (error) {
+    if (error instanceof ApiError) {
+      handleApiError(error, projectName)
+    }
+    throw error
+  }
+}
+
+export async function deployPromoteCommand(
+  ctx: CloudContext,
+  versionArg: string,
+  identifier?: string
+): Promise<void> {
+  const version = parseDeployVersion(versionArg)
+  if (version === null) {
+    log.error(`Invalid deploy version "${versionArg}". Use a version number from \`scratch deploys ls\``)
+    process.exit(1)
+  }
+
+  const serverUrl = await ctx.getServerUrl()
+  const credentials = await ctx.requireAuth()
+  const projectName = await resolveProjectOrConfig(credentials.token, identifier, serverUrl)
+
+  await promote(credentials.token, projectName, version, serverUrl)
+}
+
+export async function deployRollbackCommand(ctx: CloudContext, identifier?: string): Promise<void> {
+  const serverUrl = await ctx.getServerUrl()
+  const credentials = await ctx.requireAuth()
+  const projectName = await resolveProjectOrConfig(credentials.token, identifier, serverUrl)
+
+  let target: Deploy | null
+  try {
+    const { deploys } = await listDeploys(credentials.token, projectName, serverUrl)
+    if (!deploys.some((d) => d.is_live)) {
+      log.error(`${projectName} has no live deploy to roll back`)
+      process.exit(1)
+    }
+    target = findRollbackTarget(deploys)
+  } catch (error) {
+    if (error instanceof ApiError) {
+      handleApiError(error, projectName)
+    }
+    throw error
+  }
+
+  if (!target) {
+    log.error(`No deploy older than the live one for ${projectName}`)
+    process.exit(1)
+  }
+
+  await promote(credentials.token, projectName, target.version, serverUrl)
+}
+
+// Make a deploy live and report the switch
+async function promote(token: string, projectName: string, version: number, serverUrl: string): Promise<void> {
+  try {
+    const { deploy, previous_version } = await promoteDeploy(token, projectName, version, serverUrl)
+
+    log.info('')
+    if (previous_version === deploy.version) {
+      log.info(`v${deploy.version} is already live for ${projectName}`)
+    } else if (previous_version !== null) {
+      log.info(`${projectName} is now serving v${deploy.version} (was v${previous_version})`)
+    } else {
+      log.info(`${projectName} is now serving v${deploy.version}`)
+    }
+  } catch (error) {
+    if (error instanceof ApiError) {
+      handleApiError(error, projectName, version)
+    }
+    throw error
+  }
+}
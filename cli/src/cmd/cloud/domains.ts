@@ -0,0 +1,142 @@
+import log from '../../logger'
+import { addDomain, listDomains, verifyDomain, removeDomain, ApiError } from '../../cloud/api'
+import type { ProjectDomain } from '@scratchwork/shared/api'
+import { normalizeHostname } from '@scratchwork/shared/project'
+import { resolveProjectOrConfig } from './projects'
+import { CloudContext } from './context'
+import { formatDateTime } from './util'
+
+// Common error handler for custom domain API errors
+function handleApiError(error: ApiError, projectName: string, hostname?: string): never {
+  const body = error.body as any
+  if (error.status === 404 && body?.code === 'DOMAIN_NOT_FOUND' && hostname) {
+    log.error(`${hostname} is not a domain of ${projectName}`)
+  } else if (error.status === 404) {
+    log.error(`Project "${projectName}" not found`)
+  } else {
+    log.error(body?.error || error.message)
+  }
+  process.exit(1)
+}
+
+// Hostname argument, normalized; exits if it isn't a valid hostname
+function parseHostname(value: string): string {
+  const hostname = normalizeHostname(value)
+  if (!hostname) {
+    log.error(`Invalid domain "${value}". Use a hostname like docs.example.com`)
+    process.exit(1)
+  }
+  return hostname
+}
+
+// Print the DNS record to create for an unverified domain
+function logVerificationSteps(domain: ProjectDomain, projectName: string): void {
+  if (!domain.verification) return
+  log.info('To verify that you control this domain, add this DNS record:')
+  log.info('')
+  log.info(`  Type:  ${domain.verification.type}`)
+  log.info(`  Name:  ${domain.verification.name}`)
+  log.info(`  Value: ${domain.verification.value}`)
+  log.info('')
+  log.info(`Then run \`scratch domains verify ${domain.hostname} ${projectName}\``)
+}
+
+export async function domainAddCommand(ctx: CloudContext, hostnameArg: string, identifier?: string): Promise<void> {
+  const hostname = parseHostname(hostnameArg)
+  const serverUrl = await ctx.getServerUrl()
+  const credentials = await ctx.requireAuth()
+  const projectName = await resolveProjectOrConfig(credentials.token, identifier, serverUrl)
+
+  try {
+    const { domain } = await addDomain(credentials.token, projectName, hostname, serverUrl)
+
+    log.info('')
+    log.info(`Added ${domain.hostname} to ${projectName}`)
+    log.info('')
+    logVerificationSteps(domain, projectName)
+  } catch (error) {
+    if (error instanceof ApiError) {
+      handleApiError(error, projectName)
+    }
+    throw error
+  }
+}
+
+export async function domainListCommand(ctx: CloudContext, identifier?: string): Promise<void> {
+  const serverUrl = await ctx.getServerUrl()
+  const credentials = await ctx.requireAuth()
+  const projectName = await resolveProjectOrConfig(credentials.token, identifier, serverUrl)
+
+  try {
+    const { domains } = await listDomains(credentials.token, projectName, serverUrl)
+
+    if (domains.length === 0) {
+      log.info('')
+      log.info(`No custom domains for ${projectName}`)
+      log.info('Add one with `scratch domains add <hostname>`')
+      return
+    }
+
+    log.info('')
+    log.info(`Custom domains for ${projectName}:`)
+    log.info('')
+
+    for (const domain of domains) {
+      if (domain.is_verified) {
+        log.info(`  ${domain.hostname}  verified ${formatDateTime(domain.verified_at!)}`)
+      } else {
+        log.info(`  ${domain.hostname}  (not verified)`)
+        log.info(`    TXT ${domain.verification!.name}  ${domain.verification!.value}`)
+      }
+    }
+
+    log.info('')
+    log.info(`${domains.length} domain${domains.length === 1 ? '' : 's'}`)
+  } catch (error) {
+    if (error instanceof ApiError) {
+      handleApiError(error, projectName)
+    }
+    throw error
+  }
+}
+
+export async function domainVerifyCommand(ctx: CloudContext, hostnameArg: string, identifier?: string): Promise<void> {
+  const hostname = parseHostname(hostnameArg)
+  const serverUrl = await ctx.getServerUrl()
+  const credentials = await ctx.requireAuth()
+  const projectName = await resolveProjectOrConfig(credentials.token, identifier, serverUrl)
+
+  try {
+    const { domain } = await verifyDomain(credentials.token, projectName, hostname, serverUrl)
+
+    log.info('')
+    log.info(`Verified ${domain.hostname} for ${projectName}`)
+    log.info('')
+    log.info(`Once the domain's traffic reaches the server, ${domain.url} serves ${projectName}.`)
+    log.info('Publish with `scratch publish --www` so links work at the root of the domain.')
+  } catch (error) {
+    if (error instanceof ApiError) {
+      handleApiError(error, projectName, hostname)
+    }
+    throw error
+  }
+}
+
+export async function domainRemoveCommand(ctx: CloudContext, hostnameArg: string, identifier?: string): Promise<void> {
+  const hostname = parseHostname(hostnameArg)
+  const serverUrl = await ctx.getServerUrl()
+  const credentials = await ctx.requireAuth()
+  const projectName = await resolveProjectOrConfig(credentials.token, identifier, serverUrl)
+
+  try {
+    await removeDomain(credentials.token, projectName, hostname, serverUrl)
+
+    log.info('')
+    log.info(`Removed ${hostname} from ${projectName}`)
+  } catch (error) {
+    if (error instanceof ApiError) {
+      handleApiError(error, projectName, hostname)
+    }
+    throw error
+  }
+}
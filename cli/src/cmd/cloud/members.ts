@@ -0,0 +1,109 @@
+import log from '../../logger'
+import { listProjectMembers, setProjectMember, removeProjectMember, ApiError } from '../../cloud/api'
+import { projectMemberRoles, type ProjectMemberRole } from '@scratchwork/shared/api'
+import { resolveProjectOrConfig } from './projects'
+import { CloudContext } from './context'
+import { formatDate } from './util'
+
+// Common error handler for project member API errors
+function handleApiError(error: ApiError, projectName: string): never {
+  const body = error.body as any
+  if (error.status === 404 && body?.code === 'PROJECT_NOT_FOUND') {
+    log.error(`Project "${projectName}" not found`)
+  } else {
+    log.error(body?.error || error.message)
+  }
+  process.exit(1)
+}
+
+// Role option; exits if it isn't one of the project member roles
+function parseRole(value: string): ProjectMemberRole {
+  if (!(projectMemberRoles as readonly string[]).includes(value)) {
+    log.error(`Invalid role "${value}". Use one of: ${projectMemberRoles.join(', ')}`)
+    process.exit(1)
+  }
+  return value as ProjectMemberRole
+}
+
+export async function memberListCommand(ctx: CloudContext, identifier?: string): Promise<void> {
+  const serverUrl = await ctx.getServerUrl()
+  const credentials = await ctx.requireAuth()
+  const projectName = await resolveProjectOrConfig(credentials.token, identifier, serverUrl)
+
+  try {
+    const { members } = await listProjectMembers(credentials.token, projectName, serverUrl)
+
+    if (members.length === 0) {
+      log.info('')
+      log.info(`No members of ${projectName}`)
+      log.info('Add one with `scratch members add <email>`')
+      return
+    }
+
+    log.info('')
+    log.info(`Members of ${projectName}:`)
+    log.info('')
+
+    for (const member of members) {
+      log.info(`  ${member.email}  ${member.role}  added ${formatDate(member.created_at)}`)
+    }
+
+    log.info('')
+    log.info(`${members.length} member${members.length === 1 ? '' : 's'}`)
+  } catch (error) {
+    if (error instanceof ApiError) {
+      handleApiError(error, projectName)
+    }
+    throw error
+  }
+}
+
+export async function memberAddCommand(
+  ctx: CloudContext,
+  email: string,
+  identifier: string | undefined,
+  roleArg: string
+): Promise<void> {
+  const role = parseRole(roleArg)
+  const serverUrl = await ctx.getServerUrl()
+  const credentials = await ctx.requireAuth()
+  const projectName = await resolveProjectOrConfig(credentials.token, identifier, serverUrl)
+
+  try {
+    const { member } = await setProjectMember(credentials.token, projectName, email, role, serverUrl)
+
+    log.info('')
+    log.info(`${member.email} is now a ${member.role} of ${projectName}`)
+    if (member.role === 'publisher') {
+      log.info('')
+      log.info('They can publish from a copy of this project directory (including .scratchwork/project.toml)')
+      log.info('with `scratch publish`.')
+    } else if (member.role === 'sharer') {
+      log.info('')
+      log.info(`They can create share links with \`scratch share ${credentials.user.email}/${projectName}\`.`)
+    }
+  } catch (error) {
+    if (error instanceof ApiError) {
+      handleApiError(error, projectName)
+    }
+    throw error
+  }
+}
+
+export async function memberRemoveCommand(ctx: CloudContext, email: string, identifier?: string): Promise<void> {
+  const serverUrl = await ctx.getServerUrl()
+  const credentials = await ctx.requireAuth()
+  const projectName = await resolveProjectOrConfig(credentials.token, identifier, serverUrl)
+
+  try {
+    await removeProjectMember(credentials.token, projectName, email, serverUrl)
+
+    log.info('')
+    log.info(`Removed ${email} from ${projectName}`)
+  } catch (error) {
+    if (error instanceof ApiError) {
+      handleApiError(error, projectName)
+    }
+    throw error
+  }
+}
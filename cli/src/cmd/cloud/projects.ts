@@ -1,6 +1,7 @@
 import log from '../../logger'
 import { loadProjectConfig } from '../../config'
 import { listProjects, getProject, deleteProject, ApiError } from '../../cloud/api'
+import type { Project } from '@scratchwork/shared/api'
 import { prompt, select, stripTrailingSlash } from '../../util'
 import { CloudContext } from './context'
 import { formatDate, formatDateTime } from './util'
@@ -8,15 +9,27 @@ import { formatDate, formatDateTime } from './util'
 // Re-export date formatting functions for backward compatibility
 export { formatDate, formatDateTime } from './util'
 
+// Name commands use for a project: "team/project" for team projects, and
+// "owner@email/project" for other users' projects the user is a member of
+export function qualifiedProjectName(project: Pick<Project, 'name' | 'team' | 'role' | 'owner_email'>): string {
+  if (project.team) return `${project.team.slug}/${project.name}`
+  if (project.role !== 'owner') return `${project.owner_email}/${project.name}`
+  return project.name
+}
+
+// Find one of the user's projects (including team and member projects) by ID
+export async function findProjectById(token: string, id: string, serverUrl?: string): Promise<Project | undefined> {
+  const { projects } = await listProjects(token, serverUrl)
+  return projects.find((p) => p.id === id)
+}
+
 // Prompt user to select from multiple projects
-export async function promptProjectChoice(
-  projects: { name: string; urls: { primary: string } }[]
-): Promise<string> {
+export async function promptProjectChoice(projects: Project[]): Promise<string> {
   const choices = projects.map((p) => ({
-    name: `${p.name}  ${stripTrailingSlash(p.urls.primary)}`,
-    value: p.name,
+    name: `${qualifiedProjectName(p)}  ${stripTrailingSlash(p.urls.primary)}`,
+    value: qualifiedProjectName(p),
   }))
-  return select('Select project:', choices, projects[0]!.name)
+  return select('Select project:', choices, qualifiedProjectName(projects[0]!))
 }
 
 // Resolve project from identifier, prompting if ambiguous
@@ -25,9 +38,9 @@ export async function resolveProject(
   identifier: string,
   serverUrl?: string
 ): Promise<string> {
-  // Search for projects with this name
+  // Search for projects with this name (or team/name)
   const { projects } = await listProjects(token, serverUrl)
-  const matches = projects.filter((p) => p.name === identifier)
+  const matches = projects.filter((p) => p.name === identifier || qualifiedProjectName(p) === identifier)
 
   if (matches.length === 0) {
     log.error(`Project "${identifier}" not found`)
@@ -35,7 +48,7 @@ export async function resolveProject(
   }
 
   if (matches.length === 1) {
-    return matches[0]!.name
+    return qualifiedProjectName(matches[0]!)
   }
 
   // Multiple matches - prompt user to choose
@@ -59,7 +72,16 @@ export async function resolveProjectOrConfig(
     process.exit(1)
   }
 
-  return config.name
+  // The project may be another user's that this user is a member of (e.g. a
+  // clone of their repository); its ID finds it wherever it lives
+  if (config.id) {
+    const project = await findProjectById(token, config.id, serverUrl)
+    if (project) {
+      return qualifiedProjectName(project)
+    }
+  }
+
+  return config.team ? `${config.team}/${config.name}` : config.name
 }
 
 export async function listProjectsCommand(ctx: CloudContext): Promise<void> {
@@ -81,7 +103,8 @@ export async function listProjectsCommand(ctx: CloudContext): Promise<void> {
 
     for (const project of projects) {
       const version = project.live_version !== null ? `v${project.live_version}` : 'no deploy'
-      log.info(`  ${project.name}  ${version}  ${stripTrailingSlash(project.urls.primary)}`)
+      const role = project.team || project.role !== 'owner' ? `  (${project.role})` : ''
+      log.info(`  ${qualifiedProjectName(project)}  ${version}  ${stripTrailingSlash(project.urls.primary)}${role}`)
     }
 
     log.info('')
@@ -108,6 +131,11 @@ export async function projectInfoCommand(ctx: CloudContext, identifier?: string)
     log.info('')
     log.info(`Project: ${project.name}`)
     log.info(`ID: ${project.id}`)
+    if (project.team) {
+      log.info(`Team: ${project.team.slug} (${project.role})`)
+    } else if (project.role !== 'owner') {
+      log.info(`Owner: ${project.owner_email} (you're a ${project.role})`)
+    }
     log.info(`URLs:`)
     log.info(`  ${stripTrailingSlash(project.urls.primary)}`)
     log.info(`  ${stripTrailingSlash(project.urls.byId)}`)
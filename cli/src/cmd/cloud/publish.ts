@@ -1,5 +1,5 @@
 import log from '../../logger'
-import { deploy, ApiError } from '../../cloud/api'
+import { deploy, checkDeploy, listDeploys, ApiError } from '../../cloud/api'
 import { buildCommand } from '../build'
 import { BuildContext } from '../../build/context'
 import { validateProjectName } from '@scratchwork/shared/project'
@@ -16,22 +16,35 @@ import {
   type ProjectConfig,
 } from '../../config'
 import { CloudContext } from './context'
-import { createZip } from './util'
+import { findProjectById } from './projects'
+import { createManifest, createBlobZip } from './util'
 import fs from 'fs/promises'
 import path from 'path'
 
 export interface PublishOptions {
   name?: string
+  team?: string
   visibility?: string
   noBuild?: boolean
   noOpen?: boolean
   dryRun?: boolean
   www?: boolean
+  preview?: boolean
 }
 
 export async function publishCommand(ctx: CloudContext, projectPath: string = '.', options: PublishOptions = {}): Promise<void> {
   const resolvedPath = path.resolve(projectPath)
 
+  // Preview builds are served under /~v{version}/, so the build must know its version
+  if (options.preview && options.www) {
+    log.error('--preview cannot be combined with --www')
+    process.exit(1)
+  }
+  if (options.preview && options.noBuild) {
+    log.error('--preview cannot be combined with --no-build: the build\'s base path includes the deploy version')
+    process.exit(1)
+  }
+
   // Load project config first to check for server_url override
   let config = await loadProjectConfig(resolvedPath)
   const configRelPath = '.scratchwork/project.toml'
@@ -82,12 +95,17 @@ export async function publishCommand(ctx: CloudContext, projectPath: string = '.
 
   // Determine project name (CLI option > config > directory name)
   let projectName = options.name || config.name
+  // Team (CLI option > config); a different team means a different project
+  const team = options.team || config.team
+  if (options.team && options.team !== config.team) {
+    config = { ...config, id: undefined }
+  }
   // Visibility: CLI option > project config > global config > interactive prompt
   let visibility = options.visibility || config.visibility || globalConfig.visibility
 
   // If no valid project name from options or config, run interactive setup
   if (!projectName || !validateProjectName(projectName).valid) {
-    const result = await runInteractiveSetup(resolvedPath, credentials, config, effectiveServerUrl, globalConfig.visibility)
+    const result = await runInteractiveSetup(resolvedPath, credentials, config, effectiveServerUrl, globalConfig.visibility, team)
     projectName = result.name!  // runInteractiveSetup guarantees name is set
     config = result
     visibility = result.visibility  // Use visibility from interactive setup
@@ -106,17 +124,34 @@ export async function publishCommand(ctx: CloudContext, projectPath: string = '.
       // Show config being used
       log.info(`Using project configuration from ${configRelPath}`)
       log.info(`  name: ${projectName}`)
+      if (team) {
+        log.info(`  team: ${team}`)
+      }
       log.info('')
     }
   }
 
+  // Another user's project that this user is a member of keeps its owner's URLs
+  const existing = config.id && !team ? await findProjectById(credentials.token, config.id, effectiveServerUrl) : undefined
+  const owner = existing && existing.role !== 'owner' ? { id: existing.owner_id, email: existing.owner_email } : undefined
+
   // Build unless --no-build
   const distDir = path.join(resolvedPath, 'dist')
 
+  // Preview deploys are built for the version they will get
+  const scope = team || owner?.email
+  const previewVersion = options.preview
+    ? await nextDeployVersion(credentials.token, scope ? `${scope}/${projectName}` : projectName, effectiveServerUrl)
+    : undefined
+
   if (!options.noBuild) {
     log.info('Building project...')
-    // Base path: empty for www mode (served at root), otherwise /<user-id>/<project-name>/
-    const basePath = options.www ? '' : `/${credentials.user.id}/${projectName}`
+    // Base path: empty for www mode (served at root), otherwise /<owner-id or team>/<project-name>/
+    // (or /<owner-id or team>/<project-name>/~v<version>/ for previews)
+    let basePath = options.www ? '' : `/${team || owner?.id || credentials.user.id}/${projectName}`
+    if (previewVersion !== undefined) {
+      basePath += `/~v${previewVersion}`
+    }
     const buildCtx = new BuildContext({ path: resolvedPath, base: basePath })
     await buildCommand(buildCtx, { ssg: true }, resolvedPath)
   }
@@ -136,11 +171,10 @@ export async function publishCommand(ctx: CloudContext, projectPath: string = '.
     throw err
   }
 
-  // Create zip
+  // Hash files (only files the server doesn't have are uploaded)
   log.info('Packaging for upload...')
-  const { data: zipData, fileCount, totalBytes } = await createZip(distDir)
-  const compressedBytes = zipData.byteLength
-  log.info(`  ${fileCount} files, ${formatBytes(totalBytes)} -> ${formatBytes(compressedBytes)}`)
+  const { manifest, files, fileCount, totalBytes } = await createManifest(distDir)
+  log.info(`  ${fileCount} files, ${formatBytes(totalBytes)}`)
 
   // Dry run - show what would be deployed without uploading
   if (options.dryRun) {
@@ -157,10 +191,32 @@ export async function publishCommand(ctx: CloudContext, projectPath: string = '.
     log.info(`Uploading to ${effectiveServerUrl}...`)
 
     try {
+      const { missing } = await checkDeploy(
+        credentials.token,
+        { name: projectName, project_id: config.id, team, owner: owner?.email },
+        manifest,
+        effectiveServerUrl
+      )
+      const blobs = await createBlobZip(files, missing)
+      if (blobs) {
+        log.info(`  ${missing.length} changed files, ${formatBytes(blobs.totalBytes)} -> ${formatBytes(blobs.data.byteLength)}`)
+      } else {
+        log.info('  No changed files')
+      }
+
       const result = await deploy(
         credentials.token,
-        { name: projectName, visibility, project_id: config.id, www: options.www },
-        zipData,
+        {
+          name: projectName,
+          visibility,
+          project_id: config.id,
+          team,
+          owner: owner?.email,
+          www: options.www,
+          preview: options.preview,
+          version: previewVersion,
+        },
+        { manifest, blobs: blobs?.data ?? null },
         effectiveServerUrl
       )
 
@@ -168,11 +224,22 @@ export async function publishCommand(ctx: CloudContext, projectPath: string = '.
       if (result.project.created) {
         log.info(`Created project "${projectName}"`)
       }
-      log.info(`Deployed v${result.deploy.version}`)
+      log.info(`Deployed v${result.deploy.version}${options.preview ? ' as a preview (not live)' : ''}`)
       log.info('')
 
       // Display URLs based on www mode
-      if (options.www) {
+      if (options.preview) {
+        log.info('Preview URL:')
+        log.info(`  ${stripTrailingSlash(result.version_url)}`)
+        log.info('')
+        log.info(`Make it live with \`scratch deploys promote ${result.deploy.version}\``)
+      } else if (options.www && result.domain_urls.length > 0) {
+        // Served at the root of the project's custom domains
+        log.info('URLs:')
+        for (const url of result.domain_urls) {
+          log.info(`  ${stripTrailingSlash(url)}`)
+        }
+      } else if (options.www) {
         if (result.www?.configured && result.urls.www) {
           // WWW_PROJECT_ID is configured for this project - show www URL
           log.info('URL:')
@@ -190,6 +257,11 @@ export async function publishCommand(ctx: CloudContext, projectPath: string = '.
         log.info('URLs:')
         log.info(`  ${stripTrailingSlash(result.urls.primary)}`)
         log.info(`  ${stripTrailingSlash(result.urls.byId)}`)
+        if (result.domain_urls.length > 0) {
+          log.info('')
+          log.info('Note: This project has custom domains, which serve it at the root.')
+          log.info('Publish with --www so its links work there.')
+        }
       }
 
       // Save project ID if it changed (new project or wasn't saved before)
@@ -198,15 +270,20 @@ export async function publishCommand(ctx: CloudContext, projectPath: string = '.
           ...config,
           id: result.project.id,
           name: projectName,
+          team: result.project.team ?? undefined,
         })
       }
 
       // Open the deployed page in browser unless --no-open
-      // Use www URL if in www mode and configured, otherwise use primary URL
+      // Use a custom domain or www URL if in www mode and configured, otherwise use primary URL
       if (!options.noOpen) {
-        const urlToOpen = (options.www && result.www?.configured && result.urls.www)
-          ? result.urls.www
-          : result.urls.primary
+        const urlToOpen = options.preview
+          ? result.version_url
+          : (options.www && result.domain_urls.length > 0)
+            ? result.domain_urls[0]!
+            : (options.www && result.www?.configured && result.urls.www)
+              ? result.urls.www
+              : result.urls.primary
         await openBrowser(urlToOpen)
       }
       return
@@ -215,6 +292,16 @@ export async function publishCommand(ctx: CloudContext, projectPath: string = '.
         if (error.status === 413) {
           log.error('Deploy too large. Reduce the size of your dist/ directory.')
           process.exit(1)
+        } else if (error.status === 409 && (error.body as any)?.code === 'DEPLOY_VERSION_CONFLICT') {
+          log.error('')
+          log.error(`Another deploy of "${projectName}" was published while this preview was building.`)
+          log.error('Run `scratch publish --preview` again to rebuild for the next version.')
+          process.exit(1)
+        } else if (error.status === 403 && (error.body as any)?.code === 'TEAM_ROLE_REQUIRED') {
+          log.error('')
+          log.error(`You need the publisher role in ${team ? `team "${team}"` : 'the project'} to publish "${projectName}".`)
+          log.error(team ? 'Ask a team owner to run `scratch teams add-member`.' : "Ask the project's owner to run `scratch members add`.")
+          process.exit(1)
         } else if (error.status === 403) {
           // Project name conflict - prompt for new name
           log.info('')
@@ -228,6 +315,7 @@ export async function publishCommand(ctx: CloudContext, projectPath: string = '.
           log.info('Saving .scratchwork/project.toml...')
           await saveProjectConfig(resolvedPath, {
             name: projectName,
+            team: config.team,
             visibility: config.visibility,
             server_url: config.server_url,
             // Don't preserve id - this will be a new project
@@ -243,7 +331,10 @@ export async function publishCommand(ctx: CloudContext, projectPath: string = '.
           const body = error.body as any
           const code = body?.code
 
-          if (code === 'PROJECT_NOT_FOUND') {
+          if (code === 'MISSING_BLOBS') {
+            // Stored files were removed between the check and the upload - check again
+            continue
+          } else if (code === 'PROJECT_NOT_FOUND') {
             log.error('')
             log.error('Project not found on server.')
             log.error('')
@@ -263,9 +354,9 @@ export async function publishCommand(ctx: CloudContext, projectPath: string = '.
             process.exit(1)
           } else if (code === 'PROJECT_NAME_TAKEN') {
             log.error('')
-            log.error(`You already have a project named "${projectName}".`)
+            log.error(`${team ? `Team "${team}" already has` : 'You already have'} a project named "${projectName}".`)
             log.error('')
-            log.error(`Run \`scratch projects info ${projectName}\` to see details.`)
+            log.error(`Run \`scratch projects info ${team ? `${team}/` : ''}${projectName}\` to see details.`)
             process.exit(1)
           } else {
             log.error(`Deploy failed (${error.status})`)
@@ -294,6 +385,21 @@ export async function publishCommand(ctx: CloudContext, projectPath: string = '.
   }
 }
 
+/**
+ * Version number the project's next deploy will get (1 for a new project)
+ */
+async function nextDeployVersion(token: string, projectName: string, serverUrl: string): Promise<number> {
+  try {
+    const { deploys } = await listDeploys(token, projectName, serverUrl)
+    return deploys.reduce((max, d) => Math.max(max, d.version), 0) + 1
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return 1
+    }
+    throw error
+  }
+}
+
 /**
  * Interactive setup - prompts user for project name and visibility only
  * Called when config exists but name is invalid
@@ -303,7 +409,8 @@ async function runInteractiveSetup(
   credentials: { user: { email: string } },
   existingConfig: ProjectConfig,
   serverUrl: string,
-  globalVisibility?: string
+  globalVisibility?: string,
+  team?: string
 ): Promise<ProjectConfig> {
   const dirName = path.basename(resolvedPath)
 
@@ -323,6 +430,7 @@ async function runInteractiveSetup(
   log.info('Saving .scratchwork/project.toml...')
   const newConfig: ProjectConfig = {
     name: projectName,
+    team,
     visibility,
     server_url: serverUrl,
   }
@@ -0,0 +1,187 @@
+import log from '../../logger'
+import {
+  listTeams,
+  createTeam,
+  deleteTeam,
+  listTeamMembers,
+  setTeamMember,
+  removeTeamMember,
+  ApiError,
+} from '../../cloud/api'
+import { teamRoles, type TeamRole } from '@scratchwork/shared/api'
+import { validateTeamSlug } from '@scratchwork/shared/project'
+import { prompt } from '../../util'
+import { CloudContext } from './context'
+import { formatDate } from './util'
+
+// Common error handler for team API errors
+function handleApiError(error: ApiError, slug?: string): never {
+  const body = error.body as any
+  if (error.status === 404 && body?.code === 'TEAM_NOT_FOUND' && slug) {
+    log.error(`Team "${slug}" not found`)
+  } else {
+    log.error(body?.error || error.message)
+  }
+  process.exit(1)
+}
+
+// Role argument; exits if it isn't one of the team roles
+function parseRole(value: string): TeamRole {
+  if (!(teamRoles as readonly string[]).includes(value)) {
+    log.error(`Invalid role "${value}". Use one of: ${teamRoles.join(', ')}`)
+    process.exit(1)
+  }
+  return value as TeamRole
+}
+
+export async function listTeamsCommand(ctx: CloudContext): Promise<void> {
+  const serverUrl = await ctx.getServerUrl()
+  const credentials = await ctx.requireAuth()
+
+  try {
+    const { teams } = await listTeams(credentials.token, serverUrl)
+
+    if (teams.length === 0) {
+      log.info('No teams found.')
+      log.info('Create one with `scratch teams create <slug>`')
+      return
+    }
+
+    log.info('')
+    log.info('Your teams:')
+    log.info('')
+
+    for (const team of teams) {
+      const members = `${team.member_count} member${team.member_count === 1 ? '' : 's'}`
+      const projects = `${team.project_count} project${team.project_count === 1 ? '' : 's'}`
+      log.info(`  ${team.slug}  ${team.role}  ${members}, ${projects}`)
+    }
+
+    log.info('')
+  } catch (error) {
+    if (error instanceof ApiError) {
+      handleApiError(error)
+    }
+    throw error
+  }
+}
+
+export async function createTeamCommand(ctx: CloudContext, slug: string): Promise<void> {
+  const validation = validateTeamSlug(slug)
+  if (!validation.valid) {
+    log.error(validation.error!)
+    process.exit(1)
+  }
+
+  const serverUrl = await ctx.getServerUrl()
+  const credentials = await ctx.requireAuth()
+
+  try {
+    const { team } = await createTeam(credentials.token, slug, serverUrl)
+
+    log.info('')
+    log.info(`Created team "${team.slug}"`)
+    log.info('')
+    log.info('Add members with `scratch teams add-member <team> <email> --role publisher`')
+    log.info(`Publish a project to the team with \`scratch publish --team ${team.slug}\``)
+  } catch (error) {
+    if (error instanceof ApiError) {
+      handleApiError(error, slug)
+    }
+    throw error
+  }
+}
+
+export interface TeamDeleteOptions {
+  force?: boolean
+}
+
+export async function deleteTeamCommand(ctx: CloudContext, slug: string, options: TeamDeleteOptions = {}): Promise<void> {
+  const serverUrl = await ctx.getServerUrl()
+  const credentials = await ctx.requireAuth()
+
+  // Confirm deletion (unless --force)
+  if (!options.force) {
+    log.info('')
+    log.info(`This will delete team "${slug}" and remove all its members.`)
+    log.info('')
+
+    const answer = await prompt(`Type "${slug}" to confirm: `)
+
+    if (answer !== slug) {
+      log.error('Confirmation did not match. Deletion cancelled.')
+      process.exit(1)
+    }
+  }
+
+  try {
+    await deleteTeam(credentials.token, slug, serverUrl)
+    log.info(`Team "${slug}" deleted`)
+  } catch (error) {
+    if (error instanceof ApiError) {
+      handleApiError(error, slug)
+    }
+    throw error
+  }
+}
+
+export async function listTeamMembersCommand(ctx: CloudContext, slug: string): Promise<void> {
+  const serverUrl = await ctx.getServerUrl()
+  const credentials = await ctx.requireAuth()
+
+  try {
+    const { members } = await listTeamMembers(credentials.token, slug, serverUrl)
+
+    log.info('')
+    log.info(`Members of ${slug}:`)
+    log.info('')
+
+    for (const member of members) {
+      log.info(`  ${member.email}  ${member.role}  joined ${formatDate(member.created_at)}`)
+    }
+
+    log.info('')
+    log.info(`${members.length} member${members.length === 1 ? '' : 's'}`)
+  } catch (error) {
+    if (error instanceof ApiError) {
+      handleApiError(error, slug)
+    }
+    throw error
+  }
+}
+
+export async function addTeamMemberCommand(
+  ctx: CloudContext,
+  slug: string,
+  email: string,
+  roleArg: string
+): Promise<void> {
+  const role = parseRole(roleArg)
+  const serverUrl = await ctx.getServerUrl()
+  const credentials = await ctx.requireAuth()
+
+  try {
+    const { member } = await setTeamMember(credentials.token, slug, email, role, serverUrl)
+    log.info(`${member.email} is now a ${member.role} of ${slug}`)
+  } catch (error) {
+    if (error instanceof ApiError) {
+      handleApiError(error, slug)
+    }
+    throw error
+  }
+}
+
+export async function removeTeamMemberCommand(ctx: CloudContext, slug: string, email: string): Promise<void> {
+  const serverUrl = await ctx.getServerUrl()
+  const credentials = await ctx.requireAuth()
+
+  try {
+    await removeTeamMember(credentials.token, slug, email, serverUrl)
+    log.info(`Removed ${email} from ${slug}`)
+  } catch (error) {
+    if (error instanceof ApiError) {
+      handleApiError(error, slug)
+    }
+    throw error
+  }
+}
@@ -1,5 +1,6 @@
 import fs from 'fs/promises'
 import path from 'path'
+import { createHash } from 'crypto'
 
 // =============================================================================
 // Date Formatting Utilities
@@ -56,33 +57,41 @@ export function formatRelativeTime(date: Date): string {
 }
 
 // =============================================================================
-// Zip Utilities
+// Deploy Manifest Utilities
 // =============================================================================
 
+export interface DeployManifestResult {
+  /** File path (relative, with / separators) -> SHA-256 of its contents */
+  manifest: Record<string, string>
+  /** Hash -> absolute path of a file with that content */
+  files: Map<string, string>
+  fileCount: number
+  totalBytes: number
+}
+
 /**
- * Create a zip archive from a directory.
- * Returns the zip data as ArrayBuffer along with file statistics.
+ * Hash every file in a directory for a manifest deploy.
  */
-export async function createZip(dirPath: string): Promise<{ data: ArrayBuffer; fileCount: number; totalBytes: number }> {
-  const JSZipModule = await import('jszip')
-  const JSZip = JSZipModule.default || JSZipModule
-  const zip = new JSZip()
-
+export async function createManifest(dirPath: string): Promise<DeployManifestResult> {
+  const manifest: Record<string, string> = {}
+  const files = new Map<string, string>()
   let fileCount = 0
   let totalBytes = 0
 
-  async function addDir(currentPath: string, zipPath: string) {
+  async function addDir(currentPath: string, relPath: string) {
     const entries = await fs.readdir(currentPath, { withFileTypes: true })
 
     for (const entry of entries) {
       const fullPath = path.join(currentPath, entry.name)
-      const entryZipPath = zipPath ? `${zipPath}/${entry.name}` : entry.name
+      const entryRelPath = relPath ? `${relPath}/${entry.name}` : entry.name
 
       if (entry.isDirectory()) {
-        await addDir(fullPath, entryZipPath)
+        await addDir(fullPath, entryRelPath)
       } else if (entry.isFile()) {
         const content = await fs.readFile(fullPath)
-        zip.file(entryZipPath, content)
+        const hash = createHash('sha256').update(content).digest('hex')
+        manifest[entryRelPath] = hash
+        files.set(hash, fullPath)
         fileCount++
         totalBytes += content.length
       }
@@ -92,6 +101,34 @@ export async function createZip(dirPath: string): Promise<{ data: ArrayBuffer; f
 
   await addDir(dirPath, '')
 
+  return { manifest, files, fileCount, totalBytes }
+}
+
+/**
+ * Zip the files with the given hashes, each named by its hash.
+ * Returns null if there is nothing to upload.
+ */
+export async function createBlobZip(
+  files: Map<string, string>,
+  hashes: string[]
+): Promise<{ data: ArrayBuffer; totalBytes: number } | null> {
+  if (hashes.length === 0) return null
+
+  const JSZipModule = await import('jszip')
+  const JSZip = JSZipModule.default || JSZipModule
+  const zip = new JSZip()
+
+  let totalBytes = 0
+  for (const hash of hashes) {
+    const filePath = files.get(hash)
+    if (!filePath) {
+      throw new Error(`Server asked for unknown file hash ${hash}`)
+    }
+    const content = await fs.readFile(filePath)
+    zip.file(hash, content)
+    totalBytes += content.length
+  }
+
   const data = await zip.generateAsync({ type: 'arraybuffer' })
-  return { data, fileCount, totalBytes }
+  return { data, totalBytes }
 }
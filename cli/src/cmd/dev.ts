@@ -2,10 +2,21 @@ import { watch } from 'fs';
 import fs from 'fs/promises';
 import path from 'path';
 import type { BuildContext } from '../build/context';
-import { buildCommand } from './build';
+import type { BuildPipelineState } from '../build/types';
+import { buildCommand, rebuildCommand } from './build';
 import { openBrowser } from '../util';
 import log from '../logger';
-import { startServerWithFallback, hasStaticFileExtension, notifyLiveReloadClients } from './server';
+import {
+  startServerWithFallback,
+  hasStaticFileExtension,
+  notifyLiveReloadClients,
+  notifyHmrUpdate,
+  notifyBuildError,
+} from './server';
+import { buildHmrRuntime, buildHmrUpdate, planHmrUpdate, snapshotFrontmatter } from '../build/hmr';
+import { createErrorOverlay, type ErrorOverlay } from '../build/error-overlay';
+import { CONFIG_FILENAMES } from '../build/hooks';
+import { resolveCollections } from '../build/collections';
 
 /**
  * Lock file data structure for preventing multiple dev servers in the same project.
@@ -138,6 +149,7 @@ interface DevOptions {
   open?: boolean;
   route?: string; // Route to open in browser, auto-detected if not specified
   static?: 'public' | 'assets' | 'all';
+  checkLinks?: boolean; // Warn about broken links after each build (default: true)
 }
 
 /**
@@ -173,14 +185,29 @@ export async function devCommand(ctx: BuildContext, options: DevOptions = {}) {
 
   log.debug('Starting Bun dev server...');
 
-  // Initial build
-  await buildCommand(ctx, { ssg: false, static: options.static });
+  // Initial build (keeps a dependency graph so later rebuilds are incremental)
+  let lastBuild = await buildCommand(ctx, {
+    ssg: false,
+    static: options.static,
+    incremental: true,
+    hmr: true,
+    checkLinks: options.checkLinks === false ? false : 'warn',
+  });
+
+  // Hot updates need react-refresh in the project; without it, pages reload
+  let hmrEnabled = false;
+  try {
+    hmrEnabled = await buildHmrRuntime(ctx);
+  } catch (error) {
+    log.debug('HMR runtime build failed, using live reload:', error);
+  }
 
   // Start the HTTP server with port fallback and live reload
   const { server, port } = await startServerWithFallback({
     buildDir: ctx.buildDir,
     port: preferredPort,
     liveReload: true,
+    hmrDir: hmrEnabled ? ctx.hmrDir : undefined,
   });
 
   // Write lock file with our PID and port
@@ -199,9 +226,26 @@ export async function devCommand(ctx: BuildContext, options: DevOptions = {}) {
   const watchers: ReturnType<typeof watch>[] = [];
 
   let rebuildTimeout: Timer | null = null;
+  const changedFiles = new Set<string>();
   let isRebuilding = false;
   let watchingEnabled = true;
 
+  // Hot-swap the changed modules where possible, otherwise reload the page
+  const notifyClients = async (state: BuildPipelineState, frontmatterBefore: Map<string, string>) => {
+    const modules = hmrEnabled ? await planHmrUpdate(state, frontmatterBefore) : null;
+    if (modules) {
+      try {
+        notifyHmrUpdate(await buildHmrUpdate(ctx, state, modules));
+        log.debug('Rebuild complete, sent hot update');
+        return;
+      } catch (error) {
+        log.debug('HMR update failed, reloading instead:', error);
+      }
+    }
+    notifyLiveReloadClients();
+    log.debug('Rebuild complete, reloading browsers...');
+  };
+
   const debouncedRebuild = () => {
     if (!watchingEnabled) return;
     if (rebuildTimeout) {
@@ -212,13 +256,25 @@ export async function devCommand(ctx: BuildContext, options: DevOptions = {}) {
       isRebuilding = true;
       watchingEnabled = false; // Pause watching during build
       log.info('File change detected, rebuilding...');
+      const files = [...changedFiles];
+      changedFiles.clear();
       try {
-        await buildCommand(ctx, { ssg: false, static: options.static });
-        // Notify all connected clients to reload
-        notifyLiveReloadClients();
-        log.debug('Rebuild complete, reloading browsers...');
+        const frontmatterBefore = snapshotFrontmatter(lastBuild.state);
+        lastBuild = await rebuildCommand(ctx, lastBuild.state, files);
+        await notifyClients(lastBuild.state, frontmatterBefore);
       } catch (error) {
+        // Carry the files over so the next rebuild retries them. The plan for the
+        // same files is the same, so a failed full rebuild is retried as a full one.
+        for (const file of files) changedFiles.add(file);
         log.error('Rebuild failed:', error);
+        let overlay: ErrorOverlay;
+        try {
+          overlay = await createErrorOverlay(ctx, error as Error);
+        } catch (overlayError) {
+          log.debug('Error overlay failed, showing the message only:', overlayError);
+          overlay = { type: 'error', message: (error as Error).message ?? String(error) };
+        }
+        notifyBuildError(overlay);
       } finally {
         isRebuilding = false;
         // Resume watching after a brief delay to let filesystem settle
@@ -232,6 +288,33 @@ export async function devCommand(ctx: BuildContext, options: DevOptions = {}) {
       const watcher = watch(dir, { recursive: true }, (event, filename) => {
         if (filename && !filename.startsWith('.')) {
           log.debug(`File ${event}: ${filename}`);
+          changedFiles.add(path.join(dir, filename));
+          debouncedRebuild();
+        }
+      });
+      watchers.push(watcher);
+    } catch {
+      // Directory might not exist, skip
+    }
+  }
+
+  // Files outside those directories: the config file with build hooks and
+  // collection schemas. Their directories are watched without recursing, as
+  // the project root also holds node_modules and dist.
+  const watchedFiles = new Map<string, Set<string>>([[ctx.rootDir, new Set(CONFIG_FILENAMES)]]);
+  const collections = await resolveCollections(ctx).catch(() => []);
+  for (const { schemaPath } of collections) {
+    if (watchDirs.some((dir) => schemaPath.startsWith(dir + path.sep))) continue;
+    const dir = path.dirname(schemaPath);
+    if (!watchedFiles.has(dir)) watchedFiles.set(dir, new Set());
+    watchedFiles.get(dir)!.add(path.basename(schemaPath));
+  }
+  for (const [dir, filenames] of watchedFiles) {
+    try {
+      const watcher = watch(dir, (event, filename) => {
+        if (filename && filenames.has(filename)) {
+          log.debug(`File ${event}: ${filename}`);
+          changedFiles.add(path.join(dir, filename));
           debouncedRebuild();
         }
       });
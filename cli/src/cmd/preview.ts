@@ -3,7 +3,7 @@ import fs from "fs/promises";
 import log from "../logger";
 import { openBrowser } from "../util";
 import { findRoute } from "./dev";
-import { startServerWithFallback } from "./server";
+import { loadSiteRules, startServerWithFallback } from "./server";
 
 interface PreviewOptions {
     port?: number;
@@ -33,6 +33,8 @@ export async function previewCommand(ctx: BuildContext, options: PreviewOptions)
         buildDir: ctx.buildDir,
         port: preferredPort,
         liveReload: false,
+        // Redirect and header rules behave as they will once published
+        siteRules: await loadSiteRules(ctx.buildDir),
     });
 
     log.info(`Preview server running at http://localhost:${port}/`);
@@ -1,7 +1,20 @@
 import path from 'path';
 import log from '../logger';
-import { getContentType } from '../util';
+import { getContentType, openInEditor } from '../util';
 import type { ServerWebSocket, WebSocketHandler } from 'bun';
+import { HMR_URL_PREFIX, type HmrUpdate } from '../build/hmr';
+import type { ErrorOverlay } from '../build/error-overlay';
+import {
+  HEADERS_FILE,
+  REDIRECTS_FILE,
+  matchHeaders,
+  matchRedirect,
+  parseHeaders,
+  parseRedirects,
+  type HeaderRule,
+  type ParsedRules,
+  type RedirectRule,
+} from '@scratchwork/shared/site-rules';
 
 /**
  * Known static file extensions that should be served directly.
@@ -36,6 +49,27 @@ export function hasStaticFileExtension(pathname: string): boolean {
   return STATIC_FILE_EXTENSIONS.has(match[1].toLowerCase());
 }
 
+/**
+ * Read the _redirects and _headers files at the root of a built site.
+ * Invalid lines are reported and skipped, as the server skips them on deploy.
+ */
+export async function loadSiteRules(buildDir: string): Promise<SiteRules> {
+  async function read<T>(name: string, parse: (text: string) => ParsedRules<T>): Promise<T[]> {
+    const file = Bun.file(path.join(buildDir, name));
+    if (!(await file.exists())) return [];
+    const { rules, errors } = parse(await file.text());
+    for (const error of errors) {
+      log.info(`${name}:${error.line}: ${error.message} (line ignored)`);
+    }
+    return rules;
+  }
+
+  return {
+    redirects: await read(REDIRECTS_FILE, parseRedirects),
+    headers: await read(HEADERS_FILE, parseHeaders),
+  };
+}
+
 /**
  * Check if a port is available by attempting to listen on it.
  */
@@ -57,6 +91,16 @@ export interface ServerOptions {
   port: number;
   maxAttempts?: number;
   liveReload?: boolean;
+  /** Directory with the HMR runtime and update bundles, served under /__hmr */
+  hmrDir?: string;
+  /** _redirects and _headers rules to apply, as the server does for published sites */
+  siteRules?: SiteRules;
+}
+
+/** Parsed _redirects and _headers rules of a built site */
+export interface SiteRules {
+  redirects: RedirectRule[];
+  headers: HeaderRule[];
 }
 
 export interface ServerResult {
@@ -67,19 +111,49 @@ export interface ServerResult {
 // Store connected WebSocket clients for live reload
 const liveReloadClients = new Set<ServerWebSocket<unknown>>();
 
+// Error from the last failed build, shown to clients that connect until a build succeeds
+let currentError: ErrorOverlay | null = null;
+
 /**
  * Notify all connected live reload clients to reload.
  */
 export function notifyLiveReloadClients(): void {
+  currentError = null;
   for (const client of liveReloadClients) {
     client.send('reload');
   }
 }
 
+/**
+ * Send a hot update to all connected live reload clients.
+ * Pages that can't apply it reload instead.
+ */
+export function notifyHmrUpdate(update: HmrUpdate): void {
+  currentError = null;
+  const message = JSON.stringify(update);
+  for (const client of liveReloadClients) {
+    client.send(message);
+  }
+}
+
+/**
+ * Show a build error overlay on all connected live reload clients.
+ * The overlay stays until the next reload or hot update.
+ */
+export function notifyBuildError(overlay: ErrorOverlay): void {
+  currentError = overlay;
+  const message = JSON.stringify(overlay);
+  for (const client of liveReloadClients) {
+    client.send(message);
+  }
+}
+
 /**
  * Inject live reload script into HTML content.
+ * With HMR, the runtime goes in <head> so it runs before the page's bundle
+ * loads react-dom.
  */
-function injectLiveReloadScript(html: string, port: number): string {
+function injectLiveReloadScript(html: string, port: number, hmr: boolean): string {
   const script = `
 <script>
 (function() {
@@ -87,8 +161,91 @@ function injectLiveReloadScript(html: string, port: number): string {
   ws.onmessage = function(event) {
     if (event.data === 'reload') {
       location.reload();
+      return;
+    }
+    const message = JSON.parse(event.data);
+    if (message.type === 'error') {
+      showErrorOverlay(message);
+      return;
     }
+    hideErrorOverlay();
+    applyUpdate(message);
   };
+  function hideErrorOverlay() {
+    const existing = document.getElementById('__scratch_error_overlay');
+    if (existing) existing.remove();
+  }
+  function showErrorOverlay(error) {
+    hideErrorOverlay();
+    function el(tag, style, text) {
+      const node = document.createElement(tag);
+      node.setAttribute('style', style);
+      if (text !== undefined) node.textContent = text;
+      return node;
+    }
+    const overlay = el('div', 'position:fixed;inset:0;z-index:2147483647;overflow:auto;padding:48px 24px;' +
+      'background:rgba(0,0,0,0.85);color:#f4f4f5;font:14px/1.5 ui-monospace,SFMono-Regular,Menlo,monospace');
+    overlay.id = '__scratch_error_overlay';
+    const panel = el('div', 'max-width:960px;margin:0 auto;padding:24px;border-top:4px solid #ef4444;border-radius:6px;background:#18181b');
+    panel.appendChild(el('div', 'margin-bottom:12px;color:#ef4444;font-weight:bold', 'Build failed'));
+    panel.appendChild(el('pre', 'margin:0;white-space:pre-wrap', error.message));
+    if (error.location) {
+      const loc = error.location;
+      const position = loc.file + (loc.line ? ':' + loc.line + (loc.column ? ':' + loc.column : '') : '');
+      const source = el('div', 'margin-top:16px;cursor:pointer');
+      source.title = 'Open in editor';
+      source.appendChild(el('div', 'margin-bottom:4px;color:#a1a1aa;text-decoration:underline', position));
+      if (error.snippet) {
+        const pre = el('pre', 'margin:0;padding:12px;border-radius:4px;background:#09090b;overflow:auto');
+        error.snippet.lines.forEach(function(text, i) {
+          const number = error.snippet.start + i;
+          const isErrorLine = number === loc.line;
+          pre.appendChild(el('div', isErrorLine ? 'background:rgba(239,68,68,0.25)' : 'color:#a1a1aa',
+            String(number).padStart(5) + (isErrorLine ? ' > ' : '   ') + text));
+        });
+        source.appendChild(pre);
+      }
+      const hint = el('div', 'margin-top:8px;color:#71717a;font-size:12px', 'Click to open in $EDITOR');
+      source.appendChild(hint);
+      source.onclick = function() {
+        fetch('/__open-in-editor', { method: 'POST' }).then(function(res) {
+          if (!res.ok) res.text().then(function(text) { hint.textContent = text; });
+        });
+      };
+      panel.appendChild(source);
+    }
+    panel.appendChild(el('div', 'margin-top:16px;color:#71717a;font-size:12px',
+      'This overlay closes after the next successful build.'));
+    overlay.appendChild(panel);
+    document.body.appendChild(overlay);
+  }
+  async function applyUpdate(update) {
+    if (update.css) {
+      document.querySelectorAll('link[rel="stylesheet"]').forEach(function(link) {
+        if (/\\/tailwind-\\w+\\.css$/.test(link.getAttribute('href') || '')) {
+          link.setAttribute('href', update.css);
+        }
+      });
+    }
+    if (update.modules.length === 0) return;
+    const hmr = window.__SCRATCH_HMR__;
+    if (!hmr) {
+      location.reload();
+      return;
+    }
+    // Skip modules this page doesn't use
+    const modules = update.modules.filter(function(m) { return hmr.registered.has(m.id); });
+    if (modules.length === 0) return;
+    try {
+      for (const m of modules) {
+        await import(m.url);
+      }
+      hmr.refresh();
+    } catch (error) {
+      console.error('[scratch] Hot update failed, reloading:', error);
+      location.reload();
+    }
+  }
   ws.onclose = function() {
     // Try to reconnect after a delay
     setTimeout(function() {
@@ -98,7 +255,10 @@ function injectLiveReloadScript(html: string, port: number): string {
 })();
 </script>`;
 
-  return html.replace('</body>', `${script}\n</body>`);
+  const withRuntime = hmr
+    ? html.replace('</head>', `<script type="module" src="${HMR_URL_PREFIX}/runtime.js"></script>\n</head>`)
+    : html;
+  return withRuntime.replace('</body>', `${script}\n</body>`);
 }
 
 /**
@@ -108,8 +268,64 @@ function createFetchHandler(
   buildDir: string,
   liveReload: boolean,
   port: number,
-  server: ReturnType<typeof Bun.serve>
+  server: ReturnType<typeof Bun.serve>,
+  hmrDir?: string,
+  siteRules?: SiteRules
 ) {
+  /**
+   * Serve a file from the build directory, injecting live reload into HTML.
+   */
+  async function respondWithFile(
+    filePath: string,
+    status: number,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<Response> {
+    const file = Bun.file(filePath);
+
+    // For HTML files, optionally inject live reload script
+    if (filePath.endsWith('.html')) {
+      let content = await file.text();
+      if (liveReload) {
+        const hmr = !!hmrDir && (await Bun.file(path.join(hmrDir, 'runtime.js')).exists());
+        content = injectLiveReloadScript(content, port, hmr);
+      }
+      return new Response(content, {
+        status,
+        headers: {
+          'Content-Type': 'text/html',
+          // Disable caching in dev mode to ensure fresh content
+          ...(liveReload && { 'Cache-Control': 'no-store, no-cache, must-revalidate' }),
+          ...extraHeaders,
+        },
+      });
+    }
+
+    // For all other files (including binary), serve directly
+    return new Response(file, {
+      status,
+      headers: {
+        'Content-Type': getContentType(filePath),
+        // Disable caching in dev mode to ensure fresh content on HMR
+        ...(liveReload && { 'Cache-Control': 'no-store, no-cache, must-revalidate' }),
+        ...extraHeaders,
+      },
+    });
+  }
+
+  /**
+   * Serve the site's own 404 page (from pages/404.mdx), like published sites do,
+   * or a plain Not Found if it has none.
+   */
+  async function notFound(): Promise<Response> {
+    for (const candidate of ['404/index.html', '404.html']) {
+      const notFoundPath = path.join(buildDir, candidate);
+      if (await Bun.file(notFoundPath).exists()) {
+        return respondWithFile(notFoundPath, 404);
+      }
+    }
+    return new Response('Not Found', { status: 404 });
+  }
+
   return async function fetch(req: Request): Promise<Response | undefined> {
     const url = new URL(req.url);
     let pathname = url.pathname;
@@ -123,6 +339,55 @@ function createFetchHandler(
       return; // WebSocket upgrade handled
     }
 
+    // Open the file of the current build error in the user's editor
+    if (liveReload && pathname === '/__open-in-editor') {
+      const origin = req.headers.get('Origin');
+      if (req.method !== 'POST' || (origin && origin !== url.origin)) {
+        return new Response('Forbidden', { status: 403 });
+      }
+      const location = currentError?.location;
+      if (!location) {
+        return new Response('No build error to open', { status: 404 });
+      }
+      try {
+        if (!openInEditor(location.absPath, location.line, location.column)) {
+          return new Response('Set $EDITOR to open files from the browser', { status: 501 });
+        }
+      } catch (error) {
+        log.debug('Open in editor failed:', error);
+        return new Response((error as Error).message, { status: 501 });
+      }
+      return new Response(null, { status: 204 });
+    }
+
+    // Serve HMR runtime and update bundles
+    if (hmrDir && pathname.startsWith(HMR_URL_PREFIX + '/')) {
+      const hmrFile = Bun.file(path.join(hmrDir, pathname.slice(HMR_URL_PREFIX.length)));
+      if (await hmrFile.exists()) {
+        return new Response(hmrFile, {
+          headers: {
+            'Content-Type': 'application/javascript',
+            'Cache-Control': 'no-store, no-cache, must-revalidate',
+          },
+        });
+      }
+      return new Response('Not Found', { status: 404 });
+    }
+
+    // Apply _redirects before the file lookup; 200 rules serve another file
+    const requestPath = pathname;
+    if (siteRules) {
+      if (pathname === `/${REDIRECTS_FILE}` || pathname === `/${HEADERS_FILE}`) {
+        return notFound();
+      }
+      const redirect = matchRedirect(siteRules.redirects, pathname, url.search);
+      if (redirect?.status === 200) {
+        pathname = new URL(redirect.to, url.origin).pathname;
+      } else if (redirect) {
+        return new Response(null, { status: redirect.status, headers: { Location: redirect.to } });
+      }
+    }
+
     // Serve files from build directory
     let filePath = path.join(buildDir, pathname);
 
@@ -139,34 +404,12 @@ function createFetchHandler(
       }
     }
 
-    const file = Bun.file(filePath);
-    if (await file.exists()) {
-      // For HTML files, optionally inject live reload script
-      if (filePath.endsWith('.html')) {
-        let content = await file.text();
-        if (liveReload) {
-          content = injectLiveReloadScript(content, port);
-        }
-        return new Response(content, {
-          headers: {
-            'Content-Type': 'text/html',
-            // Disable caching in dev mode to ensure fresh content
-            ...(liveReload && { 'Cache-Control': 'no-store, no-cache, must-revalidate' }),
-          },
-        });
-      }
-
-      // For all other files (including binary), serve directly
-      return new Response(file, {
-        headers: {
-          'Content-Type': getContentType(filePath),
-          // Disable caching in dev mode to ensure fresh content on HMR
-          ...(liveReload && { 'Cache-Control': 'no-store, no-cache, must-revalidate' }),
-        },
-      });
+    if (!(await Bun.file(filePath).exists())) {
+      return notFound();
     }
 
-    return new Response('Not Found', { status: 404 });
+    // _headers rules match the requested path, not a rewritten one
+    return respondWithFile(filePath, 200, siteRules ? matchHeaders(siteRules.headers, requestPath) : {});
   };
 }
 
@@ -180,7 +423,7 @@ function createFetchHandler(
  * - Disables caching for all responses
  */
 export async function startServerWithFallback(options: ServerOptions): Promise<ServerResult> {
-  const { buildDir, port: preferredPort, maxAttempts = 10, liveReload = false } = options;
+  const { buildDir, port: preferredPort, maxAttempts = 10, liveReload = false, hmrDir, siteRules } = options;
 
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
     const port = preferredPort + attempt;
@@ -204,6 +447,9 @@ export async function startServerWithFallback(options: ServerOptions): Promise<S
         ? {
             open(ws) {
               liveReloadClients.add(ws);
+              if (currentError) {
+                ws.send(JSON.stringify(currentError));
+              }
             },
             close(ws) {
               liveReloadClients.delete(ws);
@@ -223,7 +469,7 @@ export async function startServerWithFallback(options: ServerOptions): Promise<S
       });
 
       // Now create the fetch handler with access to the server
-      fetchHandler = createFetchHandler(buildDir, liveReload, port, server);
+      fetchHandler = createFetchHandler(buildDir, liveReload, port, server, hmrDir, siteRules);
 
       return { server, port };
     } catch (error) {
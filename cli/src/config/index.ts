@@ -6,7 +6,17 @@
 // - .scratchwork/project.toml - Project config (0o644)
 
 // Types
-export type { Credentials, CredentialEntry, CredentialsFile, ProjectConfig, GlobalConfig, CfAccessEntry, CfAccessFile } from './types'
+export type {
+  Credentials,
+  CredentialEntry,
+  CredentialsFile,
+  ProjectConfig,
+  MarkdownConfig,
+  MarkdownPluginEntry,
+  GlobalConfig,
+  CfAccessEntry,
+  CfAccessFile,
+} from './types'
 
 // Paths and server URL utilities
 export { PATHS, DEFAULT_SERVER_URL, getServerUrl, getDefaultServerUrl } from './paths'
@@ -1,9 +1,12 @@
 import { mkdir, writeFile, readFile } from 'fs/promises'
 import { join } from 'path'
-import { parse as parseToml } from 'smol-toml'
+import { parse as parseToml, stringify as stringifyToml } from 'smol-toml'
 import { PATHS } from './paths'
 import { escapeTomlString } from './toml'
-import type { ProjectConfig } from './types'
+import type { CollectionConfig, MarkdownConfig, ProjectBuildConfig, ProjectConfig } from './types'
+
+// Keys written by saveProjectConfig(); anything else in the file is preserved as-is
+const CLOUD_KEYS = ['id', 'name', 'team', 'server_url', 'visibility']
 
 const PROJECT_CONFIG_HEADER = [
   '# Scratchwork Cloud Project Configuration',
@@ -24,15 +27,23 @@ export async function loadProjectConfig(projectPath: string): Promise<ProjectCon
     const parsed = parseToml(content) as {
       id?: string
       name?: string
+      team?: string
       server_url?: string
       visibility?: string
+      markdown?: MarkdownConfig
+      build?: ProjectBuildConfig
+      collections?: Record<string, CollectionConfig>
     }
 
     return {
       id: parsed.id,
       name: parsed.name,
+      ...(parsed.team && { team: parsed.team }),
       server_url: parsed.server_url,
       visibility: parsed.visibility,
+      ...(parsed.markdown && { markdown: parsed.markdown }),
+      ...(parsed.build && { build: parsed.build }),
+      ...(parsed.collections && { collections: parsed.collections }),
     }
   } catch (err: any) {
     if (err.code === 'ENOENT') {
@@ -44,6 +55,7 @@ export async function loadProjectConfig(projectPath: string): Promise<ProjectCon
 
 /**
  * Save project config to .scratchwork/project.toml
+ * Cloud settings are rewritten; other sections already in the file (e.g. [markdown]) are kept.
  */
 export async function saveProjectConfig(projectPath: string, config: ProjectConfig): Promise<void> {
   const scratchDir = join(projectPath, '.scratchwork')
@@ -52,6 +64,17 @@ export async function saveProjectConfig(projectPath: string, config: ProjectConf
   // Ensure .scratch directory exists
   await mkdir(scratchDir, { recursive: true })
 
+  const preserved = await readPreservedSections(configPath)
+  if (config.markdown) {
+    preserved.markdown = config.markdown
+  }
+  if (config.build) {
+    preserved.build = config.build
+  }
+  if (config.collections) {
+    preserved.collections = config.collections
+  }
+
   // Generate TOML content with comments
   const lines = [...PROJECT_CONFIG_HEADER, '']
 
@@ -63,6 +86,10 @@ export async function saveProjectConfig(projectPath: string, config: ProjectConf
     lines.push('# Project name', `name = "${escapeTomlString(config.name)}"`, '')
   }
 
+  if (config.team) {
+    lines.push('# Team (slug) the project belongs to', `team = "${escapeTomlString(config.team)}"`, '')
+  }
+
   if (config.server_url) {
     lines.push(
       '# Server URL (overrides global default)',
@@ -75,6 +102,27 @@ export async function saveProjectConfig(projectPath: string, config: ProjectConf
     lines.push('# Visibility', `visibility = "${escapeTomlString(config.visibility)}"`, '')
   }
 
+  if (Object.keys(preserved).length > 0) {
+    lines.push(stringifyToml(preserved), '')
+  }
+
   const content = lines.join('\n')
   await writeFile(configPath, content, 'utf-8')
 }
+
+/**
+ * Read the sections of an existing project.toml that saveProjectConfig() doesn't manage.
+ */
+async function readPreservedSections(configPath: string): Promise<Record<string, any>> {
+  let parsed: Record<string, any>
+  try {
+    parsed = parseToml(await readFile(configPath, 'utf-8'))
+  } catch {
+    // Missing or unparseable file: nothing to keep
+    return {}
+  }
+  for (const key of CLOUD_KEYS) {
+    delete parsed[key]
+  }
+  return parsed
+}
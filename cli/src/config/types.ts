@@ -50,6 +50,43 @@ export interface Credentials extends CredentialEntry {
   server: string
 }
 
+/**
+ * A remark or rehype plugin listed in project.toml: an npm package name or a
+ * path relative to the project root, or a table with options
+ */
+export type MarkdownPluginEntry =
+  | string
+  | {
+      plugin: string
+      options?: Record<string, unknown>
+      position?: 'before' | 'after'  // Relative to the built-in plugins (default: after)
+    }
+
+/**
+ * [markdown] section of project.toml
+ */
+export interface MarkdownConfig {
+  remark_plugins?: MarkdownPluginEntry[]
+  rehype_plugins?: MarkdownPluginEntry[]
+}
+
+/**
+ * A [collections.<name>] table in project.toml: the pages in the collection
+ * and the module whose default export is the zod schema for their frontmatter
+ */
+export interface CollectionConfig {
+  pattern: string  // Glob relative to the project root, e.g. "pages/blog/**"
+  schema: string  // Path relative to the project root, e.g. "./schemas/blog.ts"
+}
+
+/**
+ * [build] section of project.toml
+ */
+export interface ProjectBuildConfig {
+  islands?: boolean  // Ship JS only for client:load / client:visible components (SSG builds)
+  client_router?: boolean  // Navigate between pages without full page loads (SSG builds)
+}
+
 /**
  * Project config - can be checked into version control
  * Stored in .scratchwork/project.toml (0o644)
@@ -57,8 +94,12 @@ export interface Credentials extends CredentialEntry {
 export interface ProjectConfig {
   id?: string  // Project ID from server (do not modify)
   name?: string
+  team?: string  // Team slug, for team projects
   server_url?: string
   visibility?: string
+  markdown?: MarkdownConfig
+  build?: ProjectBuildConfig
+  collections?: Record<string, CollectionConfig>
 }
 
 /**
@@ -20,7 +20,18 @@ import { loginCommand, logoutCommand, whoamiCommand, cfAccessCommand } from './c
 import { publishCommand } from './cmd/cloud/publish';
 import { configCommand } from './cmd/cloud/config';
 import { listProjectsCommand, projectInfoCommand, projectDeleteCommand } from './cmd/cloud/projects';
+import { deployListCommand, deployPromoteCommand, deployRollbackCommand } from './cmd/cloud/deploys';
 import { shareCreateCommand, shareListCommand, shareRevokeCommand } from './cmd/cloud/share';
+import { domainAddCommand, domainListCommand, domainRemoveCommand, domainVerifyCommand } from './cmd/cloud/domains';
+import {
+  listTeamsCommand,
+  createTeamCommand,
+  deleteTeamCommand,
+  listTeamMembersCommand,
+  addTeamMemberCommand,
+  removeTeamMemberCommand,
+} from './cmd/cloud/teams';
+import { memberAddCommand, memberListCommand, memberRemoveCommand } from './cmd/cloud/members';
 import { listTokensCommand, createTokenCommand, revokeTokenCommand, useTokenCommand } from './cmd/cloud/tokens';
 import { defaultsCommand } from './cmd/cloud/defaults';
 
@@ -91,6 +102,7 @@ program
   .option('--no-ssg', 'Disable static site generation')
   .option('--strict', 'Do not inject PageWrapper component or missing imports')
   .option('--highlight <mode>', 'Syntax highlighting: off, popular, auto, all', 'auto')
+  .option('--check-links', 'Fail the build on broken internal links, anchors or images')
   .action(
     withErrorHandling('Build', async (path, options) => {
       const startTime = Date.now();
@@ -115,6 +127,7 @@ program
   .option('-b, --base <path>', 'Base path for deployment (e.g., /mysite/)')
   .option('--strict', 'Do not inject PageWrapper component or missing imports')
   .option('--highlight <mode>', 'Syntax highlighting: off, popular, auto, all', 'auto')
+  .option('--no-check-links', "Don't warn about broken internal links, anchors or images")
   .action(
     withErrorHandling('Dev server', async (path, options) => {
       log.info('Starting dev server in', path);
@@ -195,21 +208,25 @@ program
   .argument('[path]', 'Path to project directory', '.')
   .option('--server <url>', 'Server URL (uses project config or prompts if not specified)')
   .option('--name <name>', 'Override project name')
+  .option('--team <slug>', 'Publish as a project of this team')
   .option('--visibility <visibility>', 'Override visibility (public, private, @domain, or email list)')
   .option('--no-build', 'Skip build step')
   .option('--no-open', 'Skip opening browser after deploy')
   .option('--dry-run', 'Show what would be deployed without uploading')
-  .option('--www', 'Publish for serving at the naked domain (no base path)')
+  .option('--www', 'Publish for serving at the naked domain or a custom domain (no base path)')
+  .option('--preview', 'Upload without making it live; serve it at a per-version URL')
   .action(
     withErrorHandling('Publish', async (projectPath, options) => {
       const ctx = new CloudContext({ serverUrl: options.server, projectPath });
       await publishCommand(ctx, projectPath, {
         name: options.name,
+        team: options.team,
         visibility: options.visibility,
         noBuild: options.build === false,
         noOpen: options.open === false,
         dryRun: options.dryRun === true,
         www: options.www === true,
+        preview: options.preview === true,
       });
     })
   );
@@ -290,6 +307,49 @@ projects
     })
   );
 
+// Deploys subcommand group
+const deploys = program
+  .command('deploys')
+  .description('List deploys and change which one is live');
+
+deploys
+  .command('ls', { isDefault: true })
+  .alias('list')
+  .description('List deploys for a project')
+  .argument('[project]', 'Project name (uses .scratchwork/project.toml if not specified)')
+  .option('--server <url>', 'Server URL (defaults to scratchwork.dev)')
+  .action(
+    withErrorHandling('Deploys ls', async (project, options) => {
+      const ctx = new CloudContext({ serverUrl: options.server });
+      await deployListCommand(ctx, project);
+    })
+  );
+
+deploys
+  .command('rollback')
+  .description('Make the deploy before the live one live again')
+  .argument('[project]', 'Project name (uses .scratchwork/project.toml if not specified)')
+  .option('--server <url>', 'Server URL (defaults to scratchwork.dev)')
+  .action(
+    withErrorHandling('Deploys rollback', async (project, options) => {
+      const ctx = new CloudContext({ serverUrl: options.server });
+      await deployRollbackCommand(ctx, project);
+    })
+  );
+
+deploys
+  .command('promote')
+  .description('Make a deploy live')
+  .argument('<version>', 'Deploy version to make live (e.g. 3 or v3)')
+  .argument('[project]', 'Project name (uses .scratchwork/project.toml if not specified)')
+  .option('--server <url>', 'Server URL (defaults to scratchwork.dev)')
+  .action(
+    withErrorHandling('Deploys promote', async (version, project, options) => {
+      const ctx = new CloudContext({ serverUrl: options.server });
+      await deployPromoteCommand(ctx, version, project);
+    })
+  );
+
 // Share subcommand group
 const share = program
   .command('share')
@@ -334,6 +394,190 @@ share
     })
   );
 
+// Domains subcommand group
+const domains = program
+  .command('domains')
+  .description('Serve a project at the root of your own domain');
+
+domains
+  .command('ls', { isDefault: true })
+  .alias('list')
+  .description('List custom domains for a project')
+  .argument('[project]', 'Project name (uses .scratchwork/project.toml if not specified)')
+  .option('--server <url>', 'Server URL (defaults to scratchwork.dev)')
+  .action(
+    withErrorHandling('Domains ls', async (project, options) => {
+      const ctx = new CloudContext({ serverUrl: options.server });
+      await domainListCommand(ctx, project);
+    })
+  );
+
+domains
+  .command('add')
+  .description('Add a custom domain and show the DNS record that verifies it')
+  .argument('<hostname>', 'Domain to add (e.g. docs.example.com)')
+  .argument('[project]', 'Project name (uses .scratchwork/project.toml if not specified)')
+  .option('--server <url>', 'Server URL (defaults to scratchwork.dev)')
+  .action(
+    withErrorHandling('Domains add', async (hostname, project, options) => {
+      const ctx = new CloudContext({ serverUrl: options.server });
+      await domainAddCommand(ctx, hostname, project);
+    })
+  );
+
+domains
+  .command('verify')
+  .description("Check a domain's DNS record and start serving the project there")
+  .argument('<hostname>', 'Domain to verify')
+  .argument('[project]', 'Project name (uses .scratchwork/project.toml if not specified)')
+  .option('--server <url>', 'Server URL (defaults to scratchwork.dev)')
+  .action(
+    withErrorHandling('Domains verify', async (hostname, project, options) => {
+      const ctx = new CloudContext({ serverUrl: options.server });
+      await domainVerifyCommand(ctx, hostname, project);
+    })
+  );
+
+domains
+  .command('rm')
+  .description('Remove a custom domain')
+  .argument('<hostname>', 'Domain to remove')
+  .argument('[project]', 'Project name (uses .scratchwork/project.toml if not specified)')
+  .option('--server <url>', 'Server URL (defaults to scratchwork.dev)')
+  .action(
+    withErrorHandling('Domains rm', async (hostname, project, options) => {
+      const ctx = new CloudContext({ serverUrl: options.server });
+      await domainRemoveCommand(ctx, hostname, project);
+    })
+  );
+
+// Members subcommand group
+const members = program
+  .command('members')
+  .description('Let other users publish or view one of your projects');
+
+members
+  .command('ls', { isDefault: true })
+  .alias('list')
+  .description('List the members of a project')
+  .argument('[project]', 'Project name (uses .scratchwork/project.toml if not specified)')
+  .option('--server <url>', 'Server URL (defaults to scratchwork.dev)')
+  .action(
+    withErrorHandling('Members ls', async (project, options) => {
+      const ctx = new CloudContext({ serverUrl: options.server });
+      await memberListCommand(ctx, project);
+    })
+  );
+
+members
+  .command('add')
+  .description("Add a member to a project, or change a member's role")
+  .argument('<email>', 'Email of a user who has logged in to the server')
+  .argument('[project]', 'Project name (uses .scratchwork/project.toml if not specified)')
+  .option('--role <role>', 'publisher, sharer, or viewer', 'publisher')
+  .option('--server <url>', 'Server URL (defaults to scratchwork.dev)')
+  .action(
+    withErrorHandling('Members add', async (email, project, options) => {
+      const ctx = new CloudContext({ serverUrl: options.server });
+      await memberAddCommand(ctx, email, project, options.role);
+    })
+  );
+
+members
+  .command('rm')
+  .description('Remove a member from a project (or leave it)')
+  .argument('<email>', 'Email of the member')
+  .argument('[project]', 'Project name (uses .scratchwork/project.toml if not specified)')
+  .option('--server <url>', 'Server URL (defaults to scratchwork.dev)')
+  .action(
+    withErrorHandling('Members rm', async (email, project, options) => {
+      const ctx = new CloudContext({ serverUrl: options.server });
+      await memberRemoveCommand(ctx, email, project);
+    })
+  );
+
+// Teams subcommand group
+const teams = program
+  .command('teams')
+  .description('Share projects with a team');
+
+teams
+  .command('ls', { isDefault: true })
+  .alias('list')
+  .description('List your teams')
+  .option('--server <url>', 'Server URL (defaults to scratchwork.dev)')
+  .action(
+    withErrorHandling('Teams ls', async (options) => {
+      const ctx = new CloudContext({ serverUrl: options.server });
+      await listTeamsCommand(ctx);
+    })
+  );
+
+teams
+  .command('create')
+  .description('Create a team (you become its owner)')
+  .argument('<slug>', 'Team slug, used in project URLs')
+  .option('--server <url>', 'Server URL (defaults to scratchwork.dev)')
+  .action(
+    withErrorHandling('Teams create', async (slug, options) => {
+      const ctx = new CloudContext({ serverUrl: options.server });
+      await createTeamCommand(ctx, slug);
+    })
+  );
+
+teams
+  .command('rm')
+  .alias('delete')
+  .description('Delete a team (its projects must be deleted first)')
+  .argument('<slug>', 'Team slug')
+  .option('--server <url>', 'Server URL (defaults to scratchwork.dev)')
+  .option('-f, --force', 'Skip confirmation prompt')
+  .action(
+    withErrorHandling('Teams rm', async (slug, options) => {
+      const ctx = new CloudContext({ serverUrl: options.server });
+      await deleteTeamCommand(ctx, slug, { force: options.force });
+    })
+  );
+
+teams
+  .command('members')
+  .description("List a team's members and their roles")
+  .argument('<slug>', 'Team slug')
+  .option('--server <url>', 'Server URL (defaults to scratchwork.dev)')
+  .action(
+    withErrorHandling('Teams members', async (slug, options) => {
+      const ctx = new CloudContext({ serverUrl: options.server });
+      await listTeamMembersCommand(ctx, slug);
+    })
+  );
+
+teams
+  .command('add-member')
+  .description("Add a member to a team, or change a member's role")
+  .argument('<slug>', 'Team slug')
+  .argument('<email>', 'Email of a user who has logged in to the server')
+  .option('--role <role>', 'owner, publisher, or viewer', 'publisher')
+  .option('--server <url>', 'Server URL (defaults to scratchwork.dev)')
+  .action(
+    withErrorHandling('Teams add-member', async (slug, email, options) => {
+      const ctx = new CloudContext({ serverUrl: options.server });
+      await addTeamMemberCommand(ctx, slug, email, options.role);
+    })
+  );
+
+teams
+  .command('remove-member')
+  .description('Remove a member from a team (or leave it)')
+  .argument('<slug>', 'Team slug')
+  .argument('<email>', 'Email of the member')
+  .option('--server <url>', 'Server URL (defaults to scratchwork.dev)')
+  .action(
+    withErrorHandling('Teams remove-member', async (slug, email, options) => {
+      const ctx = new CloudContext({ serverUrl: options.server });
+      await removeTeamMemberCommand(ctx, slug, email);
+    })
+  );
+
 // Tokens subcommand group
 const tokens = program
   .command('tokens')
@@ -431,7 +675,7 @@ program
 // Commands appear in help in the order listed here
 const COMMAND_GROUPS_CONFIG = [
   { name: 'Local', commands: ['create', 'dev', 'build', 'preview', 'watch', 'clean', 'eject', 'config'] },
-  { name: 'Server', commands: ['publish', 'login', 'logout', 'whoami', 'projects', 'share', 'tokens', 'cf-access', 'set-defaults'] },
+  { name: 'Server', commands: ['publish', 'login', 'logout', 'whoami', 'projects', 'deploys', 'share', 'domains', 'members', 'teams', 'tokens', 'cf-access', 'set-defaults'] },
   { name: 'Other', commands: ['update', 'help'] },
 ] as const;
 
@@ -474,13 +474,18 @@ import { MDXComponents } from "{{markdownComponentsPath}}";
 // Set scratch globals on globalThis for SSR access by components
 {{scratchGlobals}}
 
+// The record of a page generated from a route template, e.g. pages/people/[slug].mdx
+{{propsDeclaration}}
+
 /**
  * Render the application to an HTML string.
  */
 export async function render(url = "/") {
+  // Read by the navigation module; rendering is synchronous, so pages don't overlap
+  globalThis.__SCRATCH_PATH__ = url;
   let rendered = renderToString(
     <MDXProvider components={MDXComponents}>
-      <Component />
+      <Component {...props} />
     </MDXProvider>
   );
 
@@ -489,8 +494,9 @@ export async function render(url = "/") {
 `, binary: false },
 
   '_build/entry-client.tsx': { content: `import React from 'react';
-import { createRoot, hydrateRoot } from 'react-dom/client';
+import { createRoot, hydrateRoot, type Root } from 'react-dom/client';
 import { MDXProvider } from '@mdx-js/react';
+import { startPage } from '{{clientRouterPath}}';
 
 // The source .mdx file for this page
 import Component from '{{entrySourceMdxImportPath}}';
@@ -498,24 +504,356 @@ import Component from '{{entrySourceMdxImportPath}}';
 // Base Markdown components (maps lowercase tag names to styled components)
 import { MDXComponents } from '{{markdownComponentsPath}}';
 
+// The record of a page generated from a route template, e.g. pages/people/[slug].mdx
+{{propsDeclaration}}
+
 const component = React.createElement(
   MDXProvider,
   { components: MDXComponents },
-  React.createElement(Component)
+  React.createElement(Component, props)
 );
 
 // If static site generation was used, hydrate the component container. If not,
 // render and insert the component
-const mdxElement = document.getElementById('mdx')!;
-if ((window as any).__SCRATCH_SSG__) {
-  hydrateRoot(mdxElement, component);
+function mount(mdxElement: HTMLElement, ssg: boolean): Root {
+  if (ssg) {
+    return hydrateRoot(mdxElement, component);
+  }
+  const root = createRoot(mdxElement);
+  root.render(component);
+  return root;
+}
+
+// With the client router, pages are mounted by the router, which also mounts
+// the next page in place when navigating
+if ((window as any).__SCRATCH_ROUTER__) {
+  startPage(import.meta.url, mount);
 } else {
-  createRoot(mdxElement).render(component);
+  mount(document.getElementById('mdx')!, (window as any).__SCRATCH_SSG__);
 }
 `, binary: false },
 
   '_build/empty-mdx-components.ts': { content: `// Empty MDX components - used when src/markdown/ doesn't exist
 export const MDXComponents = {};
+`, binary: false },
+
+  '_build/island.tsx': { content: `import React from 'react';
+
+/**
+ * Wraps a component marked client:load or client:visible in the MDX. The
+ * component renders as usual inside a <scratch-island> element that records
+ * its name and props, so an islands-mode page can hydrate it on its own.
+ */
+export function Island({
+  component,
+  hydrate,
+  children,
+}: {
+  component: string;
+  hydrate: string;
+  children: React.ReactElement<Record<string, unknown>>;
+}) {
+  const element = React.Children.only(children);
+  return React.createElement(
+    'scratch-island',
+    {
+      'data-component': component,
+      'data-hydrate': hydrate,
+      'data-props': serializeProps(component, element.props),
+    },
+    element
+  );
+}
+
+// Island props are sent to the browser as JSON
+function serializeProps(component: string, props: Record<string, unknown>): string {
+  return JSON.stringify(props, (key, value) => {
+    if (typeof value === 'function' || (value && typeof value === 'object' && '$$typeof' in value)) {
+      throw new Error(
+        \`<\${component}> can't be an island: its "\${key}" prop can't be sent to the browser. Island props must be JSON values.\`
+      );
+    }
+    return value;
+  });
+}
+`, binary: false },
+
+  '_build/entry-islands.tsx': { content: `import React from 'react';
+import { hydrateRoot } from 'react-dom/client';
+
+// The components this page marks client:load or client:visible, by name
+{{islandImports}}
+
+const components: Record<string, React.ComponentType<any>> = {};
+{{islandComponents}}
+
+// Hydrate each island rendered by _build/island.tsx from its serialized props.
+// client:visible islands wait until they scroll into view.
+for (const el of document.querySelectorAll<HTMLElement>('scratch-island')) {
+  const component = components[el.dataset.component!];
+  if (!component) continue;
+
+  const props = JSON.parse(el.dataset.props || '{}');
+  const hydrate = () => hydrateRoot(el, React.createElement(component, props));
+
+  if (el.dataset.hydrate === 'visible' && 'IntersectionObserver' in window) {
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        observer.disconnect();
+        hydrate();
+      }
+    });
+    // <scratch-island> is inline; observe the component's own element
+    observer.observe(el.firstElementChild ?? el);
+  } else {
+    hydrate();
+  }
+}
+`, binary: false },
+
+  '_build/router.ts': { content: `import type { Root } from 'react-dom/client';
+
+/**
+ * Client router: navigates between pages without full document loads.
+ *
+ * Each page's client entry calls startPage() with its render function. The
+ * first page to load mounts itself and starts the router; pages loaded later
+ * by the router only register their render function, keyed by the URL of
+ * their entry script. Navigating fetches the target's SSG HTML, swaps the
+ * #mdx content and <head> tags, and hydrates it with the target's entry.
+ */
+
+type MountPage = (mdxElement: HTMLElement, ssg: boolean) => Root;
+
+interface Page {
+  /** Final URL of the page, after any redirect */
+  url: string;
+  lang: string;
+  head: Element[];
+  content: string;
+  /** Absolute URL of the page's client entry */
+  script: string;
+}
+
+// <head> tags that differ between pages (frontmatter tags and their inline scripts)
+const PAGE_HEAD_TAGS = 'title, meta, link[rel="canonical"], script:not([src])';
+
+const mounts = new Map<string, MountPage>();
+const pages = new Map<string, Promise<Page | null>>();
+const preloaded = new Set<string>();
+
+let root: Root | null = null;
+let currentPath = '';
+let navigationId = 0;
+
+export function startPage(scriptUrl: string, mount: MountPage): void {
+  mounts.set(scriptUrl, mount);
+  if (root) return;
+
+  root = mount(document.getElementById('mdx')!, (window as any).__SCRATCH_SSG__);
+  currentPath = location.pathname + location.search;
+
+  // Scroll positions are kept in history state and restored after each swap
+  history.scrollRestoration = 'manual';
+  if (history.state?.scroll) {
+    window.scrollTo(0, history.state.scroll);
+  }
+
+  document.addEventListener('click', onClick);
+  document.addEventListener('mouseover', onIntent);
+  document.addEventListener('focusin', onIntent);
+  document.addEventListener('touchstart', onIntent, { passive: true });
+  window.addEventListener('popstate', onPopState);
+  window.addEventListener('pagehide', saveScroll);
+}
+
+/**
+ * Whether an href is an internal link, as rehype-link-paths decides.
+ * Must match isRelativePath() and isInternalAbsolutePath() in src/build/util.ts.
+ */
+function isInternalHref(href: string): boolean {
+  if (href.startsWith('/')) return !href.startsWith('//');
+  const nonRelativePrefixes = ['http://', 'https://', '#', 'mailto:', 'tel:', 'data:'];
+  return !nonRelativePrefixes.some((prefix) => href.startsWith(prefix));
+}
+
+/**
+ * The page URL a link leads to, or null if the browser should follow it
+ */
+function routableUrl(target: Element | null): URL | null {
+  const link = target?.closest('a[href]');
+  if (!(link instanceof HTMLAnchorElement)) return null;
+  if ((link.target && link.target !== '_self') || link.hasAttribute('download')) return null;
+  if (!isInternalHref(link.getAttribute('href')!)) return null;
+
+  const url = new URL(link.href);
+  const base: string = (window as any).__SCRATCH_BASE__ || '';
+  if (url.origin !== location.origin) return null;
+  if (base && url.pathname !== base && !url.pathname.startsWith(base + '/')) return null;
+
+  // Links to static files like /report.pdf aren't pages
+  const lastSegment = url.pathname.slice(url.pathname.lastIndexOf('/') + 1);
+  if (lastSegment.includes('.') && !lastSegment.endsWith('.html')) return null;
+
+  return url;
+}
+
+function onClick(event: MouseEvent): void {
+  if (event.defaultPrevented || event.button !== 0) return;
+  if (event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) return;
+
+  const url = routableUrl(event.target instanceof Element ? event.target : null);
+  // Same-page links (anchors, or the current page) keep the browser's behavior
+  if (!url || url.pathname + url.search === currentPath) return;
+
+  event.preventDefault();
+  navigate(url, true);
+}
+
+/**
+ * Prefetch a page's HTML and client entry when the reader is about to follow a link
+ */
+function onIntent(event: Event): void {
+  const url = routableUrl(event.target instanceof Element ? event.target : null);
+  if (!url || url.pathname + url.search === currentPath) return;
+
+  loadPage(url).then((page) => {
+    if (!page || preloaded.has(page.script) || mounts.has(page.script)) return;
+    preloaded.add(page.script);
+    const link = document.createElement('link');
+    link.rel = 'modulepreload';
+    link.href = page.script;
+    document.head.appendChild(link);
+  });
+}
+
+function onPopState(event: PopStateEvent): void {
+  // Hash changes within the page are left to the browser
+  if (location.pathname + location.search === currentPath) return;
+  navigate(new URL(location.href), false, event.state?.scroll ?? 0);
+}
+
+function saveScroll(): void {
+  history.replaceState({ ...history.state, scroll: window.scrollY }, '');
+}
+
+/**
+ * Fetch and parse a page, once per URL until the next navigation. Resolves to
+ * null for anything that isn't a Scratchwork page, which is then loaded by the
+ * browser instead.
+ */
+function loadPage(url: URL): Promise<Page | null> {
+  const key = url.pathname + url.search;
+  if (!pages.has(key)) {
+    const page = fetchPage(key).catch(() => null);
+    pages.set(key, page);
+    // Don't cache failures, so a later attempt can succeed
+    page.then((result) => result || pages.delete(key));
+  }
+  return pages.get(key)!;
+}
+
+async function fetchPage(href: string): Promise<Page | null> {
+  const res = await fetch(href, { credentials: 'same-origin' });
+  if (!res.ok || !res.headers.get('Content-Type')?.includes('text/html')) return null;
+
+  const doc = new DOMParser().parseFromString(await res.text(), 'text/html');
+  const content = doc.getElementById('mdx');
+  const script = doc.querySelector('body > script[type="module"][src]');
+  if (!content || !script) return null;
+
+  return {
+    url: res.url,
+    lang: doc.documentElement.lang,
+    head: [...doc.head.querySelectorAll(PAGE_HEAD_TAGS)],
+    content: content.innerHTML,
+    script: new URL(script.getAttribute('src')!, res.url).href,
+  };
+}
+
+/**
+ * Load a page's client entry and return its render function
+ */
+async function loadMount(script: string): Promise<MountPage | null> {
+  if (!mounts.has(script)) {
+    // The entry calls startPage(), which registers it
+    await import(script);
+  }
+  return mounts.get(script) ?? null;
+}
+
+async function navigate(url: URL, push: boolean, scroll = 0): Promise<void> {
+  const id = ++navigationId;
+  try {
+    const page = await loadPage(url);
+    const mount = page && (await loadMount(page.script));
+    if (id !== navigationId) return;
+    // Prefetched pages are only kept until they're used, so a redeploy shows
+    // up on the next navigation rather than after a reload
+    pages.clear();
+    if (!page || !mount) {
+      fullLoad(url, push);
+      return;
+    }
+
+    const finalUrl = new URL(page.url);
+    finalUrl.hash = url.hash;
+    if (push) {
+      saveScroll();
+      history.pushState({}, '', finalUrl.href);
+    }
+    currentPath = finalUrl.pathname + finalUrl.search;
+
+    root?.unmount();
+    document.documentElement.lang = page.lang;
+    replaceHeadTags(page.head);
+    const mdxElement = document.getElementById('mdx')!;
+    mdxElement.innerHTML = page.content;
+    root = mount(mdxElement, true);
+
+    const anchor = finalUrl.hash && document.getElementById(decodeURIComponent(finalUrl.hash.slice(1)));
+    if (push && anchor) {
+      anchor.scrollIntoView();
+    } else {
+      window.scrollTo(0, scroll);
+    }
+  } catch {
+    if (id === navigationId) fullLoad(url, push);
+  }
+}
+
+// Fall back to the browser for pages the router can't swap in. After a
+// popstate the address bar already shows the page, so reload it.
+function fullLoad(url: URL, push: boolean): void {
+  if (push) {
+    location.assign(url.href);
+  } else {
+    location.reload();
+  }
+}
+
+/**
+ * Replace the current page's <head> tags with the next page's, leaving tags
+ * both pages share (viewport, globals, etc.) in place
+ */
+function replaceHeadTags(head: Element[]): void {
+  const current = [...document.head.querySelectorAll(PAGE_HEAD_TAGS)];
+
+  for (const el of current) {
+    if (!head.some((next) => next.isEqualNode(el))) el.remove();
+  }
+  for (const el of head) {
+    if (current.some((prev) => prev.isConnected && prev.isEqualNode(el))) continue;
+    document.head.appendChild(el.tagName === 'SCRIPT' ? runnableScript(el) : document.importNode(el, true));
+  }
+}
+
+// Scripts parsed by DOMParser never run; a fresh copy does
+function runnableScript(el: Element): HTMLScriptElement {
+  const script = document.createElement('script');
+  script.textContent = el.textContent;
+  return script;
+}
 `, binary: false },
 
   'AGENTS.md': { content: `# AGENTS.md
@@ -910,7 +1248,7 @@ Use the \`scratch publish\` command to share your writing, either privately with
 
 For now, you can publish your work for free on [scratch.dev](https://scratch.dev). Projects published on scratch.dev must be less than 5MB and will persist for only 30 days.
 
-You can also [host your own Scratchwork server](/docs#self-hosting) on Cloudflare and protect it with Cloudflare Access for additional security.
+You can also [host your own Scratchwork server](https://scratch.dev/docs#self-hosting) on Cloudflare and protect it with Cloudflare Access for additional security.
 
 
 ## Acknowledgements
@@ -1237,6 +1575,8 @@ export default function Link({ href, children, ...props }: LinkProps) {
 
 interface HeadingProps {
   children?: React.ReactNode;
+  /** Unique id assigned at build time (repeated headings get a suffix) */
+  id?: string;
   level: 2 | 3;
 }
 
@@ -1259,9 +1599,9 @@ function getTextContent(children: React.ReactNode): string {
   return '';
 }
 
-export function Heading({ children, level }: HeadingProps) {
+export function Heading({ children, id: assignedId, level }: HeadingProps) {
   const text = getTextContent(children);
-  const id = slugify(text);
+  const id = assignedId ?? slugify(text);
   const Tag = \`h\${level}\` as const;
 
   return (
@@ -1413,6 +1753,136 @@ export default function Footer() {
     </p>
   );
 }
+`, binary: false },
+
+  'src/template/Search.jsx': { content: `import { useEffect, useRef, useState } from 'react';
+
+const MAX_RESULTS = 8;
+
+/**
+ * Path the site is served from. Published sites can be reached through more
+ * than one path (e.g. by user ID or by email), so this takes the leading
+ * segments of the current URL rather than the build's base path.
+ */
+function siteRoot() {
+  const depth = (globalThis.__SCRATCH_BASE__ || '').split('/').filter(Boolean).length;
+  return window.location.pathname.split('/').slice(0, depth + 1).join('/');
+}
+
+let indexPromise = null;
+
+function loadIndex() {
+  indexPromise ??= fetch(\`\${siteRoot()}/search-index.json\`)
+    .then((res) => (res.ok ? res.json() : { pages: [] }))
+    .catch(() => {
+      indexPromise = null;
+      return { pages: [] };
+    });
+  return indexPromise;
+}
+
+/**
+ * Rank sections that contain every query term. Matches in the page title
+ * count most, then tags and headings, then body text.
+ */
+function search(index, query) {
+  const terms = query.toLowerCase().split(/\\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const results = [];
+  for (const page of index.pages) {
+    const title = page.title.toLowerCase();
+    const tags = page.tags.join(' ').toLowerCase();
+    for (const section of page.sections) {
+      const heading = (section.heading || '').toLowerCase();
+      const text = section.text.toLowerCase();
+      let score = 0;
+      for (const term of terms) {
+        const termScore =
+          (title.includes(term) ? 10 : 0) +
+          (tags.includes(term) ? 5 : 0) +
+          (heading.includes(term) ? 5 : 0) +
+          (text.includes(term) ? 1 : 0);
+        if (termScore === 0) {
+          score = 0;
+          break;
+        }
+        score += termScore;
+      }
+      if (score > 0) {
+        results.push({ page, section, score, excerpt: excerpt(section.text, terms[0]) });
+      }
+    }
+  }
+  return results.sort((a, b) => b.score - a.score).slice(0, MAX_RESULTS);
+}
+
+function excerpt(text, term) {
+  const at = text.toLowerCase().indexOf(term);
+  if (at === -1) return text.slice(0, 120);
+  const start = Math.max(0, at - 40);
+  return (start > 0 ? '…' : '') + text.slice(start, start + 120) + (start + 120 < text.length ? '…' : '');
+}
+
+/**
+ * Full-text search over every page on the site. Reads the search-index.json
+ * written at build time, entirely in the browser. Add <Search /> to a page or
+ * to Header.jsx to use it.
+ */
+export default function Search({ placeholder = 'Search' }) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState([]);
+  const [root, setRoot] = useState('');
+  const latest = useRef('');
+
+  useEffect(() => {
+    setRoot(siteRoot());
+  }, []);
+
+  useEffect(() => {
+    latest.current = query;
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+    loadIndex().then((index) => {
+      if (latest.current === query) setResults(search(index, query));
+    });
+  }, [query]);
+
+  return (
+    <div className="not-prose relative my-4">
+      <input
+        type="search"
+        value={query}
+        onFocus={loadIndex}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={placeholder}
+        aria-label={placeholder}
+        className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-gray-500 focus:outline-none"
+      />
+      {query.trim() && (
+        <ul className="absolute z-10 mt-1 w-full rounded-md border border-gray-200 bg-white shadow-lg">
+          {results.length === 0 && <li className="px-3 py-2 text-sm text-gray-500">No results</li>}
+          {results.map(({ page, section, excerpt }) => (
+            <li key={\`\${page.url}#\${section.anchor || ''}\`}>
+              <a
+                href={\`\${root}\${page.url}\${section.anchor ? \`#\${section.anchor}\` : ''}\`}
+                className="block px-3 py-2 no-underline hover:bg-gray-50"
+              >
+                <div className="text-sm font-medium text-gray-900">
+                  {page.title}
+                  {section.heading && <span className="text-gray-500"> › {section.heading}</span>}
+                </div>
+                {excerpt && <div className="truncate text-xs text-gray-500">{excerpt}</div>}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
 `, binary: false },
 
   'src/tailwind.css': { content: `@import 'tailwindcss';
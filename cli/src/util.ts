@@ -335,3 +335,59 @@ export async function openBrowser(url: string): Promise<void> {
         : Bun.spawn(['xdg-open', url], { stdout: 'ignore', stderr: 'ignore' });
   await proc.exited;
 }
+
+// Editors that open `file:line:column`, with the flag that precedes it (if any)
+const EDITORS_WITH_POSITION: Record<string, string | null> = {
+  code: '--goto',
+  'code-insiders': '--goto',
+  codium: '--goto',
+  cursor: '--goto',
+  windsurf: '--goto',
+  subl: null,
+  zed: null,
+  hx: null,
+};
+
+// Terminal editors that take `+line file`
+const EDITORS_WITH_LINE_FLAG = new Set(['vi', 'vim', 'nvim', 'nano', 'emacs', 'emacsclient', 'micro']);
+
+/**
+ * Get the command that opens a file at a given line in an editor.
+ * `editor` is the value of $VISUAL or $EDITOR and may include arguments.
+ */
+export function getEditorCommand(editor: string, filePath: string, line?: number, column?: number): string[] {
+  const [bin = editor, ...args] = editor.trim().split(/\s+/);
+  const name = path.basename(bin).replace(/\.(exe|cmd)$/i, '');
+
+  if (line !== undefined && name in EDITORS_WITH_POSITION) {
+    const flag = EDITORS_WITH_POSITION[name];
+    const position = `${filePath}:${line}${column !== undefined ? `:${column}` : ''}`;
+    return [bin, ...args, ...(flag ? [flag] : []), position];
+  }
+  if (line !== undefined && EDITORS_WITH_LINE_FLAG.has(name)) {
+    return [bin, ...args, `+${line}`, filePath];
+  }
+  return [bin, ...args, filePath];
+}
+
+/**
+ * Open a file in the user's $VISUAL or $EDITOR.
+ * Returns false if neither is set, and throws if the editor can't be started.
+ */
+export function openInEditor(filePath: string, line?: number, column?: number): boolean {
+  const editor = process.env.VISUAL || process.env.EDITOR;
+  if (!editor) {
+    return false;
+  }
+  const command = getEditorCommand(editor, filePath, line, column);
+  try {
+    Bun.spawn(command, {
+      stdin: 'inherit',
+      stdout: 'inherit',
+      stderr: 'inherit',
+    });
+  } catch (error) {
+    throw new Error(`Could not start editor "${command[0]}": ${(error as Error).message}`);
+  }
+  return true;
+}
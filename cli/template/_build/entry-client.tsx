@@ -1,6 +1,7 @@
 import React from 'react';
-import { createRoot, hydrateRoot } from 'react-dom/client';
+import { createRoot, hydrateRoot, type Root } from 'react-dom/client';
 import { MDXProvider } from '@mdx-js/react';
+import { startPage } from '{{clientRouterPath}}';
 
 // The source .mdx file for this page
 import Component from '{{entrySourceMdxImportPath}}';
@@ -8,17 +9,30 @@ import Component from '{{entrySourceMdxImportPath}}';
 // Base Markdown components (maps lowercase tag names to styled components)
 import { MDXComponents } from '{{markdownComponentsPath}}';
 
+// The record of a page generated from a route template, e.g. pages/people/[slug].mdx
+{{propsDeclaration}}
+
 const component = React.createElement(
   MDXProvider,
   { components: MDXComponents },
-  React.createElement(Component)
+  React.createElement(Component, props)
 );
 
 // If static site generation was used, hydrate the component container. If not,
 // render and insert the component
-const mdxElement = document.getElementById('mdx')!;
-if ((window as any).__SCRATCH_SSG__) {
-  hydrateRoot(mdxElement, component);
+function mount(mdxElement: HTMLElement, ssg: boolean): Root {
+  if (ssg) {
+    return hydrateRoot(mdxElement, component);
+  }
+  const root = createRoot(mdxElement);
+  root.render(component);
+  return root;
+}
+
+// With the client router, pages are mounted by the router, which also mounts
+// the next page in place when navigating
+if ((window as any).__SCRATCH_ROUTER__) {
+  startPage(import.meta.url, mount);
 } else {
-  createRoot(mdxElement).render(component);
+  mount(document.getElementById('mdx')!, (window as any).__SCRATCH_SSG__);
 }
@@ -0,0 +1,31 @@
+import React from 'react';
+import { hydrateRoot } from 'react-dom/client';
+
+// The components this page marks client:load or client:visible, by name
+{{islandImports}}
+
+const components: Record<string, React.ComponentType<any>> = {};
+{{islandComponents}}
+
+// Hydrate each island rendered by _build/island.tsx from its serialized props.
+// client:visible islands wait until they scroll into view.
+for (const el of document.querySelectorAll<HTMLElement>('scratch-island')) {
+  const component = components[el.dataset.component!];
+  if (!component) continue;
+
+  const props = JSON.parse(el.dataset.props || '{}');
+  const hydrate = () => hydrateRoot(el, React.createElement(component, props));
+
+  if (el.dataset.hydrate === 'visible' && 'IntersectionObserver' in window) {
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        observer.disconnect();
+        hydrate();
+      }
+    });
+    // <scratch-island> is inline; observe the component's own element
+    observer.observe(el.firstElementChild ?? el);
+  } else {
+    hydrate();
+  }
+}
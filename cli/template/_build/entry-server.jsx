@@ -7,13 +7,18 @@ import { MDXComponents } from "{{markdownComponentsPath}}";
 // Set scratch globals on globalThis for SSR access by components
 {{scratchGlobals}}
 
+// The record of a page generated from a route template, e.g. pages/people/[slug].mdx
+{{propsDeclaration}}
+
 /**
  * Render the application to an HTML string.
  */
 export async function render(url = "/") {
+  // Read by the navigation module; rendering is synchronous, so pages don't overlap
+  globalThis.__SCRATCH_PATH__ = url;
   let rendered = renderToString(
     <MDXProvider components={MDXComponents}>
-      <Component />
+      <Component {...props} />
     </MDXProvider>
   );
 
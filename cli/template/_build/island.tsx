@@ -0,0 +1,39 @@
+import React from 'react';
+
+/**
+ * Wraps a component marked client:load or client:visible in the MDX. The
+ * component renders as usual inside a <scratch-island> element that records
+ * its name and props, so an islands-mode page can hydrate it on its own.
+ */
+export function Island({
+  component,
+  hydrate,
+  children,
+}: {
+  component: string;
+  hydrate: string;
+  children: React.ReactElement<Record<string, unknown>>;
+}) {
+  const element = React.Children.only(children);
+  return React.createElement(
+    'scratch-island',
+    {
+      'data-component': component,
+      'data-hydrate': hydrate,
+      'data-props': serializeProps(component, element.props),
+    },
+    element
+  );
+}
+
+// Island props are sent to the browser as JSON
+function serializeProps(component: string, props: Record<string, unknown>): string {
+  return JSON.stringify(props, (key, value) => {
+    if (typeof value === 'function' || (value && typeof value === 'object' && '$$typeof' in value)) {
+      throw new Error(
+        `<${component}> can't be an island: its "${key}" prop can't be sent to the browser. Island props must be JSON values.`
+      );
+    }
+    return value;
+  });
+}
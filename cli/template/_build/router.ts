@@ -0,0 +1,243 @@
+import type { Root } from 'react-dom/client';
+
+/**
+ * Client router: navigates between pages without full document loads.
+ *
+ * Each page's client entry calls startPage() with its render function. The
+ * first page to load mounts itself and starts the router; pages loaded later
+ * by the router only register their render function, keyed by the URL of
+ * their entry script. Navigating fetches the target's SSG HTML, swaps the
+ * #mdx content and <head> tags, and hydrates it with the target's entry.
+ */
+
+type MountPage = (mdxElement: HTMLElement, ssg: boolean) => Root;
+
+interface Page {
+  /** Final URL of the page, after any redirect */
+  url: string;
+  lang: string;
+  head: Element[];
+  content: string;
+  /** Absolute URL of the page's client entry */
+  script: string;
+}
+
+// <head> tags that differ between pages (frontmatter tags and their inline scripts)
+const PAGE_HEAD_TAGS = 'title, meta, link[rel="canonical"], script:not([src])';
+
+const mounts = new Map<string, MountPage>();
+const pages = new Map<string, Promise<Page | null>>();
+const preloaded = new Set<string>();
+
+let root: Root | null = null;
+let currentPath = '';
+let navigationId = 0;
+
+export function startPage(scriptUrl: string, mount: MountPage): void {
+  mounts.set(scriptUrl, mount);
+  if (root) return;
+
+  root = mount(document.getElementById('mdx')!, (window as any).__SCRATCH_SSG__);
+  currentPath = location.pathname + location.search;
+
+  // Scroll positions are kept in history state and restored after each swap
+  history.scrollRestoration = 'manual';
+  if (history.state?.scroll) {
+    window.scrollTo(0, history.state.scroll);
+  }
+
+  document.addEventListener('click', onClick);
+  document.addEventListener('mouseover', onIntent);
+  document.addEventListener('focusin', onIntent);
+  document.addEventListener('touchstart', onIntent, { passive: true });
+  window.addEventListener('popstate', onPopState);
+  window.addEventListener('pagehide', saveScroll);
+}
+
+/**
+ * Whether an href is an internal link, as rehype-link-paths decides.
+ * Must match isRelativePath() and isInternalAbsolutePath() in src/build/util.ts.
+ */
+function isInternalHref(href: string): boolean {
+  if (href.startsWith('/')) return !href.startsWith('//');
+  const nonRelativePrefixes = ['http://', 'https://', '#', 'mailto:', 'tel:', 'data:'];
+  return !nonRelativePrefixes.some((prefix) => href.startsWith(prefix));
+}
+
+/**
+ * The page URL a link leads to, or null if the browser should follow it
+ */
+function routableUrl(target: Element | null): URL | null {
+  const link = target?.closest('a[href]');
+  if (!(link instanceof HTMLAnchorElement)) return null;
+  if ((link.target && link.target !== '_self') || link.hasAttribute('download')) return null;
+  if (!isInternalHref(link.getAttribute('href')!)) return null;
+
+  const url = new URL(link.href);
+  const base: string = (window as any).__SCRATCH_BASE__ || '';
+  if (url.origin !== location.origin) return null;
+  if (base && url.pathname !== base && !url.pathname.startsWith(base + '/')) return null;
+
+  // Links to static files like /report.pdf aren't pages
+  const lastSegment = url.pathname.slice(url.pathname.lastIndexOf('/') + 1);
+  if (lastSegment.includes('.') && !lastSegment.endsWith('.html')) return null;
+
+  return url;
+}
+
+function onClick(event: MouseEvent): void {
+  if (event.defaultPrevented || event.button !== 0) return;
+  if (event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) return;
+
+  const url = routableUrl(event.target instanceof Element ? event.target : null);
+  // Same-page links (anchors, or the current page) keep the browser's behavior
+  if (!url || url.pathname + url.search === currentPath) return;
+
+  event.preventDefault();
+  navigate(url, true);
+}
+
+/**
+ * Prefetch a page's HTML and client entry when the reader is about to follow a link
+ */
+function onIntent(event: Event): void {
+  const url = routableUrl(event.target instanceof Element ? event.target : null);
+  if (!url || url.pathname + url.search === currentPath) return;
+
+  loadPage(url).then((page) => {
+    if (!page || preloaded.has(page.script) || mounts.has(page.script)) return;
+    preloaded.add(page.script);
+    const link = document.createElement('link');
+    link.rel = 'modulepreload';
+    link.href = page.script;
+    document.head.appendChild(link);
+  });
+}
+
+function onPopState(event: PopStateEvent): void {
+  // Hash changes within the page are left to the browser
+  if (location.pathname + location.search === currentPath) return;
+  navigate(new URL(location.href), false, event.state?.scroll ?? 0);
+}
+
+function saveScroll(): void {
+  history.replaceState({ ...history.state, scroll: window.scrollY }, '');
+}
+
+/**
+ * Fetch and parse a page, once per URL until the next navigation. Resolves to
+ * null for anything that isn't a Scratchwork page, which is then loaded by the
+ * browser instead.
+ */
+function loadPage(url: URL): Promise<Page | null> {
+  const key = url.pathname + url.search;
+  if (!pages.has(key)) {
+    const page = fetchPage(key).catch(() => null);
+    pages.set(key, page);
+    // Don't cache failures, so a later attempt can succeed
+    page.then((result) => result || pages.delete(key));
+  }
+  return pages.get(key)!;
+}
+
+async function fetchPage(href: string): Promise<Page | null> {
+  const res = await fetch(href, { credentials: 'same-origin' });
+  if (!res.ok || !res.headers.get('Content-Type')?.includes('text/html')) return null;
+
+  const doc = new DOMParser().parseFromString(await res.text(), 'text/html');
+  const content = doc.getElementById('mdx');
+  const script = doc.querySelector('body > script[type="module"][src]');
+  if (!content || !script) return null;
+
+  return {
+    url: res.url,
+    lang: doc.documentElement.lang,
+    head: [...doc.head.querySelectorAll(PAGE_HEAD_TAGS)],
+    content: content.innerHTML,
+    script: new URL(script.getAttribute('src')!, res.url).href,
+  };
+}
+
+/**
+ * Load a page's client entry and return its render function
+ */
+async function loadMount(script: string): Promise<MountPage | null> {
+  if (!mounts.has(script)) {
+    // The entry calls startPage(), which registers it
+    await import(script);
+  }
+  return mounts.get(script) ?? null;
+}
+
+async function navigate(url: URL, push: boolean, scroll = 0): Promise<void> {
+  const id = ++navigationId;
+  try {
+    const page = await loadPage(url);
+    const mount = page && (await loadMount(page.script));
+    if (id !== navigationId) return;
+    // Prefetched pages are only kept until they're used, so a redeploy shows
+    // up on the next navigation rather than after a reload
+    pages.clear();
+    if (!page || !mount) {
+      fullLoad(url, push);
+      return;
+    }
+
+    const finalUrl = new URL(page.url);
+    finalUrl.hash = url.hash;
+    if (push) {
+      saveScroll();
+      history.pushState({}, '', finalUrl.href);
+    }
+    currentPath = finalUrl.pathname + finalUrl.search;
+
+    root?.unmount();
+    document.documentElement.lang = page.lang;
+    replaceHeadTags(page.head);
+    const mdxElement = document.getElementById('mdx')!;
+    mdxElement.innerHTML = page.content;
+    root = mount(mdxElement, true);
+
+    const anchor = finalUrl.hash && document.getElementById(decodeURIComponent(finalUrl.hash.slice(1)));
+    if (push && anchor) {
+      anchor.scrollIntoView();
+    } else {
+      window.scrollTo(0, scroll);
+    }
+  } catch {
+    if (id === navigationId) fullLoad(url, push);
+  }
+}
+
+// Fall back to the browser for pages the router can't swap in. After a
+// popstate the address bar already shows the page, so reload it.
+function fullLoad(url: URL, push: boolean): void {
+  if (push) {
+    location.assign(url.href);
+  } else {
+    location.reload();
+  }
+}
+
+/**
+ * Replace the current page's <head> tags with the next page's, leaving tags
+ * both pages share (viewport, globals, etc.) in place
+ */
+function replaceHeadTags(head: Element[]): void {
+  const current = [...document.head.querySelectorAll(PAGE_HEAD_TAGS)];
+
+  for (const el of current) {
+    if (!head.some((next) => next.isEqualNode(el))) el.remove();
+  }
+  for (const el of head) {
+    if (current.some((prev) => prev.isConnected && prev.isEqualNode(el))) continue;
+    document.head.appendChild(el.tagName === 'SCRIPT' ? runnableScript(el) : document.importNode(el, true));
+  }
+}
+
+// Scripts parsed by DOMParser never run; a fresh copy does
+function runnableScript(el: Element): HTMLScriptElement {
+  const script = document.createElement('script');
+  script.textContent = el.textContent;
+  return script;
+}
@@ -2,6 +2,8 @@ import React from 'react';
 
 interface HeadingProps {
   children?: React.ReactNode;
+  /** Unique id assigned at build time (repeated headings get a suffix) */
+  id?: string;
   level: 2 | 3;
 }
 
@@ -24,9 +26,9 @@ function getTextContent(children: React.ReactNode): string {
   return '';
 }
 
-export function Heading({ children, level }: HeadingProps) {
+export function Heading({ children, id: assignedId, level }: HeadingProps) {
   const text = getTextContent(children);
-  const id = slugify(text);
+  const id = assignedId ?? slugify(text);
   const Tag = `h${level}` as const;
 
   return (
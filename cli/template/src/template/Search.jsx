@@ -0,0 +1,128 @@
+import { useEffect, useRef, useState } from 'react';
+
+const MAX_RESULTS = 8;
+
+/**
+ * Path the site is served from. Published sites can be reached through more
+ * than one path (e.g. by user ID or by email), so this takes the leading
+ * segments of the current URL rather than the build's base path.
+ */
+function siteRoot() {
+  const depth = (globalThis.__SCRATCH_BASE__ || '').split('/').filter(Boolean).length;
+  return window.location.pathname.split('/').slice(0, depth + 1).join('/');
+}
+
+let indexPromise = null;
+
+function loadIndex() {
+  indexPromise ??= fetch(`${siteRoot()}/search-index.json`)
+    .then((res) => (res.ok ? res.json() : { pages: [] }))
+    .catch(() => {
+      indexPromise = null;
+      return { pages: [] };
+    });
+  return indexPromise;
+}
+
+/**
+ * Rank sections that contain every query term. Matches in the page title
+ * count most, then tags and headings, then body text.
+ */
+function search(index, query) {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const results = [];
+  for (const page of index.pages) {
+    const title = page.title.toLowerCase();
+    const tags = page.tags.join(' ').toLowerCase();
+    for (const section of page.sections) {
+      const heading = (section.heading || '').toLowerCase();
+      const text = section.text.toLowerCase();
+      let score = 0;
+      for (const term of terms) {
+        const termScore =
+          (title.includes(term) ? 10 : 0) +
+          (tags.includes(term) ? 5 : 0) +
+          (heading.includes(term) ? 5 : 0) +
+          (text.includes(term) ? 1 : 0);
+        if (termScore === 0) {
+          score = 0;
+          break;
+        }
+        score += termScore;
+      }
+      if (score > 0) {
+        results.push({ page, section, score, excerpt: excerpt(section.text, terms[0]) });
+      }
+    }
+  }
+  return results.sort((a, b) => b.score - a.score).slice(0, MAX_RESULTS);
+}
+
+function excerpt(text, term) {
+  const at = text.toLowerCase().indexOf(term);
+  if (at === -1) return text.slice(0, 120);
+  const start = Math.max(0, at - 40);
+  return (start > 0 ? '…' : '') + text.slice(start, start + 120) + (start + 120 < text.length ? '…' : '');
+}
+
+/**
+ * Full-text search over every page on the site. Reads the search-index.json
+ * written at build time, entirely in the browser. Add <Search /> to a page or
+ * to Header.jsx to use it.
+ */
+export default function Search({ placeholder = 'Search' }) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState([]);
+  const [root, setRoot] = useState('');
+  const latest = useRef('');
+
+  useEffect(() => {
+    setRoot(siteRoot());
+  }, []);
+
+  useEffect(() => {
+    latest.current = query;
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+    loadIndex().then((index) => {
+      if (latest.current === query) setResults(search(index, query));
+    });
+  }, [query]);
+
+  return (
+    <div className="not-prose relative my-4">
+      <input
+        type="search"
+        value={query}
+        onFocus={loadIndex}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={placeholder}
+        aria-label={placeholder}
+        className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-gray-500 focus:outline-none"
+      />
+      {query.trim() && (
+        <ul className="absolute z-10 mt-1 w-full rounded-md border border-gray-200 bg-white shadow-lg">
+          {results.length === 0 && <li className="px-3 py-2 text-sm text-gray-500">No results</li>}
+          {results.map(({ page, section, excerpt }) => (
+            <li key={`${page.url}#${section.anchor || ''}`}>
+              <a
+                href={`${root}${page.url}${section.anchor ? `#${section.anchor}` : ''}`}
+                className="block px-3 py-2 no-underline hover:bg-gray-50"
+              >
+                <div className="text-sm font-medium text-gray-900">
+                  {page.title}
+                  {section.heading && <span className="text-gray-500"> › {section.heading}</span>}
+                </div>
+                {excerpt && <div className="truncate text-xs text-gray-500">{excerpt}</div>}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
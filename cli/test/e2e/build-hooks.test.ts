@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import { readFile, rm, writeFile } from "fs/promises";
+import { spawnSync } from "child_process";
+import path from "path";
+import { runCliSync, mkTempDir, scratchPath } from "./util";
+
+describe("Build hooks from scratch.config.ts", () => {
+  test("runs project steps and fails the build when one throws", async () => {
+    // 1. Create a fresh project
+    const tempDir = await mkTempDir("build-hooks-");
+    runCliSync(["create", "sandbox"], tempDir);
+
+    const sandboxDir = path.join(tempDir, "sandbox");
+    const configPath = path.join(sandboxDir, "scratch.config.ts");
+
+    // 2. Add a step that writes a page index next to the built site
+    await writeFile(
+      configPath,
+      `import path from "path";
+
+export default {
+  steps: [
+    {
+      name: "page-index",
+      description: "Write page index",
+      after: "10-copy-to-dist",
+      async execute(ctx, state) {
+        const titles = Object.values(state.outputs.entries).map((e) => e.frontmatterData?.title ?? e.name);
+        await Bun.write(path.join(ctx.buildDir, "pages.json"), JSON.stringify(titles));
+      },
+    },
+  ],
+};
+`
+    );
+
+    runCliSync(["build", "sandbox", "--development"], tempDir);
+
+    const titles = JSON.parse(await readFile(path.join(sandboxDir, "dist", "pages.json"), "utf-8"));
+    expect(titles.length).toBeGreaterThan(0);
+
+    // 3. A throwing step fails the build with its message
+    await writeFile(
+      configPath,
+      `export default {
+  steps: [{ name: "pdf", before: "07-generate-html", async execute() { throw new Error("PDF renderer missing"); } }],
+};
+`
+    );
+    const result = spawnSync(scratchPath, ["build", "sandbox"], { cwd: tempDir, encoding: "utf-8" });
+    expect(result.status).not.toBe(0);
+    expect(result.stdout + result.stderr).toContain("PDF renderer missing");
+
+    // Cleanup
+    await rm(tempDir, { recursive: true, force: true });
+  }, 180_000);
+});
@@ -0,0 +1,37 @@
+import { describe, expect, test } from "bun:test";
+import { mkdir, readFile, readdir, rm, writeFile } from "fs/promises";
+import path from "path";
+import { runCliSync, mkTempDir } from "./util";
+
+describe("Client router", () => {
+  test("pages start the router when client_router is set", async () => {
+    // 1. Create a fresh project with the client router enabled
+    const tempDir = await mkTempDir("client-router-");
+    runCliSync(["create", "sandbox"], tempDir);
+
+    const sandboxDir = path.join(tempDir, "sandbox");
+    await mkdir(path.join(sandboxDir, ".scratchwork"), { recursive: true });
+    await writeFile(path.join(sandboxDir, ".scratchwork", "project.toml"), "[build]\nclient_router = true\n");
+    await writeFile(path.join(sandboxDir, "pages", "other.mdx"), "# Other\n\n[Home](/)\n");
+
+    runCliSync(["build", "sandbox", "--development"], tempDir);
+
+    // 2. Every page is still a pre-rendered HTML file with its own entry
+    const distDir = path.join(sandboxDir, "dist");
+    for (const page of ["index.html", "other/index.html"]) {
+      const html = await readFile(path.join(distDir, page), "utf-8");
+      expect(html).toContain("window.__SCRATCH_ROUTER__ = true");
+      expect(html).toMatch(/<script type="module" src="[^"]+\.js"><\/script>/);
+    }
+    const otherHtml = await readFile(path.join(distDir, "other", "index.html"), "utf-8");
+    expect(otherHtml).toContain("Other</h1>");
+
+    // 3. The router is bundled once and shared by the page entries
+    const scripts = (await readdir(distDir, { recursive: true })).filter((f) => f.endsWith(".js"));
+    const code = await Promise.all(scripts.map((f) => readFile(path.join(distDir, f), "utf-8")));
+    expect(code.filter((c) => c.includes("function startPage(")).length).toBe(1);
+
+    // Cleanup
+    await rm(tempDir, { recursive: true, force: true });
+  }, 180_000);
+});
@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { runCliSync, mkTempDir } from "./util";
+
+describe("Content collections", () => {
+  test("validates frontmatter and lets pages query collections", async () => {
+    // 1. Create a fresh project with a blog collection
+    const tempDir = await mkTempDir("collections-");
+    runCliSync(["create", "sandbox"], tempDir);
+
+    const sandboxDir = path.join(tempDir, "sandbox");
+    // The project installs zod, as the docs say (`bun add zod`)
+    const packageJsonPath = path.join(sandboxDir, "package.json");
+    const packageJson = JSON.parse(await readFile(packageJsonPath, "utf-8"));
+    packageJson.dependencies = { ...packageJson.dependencies, zod: "^3.23.0" };
+    await writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2));
+    await mkdir(path.join(sandboxDir, ".scratchwork"), { recursive: true });
+    await writeFile(
+      path.join(sandboxDir, ".scratchwork", "project.toml"),
+      `[collections.blog]\npattern = "pages/blog/**"\nschema = "./schemas/blog.ts"\n`
+    );
+    await mkdir(path.join(sandboxDir, "schemas"), { recursive: true });
+    await writeFile(
+      path.join(sandboxDir, "schemas", "blog.ts"),
+      `import { z } from 'zod';
+export default z.object({ title: z.string(), date: z.coerce.date(), tags: z.array(z.string()).default([]) });
+`
+    );
+
+    // 2. Two posts and an index page listing them newest first
+    await mkdir(path.join(sandboxDir, "pages", "blog"), { recursive: true });
+    await writeFile(
+      path.join(sandboxDir, "pages", "blog", "old.mdx"),
+      "---\ntitle: Old post\ndate: 2023-05-01\ntags: [news]\n---\n# Old\n"
+    );
+    await writeFile(path.join(sandboxDir, "pages", "blog", "new.mdx"), "---\ntitle: New post\ndate: 2024-05-01\n---\n# New\n");
+    await writeFile(
+      path.join(sandboxDir, "pages", "index.mdx"),
+      `import { getCollection } from 'scratchwork:collections';
+
+export const posts = getCollection('blog').sort((a, b) => b.data.date - a.data.date);
+
+<ul>{posts.map((post) => <li key={post.id}><a href={post.url}>{post.data.title}</a></li>)}</ul>
+`
+    );
+
+    runCliSync(["build", "sandbox", "--development"], tempDir);
+
+    const html = await readFile(path.join(sandboxDir, "dist", "index.html"), "utf-8");
+    expect(html).toContain('<li><a href="/blog/new/">New post</a></li><li><a href="/blog/old/">Old post</a></li>');
+    const types = await readFile(path.join(sandboxDir, ".scratchwork", "collections.d.ts"), "utf-8");
+    expect(types).toContain('"blog": typeof import("../schemas/blog").default;');
+
+    // 3. A misspelled key fails the build with its location
+    await writeFile(
+      path.join(sandboxDir, "pages", "blog", "typo.mdx"),
+      "---\ntitle: Typo\ndate: 2024-06-01\npublishedDate: 2024-06-02\n---\n# Typo\n"
+    );
+    expect(() => runCliSync(["build", "sandbox", "--development"], tempDir)).toThrow(
+      /Unknown frontmatter key "publishedDate" for collection "blog"\n\s+at pages\/blog\/typo\.mdx:4:1/
+    );
+
+    // Cleanup
+    await rm(tempDir, { recursive: true, force: true });
+  }, 180_000);
+});
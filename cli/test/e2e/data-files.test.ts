@@ -0,0 +1,74 @@
+import { describe, expect, test } from "bun:test";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { runCliSync, mkTempDir } from "./util";
+
+describe("Data file imports", () => {
+  test("pages and components import CSV, YAML and TOML files", async () => {
+    // 1. Create a fresh project with a page importing a CSV file and a
+    //    component importing YAML and TOML files
+    const tempDir = await mkTempDir("data-files-");
+    runCliSync(["create", "sandbox"], tempDir);
+
+    const sandboxDir = path.join(tempDir, "sandbox");
+    const reportsDir = path.join(sandboxDir, "pages", "reports");
+    await mkdir(reportsDir, { recursive: true });
+    await writeFile(path.join(reportsDir, "metrics.csv"), "month,visits\nJan,120\nFeb,340\n");
+    await writeFile(path.join(reportsDir, "export.csv"), "month,visits\n");
+    await writeFile(path.join(reportsDir, "archive.csv"), "month,visits\n");
+    await writeFile(path.join(reportsDir, "totals.json"), '{"visits": 460}');
+    await writeFile(
+      path.join(reportsDir, "index.mdx"),
+      `import metrics from './metrics.csv';
+import totals from './totals.json';
+
+<p>Total: {totals.visits}</p>
+
+<ul>{metrics.map((row) => <li key={row.month}>{row.month}: {row.visits}</li>)}</ul>
+
+<Summary />
+
+[Download the export](./export.csv)
+`
+    );
+    await mkdir(path.join(sandboxDir, "pages", "components"), { recursive: true });
+    await writeFile(path.join(sandboxDir, "pages", "components", "summary.yaml"), "owner: Ada\n");
+    await writeFile(path.join(sandboxDir, "pages", "components", "site.toml"), 'year = 2024\n');
+    await writeFile(
+      path.join(sandboxDir, "pages", "components", "Summary.tsx"),
+      `import summary from './summary.yaml';
+import site from './site.toml';
+
+export default function Summary() {
+  return <p>Owned by {summary.owner} since {site.year}</p>;
+}
+`
+    );
+
+    runCliSync(["build", "sandbox", "--development"], tempDir);
+
+    // 2. The data is rendered into the page
+    const distDir = path.join(sandboxDir, "dist");
+    const html = await readFile(path.join(distDir, "reports", "index.html"), "utf-8");
+    expect(html).toContain("<li>Jan<!-- -->: <!-- -->120</li><li>Feb<!-- -->: <!-- -->340</li>");
+    expect(html).toContain("<p>Total: <!-- -->460</p>");
+    expect(html).toContain("<p>Owned by <!-- -->Ada<!-- --> since <!-- -->2024</p>");
+
+    // 3. Imported YAML, CSV and TOML files are bundled instead of copied;
+    //    other data files and all JSON are copied to the site
+    expect(await Bun.file(path.join(distDir, "reports", "export.csv")).exists()).toBe(true);
+    expect(await Bun.file(path.join(distDir, "reports", "archive.csv")).exists()).toBe(true);
+    expect(await Bun.file(path.join(distDir, "reports", "totals.json")).exists()).toBe(true);
+    expect(await Bun.file(path.join(distDir, "reports", "metrics.csv")).exists()).toBe(false);
+    expect(await Bun.file(path.join(distDir, "components", "summary.yaml")).exists()).toBe(false);
+    expect(await Bun.file(path.join(distDir, "components", "site.toml")).exists()).toBe(false);
+
+    // 4. The imports are typed by the files' contents
+    const types = await readFile(path.join(sandboxDir, ".scratchwork", "data-files.d.ts"), "utf-8");
+    expect(types).toContain(`declare module '*/metrics.csv' {\n  const data: { "month": string; "visits": string }[];`);
+    expect(types).toContain(`declare module '*/summary.yaml' {\n  const data: { "owner": string };`);
+
+    // Cleanup
+    await rm(tempDir, { recursive: true, force: true });
+  }, 180_000);
+});
@@ -0,0 +1,45 @@
+import { describe, expect, test } from "bun:test";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { runCliSync, mkTempDir } from "./util";
+
+describe("Dynamic routes", () => {
+  test("generates a page per record of a data file", async () => {
+    // 1. Create a fresh project with a team page template and its data
+    const tempDir = await mkTempDir("dynamic-routes-");
+    runCliSync(["create", "sandbox"], tempDir);
+
+    const sandboxDir = path.join(tempDir, "sandbox");
+    await mkdir(path.join(sandboxDir, "data"), { recursive: true });
+    await writeFile(
+      path.join(sandboxDir, "data", "people.yaml"),
+      "- slug: ada\n  name: Ada Lovelace\n  role: Analyst\n- slug: grace\n  name: Grace Hopper\n  role: Admiral\n"
+    );
+    await mkdir(path.join(sandboxDir, "pages", "people"), { recursive: true });
+    await writeFile(
+      path.join(sandboxDir, "pages", "people", "[slug].mdx"),
+      '---\ndata: data/people.yaml\ntitle: "{name}"\n---\n# {props.name}\n\nRole: {props.role}\n'
+    );
+
+    runCliSync(["build", "sandbox", "--development"], tempDir);
+
+    // 2. Each record gets a pre-rendered page with its own title
+    const distDir = path.join(sandboxDir, "dist");
+    const ada = await readFile(path.join(distDir, "people", "ada", "index.html"), "utf-8");
+    expect(ada).toContain("Ada Lovelace</h1>");
+    expect(ada).toContain("Role: <!-- -->Analyst");
+    expect(ada).toContain("<title>Ada Lovelace</title>");
+    const grace = await readFile(path.join(distDir, "people", "grace", "index.html"), "utf-8");
+    expect(grace).toContain("Grace Hopper</h1>");
+    expect(await Bun.file(path.join(distDir, "people", "[slug]", "index.html")).exists()).toBe(false);
+
+    // 3. A generated page can't overwrite a hand-written one
+    await writeFile(path.join(sandboxDir, "pages", "people", "ada.mdx"), "# Ada\n");
+    expect(() => runCliSync(["build", "sandbox", "--development"], tempDir)).toThrow(
+      /dist\/people\/ada\/index\.html is produced by multiple sources:\n\s+- pages\/people\/ada\.mdx \(HTML\)\n\s+- pages\/people\/\[slug\]\.mdx \(HTML for people\/ada\)/
+    );
+
+    // Cleanup
+    await rm(tempDir, { recursive: true, force: true });
+  }, 180_000);
+});
@@ -0,0 +1,41 @@
+import { describe, expect, test } from "bun:test";
+import { mkdir, readFile, readdir, rm, writeFile } from "fs/promises";
+import path from "path";
+import { runCliSync, mkTempDir } from "./util";
+
+describe("Islands mode", () => {
+  test("ships JavaScript only to pages with islands", async () => {
+    // 1. Create a fresh project with islands enabled
+    const tempDir = await mkTempDir("islands-");
+    runCliSync(["create", "sandbox"], tempDir);
+
+    const sandboxDir = path.join(tempDir, "sandbox");
+    await mkdir(path.join(sandboxDir, ".scratchwork"), { recursive: true });
+    await writeFile(path.join(sandboxDir, ".scratchwork", "project.toml"), "[build]\nislands = true\n");
+
+    // 2. One page with an island, one without
+    await writeFile(path.join(sandboxDir, "pages", "index.mdx"), "# Counter\n\n<Counter client:load />\n");
+    await writeFile(path.join(sandboxDir, "pages", "static.mdx"), "# Static\n\nNothing to hydrate.\n");
+
+    runCliSync(["build", "sandbox", "--development"], tempDir);
+
+    // 3. The island is pre-rendered inside its wrapper and its page loads a script
+    const distDir = path.join(sandboxDir, "dist");
+    const indexHtml = await readFile(path.join(distDir, "index.html"), "utf-8");
+    expect(indexHtml).toContain('<scratch-island data-component="Counter" data-hydrate="load" data-props="{}">');
+    expect(indexHtml).toMatch(/<script type="module" src="[^"]+\.js"><\/script>/);
+
+    // 4. The static page has no script at all
+    const staticHtml = await readFile(path.join(distDir, "static", "index.html"), "utf-8");
+    expect(staticHtml).toContain("Nothing to hydrate.");
+    expect(staticHtml).not.toContain("<script");
+
+    // 5. The island entry hydrates components rather than rendering the page
+    const scripts = (await readdir(distDir, { recursive: true })).filter((f) => f.endsWith(".js"));
+    const code = await Promise.all(scripts.map((f) => readFile(path.join(distDir, f), "utf-8")));
+    expect(code.some((c) => c.includes("scratch-island"))).toBe(true);
+
+    // Cleanup
+    await rm(tempDir, { recursive: true, force: true });
+  }, 180_000);
+});
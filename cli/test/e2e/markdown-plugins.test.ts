@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { runCliSync, mkTempDir } from "./util";
+
+describe("Markdown plugins from project.toml", () => {
+  test("runs configured remark and rehype plugins", async () => {
+    // 1. Create a fresh project
+    const tempDir = await mkTempDir("markdown-plugins-");
+    runCliSync(["create", "sandbox"], tempDir);
+
+    const sandboxDir = path.join(tempDir, "sandbox");
+
+    // 2. Add local plugins: one rewrites text, one tags every paragraph
+    await mkdir(path.join(sandboxDir, "plugins"), { recursive: true });
+    await writeFile(
+      path.join(sandboxDir, "plugins", "remark-shout.js"),
+      `export default function remarkShout({ suffix }) {
+  return (tree) => {
+    const visit = (node) => {
+      if (node.type === "text") node.value = node.value.replace("[[cite]]", "(Smith, 2020)" + suffix);
+      node.children?.forEach(visit);
+    };
+    visit(tree);
+  };
+}
+`
+    );
+    await writeFile(
+      path.join(sandboxDir, "plugins", "rehype-tag.js"),
+      `export default function rehypeTag() {
+  return (tree) => {
+    const visit = (node) => {
+      if (node.type === "element" && node.tagName === "p") {
+        node.properties = { ...node.properties, dataPlugin: "rehype-tag" };
+      }
+      node.children?.forEach(visit);
+    };
+    visit(tree);
+  };
+}
+`
+    );
+    await mkdir(path.join(sandboxDir, ".scratchwork"), { recursive: true });
+    await writeFile(
+      path.join(sandboxDir, ".scratchwork", "project.toml"),
+      `[markdown]
+remark_plugins = [{ plugin = "./plugins/remark-shout.js", options = { suffix = "!" } }]
+rehype_plugins = ["./plugins/rehype-tag.js"]
+`
+    );
+
+    await writeFile(path.join(sandboxDir, "pages", "index.mdx"), "# Plugins\n\nAs shown before [[cite]].\n");
+
+    // 3. Build with SSG to get pre-rendered HTML
+    runCliSync(["build", "sandbox", "--development"], tempDir);
+
+    // 4. Verify both plugins ran
+    const html = await readFile(path.join(sandboxDir, "dist", "index.html"), "utf-8");
+    expect(html).toContain("As shown before (Smith, 2020)!.");
+    expect(html).toContain('data-plugin="rehype-tag"');
+
+    // Cleanup
+    await rm(tempDir, { recursive: true, force: true });
+  }, 180_000);
+});
@@ -1,5 +1,5 @@
 import { describe, expect, test } from 'bun:test';
-import { normalizeBase, isRelativePath } from '../../src/build/util';
+import { normalizeBase, isRelativePath, createSlugger } from '../../src/build/util';
 
 describe('normalizeBase', () => {
   test('returns empty string for undefined', () => {
@@ -77,3 +77,17 @@ describe('isRelativePath', () => {
     expect(isRelativePath('data:image/png;base64,abc123')).toBe(false);
   });
 });
+
+describe('createSlugger', () => {
+  test('suffixes repeated slugs', () => {
+    const slug = createSlugger();
+    expect(['Setup', 'Setup', 'Hello World!', 'setup'].map(slug)).toEqual([
+      'setup', 'setup-1', 'hello-world', 'setup-2',
+    ]);
+  });
+
+  test('skips reserved ids', () => {
+    const slug = createSlugger(['intro', 'intro-1']);
+    expect(slug('Intro')).toBe('intro-2');
+  });
+});
@@ -0,0 +1,47 @@
+import { beforeAll, describe, expect, test } from 'bun:test';
+import fs from 'fs/promises';
+import path from 'path';
+import { BuildContext } from '../../src/build/context';
+import { clientRouterEnabled } from '../../src/build/client-router';
+import { buildGlobals, generateGlobalsScript } from '../../src/build/globals';
+import { mkTempDir } from '../test-util';
+
+let projectDir: string;
+let ctx: BuildContext;
+
+async function writeConfig(toml: string): Promise<void> {
+  await fs.mkdir(path.join(projectDir, '.scratchwork'), { recursive: true });
+  await fs.writeFile(path.join(projectDir, '.scratchwork/project.toml'), toml);
+}
+
+beforeAll(async () => {
+  projectDir = await mkTempDir('test-client-router-');
+  ctx = new BuildContext({ path: projectDir });
+});
+
+describe('clientRouterEnabled', () => {
+  test('is off unless configured', async () => {
+    await writeConfig('name = "docs"\n');
+    expect(await clientRouterEnabled(ctx, { ssg: true })).toBe(false);
+  });
+
+  test('is on for SSG builds with client_router set', async () => {
+    await writeConfig('[build]\nclient_router = true\n');
+    expect(await clientRouterEnabled(ctx, { ssg: true })).toBe(true);
+    expect(await clientRouterEnabled(ctx, { ssg: false })).toBe(false);
+  });
+
+  test('is off in islands mode', async () => {
+    await writeConfig('[build]\nclient_router = true\nislands = true\n');
+    expect(await clientRouterEnabled(ctx, { ssg: true })).toBe(false);
+  });
+});
+
+describe('buildGlobals', () => {
+  test('tells the client entry whether to start the router', () => {
+    expect(generateGlobalsScript(buildGlobals({ ssg: true, router: true }))).toBe(
+      '<script>window.__SCRATCH_BASE__ = ""; window.__SCRATCH_SSG__ = true; window.__SCRATCH_ROUTER__ = true;</script>'
+    );
+    expect(buildGlobals({}).__SCRATCH_ROUTER__).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+import type { Deploy } from "@scratchwork/shared/api";
+import { findRollbackTarget, parseDeployVersion } from "../../../src/cmd/cloud/deploys";
+
+function deploy(version: number, is_live = false): Deploy {
+    return {
+        id: `deploy-${version}`,
+        version,
+        is_live,
+        file_count: 1,
+        total_bytes: 100,
+        created_at: "2024-01-15T00:00:00Z",
+    };
+}
+
+describe("parseDeployVersion", () => {
+    test("accepts plain and v-prefixed versions", () => {
+        expect(parseDeployVersion("3")).toBe(3);
+        expect(parseDeployVersion("v12")).toBe(12);
+        expect(parseDeployVersion("V2")).toBe(2);
+    });
+
+    test("rejects anything else", () => {
+        expect(parseDeployVersion("0")).toBeNull();
+        expect(parseDeployVersion("-1")).toBeNull();
+        expect(parseDeployVersion("1.5")).toBeNull();
+        expect(parseDeployVersion("latest")).toBeNull();
+    });
+});
+
+describe("findRollbackTarget", () => {
+    test("picks the newest deploy older than the live one", () => {
+        const deploys = [deploy(5), deploy(4, true), deploy(3), deploy(1)];
+        expect(findRollbackTarget(deploys)?.version).toBe(3);
+    });
+
+    test("returns null when nothing is older than the live deploy", () => {
+        expect(findRollbackTarget([deploy(2), deploy(1, true)])).toBeNull();
+    });
+
+    test("returns null when no deploy is live", () => {
+        expect(findRollbackTarget([deploy(2), deploy(1)])).toBeNull();
+    });
+});
@@ -0,0 +1,18 @@
+import { describe, expect, test } from "bun:test";
+import { qualifiedProjectName } from "../../../src/cmd/cloud/projects";
+
+describe("qualifiedProjectName", () => {
+    const project = { name: "handbook", team: null, role: "owner" as const, owner_email: "pete@example.com" };
+
+    test("uses the bare name for the user's own projects", () => {
+        expect(qualifiedProjectName(project)).toBe("handbook");
+    });
+
+    test("prefixes team projects with the team slug", () => {
+        expect(qualifiedProjectName({ ...project, team: { id: "t1", slug: "acme" } })).toBe("acme/handbook");
+    });
+
+    test("prefixes projects the user is a member of with the owner's email", () => {
+        expect(qualifiedProjectName({ ...project, role: "publisher" })).toBe("pete@example.com/handbook");
+    });
+});
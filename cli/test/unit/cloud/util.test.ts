@@ -2,7 +2,7 @@ import { describe, expect, test, beforeAll } from "bun:test";
 import fs from "fs/promises";
 import path from "path";
 import { mkTempDir } from "../../test-util";
-import { createZip, formatDate, formatDateTime, formatRelativeTime } from "../../../src/cmd/cloud/util";
+import { createBlobZip, createManifest, formatDate, formatDateTime, formatRelativeTime } from "../../../src/cmd/cloud/util";
 
 let tempDir: string;
 
@@ -10,131 +10,47 @@ beforeAll(async () => {
     tempDir = await mkTempDir("test-cloud-util-");
 });
 
-describe("createZip", () => {
-    test("creates a zip archive from a directory with files", async () => {
-        const testDir = path.join(tempDir, "basic-zip");
-        await fs.mkdir(testDir, { recursive: true });
-        await fs.writeFile(path.join(testDir, "index.html"), "<html>Hello</html>");
-        await fs.writeFile(path.join(testDir, "style.css"), "body { color: red; }");
-
-        const result = await createZip(testDir);
-
-        expect(result.fileCount).toBe(2);
-        expect(result.totalBytes).toBeGreaterThan(0);
-        expect(result.data.byteLength).toBeGreaterThan(0);
-        // Zip should produce valid output (no specific size requirement due to variable overhead)
-    });
-
-    test("handles nested directories", async () => {
-        const testDir = path.join(tempDir, "nested-zip");
-        await fs.mkdir(path.join(testDir, "assets", "images"), { recursive: true });
-        await fs.writeFile(path.join(testDir, "index.html"), "<html></html>");
-        await fs.writeFile(path.join(testDir, "assets", "main.js"), "console.log('hi')");
-        await fs.writeFile(path.join(testDir, "assets", "images", "logo.txt"), "fake image data");
-
-        const result = await createZip(testDir);
-
+describe("createManifest", () => {
+    test("maps each file path to the SHA-256 of its contents", async () => {
+        const testDir = path.join(tempDir, "manifest");
+        await fs.mkdir(path.join(testDir, "docs"), { recursive: true });
+        await fs.writeFile(path.join(testDir, "index.html"), "hello");
+        await fs.writeFile(path.join(testDir, "docs", "index.html"), "hello");
+        await fs.writeFile(path.join(testDir, "style.css"), "body {}");
+
+        const result = await createManifest(testDir);
+
+        const helloHash = "2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824";
+        expect(result.manifest["index.html"]).toBe(helloHash);
+        expect(result.manifest["docs/index.html"]).toBe(helloHash);
+        expect(Object.keys(result.manifest).sort()).toEqual(["docs/index.html", "index.html", "style.css"]);
+        // Identical files share one hash
+        expect(result.files.size).toBe(2);
         expect(result.fileCount).toBe(3);
-        expect(result.totalBytes).toBeGreaterThan(0);
-    });
-
-    test("handles empty directory", async () => {
-        const testDir = path.join(tempDir, "empty-zip");
-        await fs.mkdir(testDir, { recursive: true });
-
-        const result = await createZip(testDir);
-
-        expect(result.fileCount).toBe(0);
-        expect(result.totalBytes).toBe(0);
-        // Zip should still be valid (has minimal headers)
-        expect(result.data.byteLength).toBeGreaterThan(0);
-    });
-
-    test("calculates correct total bytes", async () => {
-        const testDir = path.join(tempDir, "bytes-zip");
-        await fs.mkdir(testDir, { recursive: true });
-
-        const content1 = "Hello, World!"; // 13 bytes
-        const content2 = "Test content"; // 12 bytes
-        await fs.writeFile(path.join(testDir, "file1.txt"), content1);
-        await fs.writeFile(path.join(testDir, "file2.txt"), content2);
-
-        const result = await createZip(testDir);
-
-        expect(result.fileCount).toBe(2);
-        expect(result.totalBytes).toBe(content1.length + content2.length);
+        expect(result.totalBytes).toBe(17);
     });
+});
 
-    test("produces valid zip data that can be extracted", async () => {
-        const testDir = path.join(tempDir, "valid-zip");
+describe("createBlobZip", () => {
+    test("zips only the requested files, named by hash", async () => {
+        const testDir = path.join(tempDir, "blob-zip");
         await fs.mkdir(testDir, { recursive: true });
-        await fs.writeFile(path.join(testDir, "test.txt"), "test content");
-
-        const result = await createZip(testDir);
+        await fs.writeFile(path.join(testDir, "a.txt"), "changed");
+        await fs.writeFile(path.join(testDir, "b.txt"), "unchanged");
+        const { manifest, files } = await createManifest(testDir);
 
-        // Verify we can read the zip back using JSZip
-        const JSZipModule = await import("jszip");
-        const JSZip = JSZipModule.default || JSZipModule;
-        const zip = await JSZip.loadAsync(result.data);
-
-        const files = Object.keys(zip.files);
-        expect(files).toContain("test.txt");
-
-        const content = await zip.file("test.txt")?.async("string");
-        expect(content).toBe("test content");
-    });
+        const result = await createBlobZip(files, [manifest["a.txt"]!]);
 
-    test("preserves directory structure in zip", async () => {
-        const testDir = path.join(tempDir, "structure-zip");
-        await fs.mkdir(path.join(testDir, "level1", "level2"), { recursive: true });
-        await fs.writeFile(path.join(testDir, "root.txt"), "root");
-        await fs.writeFile(path.join(testDir, "level1", "mid.txt"), "mid");
-        await fs.writeFile(path.join(testDir, "level1", "level2", "deep.txt"), "deep");
-
-        const result = await createZip(testDir);
-
-        // Verify structure using JSZip
         const JSZipModule = await import("jszip");
         const JSZip = JSZipModule.default || JSZipModule;
-        const zip = await JSZip.loadAsync(result.data);
-
-        const files = Object.keys(zip.files).filter(f => !f.endsWith('/'));
-        expect(files).toContain("root.txt");
-        expect(files).toContain("level1/mid.txt");
-        expect(files).toContain("level1/level2/deep.txt");
-    });
-
-    test("skips directories themselves (only includes files)", async () => {
-        const testDir = path.join(tempDir, "dirs-only-zip");
-        await fs.mkdir(path.join(testDir, "empty-subdir"), { recursive: true });
-        await fs.writeFile(path.join(testDir, "file.txt"), "content");
-
-        const result = await createZip(testDir);
-
-        // Should only count the file, not the empty directory
-        expect(result.fileCount).toBe(1);
+        const zip = await JSZip.loadAsync(result!.data);
+        expect(Object.keys(zip.files)).toEqual([manifest["a.txt"]!]);
+        expect(await zip.file(manifest["a.txt"]!)!.async("string")).toBe("changed");
+        expect(result!.totalBytes).toBe(7);
     });
 
-    test("handles binary content", async () => {
-        const testDir = path.join(tempDir, "binary-zip");
-        await fs.mkdir(testDir, { recursive: true });
-
-        // Create a buffer with binary data
-        const binaryData = Buffer.from([0x00, 0x01, 0x02, 0xff, 0xfe, 0xfd]);
-        await fs.writeFile(path.join(testDir, "binary.bin"), binaryData);
-
-        const result = await createZip(testDir);
-
-        expect(result.fileCount).toBe(1);
-        expect(result.totalBytes).toBe(binaryData.length);
-
-        // Verify binary content is preserved
-        const JSZipModule = await import("jszip");
-        const JSZip = JSZipModule.default || JSZipModule;
-        const zip = await JSZip.loadAsync(result.data);
-
-        const content = await zip.file("binary.bin")?.async("uint8array");
-        expect(content).toEqual(new Uint8Array(binaryData));
+    test("returns null when nothing needs uploading", async () => {
+        expect(await createBlobZip(new Map(), [])).toBeNull();
     });
 });
 
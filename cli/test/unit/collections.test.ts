@@ -0,0 +1,169 @@
+import { beforeAll, describe, expect, test } from 'bun:test';
+import fs from 'fs/promises';
+import path from 'path';
+import matter from 'gray-matter';
+import { BuildContext, Entry } from '../../src/build/context';
+import {
+  collectCollections,
+  formatCollectionProblems,
+  generateCollectionsModule,
+  generateCollectionsTypes,
+  resolveCollections,
+} from '../../src/build/collections';
+import { mkTempDir } from '../test-util';
+
+const zodPath = Bun.resolveSync('zod', import.meta.dir);
+
+let projectDir: string;
+let ctx: BuildContext;
+
+async function writeConfig(toml: string): Promise<void> {
+  await fs.mkdir(path.join(projectDir, '.scratchwork'), { recursive: true });
+  await fs.writeFile(path.join(projectDir, '.scratchwork/project.toml'), toml);
+}
+
+async function page(name: string, content: string): Promise<Entry> {
+  const file = path.join(projectDir, 'pages', name);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, content);
+  const entry = new Entry(file, path.join(projectDir, 'pages'));
+  entry.frontmatterData = matter(content).data;
+  return entry;
+}
+
+const BLOG_CONFIG = '[collections.blog]\npattern = "pages/blog/**"\nschema = "./schemas/blog.ts"\n';
+
+beforeAll(async () => {
+  projectDir = await mkTempDir('test-collections-');
+  ctx = new BuildContext({ path: projectDir });
+  await fs.mkdir(path.join(projectDir, 'schemas'), { recursive: true });
+  await fs.writeFile(
+    path.join(projectDir, 'schemas/blog.ts'),
+    `import { z } from ${JSON.stringify(zodPath)};
+export default z.object({
+  title: z.string(),
+  date: z.coerce.date(),
+  tags: z.array(z.string()).default([]),
+});
+`
+  );
+  await fs.writeFile(path.join(projectDir, 'schemas/not-a-schema.ts'), 'export default { title: "string" };\n');
+});
+
+describe('resolveCollections', () => {
+  test('resolves schema modules relative to the project root', async () => {
+    await writeConfig(BLOG_CONFIG);
+    expect(await resolveCollections(ctx)).toEqual([
+      {
+        name: 'blog',
+        pattern: 'pages/blog/**',
+        schema: './schemas/blog.ts',
+        schemaPath: path.join(projectDir, 'schemas/blog.ts'),
+      },
+    ]);
+  });
+
+  test('throws for a missing schema or pattern', async () => {
+    await writeConfig('[collections.blog]\npattern = "pages/blog/**"\nschema = "./schemas/missing.ts"\n');
+    await expect(resolveCollections(ctx)).rejects.toThrow('Schema "./schemas/missing.ts" for collection "blog"');
+
+    await writeConfig('[collections.blog]\nschema = "./schemas/blog.ts"\n');
+    await expect(resolveCollections(ctx)).rejects.toThrow('Invalid collection "blog"');
+  });
+});
+
+describe('collectCollections', () => {
+  test('returns parsed frontmatter of the pages matching the pattern', async () => {
+    await writeConfig(BLOG_CONFIG);
+    const entries = [
+      await page('blog/second.mdx', '---\ntitle: Second\ndate: 2024-03-01\ntags: [news]\n---\n'),
+      await page('blog/first.mdx', '---\ntitle: First\ndate: "2024-01-15"\n---\n'),
+      await page('about.mdx', '---\ntitle: About\n---\n'),
+    ];
+
+    const { collections, problems } = await collectCollections(ctx, entries);
+    expect(problems).toEqual([]);
+    expect(collections.blog!.map((e) => [e.id, e.url])).toEqual([
+      ['blog/first', '/blog/first/'],
+      ['blog/second', '/blog/second/'],
+    ]);
+    expect(collections.blog![0]!.data).toEqual({ title: 'First', date: new Date('2024-01-15'), tags: [] });
+  });
+
+  test('reports invalid and unknown keys at their line', async () => {
+    await writeConfig(BLOG_CONFIG);
+    const entries = [
+      await page('blog/typo.mdx', '---\ntitle: Typo\ndate: 2024-03-01\npublishedDate: 2024-03-02\n---\n'),
+      await page('blog/invalid.mdx', '---\ndate: 2024-03-01\ntags: news\n---\n'),
+    ];
+
+    const { collections, problems } = await collectCollections(ctx, entries);
+    expect(collections.blog).toEqual([]);
+    expect(problems.map((p) => [p.location.filePath, p.location.line])).toEqual([
+      ['pages/blog/invalid.mdx', 1],
+      ['pages/blog/invalid.mdx', 3],
+      ['pages/blog/typo.mdx', 4],
+    ]);
+    expect(problems[0]!.message).toStartWith('Invalid frontmatter "title" for collection "blog":');
+    expect(formatCollectionProblems([problems[2]!])).toBe(
+      'Unknown frontmatter key "publishedDate" for collection "blog"\n' +
+        '  at pages/blog/typo.mdx:4:1:\n' +
+        '  4 | publishedDate: 2024-03-02'
+    );
+  });
+
+  test('picks up edits to a schema', async () => {
+    const schemaPath = path.join(projectDir, 'schemas/notes.ts');
+    const writeSchema = async (fields: string, mtime: Date) => {
+      await fs.writeFile(schemaPath, `import { z } from ${JSON.stringify(zodPath)};\nexport default z.object({ ${fields} });\n`);
+      await fs.utimes(schemaPath, mtime, mtime);
+    };
+    await writeConfig('[collections.notes]\npattern = "pages/notes/**"\nschema = "./schemas/notes.ts"\n');
+    const entries = [await page('notes/one.mdx', '---\ntitle: One\n---\n')];
+
+    await writeSchema('title: z.string()', new Date('2024-01-01'));
+    expect((await collectCollections(ctx, entries)).problems).toEqual([]);
+
+    await writeSchema('title: z.number()', new Date('2024-01-02'));
+    expect((await collectCollections(ctx, entries)).problems[0]!.message).toStartWith(
+      'Invalid frontmatter "title" for collection "notes":'
+    );
+  });
+
+  test('throws when the schema module has no schema', async () => {
+    await writeConfig('[collections.blog]\npattern = "pages/blog/**"\nschema = "./schemas/not-a-schema.ts"\n');
+    await expect(collectCollections(ctx, [])).rejects.toThrow('must have a zod schema as its default export');
+  });
+});
+
+describe('generateCollectionsModule', () => {
+  test('lists and filters entries, keeping dates', async () => {
+    const file = path.join(projectDir, 'collections-module.js');
+    await fs.writeFile(
+      file,
+      generateCollectionsModule({
+        blog: [
+          { id: 'blog/a', url: '/blog/a/', data: { date: new Date('2024-01-01'), tags: ['news'] } },
+          { id: 'blog/b', url: '/blog/b/', data: { date: new Date('2024-02-01'), tags: [] } },
+        ],
+      })
+    );
+    const mod = await import(file);
+
+    const news = mod.getCollection('blog', (e: any) => e.data.tags.includes('news'));
+    expect(news.map((e: any) => e.id)).toEqual(['blog/a']);
+    expect(mod.getEntry('blog', 'blog/b').data.date).toEqual(new Date('2024-02-01'));
+    expect(() => mod.getCollection('docs')).toThrow('Unknown collection "docs"');
+  });
+});
+
+describe('generateCollectionsTypes', () => {
+  test('types each collection by its schema', () => {
+    const types = generateCollectionsTypes(
+      [{ name: 'blog', pattern: 'pages/blog/**', schema: './schemas/blog.ts', schemaPath: '/project/schemas/blog.ts' }],
+      '/project/.scratchwork/collections.d.ts'
+    );
+    expect(types).toContain(`declare module 'scratchwork:collections'`);
+    expect(types).toContain('"blog": typeof import("../schemas/blog").default;');
+  });
+});
@@ -314,6 +314,18 @@ describe("Project Config", () => {
       expect(content).not.toContain("visibility");
     });
 
+    test("round-trips the team of a team project", async () => {
+      await saveProjectConfig(projectDir, {
+        name: "handbook",
+        team: "acme",
+      });
+
+      const content = await fs.readFile(configPath, "utf-8");
+      expect(content).toContain('team = "acme"');
+      const config = await loadProjectConfig(projectDir);
+      expect(config).toEqual({ name: "handbook", team: "acme" });
+    });
+
     test("includes header comments", async () => {
       await saveProjectConfig(projectDir, {
         name: "test-project",
@@ -322,6 +334,23 @@ describe("Project Config", () => {
       const content = await fs.readFile(configPath, "utf-8");
       expect(content).toContain("# Scratchwork Cloud Project Configuration");
     });
+    test("keeps other sections already in the file", async () => {
+      await fs.mkdir(path.dirname(configPath), { recursive: true });
+      await fs.writeFile(
+        configPath,
+        `name = "old-name"
+
+[markdown]
+remark_plugins = ["remark-math"]
+`
+      );
+
+      await saveProjectConfig(projectDir, { name: "new-name" });
+
+      const config = await loadProjectConfig(projectDir);
+      expect(config.name).toBe("new-name");
+      expect(config.markdown).toEqual({ remark_plugins: ["remark-math"] });
+    });
   });
 
   describe("loadProjectConfig", () => {
@@ -1,5 +1,6 @@
 import { describe, expect, test, afterEach } from "bun:test";
 import { computeUrlPath, detectConflicts } from "../../src/build/steps/02b-check-conflicts";
+import { Entry } from "../../src/build/context";
 import { mkdir, writeFile, rm } from "fs/promises";
 import { join } from "path";
 import { tmpdir } from "os";
@@ -118,6 +119,26 @@ describe("detectConflicts", () => {
       expect(htmlConflict!.sources.length).toBe(2);
     });
 
+    test("detects a generated page + pages/people/ada.mdx HTML output conflict", async () => {
+      await setupTestDir();
+      await mkdir(join(pagesDir, "people"), { recursive: true });
+      await writeFile(join(pagesDir, "people", "[slug].mdx"), "---\ndata: people.json\n---\n");
+      await writeFile(join(pagesDir, "people", "ada.mdx"), "# Ada");
+
+      // The template itself produces no HTML
+      expect(detectConflicts(pagesDir, publicDir).pathConflicts.length).toBe(0);
+
+      const generated = new Entry(join(pagesDir, "people", "[slug].mdx"), pagesDir);
+      generated.name = "people/ada";
+      const result = detectConflicts(pagesDir, publicDir, [generated]);
+
+      const htmlConflict = result.pathConflicts.find(c => c.distPath === "people/ada/index.html");
+      expect(htmlConflict!.sources).toEqual([
+        "pages/people/ada.mdx (HTML)",
+        "pages/people/[slug].mdx (HTML for people/ada)",
+      ]);
+    });
+
     test("detects pages/logo.png + public/logo.png conflict", async () => {
       await setupTestDir();
       await writeFile(join(pagesDir, "logo.png"), "fake png 1");
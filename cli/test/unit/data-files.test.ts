@@ -0,0 +1,69 @@
+import { beforeAll, describe, expect, test } from 'bun:test';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  generateDataFilesTypes,
+  generateDataModule,
+  loadDataFile,
+  parseCsv,
+} from '../../src/build/data-files';
+import { mkTempDir } from '../test-util';
+
+let projectDir: string;
+
+async function writeFile(name: string, content: string): Promise<string> {
+  const file = path.join(projectDir, name);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, content);
+  return file;
+}
+
+beforeAll(async () => {
+  projectDir = await mkTempDir('test-data-files-');
+});
+
+describe('loadDataFile', () => {
+  test('parses CSV with quoted fields', () => {
+    expect(parseCsv('slug,name,bio\r\nada,"Lovelace, Ada","Said ""hi""\nthen left"\n\ngrace,Grace,\n')).toEqual([
+      { slug: 'ada', name: 'Lovelace, Ada', bio: 'Said "hi"\nthen left' },
+      { slug: 'grace', name: 'Grace', bio: '' },
+    ]);
+  });
+
+  test('parses YAML, TOML and JSON by extension', async () => {
+    expect(await loadDataFile(await writeFile('data/a.yaml', '- slug: a\n  date: 2024-01-01\n'))).toEqual([
+      { slug: 'a', date: new Date('2024-01-01') },
+    ]);
+    expect(await loadDataFile(await writeFile('data/a.toml', 'title = "Metrics"\n[[rows]]\nvisits = 12\n'))).toEqual({
+      title: 'Metrics',
+      rows: [{ visits: 12 }],
+    });
+    expect(await loadDataFile(await writeFile('data/a.json', '[{"slug": "a"}]'))).toEqual([{ slug: 'a' }]);
+    await expect(loadDataFile(await writeFile('data/a.txt', ''))).rejects.toThrow('Unsupported data file type ".txt"');
+  });
+});
+
+describe('generateDataModule', () => {
+  test('exports the data as the default export, keeping dates', async () => {
+    const file = await writeFile('module.js', generateDataModule({ rows: [{ month: 'Jan', at: new Date('2024-01-01') }] }));
+    const mod = await import(file);
+    expect(mod.default).toEqual({ rows: [{ month: 'Jan', at: new Date('2024-01-01') }] });
+  });
+});
+
+describe('generateDataFilesTypes', () => {
+  test('types each file by its contents, merging files with the same name', () => {
+    const types = generateDataFilesTypes([
+      { path: '/project/pages/metrics.csv', data: [{ month: 'Jan', visits: '12' }] },
+      { path: '/project/src/config.toml', data: { title: 'Site', year: 2024, draft: false, tags: ['a', 1] } },
+      { path: '/project/pages/blog/config.toml', data: { title: 'Blog' } },
+    ]);
+    expect(types).toContain(`declare module '*/metrics.csv' {
+  const data: { "month": string; "visits": string }[];
+  export default data;
+}`);
+    expect(types).toContain(
+      `const data: { "title": string; "year": number; "draft": boolean; "tags": (string | number)[] } | { "title": string };`
+    );
+  });
+});
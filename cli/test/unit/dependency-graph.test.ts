@@ -0,0 +1,217 @@
+import { beforeAll, describe, expect, test } from 'bun:test';
+import fs from 'fs/promises';
+import path from 'path';
+import { BuildContext, Entry } from '../../src/build/context';
+import { DependencyGraph, scanMdxComponents, scanMdxImports } from '../../src/build/dependency-graph';
+import { planIncrementalBuild } from '../../src/build/orchestrator';
+import type { BuildPipelineState } from '../../src/build/types';
+import { mkTempDir } from '../test-util';
+
+let projectDir: string;
+let ctx: BuildContext;
+let entries: Record<string, Entry>;
+let graph: DependencyGraph;
+
+async function write(relPath: string, content: string): Promise<string> {
+  const filePath = path.join(projectDir, relPath);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content);
+  return filePath;
+}
+
+beforeAll(async () => {
+  projectDir = await mkTempDir('test-dependency-graph-');
+
+  await write('pages/index.mdx', '# Home\n\n<Counter />\n');
+  await write('pages/about.mdx', "import Chart from './Chart';\n\n# About\n\n<Chart />\n");
+  await write('pages/plain.md', '# Plain\n');
+  await write('pages/Chart.tsx', "import { scale } from './scale';\nimport sales from './sales.csv';\nexport default function Chart() { return <div>{scale(sales.length)}</div>; }\n");
+  await write('pages/sales.csv', 'month,total\nJan,3\n');
+  await write('pages/scale.ts', 'export const scale = (n: number) => n * 2;\n');
+  await write('pages/logo.png', 'png');
+  await write('src/Counter.tsx', "import './counter.css';\nexport default function Counter() { return <button />; }\n");
+  await write('src/counter.css', '.counter {}\n');
+  await write('src/Unused.tsx', 'export default function Unused() { return null; }\n');
+  await write('src/template/PageWrapper.jsx', 'export default function PageWrapper({ children }) { return children; }\n');
+  await write('src/tailwind.css', '@import "tailwindcss";\n');
+  await write('public/robots.txt', 'User-agent: *\n');
+
+  ctx = new BuildContext({ path: projectDir });
+  entries = await ctx.getEntries();
+  graph = await DependencyGraph.build(entries, {
+    componentMap: await ctx.getComponentMap(),
+    sharedFiles: [path.join(projectDir, 'src/template/PageWrapper.jsx')],
+  });
+});
+
+function previousState(): BuildPipelineState {
+  return {
+    options: { ssg: false, incremental: true },
+    outputs: { entries, dependencyGraph: graph, cssFilename: 'tailwind-abc.css' },
+    timings: {},
+  };
+}
+
+describe('scanMdxImports', () => {
+  test('finds relative imports only', () => {
+    const content = "import A from './A';\nimport { b } from '../lib/b';\nimport React from 'react';\n\n# Title";
+    expect(scanMdxImports(content)).toEqual(['./A', '../lib/b']);
+  });
+});
+
+describe('scanMdxComponents', () => {
+  test('finds uppercase JSX tags', () => {
+    const names = scanMdxComponents('<Counter /> and <div /> and <Chart.Bar>');
+    expect([...names].sort()).toEqual(['Chart', 'Counter']);
+  });
+});
+
+describe('DependencyGraph', () => {
+  test('maps a page to its own entry', () => {
+    expect(graph.getAffectedEntries(path.join(projectDir, 'pages/plain.md'))).toEqual(new Set(['plain']));
+  });
+
+  test('maps auto-imported components and their imports to the entries using them', () => {
+    expect(graph.getAffectedEntries(path.join(projectDir, 'src/Counter.tsx'))).toEqual(new Set(['index']));
+    expect(graph.getAffectedEntries(path.join(projectDir, 'src/counter.css'))).toEqual(new Set(['index']));
+  });
+
+  test('follows explicit imports transitively', () => {
+    expect(graph.getAffectedEntries(path.join(projectDir, 'pages/Chart.tsx'))).toEqual(new Set(['about']));
+    expect(graph.getAffectedEntries(path.join(projectDir, 'pages/scale.ts'))).toEqual(new Set(['about']));
+  });
+
+  test('maps imported data files to the entries using them', () => {
+    expect(graph.getAffectedEntries(path.join(projectDir, 'pages/sales.csv'))).toEqual(new Set(['about']));
+  });
+
+  test('maps shared files to every entry', () => {
+    const affected = graph.getAffectedEntries(path.join(projectDir, 'src/template/PageWrapper.jsx'));
+    expect([...affected!].sort()).toEqual(['about', 'index', 'plain']);
+  });
+
+  test('returns null for files outside the graph', () => {
+    expect(graph.getAffectedEntries(path.join(projectDir, 'src/Unused.tsx'))).toBeNull();
+  });
+
+  test('addEntry replaces previous dependencies', async () => {
+    const local = await DependencyGraph.build(entries, { componentMap: await ctx.getComponentMap() });
+    const pagePath = await write('pages/scratch.mdx', '<Counter />\n');
+    const entry = new Entry(pagePath, path.join(projectDir, 'pages'));
+    await local.addEntry(entry);
+    expect(local.getAffectedEntries(path.join(projectDir, 'src/Counter.tsx'))).toEqual(new Set(['index', 'scratch']));
+
+    await write('pages/scratch.mdx', '# No components\n');
+    await local.addEntry(entry);
+    expect(local.getAffectedEntries(path.join(projectDir, 'src/Counter.tsx'))).toEqual(new Set(['index']));
+
+    local.removeEntry('scratch');
+    expect(local.getAffectedEntries(pagePath)).toBeNull();
+    await fs.rm(pagePath);
+  });
+});
+
+describe('planIncrementalBuild', () => {
+  test('recompiles only the entries affected by a changed component', async () => {
+    const plan = await planIncrementalBuild(ctx, previousState(), [path.join(projectDir, 'pages/scale.ts')]);
+    expect(plan).not.toBeNull();
+    expect(plan!.entries).toEqual(new Set(['about']));
+    expect(plan!.css).toBe(false);
+    expect(plan!.previousCssFilename).toBe('tailwind-abc.css');
+  });
+
+  test('copies changed pages as source files too', async () => {
+    const file = path.join(projectDir, 'pages/index.mdx');
+    const plan = await planIncrementalBuild(ctx, previousState(), [file]);
+    expect(plan!.entries).toEqual(new Set(['index']));
+    expect(plan!.staticFiles).toEqual([file]);
+  });
+
+  test('only reruns Tailwind for stylesheets and unused components', async () => {
+    const plan = await planIncrementalBuild(ctx, previousState(), [
+      path.join(projectDir, 'src/tailwind.css'),
+      path.join(projectDir, 'src/Unused.tsx'),
+    ]);
+    expect(plan!.css).toBe(true);
+    expect(plan!.entries.size).toBe(0);
+  });
+
+  test('copies static files without recompiling', async () => {
+    const files = [path.join(projectDir, 'public/robots.txt'), path.join(projectDir, 'pages/logo.png')];
+    const plan = await planIncrementalBuild(ctx, previousState(), files);
+    expect(plan!.entries.size).toBe(0);
+    expect(plan!.staticFiles).toEqual(files);
+  });
+
+  test('requires a full build for new or deleted files', async () => {
+    const newPage = await write('pages/new.mdx', '# New\n');
+    expect(await planIncrementalBuild(ctx, previousState(), [newPage])).toBeNull();
+    await fs.rm(newPage);
+
+    const plainPage = path.join(projectDir, 'pages/plain.md');
+    await fs.rm(plainPage);
+    expect(await planIncrementalBuild(ctx, previousState(), [plainPage])).toBeNull();
+    await write('pages/plain.md', '# Plain\n');
+  });
+
+  test('ignores missing files that were never part of the build', async () => {
+    const page = path.join(projectDir, 'pages/index.mdx');
+    const plan = await planIncrementalBuild(ctx, previousState(), [
+      path.join(projectDir, 'pages/4913'),
+      path.join(projectDir, 'src/Counter.tsx___jb_tmp___'),
+      page,
+    ]);
+    expect(plan).not.toBeNull();
+    expect(plan!.entries).toEqual(new Set(['index']));
+    expect(plan!.changedFiles).toEqual([page]);
+  });
+
+  test('requires a full build when a known dependency disappears', async () => {
+    const component = await write('src/Gone.tsx', 'export default function Gone() { return null; }\n');
+    const page = await write('pages/gone.mdx', '<Gone />\n');
+    const local = new BuildContext({ path: projectDir });
+    const localEntries = await local.getEntries();
+    const state: BuildPipelineState = {
+      options: { ssg: false, incremental: true },
+      outputs: {
+        entries: localEntries,
+        dependencyGraph: await DependencyGraph.build(localEntries, { componentMap: await local.getComponentMap() }),
+      },
+      timings: {},
+    };
+    await fs.rm(component);
+    expect(await planIncrementalBuild(local, state, [component])).toBeNull();
+    await fs.rm(page);
+  });
+
+  test('requires a full build when a page feeding collection routes changes', async () => {
+    const file = path.join(projectDir, 'pages/about.mdx');
+    const tag = new Entry(path.join(projectDir, 'pages/tags/[slug].mdx'), path.join(projectDir, 'pages'));
+    tag.name = 'tags/about';
+    tag.props = { slug: 'about', id: 'about', url: '/about/' };
+    const state = previousState();
+    state.outputs.collections = { pages: [{ id: 'about', url: '/about/', data: {} }] };
+    expect(await planIncrementalBuild(ctx, state, [file])).not.toBeNull();
+
+    state.outputs.entries = { ...entries, [tag.name]: tag };
+    expect(await planIncrementalBuild(ctx, state, [file])).toBeNull();
+    expect(await planIncrementalBuild(ctx, state, [path.join(projectDir, 'pages/index.mdx')])).not.toBeNull();
+  });
+
+  test('records the replaced outputs of rebuilt entries', async () => {
+    const state = previousState();
+    state.outputs.jsOutputMap = {
+      index: '/compiled/index-aaa.js',
+      about: '/compiled/about/index-bbb.js',
+    };
+    const plan = await planIncrementalBuild(ctx, state, [path.join(projectDir, 'src/Counter.tsx')]);
+    expect(plan!.staleOutputs).toEqual(['/compiled/index-aaa.js', '/compiled/index-aaa.js.map']);
+  });
+
+  test('requires a full build without a dependency graph or with SSG', async () => {
+    const file = path.join(projectDir, 'pages/index.mdx');
+    const state = previousState();
+    expect(await planIncrementalBuild(ctx, { ...state, outputs: { entries } }, [file])).toBeNull();
+    expect(await planIncrementalBuild(ctx, { ...state, options: { ssg: true } }, [file])).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+import { beforeAll, describe, expect, test } from 'bun:test';
+import fs from 'fs/promises';
+import path from 'path';
+import matter from 'gray-matter';
+import { BuildContext, Entry } from '../../src/build/context';
+import { expandDynamicRoutes, fillPlaceholders, routeParam } from '../../src/build/dynamic-routes';
+import { mkTempDir } from '../test-util';
+
+let projectDir: string;
+let ctx: BuildContext;
+
+async function writeFile(name: string, content: string): Promise<string> {
+  const file = path.join(projectDir, name);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, content);
+  return file;
+}
+
+async function page(name: string, content: string): Promise<Entry> {
+  const entry = new Entry(await writeFile(`pages/${name}`, content), path.join(projectDir, 'pages'));
+  entry.frontmatterData = matter(content).data;
+  return entry;
+}
+
+beforeAll(async () => {
+  projectDir = await mkTempDir('test-dynamic-routes-');
+  ctx = new BuildContext({ path: projectDir });
+});
+
+describe('routeParam', () => {
+  test('finds the parameter in a page file name', () => {
+    expect(routeParam('people/[slug].mdx')).toBe('slug');
+    expect(routeParam('[id].md')).toBe('id');
+    expect(routeParam('people/slug.mdx')).toBeNull();
+    expect(routeParam('[people]/index.mdx')).toBeNull();
+  });
+});
+
+describe('fillPlaceholders', () => {
+  test('fills strings and keeps whole-placeholder values', () => {
+    const date = new Date('2024-01-01');
+    const record = { name: 'Ada', role: 'Engineer', joined: date };
+    expect(
+      fillPlaceholders({ title: '{name}, {role}', date: '{joined}', keywords: ['{name}', '{missing}'] }, record)
+    ).toEqual({ title: 'Ada, Engineer', date, keywords: ['Ada', '{missing}'] });
+  });
+});
+
+describe('expandDynamicRoutes', () => {
+  test('generates a page per record with props and filled frontmatter', async () => {
+    await writeFile('data/people.csv', 'slug,name\nada,Ada Lovelace\ngrace,Grace Hopper\n');
+    const template = await page('people/[slug].mdx', '---\ndata: data/people.csv\ntitle: "{name}"\n---\n# {props.name}\n');
+    const about = await page('about.mdx', '# About\n');
+
+    const { templates, pages } = await expandDynamicRoutes(ctx, [template, about], {});
+    expect(templates).toEqual([template]);
+    expect(pages.map((p) => [p.name, p.props, p.frontmatterData])).toEqual([
+      ['people/ada', { slug: 'ada', name: 'Ada Lovelace' }, { title: 'Ada Lovelace' }],
+      ['people/grace', { slug: 'grace', name: 'Grace Hopper' }, { title: 'Grace Hopper' }],
+    ]);
+    expect(pages[0]!.absPath).toBe(template.absPath);
+    expect(pages[0]!.dataFile).toBe(path.join(projectDir, 'data/people.csv'));
+    expect(pages[0]!.getArtifactPath('.html', '/out')).toBe('/out/people/ada/index.html');
+  });
+
+  test('generates pages from a collection', async () => {
+    const template = await page('tags/[slug].mdx', '---\ncollection: blog\n---\n');
+    const { pages } = await expandDynamicRoutes(ctx, [template], {
+      blog: [{ id: 'blog/hello', url: '/blog/hello/', data: { title: 'Hello' } }],
+    });
+    expect(pages.map((p) => [p.name, p.props])).toEqual([
+      ['tags/hello', { slug: 'hello', title: 'Hello', id: 'blog/hello', url: '/blog/hello/' }],
+    ]);
+  });
+
+  test('throws for a missing source or an unusable parameter', async () => {
+    const noSource = await page('a/[slug].mdx', '# A\n');
+    await expect(expandDynamicRoutes(ctx, [noSource], {})).rejects.toThrow('needs a data source in its frontmatter');
+
+    await writeFile('data/bad.json', '[{"slug": "a/b"}]');
+    const badSlug = await page('b/[slug].mdx', '---\ndata: data/bad.json\n---\n');
+    await expect(expandDynamicRoutes(ctx, [badSlug], {})).rejects.toThrow(
+      'Record 1 of "data/bad.json" needs a "slug" to name its page (pages/b/[slug].mdx)'
+    );
+
+    await writeFile('data/object.json', '{"slug": "a"}');
+    const notList = await page('c/[slug].mdx', '---\ndata: data/object.json\n---\n');
+    await expect(expandDynamicRoutes(ctx, [notList], {})).rejects.toThrow('must contain a list of records');
+
+    const unknown = await page('d/[slug].mdx', '---\ncollection: docs\n---\n');
+    await expect(expandDynamicRoutes(ctx, [unknown], {})).rejects.toThrow('unknown collection "docs"');
+  });
+});
@@ -0,0 +1,55 @@
+import { beforeAll, describe, expect, test } from 'bun:test';
+import fs from 'fs/promises';
+import path from 'path';
+import { BuildContext } from '../../src/build/context';
+import { createErrorOverlay } from '../../src/build/error-overlay';
+import { mkTempDir } from '../test-util';
+
+let projectDir: string;
+let ctx: BuildContext;
+
+beforeAll(async () => {
+  projectDir = await mkTempDir('test-error-overlay-');
+  await fs.mkdir(path.join(projectDir, 'pages'), { recursive: true });
+  await fs.mkdir(path.join(projectDir, 'src'), { recursive: true });
+  await fs.writeFile(
+    path.join(projectDir, 'pages/index.mdx'),
+    ['# One', '', 'two', 'three', '<div class="x">', 'five', 'six', 'seven', 'eight'].join('\n')
+  );
+  await fs.writeFile(path.join(projectDir, 'src/Chart.tsx'), 'export default function Chart() {\n  return <div>;\n}\n');
+  ctx = new BuildContext({ path: projectDir });
+});
+
+describe('createErrorOverlay', () => {
+  test('includes the source lines around an MDX error', async () => {
+    const overlay = await createErrorOverlay(
+      ctx,
+      new Error('MDX syntax error in pages/index.mdx:5:1:\n  Unclosed <div> tag.')
+    );
+    expect(overlay.type).toBe('error');
+    expect(overlay.message).toContain('Unclosed <div> tag');
+    expect(overlay.location).toEqual({
+      file: 'pages/index.mdx',
+      absPath: path.join(projectDir, 'pages/index.mdx'),
+      line: 5,
+      column: 1,
+    });
+    expect(overlay.snippet).toEqual({ start: 2, lines: ['', 'two', 'three', '<div class="x">', 'five', 'six', 'seven'] });
+  });
+
+  test('locates bundler errors in components', async () => {
+    const chart = path.join(projectDir, 'src/Chart.tsx');
+    const overlay = await createErrorOverlay(
+      ctx,
+      new Error(`Client bundle failed:\nUnexpected end of file\n  at ${chart}:2:15\n  2 |   return <div>;`)
+    );
+    expect(overlay.location?.file).toBe(path.join('src', 'Chart.tsx'));
+    expect(overlay.snippet).toEqual({ start: 1, lines: ['export default function Chart() {', '  return <div>;', '}', ''] });
+  });
+
+  test('omits the location of files that do not exist', async () => {
+    const overlay = await createErrorOverlay(ctx, new Error('Failed to render pages/missing.mdx: boom'));
+    expect(overlay.location).toBeUndefined();
+    expect(overlay.snippet).toBeUndefined();
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, test } from 'bun:test';
+import { compile } from '@mdx-js/mdx';
+import { createHeadingIdsPlugin } from '../../src/build/plugins';
+
+async function compilePage(source: string): Promise<string> {
+  const file = await compile(source, { rehypePlugins: [createHeadingIdsPlugin()] });
+  return String(file);
+}
+
+function tocOf(code: string): unknown {
+  const match = code.match(/export const toc = (\[.*?\]);/s);
+  return match ? JSON.parse(match[1]!) : undefined;
+}
+
+describe('createHeadingIdsPlugin', () => {
+  test('assigns unique ids and exports the outline', async () => {
+    const code = await compilePage('# Guide\n\n## Setup\n\n### Install `scratch`\n\n## Setup\n');
+
+    expect(tocOf(code)).toEqual([
+      { depth: 1, text: 'Guide', id: 'guide' },
+      { depth: 2, text: 'Setup', id: 'setup' },
+      { depth: 3, text: 'Install scratch', id: 'install-scratch' },
+      { depth: 2, text: 'Setup', id: 'setup-1' },
+    ]);
+    expect(code).toContain('id: "setup-1"');
+  });
+
+  test('passes toc to PageWrapper', async () => {
+    const code = await compilePage('<PageWrapper>\n\n## Hello\n\n</PageWrapper>\n');
+    expect(code).toMatch(/_jsx\(PageWrapper, \{\s*toc: toc/);
+  });
+
+  test('keeps a toc the page exports itself', async () => {
+    const code = await compilePage("export const toc = [];\n\n## Hello\n");
+    expect(code.match(/export const toc/g)).toHaveLength(1);
+    expect(tocOf(code)).toEqual([]);
+  });
+});
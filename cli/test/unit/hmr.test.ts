@@ -0,0 +1,114 @@
+import { beforeAll, describe, expect, test } from 'bun:test';
+import fs from 'fs/promises';
+import path from 'path';
+import { BuildContext, Entry } from '../../src/build/context';
+import { DependencyGraph } from '../../src/build/dependency-graph';
+import { planHmrUpdate, snapshotFrontmatter } from '../../src/build/hmr';
+import { hooksSignature, isHmrBoundary } from '../../src/build/plugins';
+import type { BuildPipelineState, IncrementalPlan } from '../../src/build/types';
+import { mkTempDir } from '../test-util';
+
+let projectDir: string;
+let entries: Record<string, Entry>;
+let graph: DependencyGraph;
+
+async function write(relPath: string, content: string): Promise<string> {
+  const filePath = path.join(projectDir, relPath);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content);
+  return filePath;
+}
+
+beforeAll(async () => {
+  projectDir = await mkTempDir('test-hmr-');
+
+  await write('pages/index.mdx', '---\ntitle: Home\n---\n\n<Counter />\n');
+  await write('pages/about.mdx', "import { scale } from './scale';\n\n# About\n");
+  await write('pages/scale.ts', 'export const scale = (n: number) => n * 2;\n');
+  await write('pages/logo.png', 'png');
+  await write('src/Counter.tsx', 'export default function Counter() { return <button />; }\n');
+
+  const ctx = new BuildContext({ path: projectDir });
+  entries = await ctx.getEntries();
+  for (const entry of Object.values(entries)) {
+    entry.frontmatterData = { title: entry.name };
+  }
+  graph = await DependencyGraph.build(entries, { componentMap: await ctx.getComponentMap() });
+});
+
+function stateFor(changedFiles: string[], staticFiles: string[] = []): BuildPipelineState {
+  const plan: IncrementalPlan = {
+    changedFiles: changedFiles.map((f) => path.join(projectDir, f)),
+    entries: new Set(),
+    css: false,
+    staticFiles: staticFiles.map((f) => path.join(projectDir, f)),
+    staleOutputs: [],
+    outputs: [],
+  };
+  for (const file of plan.changedFiles) {
+    for (const name of graph.getAffectedEntries(file) ?? []) plan.entries.add(name);
+  }
+  return {
+    options: { ssg: false, incremental: true, hmr: true },
+    outputs: { entries, dependencyGraph: graph },
+    timings: {},
+    incremental: plan,
+  };
+}
+
+describe('isHmrBoundary', () => {
+  test('accepts MDX pages', () => {
+    expect(isHmrBoundary('/p/index.mdx', '# Hi')).toBe(true);
+    expect(isHmrBoundary('/p/plain.md', '# Hi')).toBe(true);
+  });
+
+  test('accepts modules that only export components', () => {
+    const content = 'export default function A() { return null; }\nexport function Badge() { return null; }\n';
+    expect(isHmrBoundary('/p/A.tsx', content)).toBe(true);
+  });
+
+  test('rejects modules with other exports', () => {
+    expect(isHmrBoundary('/p/A.tsx', 'export const items = [];\nexport default function A() { return null; }\n')).toBe(false);
+    expect(isHmrBoundary('/p/util.ts', 'export const scale = 2;\n')).toBe(false);
+  });
+});
+
+describe('hooksSignature', () => {
+  test('lists the hooks a module calls in order', () => {
+    const content = 'const [a] = useState<number>(0);\nuseEffect(() => {}, []);\nconst r = useRef (null);';
+    expect(hooksSignature(content)).toBe('useState,useEffect,useRef');
+  });
+});
+
+describe('planHmrUpdate', () => {
+  test('hot-swaps changed pages and components', async () => {
+    const state = stateFor(['src/Counter.tsx', 'pages/about.mdx']);
+    expect(await planHmrUpdate(state, snapshotFrontmatter(state))).toEqual([
+      path.join(projectDir, 'src/Counter.tsx'),
+      path.join(projectDir, 'pages/about.mdx'),
+    ]);
+  });
+
+  test('reloads when a non-component module changes', async () => {
+    const state = stateFor(['pages/scale.ts']);
+    expect(await planHmrUpdate(state, snapshotFrontmatter(state))).toBeNull();
+  });
+
+  test('reloads when frontmatter changes', async () => {
+    const state = stateFor(['pages/index.mdx']);
+    const before = snapshotFrontmatter(state);
+    before.set('index', JSON.stringify({ title: 'Old' }));
+    expect(await planHmrUpdate(state, before)).toBeNull();
+  });
+
+  test('reloads when a static asset changes', async () => {
+    const state = stateFor([], ['pages/logo.png']);
+    expect(await planHmrUpdate(state, snapshotFrontmatter(state))).toBeNull();
+  });
+
+  test('reloads after a full build', async () => {
+    const state = stateFor(['src/Counter.tsx']);
+    delete state.incremental;
+    expect(await planHmrUpdate(state, snapshotFrontmatter(state))).toBeNull();
+  });
+});
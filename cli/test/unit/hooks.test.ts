@@ -0,0 +1,122 @@
+import { beforeAll, describe, expect, test } from 'bun:test';
+import fs from 'fs/promises';
+import path from 'path';
+import { BuildContext } from '../../src/build/context';
+import { insertHooks, loadBuildHooks, type BuildHook } from '../../src/build/hooks';
+import type { BuildStep } from '../../src/build/types';
+import { mkTempDir } from '../test-util';
+
+const step = (name: string): BuildStep => ({ name, description: name, execute: async () => {} });
+const hook = (name: string, placement: { before?: string; after?: string }): BuildHook => ({
+  name,
+  description: name,
+  execute: async () => {},
+  ...placement,
+});
+
+const FULL = [step('03-create'), [step('04-css'), step('05-server')], [step('05b-render'), step('06-client')], step('07-html'), step('10-dist')];
+const INCREMENTAL = [step('03-refresh'), [step('04-css'), step('06-client')], step('07-html'), step('10-dist')];
+const KNOWN = ['03-create', '03-refresh', '04-css', '05-server', '05b-render', '06-client', '07-html', '10-dist'];
+
+const names = (steps: (BuildStep | BuildStep[])[]) =>
+  steps.map((unit) => (Array.isArray(unit) ? unit.map((s) => s.name) : unit.name));
+
+describe('insertHooks', () => {
+  test('places hooks before and after built-in steps, in config order', () => {
+    const hooks = [hook('a', { before: '07-html' }), hook('b', { before: '07-html' }), hook('c', { after: '10-dist' })];
+    expect(names(insertHooks(FULL, hooks, KNOWN))).toEqual([
+      '03-create',
+      ['04-css', '05-server'],
+      ['05b-render', '06-client'],
+      'a',
+      'b',
+      '07-html',
+      '10-dist',
+      'c',
+    ]);
+  });
+
+  test('runs around the whole parallel group containing the anchor', () => {
+    const hooks = [hook('a', { before: '05-server' }), hook('b', { after: '05-server' })];
+    expect(names(insertHooks(FULL, hooks, KNOWN))).toEqual([
+      '03-create',
+      'a',
+      ['04-css', '05-server'],
+      'b',
+      ['05b-render', '06-client'],
+      '07-html',
+      '10-dist',
+    ]);
+  });
+
+  test('keeps the position of hooks on steps incremental rebuilds skip', () => {
+    const hooks = [hook('a', { after: '05b-render' }), hook('b', { before: '03-create' })];
+    expect(names(insertHooks(INCREMENTAL, hooks, KNOWN))).toEqual([
+      'b',
+      '03-refresh',
+      ['04-css', '06-client'],
+      'a',
+      '07-html',
+      '10-dist',
+    ]);
+  });
+
+  test('rejects unknown anchors and names of built-in steps', () => {
+    expect(() => insertHooks(FULL, [hook('a', { before: '07-htm' })], KNOWN)).toThrow('unknown step "07-htm"');
+    expect(() => insertHooks(FULL, [hook('07-html', { after: '10-dist' })], KNOWN)).toThrow('same name as a built-in');
+  });
+});
+
+describe('loadBuildHooks', () => {
+  let projectDir: string;
+
+  beforeAll(async () => {
+    projectDir = await mkTempDir('test-hooks-');
+  });
+
+  test('returns no hooks without a config file', async () => {
+    expect(await loadBuildHooks(new BuildContext({ path: projectDir }))).toEqual([]);
+  });
+
+  test('loads steps from scratch.config.ts', async () => {
+    const dir = path.join(projectDir, 'with-config');
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(
+      path.join(dir, 'scratch.config.ts'),
+      "export default { steps: [{ name: 'search-index', after: '07-generate-html', execute: async () => {} }] };\n"
+    );
+    const hooks = await loadBuildHooks(new BuildContext({ path: dir }));
+    expect(hooks.map((h) => [h.name, h.description, h.after])).toEqual([['search-index', 'search-index', '07-generate-html']]);
+  });
+
+  test('picks up edits to the config without changing its steps', async () => {
+    const dir = path.join(projectDir, 'edited-config');
+    const configPath = path.join(dir, 'scratch.config.ts');
+    await fs.mkdir(dir, { recursive: true });
+    const writeConfig = async (name: string, mtime: Date) => {
+      await fs.writeFile(
+        configPath,
+        `export default { steps: [{ name: '${name}', after: '07-generate-html', execute: async () => {} }] };\n`
+      );
+      await fs.utimes(configPath, mtime, mtime);
+    };
+
+    await writeConfig('first', new Date('2024-01-01'));
+    expect((await loadBuildHooks(new BuildContext({ path: dir }))).map((h) => h.name)).toEqual(['first']);
+    const loaded = await import(`${configPath}?t=${(await fs.stat(configPath)).mtimeMs}`);
+    expect(loaded.default.steps[0].description).toBeUndefined();
+
+    await writeConfig('second', new Date('2024-01-02'));
+    expect((await loadBuildHooks(new BuildContext({ path: dir }))).map((h) => h.name)).toEqual(['second']);
+  });
+
+  test('requires exactly one placement', async () => {
+    const dir = path.join(projectDir, 'bad-config');
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(
+      path.join(dir, 'scratch.config.js'),
+      "export default { steps: [{ name: 'pdf', execute: async () => {} }] };\n"
+    );
+    await expect(loadBuildHooks(new BuildContext({ path: dir }))).rejects.toThrow('exactly one of "before" or "after"');
+  });
+});
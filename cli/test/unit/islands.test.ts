@@ -0,0 +1,138 @@
+import { beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+import fs from 'fs/promises';
+import path from 'path';
+import { compile, createProcessor } from '@mdx-js/mdx';
+import type { Node } from 'mdast';
+import { Entry } from '../../src/build/context';
+import {
+  findPageIslands,
+  getIslandDirective,
+  islandComponentAssignments,
+} from '../../src/build/islands';
+import { createIslandsPlugin } from '../../src/build/plugins/remark-islands';
+import { getPreprocessingErrors, resetAutoImportState } from '../../src/build/plugins/remark-auto-import';
+import { mkTempDir } from '../test-util';
+
+let projectDir: string;
+
+const processor = createProcessor();
+const parse = (source: string, filePath: string) => processor.parse({ value: source, path: filePath }) as Node;
+
+function jsx(name: string, attributes: string[], children: any[] = []): any {
+  return {
+    type: 'mdxJsxFlowElement',
+    name,
+    attributes: attributes.map((a) => ({ type: 'mdxJsxAttribute', name: a, value: null })),
+    children,
+  };
+}
+
+async function page(name: string, content: string): Promise<Entry> {
+  const file = path.join(projectDir, 'pages', name);
+  await fs.writeFile(file, content);
+  return new Entry(file, path.join(projectDir, 'pages'));
+}
+
+beforeAll(async () => {
+  projectDir = await mkTempDir('test-islands-');
+  await fs.mkdir(path.join(projectDir, 'pages'), { recursive: true });
+  await fs.mkdir(path.join(projectDir, 'src'), { recursive: true });
+  await fs.writeFile(path.join(projectDir, 'src/Counter.tsx'), 'export default function Counter() { return null; }\n');
+  await fs.writeFile(path.join(projectDir, 'src/Chart.tsx'), 'export function Chart() { return null; }\n');
+});
+
+describe('getIslandDirective', () => {
+  test('returns the directive of an island', () => {
+    expect(getIslandDirective(jsx('Counter', ['client:load']))).toBe('load');
+    expect(getIslandDirective(jsx('Counter', ['client:visible']))).toBe('visible');
+    expect(getIslandDirective(jsx('Counter', ['start']))).toBeNull();
+  });
+
+  test('rejects misused directives', () => {
+    expect(() => getIslandDirective(jsx('Counter', ['client:idle']))).toThrow('Unknown directive "client:idle"');
+    expect(() => getIslandDirective(jsx('div', ['client:load']))).toThrow('only be used on components');
+    expect(() =>
+      getIslandDirective(jsx('Counter', ['client:load'], [{ type: 'text', value: 'hi' }]))
+    ).toThrow("can't have children");
+  });
+});
+
+describe('findPageIslands', () => {
+  const componentMap = () => ({
+    Counter: path.join(projectDir, 'src/Counter.tsx'),
+    Chart: path.join(projectDir, 'src/Chart.tsx'),
+  });
+
+  test('returns null for a page without islands', async () => {
+    const entry = await page('static.mdx', '# Hello\n\n<Counter />\n');
+    expect(await findPageIslands(entry, componentMap(), parse)).toBeNull();
+  });
+
+  test('imports auto-imported components with their export style', async () => {
+    const entry = await page('auto.mdx', '<Counter client:load />\n\n<Chart client:visible />\n\n<Counter client:load />\n');
+    const islands = await findPageIslands(entry, componentMap(), parse);
+
+    expect(islands?.components).toEqual(['Counter', 'Chart']);
+    expect(islands?.imports).toEqual([
+      `import Counter from ${JSON.stringify(path.join(projectDir, 'src/Counter.tsx'))};`,
+      `import { Chart } from ${JSON.stringify(path.join(projectDir, 'src/Chart.tsx'))};`,
+    ]);
+  });
+
+  test('reuses the import in the MDX with relative paths made absolute', async () => {
+    const entry = await page(
+      'explicit.mdx',
+      'import { Chart as Plot } from "../src/Chart";\nimport * as Charts from "charts";\n\n<Plot client:load />\n\n<Charts.Line client:visible />\n'
+    );
+    const islands = await findPageIslands(entry, {}, parse);
+
+    expect(islands?.components).toEqual(['Plot', 'Charts.Line']);
+    expect(islands?.imports).toEqual([
+      `import { Chart as Plot } from ${JSON.stringify(path.join(projectDir, 'src/Chart'))};`,
+      'import * as Charts from "charts";',
+    ]);
+  });
+
+  test('throws for a component that cannot be found', async () => {
+    const entry = await page('missing.mdx', '<Missing client:load />\n');
+    await expect(findPageIslands(entry, componentMap(), parse)).rejects.toThrow('Island <Missing>');
+  });
+});
+
+describe('createIslandsPlugin', () => {
+  beforeEach(() => resetAutoImportState());
+
+  async function compileMdx(source: string): Promise<string> {
+    const result = await compile(source, { remarkPlugins: [createIslandsPlugin('/build/island.tsx')] });
+    return String(result);
+  }
+
+  test('wraps islands and strips the directive', async () => {
+    const code = await compileMdx('<Counter start={3} client:load />\n');
+
+    expect(code).toContain('import {Island as __ScratchIsland} from "/build/island.tsx"');
+    expect(code).toContain('component: "Counter"');
+    expect(code).toContain('hydrate: "load"');
+    expect(code).not.toContain('client:load');
+  });
+
+  test('leaves pages without islands alone', async () => {
+    const code = await compileMdx('<Counter start={3} />\n');
+    expect(code).not.toContain('__ScratchIsland');
+  });
+
+  test('collects misused directives as preprocessing errors', async () => {
+    await compileMdx('<Counter client:idle />\n');
+    expect(getPreprocessingErrors().map((e) => e.message)).toEqual([
+      expect.stringContaining('Unknown directive "client:idle"'),
+    ]);
+  });
+});
+
+describe('islandComponentAssignments', () => {
+  test('registers each component by name', () => {
+    expect(islandComponentAssignments(['Counter', 'Charts.Line'])).toBe(
+      'components["Counter"] = Counter;\ncomponents["Charts.Line"] = Charts.Line;'
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import fs from 'fs/promises';
+import path from 'path';
+import { BuildContext, Entry } from '../../src/build/context';
+import { checkLinks, formatLinkProblems, scanPageLinks } from '../../src/build/link-checker';
+import { mkTempDir } from '../test-util';
+
+describe('scanPageLinks', () => {
+  test('finds markdown, JSX and HTML links and heading anchors', () => {
+    const source = [
+      '---',
+      'title: Test',
+      '---',
+      '',
+      '## Setup',
+      '',
+      'See [about](/about) and ![logo](./logo.png).',
+      '',
+      '## Setup',
+      '',
+      '<a href="/contact">Contact</a>',
+      '<div id="custom" />',
+      '',
+      '[ref]: /docs/',
+    ].join('\n');
+
+    const { links, anchors } = scanPageLinks(source, 'mdx');
+    expect(links).toEqual([
+      { url: '/about', kind: 'link', line: 7, column: 5 },
+      { url: './logo.png', kind: 'image', line: 7, column: 25 },
+      { url: '/contact', kind: 'link', line: 11, column: 1 },
+      { url: '/docs/', kind: 'link', line: 14, column: 1 },
+    ]);
+    expect([...anchors]).toEqual(['setup', 'setup-1', 'custom']);
+  });
+
+  test('reads raw HTML in .md files', () => {
+    const { links } = scanPageLinks('<img src="/a.png"> <a href="/b">b</a>\n', 'md');
+    expect(links.map((l) => [l.kind, l.url])).toEqual([['image', '/a.png'], ['link', '/b']]);
+  });
+});
+
+describe('checkLinks', () => {
+  let projectDir: string;
+  let ctx: BuildContext;
+
+  beforeEach(async () => {
+    projectDir = await mkTempDir('test-link-checker-');
+    ctx = new BuildContext({ path: projectDir });
+    for (const file of ['index.html', 'docs/index.html', 'docs/intro/index.html', 'docs/logo.png', 'robots.txt']) {
+      await fs.mkdir(path.dirname(path.join(ctx.buildDir, file)), { recursive: true });
+      await fs.writeFile(path.join(ctx.buildDir, file), '');
+    }
+  });
+
+  async function page(name: string, source: string): Promise<Entry> {
+    const absPath = path.join(ctx.pagesDir, `${name}.mdx`);
+    await fs.mkdir(path.dirname(absPath), { recursive: true });
+    await fs.writeFile(absPath, source);
+    return new Entry(absPath, ctx.pagesDir);
+  }
+
+  test('accepts links to pages, files, anchors and external URLs', async () => {
+    const entries = [
+      await page('index', '[docs](/docs/) [intro](/docs/intro#install) [robots](/robots.txt) [x](https://example.com)\n'),
+      await page('docs/index', '[intro](./intro.md) ![logo](logo.png) [top](#docs) [fn](#user-content-fn-1)\n\n# Docs\n'),
+      await page('docs/intro', '## Install\n'),
+    ];
+    expect(await checkLinks(ctx, entries)).toEqual([]);
+  });
+
+  test('reports broken links, anchors and images with their source location', async () => {
+    const entries = [
+      await page('index', '# Home\n\nSee [old](/old-page) and [intro](/docs/intro#missing).\n\n![gone](/gone.png)\n'),
+      await page('docs/intro', '## Install\n'),
+    ];
+
+    const problems = await checkLinks(ctx, entries);
+    expect(problems.map((p) => [p.message, p.location.line, p.location.column])).toEqual([
+      ['Broken link to /old-page', 3, 5],
+      ['Broken anchor in link /docs/intro#missing: no heading or element with id "missing"', 3, 26],
+      ['Missing image /gone.png', 5, 1],
+    ]);
+    expect(formatLinkProblems(problems.slice(0, 1))).toBe(
+      'Broken link to /old-page\n  at pages/index.mdx:3:5:\n  3 | See [old](/old-page) and [intro](/docs/intro#missing).'
+    );
+  });
+});
@@ -0,0 +1,100 @@
+import { beforeAll, describe, expect, test } from 'bun:test';
+import fs from 'fs/promises';
+import path from 'path';
+import { BuildContext } from '../../src/build/context';
+import {
+  loadMarkdownPlugins,
+  markdownPluginsFingerprint,
+  resolveMarkdownPlugins,
+} from '../../src/build/markdown-plugins';
+import { mkTempDir } from '../test-util';
+
+let projectDir: string;
+let ctx: BuildContext;
+
+async function writeConfig(toml: string): Promise<void> {
+  await fs.mkdir(path.join(projectDir, '.scratchwork'), { recursive: true });
+  await fs.writeFile(path.join(projectDir, '.scratchwork/project.toml'), toml);
+}
+
+beforeAll(async () => {
+  projectDir = await mkTempDir('test-markdown-plugins-');
+  await fs.mkdir(path.join(projectDir, 'plugins'), { recursive: true });
+  await fs.writeFile(path.join(projectDir, 'plugins/remark-cite.js'), 'export default function remarkCite() {}\n');
+  await fs.writeFile(path.join(projectDir, 'plugins/rehype-alerts.js'), 'export default function rehypeAlerts() {}\n');
+  await fs.writeFile(path.join(projectDir, 'plugins/not-a-plugin.js'), 'export default 42;\n');
+  ctx = new BuildContext({ path: projectDir });
+});
+
+describe('resolveMarkdownPlugins', () => {
+  test('returns no plugins without a [markdown] section', async () => {
+    await writeConfig('name = "docs"\n');
+    expect(await resolveMarkdownPlugins(ctx)).toEqual({ remark: [], rehype: [] });
+  });
+
+  test('resolves local files relative to the project root', async () => {
+    await writeConfig(`
+[markdown]
+remark_plugins = ["./plugins/remark-cite.js"]
+rehype_plugins = [{ plugin = "./plugins/rehype-alerts.js", options = { icons = true }, position = "before" }]
+`);
+    const config = await resolveMarkdownPlugins(ctx);
+    expect(config.remark).toEqual([
+      {
+        spec: './plugins/remark-cite.js',
+        modulePath: path.join(projectDir, 'plugins/remark-cite.js'),
+        options: undefined,
+        position: 'after',
+      },
+    ]);
+    expect(config.rehype[0]!.options).toEqual({ icons: true });
+    expect(config.rehype[0]!.position).toBe('before');
+  });
+
+  test('throws for plugins that are not installed', async () => {
+    await writeConfig('[markdown]\nremark_plugins = ["remark-does-not-exist"]\n');
+    await expect(resolveMarkdownPlugins(ctx)).rejects.toThrow('bun add remark-does-not-exist');
+  });
+
+  test('throws for an unknown position', async () => {
+    await writeConfig('[markdown]\nremark_plugins = [{ plugin = "./plugins/remark-cite.js", position = "middle" }]\n');
+    await expect(resolveMarkdownPlugins(ctx)).rejects.toThrow('Invalid position "middle"');
+  });
+});
+
+describe('loadMarkdownPlugins', () => {
+  test('splits plugins by position and attaches options', async () => {
+    await writeConfig(`
+[markdown]
+remark_plugins = ["./plugins/remark-cite.js"]
+rehype_plugins = [{ plugin = "./plugins/rehype-alerts.js", options = { icons = true }, position = "before" }]
+`);
+    const loaded = await loadMarkdownPlugins(await resolveMarkdownPlugins(ctx));
+    expect(loaded.remark.before).toEqual([]);
+    expect(loaded.remark.after.map((p) => p.name)).toEqual(['remarkCite']);
+    expect(loaded.rehype.before[0][0].name).toBe('rehypeAlerts');
+    expect(loaded.rehype.before[0][1]).toEqual({ icons: true });
+  });
+
+  test('throws when a module does not export a function', async () => {
+    await writeConfig('[markdown]\nremark_plugins = ["./plugins/not-a-plugin.js"]\n');
+    await expect(loadMarkdownPlugins(await resolveMarkdownPlugins(ctx))).rejects.toThrow(
+      'does not export a plugin function'
+    );
+  });
+});
+
+describe('markdownPluginsFingerprint', () => {
+  test('changes with the plugin list, options and plugin source', async () => {
+    await writeConfig('[markdown]\nremark_plugins = ["./plugins/remark-cite.js"]\n');
+    const first = await markdownPluginsFingerprint(await resolveMarkdownPlugins(ctx));
+
+    await writeConfig('[markdown]\nremark_plugins = [{ plugin = "./plugins/remark-cite.js", options = { style = "apa" } }]\n');
+    const withOptions = await markdownPluginsFingerprint(await resolveMarkdownPlugins(ctx));
+    expect(withOptions).not.toBe(first);
+
+    await fs.appendFile(path.join(projectDir, 'plugins/remark-cite.js'), '// edited\n');
+    const edited = await markdownPluginsFingerprint(await resolveMarkdownPlugins(ctx));
+    expect(edited).not.toBe(withOptions);
+  });
+});
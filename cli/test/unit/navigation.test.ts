@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'bun:test';
+import path from 'path';
+import { Entry } from '../../src/build/context';
+import {
+  buildNavigationTree,
+  generateNavigationModule,
+  navigationFingerprint,
+} from '../../src/build/navigation';
+import { mkTempDir } from '../test-util';
+
+function entry(name: string, frontmatterData: Record<string, any> = {}): Entry {
+  const e = new Entry(`/project/pages/${name}.mdx`, '/project/pages');
+  e.frontmatterData = frontmatterData;
+  return e;
+}
+
+const entries = [
+  entry('index', { title: 'Welcome' }),
+  entry('about', { title: 'About us' }),
+  entry('docs/index', { title: 'Documentation', order: 1 }),
+  entry('docs/getting-started', { order: 1 }),
+  entry('docs/advanced', { title: 'Advanced', order: 2 }),
+  entry('docs/api/reference'),
+  entry('drafts/wip', { nav: false }),
+  entry('404', { title: 'Page not found' }),
+];
+
+describe('buildNavigationTree', () => {
+  test('follows the pages directory, sorted by order then title', () => {
+    const tree = buildNavigationTree(entries, '/site');
+    const outline = (node: typeof tree): any => [node.title, node.url, node.children.map(outline)];
+
+    expect(outline(tree)).toEqual([
+      'Welcome',
+      '/site/',
+      [
+        ['Documentation', '/site/docs/', [
+          ['Getting started', '/site/docs/getting-started/', []],
+          ['Advanced', '/site/docs/advanced/', []],
+          ['Api', null, [['Reference', '/site/docs/api/reference/', []]]],
+        ]],
+        ['About us', '/site/about/', []],
+      ],
+    ]);
+  });
+
+  test('fingerprint changes only with navigation frontmatter', () => {
+    const before = navigationFingerprint(entries);
+    entries[1]!.frontmatterData = { title: 'About us', description: 'changed' };
+    expect(navigationFingerprint(entries)).toBe(before);
+    entries[1]!.frontmatterData = { title: 'About' };
+    expect(navigationFingerprint(entries)).not.toBe(before);
+    entries[1]!.frontmatterData = { title: 'About us' };
+  });
+});
+
+describe('navigation module', () => {
+  test('finds the current page, prev/next and breadcrumbs', async () => {
+    const dir = await mkTempDir('test-navigation-');
+    const modulePath = path.join(dir, 'navigation.js');
+    await Bun.write(modulePath, generateNavigationModule(buildNavigationTree(entries, '/site'), '/site'));
+    const nav = await import(modulePath);
+
+    expect(nav.pages.map((p: any) => p.path)).toEqual([
+      '/', '/docs/', '/docs/getting-started/', '/docs/advanced/', '/docs/api/reference/', '/about/',
+    ]);
+
+    // The site prefix is dropped by depth, so aliases of the base path work too
+    expect(nav.getCurrentPage('/other/docs/advanced/index.html').title).toBe('Advanced');
+    expect(nav.getCurrentPage('/site/drafts/wip/')).toBeNull();
+
+    const { prev, next } = nav.getPrevNext('/site/docs/advanced/');
+    expect([prev.title, next.title]).toEqual(['Getting started', 'Reference']);
+    expect(nav.getPrevNext('/site/').prev).toBeNull();
+
+    expect(nav.getBreadcrumbs('/site/docs/api/reference/').map((n: any) => n.title)).toEqual([
+      'Welcome', 'Documentation', 'Api', 'Reference',
+    ]);
+
+    // During SSR the server entry sets the path being rendered
+    (globalThis as any).__SCRATCH_PATH__ = '/site/about/';
+    try {
+      expect(nav.getCurrentPage().title).toBe('About us');
+    } finally {
+      delete (globalThis as any).__SCRATCH_PATH__;
+    }
+  });
+});
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import fs from 'fs/promises';
+import path from 'path';
+import { BuildContext, Entry } from '../../src/build/context';
+import {
+  searchIndexStep,
+  sectionsFromHtml,
+  sectionsFromMarkdown,
+  type SearchIndex,
+} from '../../src/build/steps/07c-search-index';
+import type { BuildPipelineState } from '../../src/build/types';
+import { mkTempDir } from '../test-util';
+
+describe('sectionsFromHtml', () => {
+  test('splits at h2/h3 and uses the rendered heading ids', () => {
+    const html =
+      '<div><p>Intro &amp; more</p>' +
+      '<h2 id="getting-started" class="group relative"><a href="#getting-started" class="heading-anchor" aria-label="Link to Getting Started">#</a>Getting Started</h2>' +
+      '<p>Install <code>scratch</code>.</p><script>ignored()</script>' +
+      '<h3 id="next">Next <em>steps</em></h3><ul><li>One</li><li>Two</li></ul></div>';
+
+    expect(sectionsFromHtml(html)).toEqual([
+      { text: 'Intro & more' },
+      { anchor: 'getting-started', heading: 'Getting Started', text: 'Install scratch.' },
+      { anchor: 'next', heading: 'Next steps', text: 'One Two' },
+    ]);
+  });
+
+  test('slugifies headings without an id', () => {
+    expect(sectionsFromHtml('<h2>Hello World!</h2><p>x</p>')).toEqual([
+      { anchor: 'hello-world', heading: 'Hello World!', text: 'x' },
+    ]);
+  });
+});
+
+describe('sectionsFromMarkdown', () => {
+  test('strips frontmatter, imports and markup', () => {
+    const source = [
+      '---',
+      'title: Hello',
+      '---',
+      "import Chart from './Chart';",
+      '',
+      'Some **bold** text and a [link](/about).',
+      '',
+      '## Set Up',
+      '',
+      '<Chart data={[1, 2]} />',
+      '- item',
+      '',
+      '```sh',
+      '## not a heading',
+      '```',
+    ].join('\n');
+
+    expect(sectionsFromMarkdown(source)).toEqual([
+      { text: 'Some bold text and a link.' },
+      { anchor: 'set-up', heading: 'Set Up', text: 'item not a heading' },
+    ]);
+  });
+});
+
+describe('searchIndexStep', () => {
+  let projectDir: string;
+  let ctx: BuildContext;
+
+  beforeEach(async () => {
+    projectDir = await mkTempDir('test-search-index-');
+    await fs.mkdir(path.join(projectDir, 'pages/posts'), { recursive: true });
+    ctx = new BuildContext({ path: projectDir, base: '/docs' });
+    await fs.mkdir(ctx.clientCompiledDir, { recursive: true });
+  });
+
+  async function entry(name: string, source: string, frontmatterData: Record<string, any> = {}): Promise<Entry> {
+    const absPath = path.join(projectDir, 'pages', `${name}.mdx`);
+    await fs.writeFile(absPath, source);
+    const e = new Entry(absPath, path.join(projectDir, 'pages'));
+    e.frontmatterData = frontmatterData;
+    return e;
+  }
+
+  test('indexes rendered content, falling back to source, with site-relative URLs', async () => {
+    const entries = [
+      await entry('index', '# Home', { title: 'Home', tags: ['intro', 'docs'] }),
+      await entry('posts/hello', '## Greeting\n\nHello there', { tags: 'news' }),
+      await entry('secret', 'Hidden', { search: false }),
+      await entry('draft', 'Not for search engines', { robots: 'noindex, nofollow' }),
+    ];
+    const state: BuildPipelineState = {
+      options: {},
+      outputs: {
+        entries: Object.fromEntries(entries.map((e) => [e.name, e])),
+        renderedContent: new Map([['index', '<p>Welcome</p>']]),
+      },
+      timings: {},
+    };
+
+    await searchIndexStep.execute(ctx, state);
+
+    const index: SearchIndex = JSON.parse(
+      await fs.readFile(path.join(ctx.clientCompiledDir, 'search-index.json'), 'utf-8')
+    );
+    expect(index.pages).toEqual([
+      { url: '/', title: 'Home', tags: ['intro', 'docs'], sections: [{ text: 'Welcome' }] },
+      {
+        url: '/posts/hello/',
+        title: 'Greeting',
+        tags: ['news'],
+        sections: [{ anchor: 'greeting', heading: 'Greeting', text: 'Hello there' }],
+      },
+    ]);
+  });
+});
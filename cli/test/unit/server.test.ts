@@ -1,5 +1,12 @@
 import { describe, expect, test, beforeAll, afterAll } from "bun:test";
-import { hasStaticFileExtension, isPortAvailable, startServerWithFallback } from "../../src/cmd/server";
+import {
+  hasStaticFileExtension,
+  isPortAvailable,
+  loadSiteRules,
+  notifyBuildError,
+  notifyLiveReloadClients,
+  startServerWithFallback,
+} from "../../src/cmd/server";
 import fs from "fs/promises";
 import path from "path";
 import os from "os";
@@ -254,6 +261,69 @@ describe("startServerWithFallback", () => {
     }
   });
 
+  test("injects and serves the HMR runtime when hmrDir has one", async () => {
+    const port = 45000 + Math.floor(Math.random() * 1000);
+    const buildDir = path.join(tempDir, "hmr-site");
+    const hmrDir = path.join(tempDir, "hmr");
+    await fs.mkdir(buildDir, { recursive: true });
+    await fs.mkdir(hmrDir, { recursive: true });
+    await fs.writeFile(path.join(buildDir, "index.html"), "<html><head></head><body>Hello</body></html>");
+    await fs.writeFile(path.join(hmrDir, "runtime.js"), "globalThis.__SCRATCH_HMR__ = {};");
+
+    const result = await startServerWithFallback({ buildDir, port, liveReload: true, hmrDir });
+
+    try {
+      const text = await (await fetch(`http://localhost:${port}/`)).text();
+      expect(text).toContain('<script type="module" src="/__hmr/runtime.js"></script>\n</head>');
+
+      const runtime = await fetch(`http://localhost:${port}/__hmr/runtime.js`);
+      expect(await runtime.text()).toContain("__SCRATCH_HMR__");
+    } finally {
+      result.server.stop();
+    }
+  });
+
+  test("sends the current build error to new clients until the next build", async () => {
+    const port = 44000 + Math.floor(Math.random() * 1000);
+    const result = await startServerWithFallback({ buildDir: tempDir, port, liveReload: true });
+    const editor = process.env.EDITOR;
+    const visual = process.env.VISUAL;
+    delete process.env.EDITOR;
+    delete process.env.VISUAL;
+
+    try {
+      notifyBuildError({
+        type: "error",
+        message: "Unclosed <div> tag.",
+        location: { file: "index.html", absPath: path.join(tempDir, "index.html"), line: 1 },
+      });
+
+      const ws = new WebSocket(`ws://localhost:${port}/__live_reload`);
+      const message = await new Promise<string>((resolve) => {
+        ws.onmessage = (event) => resolve(String(event.data));
+      });
+      ws.close();
+      expect(JSON.parse(message)).toMatchObject({ type: "error", message: "Unclosed <div> tag." });
+
+      const openUrl = `http://localhost:${port}/__open-in-editor`;
+      expect((await fetch(openUrl)).status).toBe(403);
+      expect((await fetch(openUrl, { method: "POST" })).status).toBe(501);
+
+      process.env.EDITOR = "scratch-no-such-editor";
+      const failed = await fetch(openUrl, { method: "POST" });
+      expect(failed.status).toBe(501);
+      expect(await failed.text()).toContain('Could not start editor "scratch-no-such-editor"');
+      delete process.env.EDITOR;
+
+      notifyLiveReloadClients();
+      expect((await fetch(openUrl, { method: "POST" })).status).toBe(404);
+    } finally {
+      if (editor !== undefined) process.env.EDITOR = editor;
+      if (visual !== undefined) process.env.VISUAL = visual;
+      result.server.stop();
+    }
+  });
+
   test("sets no-cache headers when live reload enabled", async () => {
     const port = 48000 + Math.floor(Math.random() * 1000);
     const result = await startServerWithFallback({
@@ -287,3 +357,82 @@ describe("startServerWithFallback", () => {
     }
   });
 });
+
+describe("site rules", () => {
+  let siteDir: string;
+
+  beforeAll(async () => {
+    siteDir = await fs.mkdtemp(path.join(os.tmpdir(), "test-site-rules-"));
+    await fs.mkdir(path.join(siteDir, "docs", "intro"), { recursive: true });
+    await fs.writeFile(path.join(siteDir, "docs", "intro", "index.html"), "<html><body>Intro</body></html>");
+    await fs.mkdir(path.join(siteDir, "app"));
+    await fs.writeFile(path.join(siteDir, "app", "index.html"), "<html><body>App</body></html>");
+    await fs.writeFile(
+      path.join(siteDir, "_redirects"),
+      ["/old-docs/* /docs/:splat", "/app/* /app/index.html 200", "not a rule"].join("\n")
+    );
+    await fs.writeFile(path.join(siteDir, "_headers"), "/docs/*\n  X-Robots-Tag: noindex\n");
+  });
+
+  afterAll(async () => {
+    await fs.rm(siteDir, { recursive: true, force: true });
+  });
+
+  test("loadSiteRules skips invalid lines", async () => {
+    const rules = await loadSiteRules(siteDir);
+    expect(rules.redirects).toHaveLength(2);
+    expect(rules.headers).toEqual([{ path: "/docs/*", headers: { "X-Robots-Tag": "noindex" } }]);
+  });
+
+  test("loadSiteRules returns no rules for a site without the files", async () => {
+    expect(await loadSiteRules(tempDir)).toEqual({ redirects: [], headers: [] });
+  });
+
+  test("applies redirects, rewrites and headers", async () => {
+    const port = 50000 + Math.floor(Math.random() * 1000);
+    const result = await startServerWithFallback({
+      buildDir: siteDir,
+      port,
+      siteRules: await loadSiteRules(siteDir),
+    });
+
+    try {
+      const redirected = await fetch(`http://localhost:${port}/old-docs/intro?ref=nav`, { redirect: "manual" });
+      expect(redirected.status).toBe(301);
+      expect(redirected.headers.get("Location")).toBe("/docs/intro?ref=nav");
+
+      const rewritten = await fetch(`http://localhost:${port}/app/settings`);
+      expect(await rewritten.text()).toContain("App");
+
+      const page = await fetch(`http://localhost:${port}/docs/intro/`);
+      expect(page.headers.get("X-Robots-Tag")).toBe("noindex");
+
+      const rulesFile = await fetch(`http://localhost:${port}/_redirects`);
+      expect(rulesFile.status).toBe(404);
+    } finally {
+      result.server.stop();
+    }
+  });
+
+  test("serves the site's 404 page for missing files", async () => {
+    await fs.mkdir(path.join(siteDir, "404"));
+    await fs.writeFile(path.join(siteDir, "404", "index.html"), "<html><body>Lost?</body></html>");
+    const port = 51000 + Math.floor(Math.random() * 1000);
+    const result = await startServerWithFallback({
+      buildDir: siteDir,
+      port,
+      liveReload: true,
+    });
+
+    try {
+      const response = await fetch(`http://localhost:${port}/no/such/page`);
+      expect(response.status).toBe(404);
+      expect(response.headers.get("Content-Type")).toBe("text/html");
+      const text = await response.text();
+      expect(text).toContain("Lost?");
+      expect(text).toContain("__live_reload");
+    } finally {
+      result.server.stop();
+    }
+  });
+});
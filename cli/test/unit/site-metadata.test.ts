@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, test } from 'bun:test';
+import fs from 'fs/promises';
+import path from 'path';
+import { BuildContext, Entry } from '../../src/build/context';
+import {
+  entryUrlPath,
+  findSiteUrl,
+  generateFeed,
+  generateRobotsTxt,
+  generateSitemap,
+  isNotFoundPage,
+  siteMetadataStep,
+  toIsoDate,
+} from '../../src/build/steps/07b-site-metadata';
+import type { BuildPipelineState } from '../../src/build/types';
+import { mkTempDir } from '../test-util';
+
+function entry(name: string, frontmatterData: Record<string, any> = {}): Entry {
+  const e = new Entry(`/project/pages/${name}.mdx`, '/project/pages');
+  e.frontmatterData = frontmatterData;
+  return e;
+}
+
+describe('helpers', () => {
+  test('entryUrlPath maps entries to directory URLs', () => {
+    expect(entryUrlPath(entry('index'))).toBe('/');
+    expect(entryUrlPath(entry('posts/index'))).toBe('/posts/');
+    expect(entryUrlPath(entry('posts/hello'))).toBe('/posts/hello/');
+  });
+
+  test('isNotFoundPage matches only the root 404 page', () => {
+    expect(isNotFoundPage(entry('404'))).toBe(true);
+    expect(isNotFoundPage(entry('404/index'))).toBe(true);
+    expect(isNotFoundPage(entry('docs/404'))).toBe(false);
+  });
+
+  test('findSiteUrl prefers the index page', () => {
+    const entries = [entry('about', { siteUrl: 'https://other.dev' }), entry('index', { siteUrl: 'https://example.com/' })];
+    expect(findSiteUrl(entries)).toBe('https://example.com');
+    expect(findSiteUrl([entry('index')])).toBeUndefined();
+  });
+
+  test('toIsoDate accepts strings and Date objects', () => {
+    expect(toIsoDate('2024-03-01')).toBe('2024-03-01T00:00:00.000Z');
+    expect(toIsoDate(new Date('2024-03-01T10:00:00Z'))).toBe('2024-03-01T10:00:00.000Z');
+    expect(toIsoDate('not a date')).toBeUndefined();
+  });
+});
+
+describe('generators', () => {
+  const pages = [
+    { url: 'https://example.com/', title: 'Home', tags: [] },
+    {
+      url: 'https://example.com/posts/a/',
+      title: 'A & B',
+      tags: ['news'],
+      published: '2024-01-01T00:00:00.000Z',
+      updated: '2024-02-01T00:00:00.000Z',
+    },
+    { url: 'https://example.com/posts/b/', title: 'B', tags: [], published: '2024-03-01T00:00:00.000Z' },
+  ];
+
+  test('sitemap lists every page with lastmod when dated', () => {
+    const xml = generateSitemap(pages);
+    expect(xml).toContain('<loc>https://example.com/</loc>');
+    expect(xml).toContain('<loc>https://example.com/posts/a/</loc>\n    <lastmod>2024-02-01T00:00:00.000Z</lastmod>');
+  });
+
+  test('robots.txt points at the sitemap', () => {
+    expect(generateRobotsTxt('https://example.com/sitemap.xml')).toBe(
+      'User-agent: *\nAllow: /\n\nSitemap: https://example.com/sitemap.xml\n'
+    );
+    expect(generateRobotsTxt()).toBe('User-agent: *\nAllow: /\n');
+  });
+
+  test('feed has dated pages only, newest first, escaped', () => {
+    const xml = generateFeed(pages, {
+      url: 'https://example.com/feed.xml',
+      siteUrl: 'https://example.com/',
+      title: 'Blog',
+    });
+    expect(xml).toContain('<updated>2024-03-01T00:00:00.000Z</updated>\n  <entry>');
+    expect(xml.indexOf('posts/b/')).toBeLessThan(xml.indexOf('posts/a/'));
+    expect(xml).not.toContain('<id>https://example.com/</id>\n    <published>');
+    expect(xml).toContain('<title>A &amp; B</title>');
+    expect(xml).toContain('<category term="news"/>');
+  });
+});
+
+describe('siteMetadataStep', () => {
+  let projectDir: string;
+  let ctx: BuildContext;
+
+  beforeEach(async () => {
+    projectDir = await mkTempDir('test-site-metadata-');
+    await fs.mkdir(path.join(projectDir, 'pages'), { recursive: true });
+    ctx = new BuildContext({ path: projectDir, base: '/docs' });
+    await fs.mkdir(ctx.clientCompiledDir, { recursive: true });
+  });
+
+  function state(entries: Entry[]): BuildPipelineState {
+    return {
+      options: {},
+      outputs: { entries: Object.fromEntries(entries.map((e) => [e.name, e])) },
+      timings: {},
+    };
+  }
+
+  const read = (filename: string) => fs.readFile(path.join(ctx.clientCompiledDir, filename), 'utf-8');
+
+  test('writes URLs under the base path and leaves out noindex pages', async () => {
+    await siteMetadataStep.execute(ctx, state([
+      entry('index', { siteUrl: 'https://example.com', title: 'Home' }),
+      entry('posts/a', { title: 'A', publishDate: '2024-01-01' }),
+      entry('drafts/x', { robots: 'noindex, nofollow', publishDate: '2024-05-01' }),
+    ]));
+
+    const sitemap = await read('sitemap.xml');
+    expect(sitemap).toContain('<loc>https://example.com/docs/</loc>');
+    expect(sitemap).toContain('<loc>https://example.com/docs/posts/a/</loc>');
+    expect(sitemap).not.toContain('drafts');
+    expect(await read('robots.txt')).toContain('Sitemap: https://example.com/docs/sitemap.xml');
+
+    const feed = await read('feed.xml');
+    expect(feed).toContain('<link rel="self" href="https://example.com/docs/feed.xml"/>');
+    expect(feed).not.toContain('drafts');
+  });
+
+  test('writes only robots.txt without a siteUrl', async () => {
+    await siteMetadataStep.execute(ctx, state([entry('index', { publishDate: '2024-01-01' })]));
+    expect(await read('robots.txt')).toBe('User-agent: *\nAllow: /\n');
+    expect(await fs.exists(path.join(ctx.clientCompiledDir, 'sitemap.xml'))).toBe(false);
+  });
+
+  test('keeps files the project provides', async () => {
+    await fs.mkdir(ctx.staticDir, { recursive: true });
+    await fs.writeFile(path.join(ctx.staticDir, 'robots.txt'), 'User-agent: *\nDisallow: /\n');
+    await siteMetadataStep.execute(ctx, state([entry('index', { siteUrl: 'https://example.com' })]));
+    expect(await fs.exists(path.join(ctx.clientCompiledDir, 'robots.txt'))).toBe(false);
+    expect(await fs.exists(path.join(ctx.clientCompiledDir, 'sitemap.xml'))).toBe(true);
+  });
+});
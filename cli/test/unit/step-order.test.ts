@@ -1,5 +1,5 @@
 import { describe, expect, test } from "bun:test";
-import { getStepNumber } from "../../src/build/orchestrator";
+import { getStepNumber } from "../../src/build/step-order";
 
 describe("getStepNumber", () => {
     test("extracts simple numeric step number", () => {
@@ -1,5 +1,5 @@
 import { describe, expect, test, beforeAll } from "bun:test";
-import { render, buildFileMap, formatFileTree, escapeHtml, getContentType, stripTrailingSlash } from "../../src/util";
+import { render, buildFileMap, formatFileTree, escapeHtml, getContentType, stripTrailingSlash, getEditorCommand } from "../../src/util";
 import fs from "fs/promises";
 import { mkTempDir } from "../test-util";
 import path from "path";
@@ -245,3 +245,22 @@ describe("util.stripTrailingSlash", () => {
         expect(stripTrailingSlash("https://example.com//")).toBe("https://example.com/");
     });
 });
+
+describe("util.getEditorCommand", () => {
+    test("uses --goto for VS Code style editors", () => {
+        expect(getEditorCommand("code", "/p/a.mdx", 3, 7)).toEqual(["code", "--goto", "/p/a.mdx:3:7"]);
+    });
+
+    test("uses +line for terminal editors", () => {
+        expect(getEditorCommand("/usr/bin/nvim", "/p/a.mdx", 3, 7)).toEqual(["/usr/bin/nvim", "+3", "/p/a.mdx"]);
+    });
+
+    test("keeps arguments from the editor variable", () => {
+        expect(getEditorCommand("subl -w", "/p/a.mdx", 3)).toEqual(["subl", "-w", "/p/a.mdx:3"]);
+    });
+
+    test("passes just the file to unknown editors or without a line", () => {
+        expect(getEditorCommand("gedit", "/p/a.mdx", 3)).toEqual(["gedit", "/p/a.mdx"]);
+        expect(getEditorCommand("code", "/p/a.mdx")).toEqual(["code", "/p/a.mdx"]);
+    });
+});
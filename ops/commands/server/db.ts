@@ -114,6 +114,9 @@ export async function dbMigrateAction(instance: string): Promise<void> {
           const msg = error instanceof Error ? error.message : String(error)
           if (msg.includes('duplicate column') || msg.includes('already exists')) {
             console.log(`${green}✓${reset} (already applied)`)
+          } else if (msg.includes('no such table')) {
+            // New database: the schema below creates the tables in their current form
+            console.log(`${green}✓${reset} (not needed)`)
           } else {
             console.log(`${red}✗${reset}`)
             console.error(`    ${msg.trim()}`)
@@ -7,6 +7,7 @@ import { deployAction, logsAction } from './deploy'
 import { configCheckAction, configPushAction } from './config'
 import { dbTablesAction, dbQueryAction, dbMigrateAction, dbDropAllAction } from './db'
 import { regenerateEnvAction } from './env'
+import { retentionDryRunAction, retentionLogAction } from './retention'
 import { runRelease, type BumpType } from '../release'
 
 export function registerServerCommands(program: Command): void {
@@ -106,6 +107,25 @@ export function registerServerCommands(program: Command): void {
       await dbDropAllAction(instance)
     })
 
+  // Retention subcommands
+  const retention = server
+    .command('retention')
+    .description('Deploy retention cleanup (runs daily on the server)')
+
+  retention.command('dry-run')
+    .description('Show what the next cleanup would delete')
+    .action(async () => {
+      const instance = requireInstance(server.opts().instance, 'retention dry-run')
+      await retentionDryRunAction(instance)
+    })
+
+  retention.command('log')
+    .description('Show recent cleanup runs')
+    .action(async () => {
+      const instance = requireInstance(server.opts().instance, 'retention log')
+      await retentionLogAction(instance)
+    })
+
   // Test command - integration test against specified instance
   // Uses dynamic import to avoid loading test files during normal ops invocations
   // (prevents "Cannot use describe outside test runner" when TEST_INSTANCE is set)
@@ -0,0 +1,109 @@
+// Retention commands - preview and review the scheduled cleanup
+
+import { dim, reset } from '../../lib/output'
+import { getInstanceVarsPath, parseVarsFile } from '../../lib/config'
+import { runD1Query } from './db'
+import {
+  expiredDeploysQuery,
+  expiredProjectsQuery,
+  parseRetentionPolicy,
+  type ExpiredDeploy,
+  type ExpiredProject,
+  type RetentionPolicy,
+} from '../../../server/src/lib/retention-policy'
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Run a query and return its rows
+async function queryRows<T>(instance: string, sql: string): Promise<T[]> {
+  const stdout = await runD1Query(instance, ['--command', sql], { json: true })
+  const result = JSON.parse(stdout)
+  return result?.[0]?.results ?? []
+}
+
+/**
+ * Describe each enabled retention rule, one per line.
+ */
+export function describeRetentionPolicy(policy: RetentionPolicy): string[] {
+  const rules: string[] = []
+  if (policy.deployCount !== null) rules.push(`Keep the newest ${policy.deployCount} deploys of each project`)
+  if (policy.deployDays !== null) rules.push(`Delete deploys older than ${policy.deployDays} days`)
+  if (policy.projectDays !== null) rules.push(`Delete projects older than ${policy.projectDays} days`)
+  if (rules.length > 0 && policy.exemptProjectIds.length > 0) {
+    rules.push(`Never delete the www project (${policy.exemptProjectIds.join(', ')})`)
+  }
+  return rules
+}
+
+export async function retentionDryRunAction(instance: string): Promise<void> {
+  let policy: RetentionPolicy
+  try {
+    policy = parseRetentionPolicy(Object.fromEntries(parseVarsFile(getInstanceVarsPath(instance))))
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`)
+    process.exit(1)
+  }
+
+  const rules = describeRetentionPolicy(policy)
+  if (rules.length === 0) {
+    console.log(`Retention is disabled for ${instance}.`)
+    console.log(`Set DEPLOY_RETENTION_COUNT, DEPLOY_RETENTION_DAYS or PROJECT_RETENTION_DAYS in ${getInstanceVarsPath(instance)}`)
+    return
+  }
+
+  console.log(`Retention policy for ${instance}:`)
+  for (const rule of rules) {
+    console.log(`  ${rule}`)
+  }
+  console.log('')
+
+  let projects: ExpiredProject[]
+  let deploys: ExpiredDeploy[]
+  try {
+    const projectsSql = expiredProjectsQuery(policy)
+    const deploysSql = expiredDeploysQuery(policy)
+    projects = projectsSql ? await queryRows<ExpiredProject>(instance, projectsSql) : []
+    deploys = deploysSql ? await queryRows<ExpiredDeploy>(instance, deploysSql) : []
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`)
+    process.exit(1)
+  }
+
+  console.log(`Projects to delete: ${projects.length}`)
+  for (const p of projects) {
+    console.log(
+      `  ${p.team_slug ?? p.owner_email}/${p.name}  created ${p.created_at}  ` +
+        `${p.deploy_count} deploys, ${formatBytes(p.total_bytes)}`
+    )
+  }
+  console.log('')
+
+  console.log(`Deploys to delete: ${deploys.length}`)
+  for (const d of deploys) {
+    const reason = d.reason === 'count' ? 'over count' : 'too old'
+    console.log(
+      `  ${d.team_slug ?? d.owner_email}/${d.project_name} v${d.version}  created ${d.created_at}  ` +
+        `${formatBytes(d.total_bytes)}  (${reason})`
+    )
+  }
+  console.log('')
+
+  console.log(`${dim}Dry run: nothing was deleted. The daily cleanup also removes files no remaining deploy uses.${reset}`)
+}
+
+export async function retentionLogAction(instance: string): Promise<void> {
+  try {
+    const result = await runD1Query(instance, [
+      '--command',
+      `SELECT created_at, projects_deleted, deploys_deleted, objects_deleted FROM retention_runs ORDER BY created_at DESC LIMIT 20`,
+    ])
+    console.log(result)
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`)
+    process.exit(1)
+  }
+}
@@ -0,0 +1,2 @@
+-- Teams: projects can belong to a team (see teams in schema.d1.sql)
+ALTER TABLE projects ADD COLUMN team_id TEXT REFERENCES teams(id) ON DELETE CASCADE;
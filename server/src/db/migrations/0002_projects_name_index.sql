@@ -0,0 +1,3 @@
+-- Project names are unique per owner for personal projects and per team for
+-- team projects; schema.d1.sql creates the replacement partial indexes
+DROP INDEX IF EXISTS idx_projects_name_owner;
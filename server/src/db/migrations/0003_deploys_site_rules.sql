@@ -0,0 +1,3 @@
+-- Deploys store their parsed _redirects and _headers rules (see deploys in schema.d1.sql)
+ALTER TABLE deploys ADD COLUMN redirect_rules TEXT;
+ALTER TABLE deploys ADD COLUMN header_rules TEXT;
@@ -78,18 +78,50 @@ CREATE TABLE IF NOT EXISTS device_code (
 CREATE INDEX IF NOT EXISTS idx_device_code_device ON device_code(device_code);
 CREATE INDEX IF NOT EXISTS idx_device_code_user ON device_code(user_code);
 
+-- Teams (projects shared by several users, served at /{slug}/{project}/)
+CREATE TABLE IF NOT EXISTS teams (
+    id TEXT PRIMARY KEY,
+    slug TEXT UNIQUE NOT NULL,
+    name TEXT NOT NULL,
+    created_at TEXT DEFAULT (datetime('now'))
+);
+
+-- Team members
+CREATE TABLE IF NOT EXISTS team_members (
+    team_id TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL REFERENCES user(id) ON DELETE CASCADE,
+    role TEXT NOT NULL,                      -- owner, publisher or viewer
+    created_at TEXT DEFAULT (datetime('now')),
+    PRIMARY KEY (team_id, user_id)
+);
+CREATE INDEX IF NOT EXISTS idx_team_members_user ON team_members(user_id);
+
 -- Projects
+-- Personal projects have no team_id; team projects keep their creator in owner_id
 CREATE TABLE IF NOT EXISTS projects (
     id TEXT PRIMARY KEY,
     name TEXT NOT NULL,
     owner_id TEXT NOT NULL REFERENCES user(id) ON DELETE CASCADE,
+    team_id TEXT REFERENCES teams(id) ON DELETE CASCADE,
     live_deploy_id TEXT,
     visibility TEXT NOT NULL DEFAULT 'public',
     created_at TEXT DEFAULT (datetime('now')),
     updated_at TEXT DEFAULT (datetime('now'))
 );
-CREATE UNIQUE INDEX IF NOT EXISTS idx_projects_name_owner ON projects(name, owner_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_projects_name_personal ON projects(name, owner_id) WHERE team_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_projects_name_team ON projects(name, team_id) WHERE team_id IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_projects_owner ON projects(owner_id);
+CREATE INDEX IF NOT EXISTS idx_projects_team ON projects(team_id);
+
+-- Project members (collaborators on a personal project, without a team)
+CREATE TABLE IF NOT EXISTS project_members (
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL REFERENCES user(id) ON DELETE CASCADE,
+    role TEXT NOT NULL,                      -- publisher, sharer or viewer
+    created_at TEXT DEFAULT (datetime('now')),
+    PRIMARY KEY (project_id, user_id)
+);
+CREATE INDEX IF NOT EXISTS idx_project_members_user ON project_members(user_id);
 
 -- Deploys
 CREATE TABLE IF NOT EXISTS deploys (
@@ -98,11 +130,23 @@ CREATE TABLE IF NOT EXISTS deploys (
     version INTEGER NOT NULL,
     file_count INTEGER NOT NULL,
     total_bytes INTEGER NOT NULL,
+    -- Parsed _redirects and _headers rules (JSON), if the deploy has them
+    redirect_rules TEXT,
+    header_rules TEXT,
     created_at TEXT DEFAULT (datetime('now')),
     UNIQUE(project_id, version)
 );
 CREATE INDEX IF NOT EXISTS idx_deploys_project ON deploys(project_id);
 
+-- Deploy files (path -> content hash manifest; older deploys have no rows)
+CREATE TABLE IF NOT EXISTS deploy_files (
+    deploy_id TEXT NOT NULL REFERENCES deploys(id) ON DELETE CASCADE,
+    path TEXT NOT NULL,
+    hash TEXT NOT NULL,                      -- SHA-256 of contents (R2 key blobs/{project_id}/{hash})
+    PRIMARY KEY (deploy_id, path)
+);
+CREATE INDEX IF NOT EXISTS idx_deploy_files_hash ON deploy_files(hash);
+
 -- Share tokens
 CREATE TABLE IF NOT EXISTS share_tokens (
     id TEXT PRIMARY KEY,
@@ -118,6 +162,30 @@ CREATE TABLE IF NOT EXISTS share_tokens (
 CREATE INDEX IF NOT EXISTS idx_share_tokens_project ON share_tokens(project_id);
 CREATE INDEX IF NOT EXISTS idx_share_tokens_token ON share_tokens(token);
 
+-- Custom domains (a verified hostname serves its project at the root)
+CREATE TABLE IF NOT EXISTS project_domains (
+    id TEXT PRIMARY KEY,
+    hostname TEXT NOT NULL,                  -- lowercase, no port
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    verification_token TEXT NOT NULL,        -- expected in the _scratchwork.{hostname} TXT record
+    verified_at TEXT DEFAULT NULL,
+    created_at TEXT DEFAULT (datetime('now')),
+    UNIQUE (project_id, hostname)
+);
+CREATE INDEX IF NOT EXISTS idx_project_domains_project ON project_domains(project_id);
+-- Several projects may claim a hostname, but only one can verify it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_project_domains_verified ON project_domains(hostname) WHERE verified_at IS NOT NULL;
+
+-- Retention runs (one row per scheduled cleanup, see lib/retention.ts)
+CREATE TABLE IF NOT EXISTS retention_runs (
+    id TEXT PRIMARY KEY,
+    projects_deleted INTEGER NOT NULL,
+    deploys_deleted INTEGER NOT NULL,
+    objects_deleted INTEGER NOT NULL,        -- R2 objects
+    details TEXT NOT NULL,                   -- JSON: the removed projects and deploys
+    created_at TEXT DEFAULT (datetime('now'))
+);
+
 -- API Keys (BetterAuth apiKey plugin)
 -- Used for CLI/CI authentication without interactive login
 -- Note: Uses BetterAuth's default camelCase column names
@@ -21,6 +21,9 @@ export interface Env {
   MAX_VISIBILITY: string
   ALLOW_SHARE_TOKENS: string
   MAX_DEPLOY_SIZE: string
+  DEPLOY_RETENTION_COUNT: string
+  DEPLOY_RETENTION_DAYS: string
+  PROJECT_RETENTION_DAYS: string
 
   // Testing (optional, set via --var flag)
   TEST_MODE?: string
@@ -3,10 +3,14 @@ import type { Env } from './env'
 import { authRoutes } from './routes/app/auth'
 import { apiRoutes } from './routes/app/api/index'
 import { uiRoutes } from './routes/app/ui'
+import { dashboardRoutes } from './routes/app/dashboard'
 import { pagesRoutes } from './routes/pages'
-import { wwwRoutes } from './routes/www'
-import { getContentDomain, isWwwOrRootDomain } from './lib/domains'
+import { customDomainRoutes, wwwRoutes } from './routes/www'
+import { getAppDomain, getContentDomain, isWwwOrRootDomain } from './lib/domains'
+import { findDomainProjectId } from './lib/custom-domains'
+import { createDbClient } from './db/client'
 import { validateEnvForAuthMode } from './lib/validate-env'
+import { runRetention } from './lib/retention'
 
 // App router - handles app subdomain (API, auth, UI)
 const appRouter = new Hono<{ Bindings: Env }>({ strict: false })
@@ -17,6 +21,9 @@ appRouter.route('/api', apiRoutes)
 // Auth routes (BetterAuth + other auth endpoints)
 appRouter.route('/auth', authRoutes)
 
+// Dashboard (projects, deploys and share links)
+appRouter.route('/dashboard', dashboardRoutes)
+
 // UI routes (HTML pages + device flow UI)
 appRouter.route('/', uiRoutes)
 
@@ -47,8 +54,27 @@ app.all('*', async (c) => {
     return wwwRoutes.fetch(c.req.raw, c.env, c.executionCtx)
   }
 
+  // Route verified custom domains to their project
+  if (host && host !== getAppDomain(c.env).toLowerCase()) {
+    const projectId = await findDomainProjectId(createDbClient(c.env.DB), host)
+    if (projectId) {
+      return customDomainRoutes.fetch(c.req.raw, c.env, c.executionCtx)
+    }
+  }
+
   // Default to app routes (API, auth, UI) for app subdomain
   return appRouter.fetch(c.req.raw, c.env, c.executionCtx)
 })
 
-export default app
+// Scheduled handler - runs the cron triggers in wrangler.toml
+async function scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+  ctx.waitUntil(
+    runRetention(env).then(({ projects, deploys, objectsDeleted }) => {
+      console.log(
+        `Retention: deleted ${projects.length} projects, ${deploys.length} deploys, ${objectsDeleted} files`
+      )
+    })
+  )
+}
+
+export default { fetch: app.fetch, scheduled } satisfies ExportedHandler<Env>
@@ -2,10 +2,12 @@ import type { Env } from '../env'
 import { createAuth, getSession } from '../auth'
 import { buildProjectUrls } from '@scratchwork/shared/project'
 import { parseGroup, validateGroupInput } from '@scratchwork/shared'
+import type { Deploy, Project, ProjectMemberRole, ProjectRole, TeamRole } from '@scratchwork/shared/api'
 import { getOrCreateCloudflareAccessUser } from './cloudflare-access'
 import { getContentDomain } from './domains'
 import { visibilityExceedsMax } from './visibility'
 import { createDbClient, type DbClient } from '../db/client'
+import type { ProjectOwner } from './cache'
 
 // =============================================================================
 // Types
@@ -21,6 +23,8 @@ export interface ProjectRow {
   name: string
   owner_id: string
   owner_email: string  // Must be joined from user table
+  team_id: string | null
+  team_slug: string | null  // Must be joined from teams table
   live_deploy_id: string | null
   visibility: string
   created_at: string
@@ -137,6 +141,7 @@ export async function getAuthenticatedUser(
  * Returns a query that includes:
  * - All project fields (p.*)
  * - Owner email (from user table JOIN)
+ * - Team slug (from teams table LEFT JOIN via team_id)
  * - Live version (from deploys table LEFT JOIN via live_deploy_id)
  * - Deploy count and last deploy timestamp (aggregated from all deploys)
  *
@@ -149,38 +154,145 @@ export function buildProjectDetailsQuery(whereClause: string, orderByClause?: st
   return `SELECT
       p.*,
       u.email as owner_email,
+      t.slug as team_slug,
       d.version as live_version,
       CAST(COUNT(all_d.id) AS INTEGER) as deploy_count,
       MAX(all_d.created_at) as last_deploy_at
     FROM projects p
     JOIN "user" u ON p.owner_id = u.id
+    LEFT JOIN teams t ON p.team_id = t.id
     LEFT JOIN deploys d ON p.live_deploy_id = d.id
     LEFT JOIN deploys all_d ON all_d.project_id = p.id
     WHERE ${whereClause}
-    GROUP BY p.id, u.email, d.version${orderBy}`
+    GROUP BY p.id, u.email, t.slug, d.version${orderBy}`
 }
 
 // =============================================================================
-// Project ownership helper
+// Project access helpers
 // =============================================================================
 
 /**
- * Get a project owned by a specific user.
- * Returns the project ID if found and owned by the user, null otherwise.
+ * A project the user can reach, with their role in it.
+ * The owner of a personal project has the owner role; its members have the
+ * role they were given (see project-members.ts). Team members have their team role.
+ */
+export interface ProjectAccess {
+  id: string
+  name: string
+  owner_id: string
+  owner_email: string
+  team_id: string | null
+  team_slug: string | null
+  role: ProjectRole
+}
+
+/**
+ * Whose project a by-name route refers to, from the ?team= and ?owner= query params.
+ * Without either, it's the user's own personal project.
+ */
+export interface ProjectScope {
+  team?: string
+  // Owner's email or user ID, for another user's project the user is a member of
+  owner?: string
+}
+
+export function getProjectScope(c: { req: { query(name: string): string | undefined } }): ProjectScope {
+  return { team: c.req.query('team'), owner: c.req.query('owner') }
+}
+
+/**
+ * Get a project by name, as seen by a specific user.
+ * Without a scope this is the user's personal project; with a team, the team's
+ * project (if the user is a member); with an owner, that user's personal
+ * project (if the user is the owner or a member of it).
+ * Returns null if no such project is reachable by the user.
  */
 export async function getProjectForUser(
   db: DbClient,
   projectName: string,
+  userId: string,
+  scope: ProjectScope = {}
+): Promise<ProjectAccess | null> {
+  if (scope.team) {
+    const [project] = (await db`
+      SELECT p.id, p.name, p.owner_id, u.email as owner_email, p.team_id, t.slug as team_slug, m.role
+      FROM projects p
+      JOIN "user" u ON p.owner_id = u.id
+      JOIN teams t ON p.team_id = t.id
+      JOIN team_members m ON m.team_id = t.id AND m.user_id = ${userId}
+      WHERE p.name = ${projectName} AND t.slug = ${scope.team}
+    `) as ProjectAccess[]
+    return project ?? null
+  }
+
+  const owner = scope.owner ?? userId
+  const [project] = (await db`
+    SELECT p.id, p.name, p.owner_id, u.email as owner_email, p.team_id, NULL as team_slug,
+      CASE WHEN p.owner_id = ${userId} THEN 'owner' ELSE pm.role END as role
+    FROM projects p
+    JOIN "user" u ON p.owner_id = u.id
+    LEFT JOIN project_members pm ON pm.project_id = p.id AND pm.user_id = ${userId}
+    WHERE p.name = ${projectName} AND p.team_id IS NULL
+      AND (u.id = ${owner} OR lower(u.email) = ${owner.toLowerCase()})
+      AND (p.owner_id = ${userId} OR pm.role IS NOT NULL)
+  `) as ProjectAccess[]
+
+  return project ?? null
+}
+
+/**
+ * Get a project by ID, as seen by a specific user.
+ * Returns null if the project doesn't exist or isn't reachable by the user.
+ */
+export async function getProjectByIdForUser(
+  db: DbClient,
+  projectId: string,
   userId: string
-): Promise<{ id: string } | null> {
+): Promise<ProjectAccess | null> {
   const [project] = (await db`
-    SELECT id FROM projects
-    WHERE name = ${projectName} AND owner_id = ${userId}
-  `) as { id: string }[]
+    SELECT p.id, p.name, p.owner_id, u.email as owner_email, p.team_id, t.slug as team_slug,
+      CASE
+        WHEN p.team_id IS NOT NULL THEN tm.role
+        WHEN p.owner_id = ${userId} THEN 'owner'
+        ELSE pm.role
+      END as role
+    FROM projects p
+    JOIN "user" u ON p.owner_id = u.id
+    LEFT JOIN teams t ON p.team_id = t.id
+    LEFT JOIN team_members tm ON tm.team_id = p.team_id AND tm.user_id = ${userId}
+    LEFT JOIN project_members pm ON pm.project_id = p.id AND pm.user_id = ${userId}
+    WHERE p.id = ${projectId}
+      AND (
+        (p.team_id IS NULL AND (p.owner_id = ${userId} OR pm.role IS NOT NULL))
+        OR tm.role IS NOT NULL
+      )
+  `) as ProjectAccess[]
 
   return project ?? null
 }
 
+/**
+ * The identity a project's URLs and cache entries are built from: its owner
+ * (or team), who isn't necessarily the user making the request
+ */
+export function projectOwner(project: ProjectAccess): ProjectOwner {
+  return {
+    userId: project.owner_id,
+    user: { email: project.owner_email },
+    team: project.team_id ? { id: project.team_id, slug: project.team_slug! } : null,
+  }
+}
+
+/**
+ * Error body for a request the user's role doesn't allow (send with status 403)
+ */
+export function roleRequiredError(required: ProjectRole): { error: string; code: string } {
+  return {
+    error: `This action requires the ${required} role in the project`,
+    code: 'TEAM_ROLE_REQUIRED',
+  }
+}
+
 // =============================================================================
 // Visibility validation helper
 // =============================================================================
@@ -239,20 +351,25 @@ export function parseAndValidateVisibility(
 export function formatProject(
   row: ProjectRow,
   env: Env,
-  extra?: { live_version?: number | null; deploy_count?: number; last_deploy_at?: string | null }
+  extra?: { role?: ProjectRole; live_version?: number | null; deploy_count?: number; last_deploy_at?: string | null }
 ) {
+  const team = row.team_id && row.team_slug ? { id: row.team_id, slug: row.team_slug } : null
   const urls = buildProjectUrls({
     pagesDomain: getContentDomain(env),
     projectName: row.name,
     ownerId: row.owner_id,
     ownerEmail: row.owner_email,
     allowedUsers: env.ALLOWED_USERS || '',
+    team,
   })
 
   return {
     id: row.id,
     name: row.name,
     owner_id: row.owner_id,
+    owner_email: row.owner_email,
+    team,
+    role: extra?.role ?? 'owner',
     live_version: extra?.live_version ?? null,
     deploy_count: extra?.deploy_count ?? 0,
     visibility: row.visibility,
@@ -262,3 +379,93 @@ export function formatProject(
     last_deploy_at: extra?.last_deploy_at ?? null,
   }
 }
+
+export function formatDeploy(row: DeployRow, isLive: boolean): Deploy {
+  return {
+    id: row.id,
+    version: row.version,
+    is_live: isLive,
+    file_count: row.file_count,
+    total_bytes: parseInt(row.total_bytes, 10),
+    created_at: row.created_at,
+  }
+}
+
+// =============================================================================
+// Listing helpers (shared by the API and the dashboard)
+// =============================================================================
+
+type ProjectDetailsRow = ProjectRow & { live_version: number | null; deploy_count: number; last_deploy_at: string | null }
+
+/**
+ * List the user's projects: personal, from their teams, and ones they're a member of.
+ * Most recently updated first.
+ */
+export async function listProjectsForUser(env: Env, userId: string): Promise<Project[]> {
+  // Get projects with live version derived from live_deploy_id
+  // Uses GROUP BY to avoid N+1 subqueries for deploy_count and last_deploy_at
+  const query = buildProjectDetailsQuery(
+    '(p.team_id IS NULL AND p.owner_id = ?) OR p.team_id IN (SELECT team_id FROM team_members WHERE user_id = ?)' +
+      ' OR p.id IN (SELECT project_id FROM project_members WHERE user_id = ?)',
+    'p.updated_at DESC'
+  )
+  const result = await env.DB.prepare(query).bind(userId, userId, userId).all()
+  const projects = result.results as unknown as ProjectDetailsRow[]
+
+  // The user's role in each of their teams, and in projects they're a member of
+  const db = createDbClient(env.DB)
+  const teamMemberships = (await db`
+    SELECT team_id, role FROM team_members WHERE user_id = ${userId}
+  `) as { team_id: string; role: TeamRole }[]
+  const projectMemberships = (await db`
+    SELECT project_id, role FROM project_members WHERE user_id = ${userId}
+  `) as { project_id: string; role: ProjectMemberRole }[]
+  const teamRoles = new Map(teamMemberships.map((m) => [m.team_id, m.role]))
+  const projectRoles = new Map(projectMemberships.map((m) => [m.project_id, m.role]))
+  const roleOf = (p: ProjectRow): ProjectRole | undefined =>
+    p.team_id ? teamRoles.get(p.team_id) : p.owner_id === userId ? 'owner' : projectRoles.get(p.id)
+
+  return projects.map((p) =>
+    formatProject(p, env, {
+      role: roleOf(p),
+      live_version: p.live_version,
+      deploy_count: p.deploy_count,
+      last_deploy_at: p.last_deploy_at,
+    })
+  )
+}
+
+/**
+ * A project the user can reach, with its live version and deploy stats.
+ */
+export async function getProjectDetails(env: Env, access: ProjectAccess): Promise<Project> {
+  // Uses GROUP BY to avoid N+1 subqueries for deploy_count and last_deploy_at
+  const query = buildProjectDetailsQuery('p.id = ?')
+  const result = await env.DB.prepare(query).bind(access.id).all()
+  const [project] = result.results as unknown as ProjectDetailsRow[]
+
+  return formatProject(project, env, {
+    role: access.role,
+    live_version: project.live_version,
+    deploy_count: project.deploy_count,
+    last_deploy_at: project.last_deploy_at,
+  })
+}
+
+/**
+ * List a project's deploys, newest first.
+ */
+export async function listProjectDeploys(db: DbClient, projectId: string): Promise<Deploy[]> {
+  const [project] = (await db`
+    SELECT id, live_deploy_id FROM projects WHERE id = ${projectId}
+  `) as { id: string; live_deploy_id: string | null }[]
+
+  const deploys = (await db`
+    SELECT id, project_id, version, file_count, total_bytes, created_at
+    FROM deploys
+    WHERE project_id = ${projectId}
+    ORDER BY version DESC
+  `) as DeployRow[]
+
+  return deploys.map((d) => formatDeploy(d, d.id === project?.live_deploy_id))
+}
@@ -2,7 +2,9 @@
 
 import type { Env } from '../env'
 import type { AuthResult } from './api-helpers'
-import { getContentBaseUrl } from './domains'
+import { getContentBaseUrl, isLocalhost } from './domains'
+import { createDbClient } from '../db/client'
+import { listDeployFiles } from './deploy-files'
 import { getEmailLocalPart, isSingleDomainAllowedUsers } from '@scratchwork/shared/project'
 
 /**
@@ -16,6 +18,8 @@ export interface CacheUrlOptions {
   projectName: string
   /** The domain from ALLOWED_USERS if single-domain mode, null otherwise */
   singleDomain: string | null
+  /** The project's team; team projects are only served under the team */
+  team?: { id: string; slug: string } | null
 }
 
 /**
@@ -25,12 +29,18 @@ export interface CacheUrlOptions {
  * - By user ID: /userId/projectName/
  * - By email: /email@domain.com/projectName/
  * - By local part (single-domain deployments): /localpart/projectName/
+ * - Team projects by team ID and slug: /teamId/projectName/, /slug/projectName/
  *
  * This function returns all base URLs that need cache invalidation.
  * Exported for testing - use invalidateProjectCache for production code.
  */
 export function buildCacheBaseUrlsFromOptions(options: CacheUrlOptions): string[] {
-  const { contentBaseUrl, userId, email, projectName, singleDomain } = options
+  const { contentBaseUrl, userId, email, projectName, singleDomain, team } = options
+
+  if (team) {
+    return [`${contentBaseUrl}/${team.id}/${projectName}`, `${contentBaseUrl}/${team.slug}/${projectName}`]
+  }
+
   const normalizedEmail = email.toLowerCase()
 
   const baseUrls = [
@@ -48,12 +58,21 @@ export function buildCacheBaseUrlsFromOptions(options: CacheUrlOptions): string[
   return baseUrls
 }
 
+/**
+ * The project owner's identity, as needed for cache URLs.
+ * An AuthResult for the owner satisfies this; team projects add their team.
+ */
+export type ProjectOwner = Pick<AuthResult, 'userId'> & {
+  user: Pick<AuthResult['user'], 'email'>
+  team?: { id: string; slug: string } | null
+}
+
 /**
  * Build the list of cache URLs to invalidate for a project.
  * Convenience wrapper that extracts options from AuthResult and Env.
  */
 export function buildCacheBaseUrls(
-  auth: AuthResult,
+  auth: ProjectOwner,
   projectName: string,
   env: Env
 ): string[] {
@@ -63,27 +82,132 @@ export function buildCacheBaseUrls(
     email: auth.user.email,
     projectName,
     singleDomain: isSingleDomainAllowedUsers(env.ALLOWED_USERS || ''),
+    team: auth.team,
   })
 }
 
+/**
+ * Base URLs of the project's verified custom domains, which serve it at the root.
+ */
+async function buildCustomDomainBaseUrls(auth: ProjectOwner, projectName: string, env: Env): Promise<string[]> {
+  const db = createDbClient(env.DB)
+  const rows = (await (auth.team
+    ? db`
+        SELECT d.hostname
+        FROM project_domains d
+        JOIN projects p ON d.project_id = p.id
+        WHERE p.name = ${projectName}
+          AND p.team_id = ${auth.team.id}
+          AND d.verified_at IS NOT NULL
+      `
+    : db`
+        SELECT d.hostname
+        FROM project_domains d
+        JOIN projects p ON d.project_id = p.id
+        WHERE p.name = ${projectName}
+          AND p.owner_id = ${auth.userId}
+          AND p.team_id IS NULL
+          AND d.verified_at IS NOT NULL
+      `)) as { hostname: string }[]
+  const protocol = isLocalhost(env) ? 'http' : 'https'
+  return rows.map((row) => `${protocol}://${row.hostname}`)
+}
+
+/**
+ * Build the request paths a deploy's files can be cached under.
+ *
+ * Mirrors findFile's lookup order, so "docs/index.html" is cached as /docs/,
+ * /docs and /docs/index.html, and "about.html" as /about and /about.html.
+ * Exported for testing.
+ */
+export function buildCachePathsForFiles(files: string[]): string[] {
+  const paths = new Set<string>()
+  for (const file of files) {
+    paths.add(`/${file}`)
+    if (file === 'index.html') {
+      paths.add('/')
+    } else if (file.endsWith('/index.html')) {
+      const dir = file.slice(0, -'/index.html'.length)
+      paths.add(`/${dir}/`)
+      paths.add(`/${dir}`)
+    } else if (file.endsWith('.html')) {
+      paths.add(`/${file.slice(0, -'.html'.length)}`)
+    }
+  }
+  return [...paths]
+}
+
+// Cache API deletes are subrequests, which Workers limit per invocation
+export const MAX_PURGE_URLS = 500
+
+/**
+ * Build the URLs to purge: each path under each base URL, path by path, so a
+ * capped list still covers the first paths on every host. Exported for testing.
+ */
+export function buildPurgeUrls(baseUrls: string[], paths: string[], limit = MAX_PURGE_URLS): string[] {
+  return paths.flatMap((path) => baseUrls.map((baseUrl) => `${baseUrl}${path}`)).slice(0, limit)
+}
+
+// Delete each path under each base URL, in batches
+async function purgePaths(baseUrls: string[], paths: string[]): Promise<void> {
+  const cache = caches.default
+  const urls = buildPurgeUrls(baseUrls, paths)
+  if (urls.length < baseUrls.length * paths.length) {
+    console.warn(`Cache purge capped at ${urls.length} URLs; the rest expire with their cache TTL`)
+  }
+
+  const BATCH_SIZE = 50
+  for (let i = 0; i < urls.length; i += BATCH_SIZE) {
+    const batch = urls.slice(i, i + BATCH_SIZE)
+    await Promise.all(batch.map((url) => cache.delete(new Request(url))))
+  }
+}
+
 /**
  * Invalidate cache for a project.
  *
  * Purges common paths (/ and /index.html) for all URL formats that can access
- * the project. This is called after deploys and project deletions.
+ * the project, including its custom domains. This is called after deploys and
+ * project deletions.
  */
 export async function invalidateProjectCache(
-  auth: AuthResult,
+  auth: ProjectOwner,
   projectName: string,
   env: Env
 ): Promise<void> {
-  const cache = caches.default
-  const baseUrls = buildCacheBaseUrls(auth, projectName, env)
-
-  // Purge common paths for all URL formats
-  const purgePromises = baseUrls.flatMap((baseUrl) => [
-    cache.delete(new Request(`${baseUrl}/`)),
-    cache.delete(new Request(`${baseUrl}/index.html`)),
-  ])
-  await Promise.all(purgePromises)
+  const baseUrls = [
+    ...buildCacheBaseUrls(auth, projectName, env),
+    ...(await buildCustomDomainBaseUrls(auth, projectName, env)),
+  ]
+  await purgePaths(baseUrls, ['/', '/index.html'])
+}
+
+/**
+ * Invalidate the cached pages of the given deploys.
+ *
+ * Used when the live deploy switches to an existing deploy (promote or
+ * rollback): any page of the old or new deploy may be cached under any of the
+ * project's URL formats. Only HTML is purged, top-level pages first; hashed
+ * assets never change and other files expire with their cache TTL. Failures
+ * are logged, since the switch has already happened.
+ */
+export async function invalidateDeployCache(
+  auth: ProjectOwner,
+  projectName: string,
+  env: Env,
+  deployIds: string[]
+): Promise<void> {
+  try {
+    const files = (await Promise.all(deployIds.map((id) => listDeployFiles(env, id)))).flat()
+    const pages = files
+      .filter((file) => file.endsWith('.html'))
+      .sort((a, b) => a.split('/').length - b.split('/').length)
+    const baseUrls = [
+      ...buildCacheBaseUrls(auth, projectName, env),
+      ...(await buildCustomDomainBaseUrls(auth, projectName, env)),
+    ]
+    await purgePaths(baseUrls, buildCachePathsForFiles(['index.html', ...pages]))
+  } catch (err) {
+    console.error('Cache invalidation failed:', err)
+  }
 }
@@ -4,13 +4,17 @@
 import type { Context } from 'hono'
 import { getCookie, setCookie } from 'hono/cookie'
 import type { Env } from '../env'
-import { createDbClient } from '../db/client'
+import { createDbClient, type DbClient } from '../db/client'
+import { lookupDeployFiles } from './deploy-files'
 import { getContentType, getCacheControl, getSecurityHeaders, normalizePath, isValidFilePath } from './files'
 import { isPublicProject, canAccessProject } from './visibility'
 import { getOrCreateCloudflareAccessUser } from './cloudflare-access'
 import { isShareTokensEnabled, validateShareToken } from './share-tokens'
 import { verifyContentToken } from './content-token'
 import { getAppBaseUrl, useHttps } from './domains'
+import { isProjectMember } from './project-members'
+import { matchHeaders, matchRedirect } from '@scratchwork/shared/site-rules'
+import { type DeployRulesRow, deserializeDeployRules, isSiteRulesFile } from './site-rules'
 
 // Set a token cookie with consistent security options
 function setTokenCookie(
@@ -35,16 +39,20 @@ export interface Project {
   name: string
   owner_id: string
   owner_email: string
+  team_id: string | null
   visibility: string
   live_deploy_id: string | null
 }
 
-// Try multiple paths in R2 to find a file (clean URLs, index.html)
+// Try multiple paths to find a file (clean URLs, index.html)
+// Deploys with a manifest resolve paths through deploy_files to their
+// content-addressed blobs; older deploys are looked up in R2 directly
 // Uses parallel fetches for better performance
 export async function findFile(
   r2: R2Bucket,
   deployId: string,
-  path: string
+  path: string,
+  db?: DbClient
 ): Promise<{ object: R2ObjectBody; key: string } | null> {
   // Normalize path - remove leading/trailing slashes
   const normalizedPath = path.replace(/^\/+|\/+$/g, '')
@@ -52,16 +60,24 @@ export async function findFile(
   // Paths to try in priority order
   const pathsToTry: string[] =
     normalizedPath === ''
-      ? [`${deployId}/index.html`]
-      : [
-          `${deployId}/${normalizedPath}/index.html`,
-          `${deployId}/${normalizedPath}.html`,
-          `${deployId}/${normalizedPath}`,
-        ]
+      ? ['index.html']
+      : [`${normalizedPath}/index.html`, `${normalizedPath}.html`, normalizedPath]
+
+  const manifest = db ? await lookupDeployFiles(db, deployId, pathsToTry) : null
+  if (manifest) {
+    const match = pathsToTry.find((p) => manifest.has(p))
+    if (!match) {
+      return null
+    }
+    const object = await r2.get(manifest.get(match)!)
+    // Key is the logical path, used for content type and cache headers
+    return object ? { object, key: `${deployId}/${match}` } : null
+  }
 
   // Fetch all paths in parallel
   const results = await Promise.all(
-    pathsToTry.map(async (key) => {
+    pathsToTry.map(async (p) => {
+      const key = `${deployId}/${p}`
       const object = await r2.get(key)
       return object ? { object, key } : null
     })
@@ -72,7 +88,7 @@ export async function findFile(
 }
 
 // Serve a file from R2 with appropriate headers
-export function serveFile(object: R2ObjectBody, key: string, extraHeaders?: Headers): Response {
+export function serveFile(object: R2ObjectBody, key: string, extraHeaders?: Headers, status = 200): Response {
   const contentType = getContentType(key)
   const cacheControl = getCacheControl(key)
   const securityHeaders = getSecurityHeaders()
@@ -95,7 +111,7 @@ export function serveFile(object: R2ObjectBody, key: string, extraHeaders?: Head
     })
   }
 
-  return new Response(object.body, { headers })
+  return new Response(object.body, { status, headers })
 }
 
 // Build redirect URL to app subdomain for content access token
@@ -240,7 +256,11 @@ export async function authenticateContentRequest(
   // Step 2: Check if authenticated user has access
   let hasAccess = false
   if (verifiedUser) {
-    hasAccess = canAccessProject(verifiedUser.email, verifiedUser.id, project, c.env)
+    // The owner of a personal project needs no membership lookup
+    const isMember =
+      (project.team_id !== null || verifiedUser.id !== project.owner_id) &&
+      (await isProjectMember(createDbClient(c.env.DB), project, verifiedUser.id))
+    hasAccess = canAccessProject(verifiedUser.email, verifiedUser.id, project, c.env, isMember)
   }
 
   // Step 3: If no user access, try share token (anonymous access)
@@ -263,8 +283,13 @@ export async function authenticateContentRequest(
 export interface ServeContentOptions {
   // Cookie path for auth tokens (e.g., "/{owner}/{project}/")
   cookiePath: string
+  // URL path the site is served under (e.g., "/{owner}/{project}/~v3/"), which
+  // site-relative _redirects destinations are resolved against
+  basePath: string
   // Whether to cache the response (only for public projects)
   enableCaching?: boolean
+  // Serve this deploy version instead of the live deploy (~v{version} URLs)
+  version?: number
 }
 
 // Serve content for a project, handling auth and file lookup
@@ -314,19 +339,59 @@ export async function serveProjectContent(
     }
   }
 
+  // Versioned URLs serve that deploy whether or not it's live
+  const db = createDbClient(c.env.DB)
+  const [deploy] = (
+    options.version !== undefined
+      ? await db`
+          SELECT id, redirect_rules, header_rules FROM deploys
+          WHERE project_id = ${project.id} AND version = ${options.version}
+        `
+      : await db`SELECT id, redirect_rules, header_rules FROM deploys WHERE id = ${project.live_deploy_id}`
+  ) as ({ id: string } & DeployRulesRow)[]
+
   // Check for live deploy
-  if (!project.live_deploy_id) {
+  if (!deploy) {
     return c.text('Not Found', 404)
   }
 
+  // Missing files get the site's own 404 page (404.html or 404/index.html), if it has one
+  const notFound = async (): Promise<Response> => {
+    const page = await findFile(c.env.FILES, deploy.id, '404', db)
+    return page ? serveFile(page.object, page.key, c.res.headers, 404) : c.text('Not Found', 404)
+  }
+
+  if (isSiteRulesFile(filePath)) {
+    return notFound()
+  }
+
+  // _redirects rules apply before the file lookup; 200 rules serve another file
+  const rules = deserializeDeployRules(deploy)
+  const sitePath = `/${filePath}`
+  const redirect = matchRedirect(rules.redirects, sitePath, url.search)
+  let lookupPath = filePath
+  if (redirect?.status === 200) {
+    const rewritten = validateFilePath(new URL(redirect.to, url.origin).pathname.slice(1))
+    if (rewritten === null) {
+      return notFound()
+    }
+    lookupPath = rewritten
+  } else if (redirect) {
+    const location = redirect.to.startsWith('/') ? options.basePath + redirect.to.slice(1) : redirect.to
+    return c.redirect(location, redirect.status)
+  }
+
   // Find and serve file from R2
-  const result = await findFile(c.env.FILES, project.live_deploy_id, filePath)
+  const result = await findFile(c.env.FILES, deploy.id, lookupPath, db)
 
   if (!result) {
-    return c.text('Not Found', 404)
+    return notFound()
   }
 
   const response = serveFile(result.object, result.key, c.res.headers)
+  for (const [name, value] of Object.entries(matchHeaders(rules.headers, sitePath))) {
+    response.headers.set(name, value)
+  }
 
   // Cache public project 200 responses (no share tokens in URL)
   if (isPublic && options.enableCaching && response.status === 200 && !hasShareToken) {
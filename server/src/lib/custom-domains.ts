@@ -0,0 +1,126 @@
+// Custom domains - serve a project at the root of its own hostname
+//
+// A project owner adds a hostname, publishes a TXT record at
+// _scratchwork.{hostname} with the verification value, then verifies it.
+// Once verified, requests for that host are served from the project (see
+// routes/www.ts). Routing the hostname's traffic to the Worker is up to the
+// server operator (a Worker route or Cloudflare for SaaS custom hostname).
+
+import type { Env } from '../env'
+import type { DbClient } from '../db/client'
+import type { ProjectDomain } from '@scratchwork/shared/api'
+import { domainVerificationRecordName } from '@scratchwork/shared/project'
+import { getContentDomain, isLocalhost } from './domains'
+
+// DNS-over-HTTPS endpoint used to read verification records
+const DNS_QUERY_URL = 'https://cloudflare-dns.com/dns-query'
+
+const VERIFICATION_PREFIX = 'scratchwork-verification='
+
+// Database row type for project domains
+export interface ProjectDomainRow {
+  hostname: string
+  project_id: string
+  verification_token: string
+  verified_at: string | null
+  created_at: string
+}
+
+/**
+ * Generate a random verification token (hex)
+ */
+export function generateVerificationToken(): string {
+  const bytes = new Uint8Array(16)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Format a domain row for API responses
+ */
+export function formatProjectDomain(row: ProjectDomainRow, env: Env): ProjectDomain {
+  const protocol = isLocalhost(env) ? 'http' : 'https'
+  return {
+    hostname: row.hostname,
+    project_id: row.project_id,
+    is_verified: row.verified_at !== null,
+    verified_at: row.verified_at,
+    verification:
+      row.verified_at === null
+        ? {
+            type: 'TXT',
+            name: domainVerificationRecordName(row.hostname),
+            value: `${VERIFICATION_PREFIX}${row.verification_token}`,
+          }
+        : null,
+    url: `${protocol}://${row.hostname}/`,
+    created_at: row.created_at,
+  }
+}
+
+/**
+ * Check if a hostname belongs to the server itself (root, www, app or content domain)
+ */
+export function isReservedHostname(hostname: string, env: Env): boolean {
+  const baseDomain = env.BASE_DOMAIN.toLowerCase().replace(/:\d+$/, '')
+  return (
+    hostname === baseDomain ||
+    hostname === `www.${baseDomain}` ||
+    hostname === `${env.APP_SUBDOMAIN}.${baseDomain}`.toLowerCase() ||
+    hostname === getContentDomain(env).toLowerCase().replace(/:\d+$/, '')
+  )
+}
+
+/**
+ * Read the TXT records for a DNS name. Returns [] if there are none or the
+ * lookup fails.
+ */
+export async function lookupTxtRecords(name: string): Promise<string[]> {
+  const url = `${DNS_QUERY_URL}?name=${encodeURIComponent(name)}&type=TXT`
+  try {
+    const response = await fetch(url, { headers: { accept: 'application/dns-json' } })
+    if (!response.ok) return []
+    const body = (await response.json()) as { Answer?: { type: number; data: string }[] }
+    // Type 16 is TXT; long values arrive as several quoted strings
+    return (body.Answer ?? [])
+      .filter((answer) => answer.type === 16)
+      .map((answer) => answer.data.replace(/^"|"$/g, '').replace(/"\s*"/g, ''))
+  } catch (err) {
+    console.error('DNS lookup failed:', err)
+    return []
+  }
+}
+
+/**
+ * Check whether a domain's verification TXT record is published
+ */
+export async function hasVerificationRecord(row: ProjectDomainRow): Promise<boolean> {
+  const records = await lookupTxtRecords(domainVerificationRecordName(row.hostname))
+  return records.includes(`${VERIFICATION_PREFIX}${row.verification_token}`)
+}
+
+/**
+ * Find the project a verified custom domain serves
+ * Host may include a port, which is ignored
+ */
+export async function findDomainProjectId(db: DbClient, host: string): Promise<string | null> {
+  const hostname = host.toLowerCase().replace(/:\d+$/, '')
+  const [row] = (await db`
+    SELECT project_id FROM project_domains
+    WHERE hostname = ${hostname} AND verified_at IS NOT NULL
+  `) as { project_id: string }[]
+  return row?.project_id ?? null
+}
+
+/**
+ * URLs of a project's verified custom domains
+ */
+export async function getVerifiedDomainUrls(db: DbClient, projectId: string, env: Env): Promise<string[]> {
+  const rows = (await db`
+    SELECT hostname, project_id, verification_token, verified_at, created_at
+    FROM project_domains
+    WHERE project_id = ${projectId} AND verified_at IS NOT NULL
+    ORDER BY hostname
+  `) as ProjectDomainRow[]
+  return rows.map((row) => formatProjectDomain(row, env).url)
+}
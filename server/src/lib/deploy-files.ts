@@ -0,0 +1,163 @@
+// Deploy file storage
+//
+// Deploys uploaded with a manifest store each file once per project, keyed by
+// the SHA-256 of its contents: blobs/{projectId}/{hash}. The deploy_files table
+// maps each deploy's paths to those hashes, so unchanged files are shared
+// between versions and only changed files are uploaded.
+//
+// Older deploys (uploaded as a full zip) store files at {deployId}/{path} and
+// have no deploy_files rows.
+
+import type { Env } from '../env'
+import type { DbClient } from '../db/client'
+import { createDbClient } from '../db/client'
+
+export const BLOB_HASH_PATTERN = /^[a-f0-9]{64}$/
+
+// Rows per INSERT when writing a manifest (keeps the JSON parameter small)
+const MANIFEST_INSERT_CHUNK = 1000
+
+// Keys per R2 delete call (the binding accepts up to 1000)
+const DELETE_BATCH_SIZE = 1000
+
+// Unreferenced blobs younger than this may belong to a deploy that is still
+// uploading (blobs are stored before the deploy's manifest rows)
+const BLOB_GC_GRACE_MS = 60 * 60 * 1000
+
+interface StoredObject {
+  key: string
+  size: number
+  uploaded: Date
+}
+
+export function blobKey(projectId: string, hash: string): string {
+  return `blobs/${projectId}/${hash}`
+}
+
+// SHA-256 of data as lowercase hex
+export async function sha256Hex(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+// List every key under an R2 prefix (follows pagination)
+export async function listKeys(r2: R2Bucket, prefix: string): Promise<StoredObject[]> {
+  const objects: StoredObject[] = []
+  let cursor: string | undefined
+  do {
+    const listed = await r2.list({ prefix, cursor })
+    objects.push(...listed.objects.map((obj) => ({ key: obj.key, size: obj.size, uploaded: obj.uploaded })))
+    cursor = listed.truncated ? listed.cursor : undefined
+  } while (cursor)
+  return objects
+}
+
+// Blobs already stored for a project, as hash -> size
+export async function listProjectBlobs(r2: R2Bucket, projectId: string): Promise<Map<string, number>> {
+  const prefix = blobKey(projectId, '')
+  const objects = await listKeys(r2, prefix)
+  return new Map(objects.map((obj) => [obj.key.slice(prefix.length), obj.size]))
+}
+
+// Record a deploy's path -> hash manifest
+export async function insertDeployFiles(
+  db: DbClient,
+  deployId: string,
+  manifest: Record<string, string>
+): Promise<void> {
+  const entries = Object.entries(manifest).map(([path, hash]) => ({ path, hash }))
+  for (let i = 0; i < entries.length; i += MANIFEST_INSERT_CHUNK) {
+    const chunk = JSON.stringify(entries.slice(i, i + MANIFEST_INSERT_CHUNK))
+    await db`
+      INSERT INTO deploy_files (deploy_id, path, hash)
+      SELECT ${deployId}, json_extract(value, '$.path'), json_extract(value, '$.hash')
+      FROM json_each(${chunk})
+    `
+  }
+}
+
+// Resolve paths through a deploy's manifest
+// Returns path -> blob key for the paths that exist, or null if the deploy
+// predates manifests (its files are stored under {deployId}/)
+export async function lookupDeployFiles(
+  db: DbClient,
+  deployId: string,
+  paths: string[]
+): Promise<Map<string, string> | null> {
+  const [first = '', second = first, third = first] = paths
+  const rows = (await db`
+    SELECT f.path, f.hash, d.project_id
+    FROM deploy_files f
+    JOIN deploys d ON d.id = f.deploy_id
+    WHERE f.deploy_id = ${deployId}
+      AND f.path IN (${first}, ${second}, ${third})
+  `) as { path: string; hash: string; project_id: string }[]
+
+  if (rows.length === 0) {
+    const [hasManifest] = await db`SELECT 1 FROM deploy_files WHERE deploy_id = ${deployId} LIMIT 1`
+    if (!hasManifest) {
+      return null
+    }
+  }
+
+  return new Map(rows.map((row) => [row.path, blobKey(row.project_id, row.hash)]))
+}
+
+// Every file path in a deploy, whichever way it was stored
+export async function listDeployFiles(env: Env, deployId: string): Promise<string[]> {
+  const db = createDbClient(env.DB)
+  const rows = (await db`SELECT path FROM deploy_files WHERE deploy_id = ${deployId}`) as { path: string }[]
+  if (rows.length > 0) {
+    return rows.map((row) => row.path)
+  }
+
+  const prefix = `${deployId}/`
+  const objects = await listKeys(env.FILES, prefix)
+  return objects.map((obj) => obj.key.slice(prefix.length))
+}
+
+// Delete keys in batches
+export async function deleteKeys(r2: R2Bucket, keys: string[]): Promise<void> {
+  for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+    await r2.delete(keys.slice(i, i + DELETE_BATCH_SIZE))
+  }
+}
+
+// Delete every object under the given prefixes
+// Returns the number of objects deleted
+export async function deletePrefixes(r2: R2Bucket, prefixes: string[]): Promise<number> {
+  let deleted = 0
+  for (const prefix of prefixes) {
+    const objects = await listKeys(r2, prefix)
+    await deleteKeys(r2, objects.map((obj) => obj.key))
+    deleted += objects.length
+  }
+  return deleted
+}
+
+// Delete all stored files for a project: its blobs and any older per-deploy files
+// Returns the number of objects deleted
+export function deleteProjectFiles(r2: R2Bucket, projectId: string, deployIds: string[]): Promise<number> {
+  return deletePrefixes(r2, [blobKey(projectId, ''), ...deployIds.map((id) => `${id}/`)])
+}
+
+// Delete a project's blobs that no remaining deploy refers to
+// Returns the number of blobs deleted
+export async function deleteUnreferencedBlobs(env: Env, projectId: string): Promise<number> {
+  const db = createDbClient(env.DB)
+  const rows = (await db`
+    SELECT DISTINCT f.hash
+    FROM deploy_files f
+    JOIN deploys d ON d.id = f.deploy_id
+    WHERE d.project_id = ${projectId}
+  `) as { hash: string }[]
+  const referenced = new Set(rows.map((row) => row.hash))
+
+  const prefix = blobKey(projectId, '')
+  const cutoff = Date.now() - BLOB_GC_GRACE_MS
+  const unreferenced = (await listKeys(env.FILES, prefix)).filter(
+    (obj) => !referenced.has(obj.key.slice(prefix.length)) && obj.uploaded.getTime() < cutoff
+  )
+  await deleteKeys(env.FILES, unreferenced.map((obj) => obj.key))
+  return unreferenced.length
+}
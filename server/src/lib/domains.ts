@@ -24,12 +24,18 @@ export function getContentDomain(env: Env): string {
   return `${env.CONTENT_SUBDOMAIN}.${env.BASE_DOMAIN}`
 }
 
+/**
+ * Get the full app domain (e.g., "app.example.com" or "app.localhost:8787")
+ */
+export function getAppDomain(env: Env): string {
+  return `${env.APP_SUBDOMAIN}.${env.BASE_DOMAIN}`
+}
+
 /**
  * Get the base URL for the app (e.g., "https://app.example.com")
  */
 export function getAppBaseUrl(env: Env): string {
-  const domain = `${env.APP_SUBDOMAIN}.${env.BASE_DOMAIN}`
-  return buildBaseUrl(domain, env)
+  return buildBaseUrl(getAppDomain(env), env)
 }
 
 /**
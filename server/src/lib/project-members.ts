@@ -0,0 +1,61 @@
+// Project members - collaborators on a personal project, without a team
+//
+// The project's owner grants other users the viewer, sharer or publisher role
+// (see projectMemberRoles in shared/api/project-members.ts). Members reach the
+// project through ?owner={email or id} on the project routes; its URLs stay
+// under the owner's.
+
+import type { DbClient } from '../db/client'
+import type { ProjectMember, ProjectMemberRole } from '@scratchwork/shared/api'
+import { getTeamRole } from './teams'
+
+// Database row type for a project member, joined with the user table
+export interface ProjectMemberRow {
+  user_id: string
+  email: string
+  name: string | null
+  role: ProjectMemberRole
+  created_at: string
+}
+
+/**
+ * Get the user's role in a personal project, or null if they aren't a member
+ */
+export async function getProjectMemberRole(
+  db: DbClient,
+  projectId: string,
+  userId: string
+): Promise<ProjectMemberRole | null> {
+  const [member] = (await db`
+    SELECT role FROM project_members WHERE project_id = ${projectId} AND user_id = ${userId}
+  `) as { role: ProjectMemberRole }[]
+  return member?.role ?? null
+}
+
+/**
+ * Whether the user has a role in the project other than owning it: a member of
+ * its team, or of the project itself
+ */
+export async function isProjectMember(
+  db: DbClient,
+  project: { id: string; team_id: string | null },
+  userId: string
+): Promise<boolean> {
+  if (project.team_id) {
+    return (await getTeamRole(db, project.team_id, userId)) !== null
+  }
+  return (await getProjectMemberRole(db, project.id, userId)) !== null
+}
+
+/**
+ * Format a project member row for API responses
+ */
+export function formatProjectMember(row: ProjectMemberRow): ProjectMember {
+  return {
+    user_id: row.user_id,
+    email: row.email,
+    name: row.name,
+    role: row.role,
+    created_at: row.created_at,
+  }
+}
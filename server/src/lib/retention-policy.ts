@@ -0,0 +1,137 @@
+// Deploy retention policy and the queries that select what it removes
+//
+// Used by the scheduled cleanup (lib/retention.ts) and by the ops CLI dry run,
+// which runs the same queries against an instance's database through wrangler.
+// Queries are returned as plain SQL for that reason, so keep this module free
+// of Worker-only imports.
+
+export interface RetentionPolicy {
+  /** Keep at most this many deploys per project */
+  deployCount: number | null
+  /** Delete deploys older than this many days */
+  deployDays: number | null
+  /** Delete whole projects this many days after they were created */
+  projectDays: number | null
+  /** Projects that never expire (the www project) */
+  exemptProjectIds: string[]
+}
+
+export type RetentionVars = Partial<
+  Record<'DEPLOY_RETENTION_COUNT' | 'DEPLOY_RETENTION_DAYS' | 'PROJECT_RETENTION_DAYS' | 'WWW_PROJECT_ID', string>
+>
+
+export interface ExpiredProject {
+  id: string
+  name: string
+  owner_id: string
+  owner_email: string
+  team_id: string | null
+  team_slug: string | null
+  created_at: string
+  deploy_count: number
+  total_bytes: number
+}
+
+export interface ExpiredDeploy {
+  id: string
+  project_id: string
+  project_name: string
+  owner_email: string
+  team_slug: string | null
+  version: number
+  total_bytes: number
+  created_at: string
+  reason: 'count' | 'age'
+}
+
+function isUnset(value: string | undefined): boolean {
+  return !value || value === '' || value === '_'
+}
+
+// A positive whole number, or null when the rule is disabled
+function parseLimit(name: string, value: string | undefined): number | null {
+  if (isUnset(value)) return null
+  const limit = Number(value)
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`${name} must be a positive whole number or _ (got "${value}")`)
+  }
+  return limit
+}
+
+/**
+ * Read the retention policy from server variables.
+ * Throws if a variable is set to something other than a positive whole number or _.
+ */
+export function parseRetentionPolicy(vars: RetentionVars): RetentionPolicy {
+  return {
+    deployCount: parseLimit('DEPLOY_RETENTION_COUNT', vars.DEPLOY_RETENTION_COUNT),
+    deployDays: parseLimit('DEPLOY_RETENTION_DAYS', vars.DEPLOY_RETENTION_DAYS),
+    projectDays: parseLimit('PROJECT_RETENTION_DAYS', vars.PROJECT_RETENTION_DAYS),
+    exemptProjectIds: isUnset(vars.WWW_PROJECT_ID) ? [] : [vars.WWW_PROJECT_ID!],
+  }
+}
+
+function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`
+}
+
+// SQL condition matching projects old enough to expire (p is the projects row)
+function projectExpiredCondition(policy: RetentionPolicy, days: number): string {
+  const exempt = policy.exemptProjectIds.map(sqlString).join(', ')
+  return `p.created_at < datetime('now', '-${days} days')` + (exempt ? ` AND p.id NOT IN (${exempt})` : '')
+}
+
+/**
+ * Query for projects to delete entirely, oldest first.
+ * Returns null when project expiry is disabled.
+ */
+export function expiredProjectsQuery(policy: RetentionPolicy): string | null {
+  if (policy.projectDays === null) return null
+  return `
+    SELECT p.id, p.name, p.owner_id, u.email AS owner_email, p.team_id, t.slug AS team_slug, p.created_at,
+      COUNT(d.id) AS deploy_count, COALESCE(SUM(d.total_bytes), 0) AS total_bytes
+    FROM projects p
+    JOIN user u ON u.id = p.owner_id
+    LEFT JOIN teams t ON t.id = p.team_id
+    LEFT JOIN deploys d ON d.project_id = p.id
+    WHERE ${projectExpiredCondition(policy, policy.projectDays)}
+    GROUP BY p.id
+    ORDER BY p.created_at
+  `
+}
+
+/**
+ * Query for individual deploys to delete, by project and version.
+ *
+ * A deploy is removed when newer deploys fill the project's count, or when it
+ * is older than the age limit. The live deploy is always kept, and deploys of
+ * projects that expire entirely are left to expiredProjectsQuery.
+ * Returns null when both deploy rules are disabled.
+ */
+export function expiredDeploysQuery(policy: RetentionPolicy): string | null {
+  const { deployCount, deployDays, projectDays } = policy
+  if (deployCount === null && deployDays === null) return null
+
+  const overCount = deployCount !== null ? `rank > ${deployCount}` : '0'
+  const overAge = deployDays !== null ? `created_at < datetime('now', '-${deployDays} days')` : '0'
+  const projectExpired = projectDays !== null ? projectExpiredCondition(policy, projectDays) : '0'
+
+  return `
+    SELECT id, project_id, project_name, owner_email, team_slug, version, total_bytes, created_at,
+      CASE WHEN ${overCount} THEN 'count' ELSE 'age' END AS reason
+    FROM (
+      SELECT d.id, d.project_id, p.name AS project_name, u.email AS owner_email, t.slug AS team_slug,
+        d.version, d.total_bytes, d.created_at, p.live_deploy_id,
+        ${projectExpired} AS project_expired,
+        ROW_NUMBER() OVER (PARTITION BY d.project_id ORDER BY d.version DESC) AS rank
+      FROM deploys d
+      JOIN projects p ON p.id = d.project_id
+      JOIN user u ON u.id = p.owner_id
+      LEFT JOIN teams t ON t.id = p.team_id
+    )
+    WHERE id IS NOT live_deploy_id
+      AND NOT project_expired
+      AND (${overCount} OR ${overAge})
+    ORDER BY owner_email, project_name, version
+  `
+}
@@ -0,0 +1,87 @@
+// Scheduled deploy retention cleanup
+//
+// Runs daily from the scheduled handler in index.ts. Applies the policy from
+// lib/retention-policy.ts: expired projects are deleted with all their files,
+// then old deploys are deleted along with blobs no remaining deploy uses.
+// Each run is recorded in retention_runs.
+
+import type { Env } from '../env'
+import { createDbClient } from '../db/client'
+import { generateId } from './id'
+import { invalidateProjectCache } from './cache'
+import { deletePrefixes, deleteProjectFiles, deleteUnreferencedBlobs } from './deploy-files'
+import type { ExpiredDeploy, ExpiredProject } from './retention-policy'
+import { expiredDeploysQuery, expiredProjectsQuery, parseRetentionPolicy } from './retention-policy'
+
+// Work per run is capped to stay within Worker subrequest limits; anything
+// left over is picked up by the next run
+const MAX_PROJECTS_PER_RUN = 50
+const MAX_DEPLOYS_PER_RUN = 500
+
+export interface RetentionResult {
+  projects: ExpiredProject[]
+  deploys: ExpiredDeploy[]
+  /** R2 objects deleted */
+  objectsDeleted: number
+}
+
+// The policy queries are plain SQL (see retention-policy.ts), so they run
+// without the tagged template client
+async function select<T>(env: Env, sql: string | null, limit: number): Promise<T[]> {
+  if (sql === null) return []
+  const { results } = await env.DB.prepare(sql).all<T>()
+  return results.slice(0, limit)
+}
+
+/**
+ * Apply the retention policy and record what was removed.
+ */
+export async function runRetention(env: Env): Promise<RetentionResult> {
+  const policy = parseRetentionPolicy(env)
+  const db = createDbClient(env.DB)
+  let objectsDeleted = 0
+
+  const projects = await select<ExpiredProject>(env, expiredProjectsQuery(policy), MAX_PROJECTS_PER_RUN)
+  for (const project of projects) {
+    const deploys = (await db`SELECT id FROM deploys WHERE project_id = ${project.id}`) as { id: string }[]
+    objectsDeleted += await deleteProjectFiles(env.FILES, project.id, deploys.map((d) => d.id))
+
+    // CASCADE handles deploys, deploy files and share tokens
+    await db`DELETE FROM projects WHERE id = ${project.id}`
+    const team = project.team_id ? { id: project.team_id, slug: project.team_slug! } : null
+    await invalidateProjectCache(
+      { userId: project.owner_id, user: { email: project.owner_email }, team },
+      project.name,
+      env
+    )
+  }
+
+  // Selected after project expiry, so deploys of deleted projects are gone
+  const deploys = await select<ExpiredDeploy>(env, expiredDeploysQuery(policy), MAX_DEPLOYS_PER_RUN)
+  for (const deploy of deploys) {
+    await db`DELETE FROM deploys WHERE id = ${deploy.id}`
+  }
+  // Deploys uploaded before manifests keep their own files
+  objectsDeleted += await deletePrefixes(env.FILES, deploys.map((d) => `${d.id}/`))
+  for (const projectId of new Set(deploys.map((d) => d.project_id))) {
+    objectsDeleted += await deleteUnreferencedBlobs(env, projectId)
+  }
+
+  const details = JSON.stringify({
+    projects: projects.map(({ id, name, owner_email, team_slug }) => ({ id, name, owner_email, team_slug })),
+    deploys: deploys.map(({ project_id, project_name, owner_email, team_slug, version, reason }) => ({
+      project_id,
+      project_name,
+      owner_email,
+      team_slug,
+      version,
+      reason,
+    })),
+  })
+  await db`
+    INSERT INTO retention_runs (id, projects_deleted, deploys_deleted, objects_deleted, details)
+    VALUES (${generateId()}, ${projects.length}, ${deploys.length}, ${objectsDeleted}, ${details})
+  `
+
+  return { projects, deploys, objectsDeleted }
+}
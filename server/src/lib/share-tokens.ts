@@ -3,11 +3,22 @@
 
 import type { Env } from '../env'
 import type { DbClient } from '../db/client'
-import { SHARE_TOKEN_DURATION_SECONDS, type ShareTokenDuration } from '@scratchwork/shared/api'
+import { SHARE_TOKEN_DURATION_SECONDS, type ShareToken, type ShareTokenDuration } from '@scratchwork/shared/api'
 
 // Token prefix for identification
 const TOKEN_PREFIX = 'shr_'
 
+// Database row type for share tokens - used for query results
+export interface ShareTokenRow {
+  id: string
+  project_id: string
+  name: string
+  duration: string
+  expires_at: string
+  revoked_at: string | null
+  created_at: string
+}
+
 /**
  * Check if share tokens feature is enabled
  */
@@ -87,3 +98,39 @@ export async function validateShareToken(
     projectId: result[0].project_id,
   }
 }
+
+/**
+ * Format a share token row for API responses (never includes the token value)
+ */
+export function formatShareToken(row: ShareTokenRow): ShareToken {
+  const now = new Date()
+  const expiresAt = new Date(row.expires_at)
+  const isExpired = expiresAt < now
+  const isRevoked = row.revoked_at !== null
+
+  return {
+    id: row.id,
+    project_id: row.project_id,
+    name: row.name,
+    duration: row.duration as ShareTokenDuration,
+    expires_at: row.expires_at,
+    is_active: !isExpired && !isRevoked,
+    is_expired: isExpired,
+    is_revoked: isRevoked,
+    revoked_at: row.revoked_at,
+    created_at: row.created_at,
+  }
+}
+
+/**
+ * List all share tokens of a project, newest first (including expired/revoked for audit)
+ */
+export async function listShareTokens(db: DbClient, projectId: string): Promise<ShareToken[]> {
+  const tokens = (await db`
+    SELECT id, project_id, name, duration, expires_at, revoked_at, created_at
+    FROM share_tokens
+    WHERE project_id = ${projectId}
+    ORDER BY created_at DESC
+  `) as ShareTokenRow[]
+  return tokens.map(formatShareToken)
+}
@@ -0,0 +1,46 @@
+// Deploy _redirects and _headers rules
+//
+// The deploy endpoint parses the files (see @scratchwork/shared/site-rules) and
+// stores the valid rules as JSON on the deploy row; content serving reads them
+// back for each request. Invalid lines are dropped, as they are in preview.
+
+import {
+  HEADERS_FILE,
+  REDIRECTS_FILE,
+  parseHeaders,
+  parseRedirects,
+  type HeaderRule,
+  type RedirectRule,
+} from '@scratchwork/shared/site-rules'
+
+export interface DeployRulesRow {
+  redirect_rules: string | null
+  header_rules: string | null
+}
+
+export interface DeployRules {
+  redirects: RedirectRule[]
+  headers: HeaderRule[]
+}
+
+// The rules files configure serving and aren't served themselves
+export function isSiteRulesFile(path: string): boolean {
+  return path === REDIRECTS_FILE || path === HEADERS_FILE
+}
+
+// Parse a deploy's _redirects and _headers contents into the stored columns
+export function serializeDeployRules(redirectsText: string | null, headersText: string | null): DeployRulesRow {
+  const redirects = redirectsText ? parseRedirects(redirectsText).rules : []
+  const headers = headersText ? parseHeaders(headersText).rules : []
+  return {
+    redirect_rules: redirects.length > 0 ? JSON.stringify(redirects) : null,
+    header_rules: headers.length > 0 ? JSON.stringify(headers) : null,
+  }
+}
+
+export function deserializeDeployRules(row: DeployRulesRow): DeployRules {
+  return {
+    redirects: row.redirect_rules ? (JSON.parse(row.redirect_rules) as RedirectRule[]) : [],
+    headers: row.header_rules ? (JSON.parse(row.header_rules) as HeaderRule[]) : [],
+  }
+}
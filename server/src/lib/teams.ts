@@ -0,0 +1,103 @@
+// Teams - projects shared by several users with roles
+//
+// A team project is served at /{team-slug}/{project}/ and every member can
+// reach it; what they may change depends on their role (see teamRoles in
+// shared/api/teams.ts). Personal projects behave as if their owner were the
+// only member of a team, with the owner role.
+
+import type { DbClient } from '../db/client'
+import type { Team, TeamMember, TeamRole } from '@scratchwork/shared/api'
+
+// Database row type for a team, joined with the requesting user's membership
+export interface TeamRow {
+  id: string
+  slug: string
+  name: string
+  role: TeamRole
+  member_count: number
+  project_count: number
+  created_at: string
+}
+
+// Database row type for a team member, joined with the user table
+export interface TeamMemberRow {
+  user_id: string
+  email: string
+  name: string | null
+  role: TeamRole
+  created_at: string
+}
+
+/**
+ * Get a team by slug, with the user's role.
+ * Returns null if the team doesn't exist or the user isn't a member.
+ */
+export async function getTeamForUser(db: DbClient, slug: string, userId: string): Promise<TeamRow | null> {
+  const [team] = (await db`
+    SELECT t.id, t.slug, t.name, m.role, t.created_at,
+      (SELECT CAST(COUNT(*) AS INTEGER) FROM team_members WHERE team_id = t.id) as member_count,
+      (SELECT CAST(COUNT(*) AS INTEGER) FROM projects WHERE team_id = t.id) as project_count
+    FROM teams t
+    JOIN team_members m ON m.team_id = t.id
+    WHERE t.slug = ${slug} AND m.user_id = ${userId}
+  `) as TeamRow[]
+  return team ?? null
+}
+
+/**
+ * Get the user's role in a team, or null if they aren't a member
+ */
+export async function getTeamRole(db: DbClient, teamId: string, userId: string): Promise<TeamRole | null> {
+  const [member] = (await db`
+    SELECT role FROM team_members WHERE team_id = ${teamId} AND user_id = ${userId}
+  `) as { role: TeamRole }[]
+  return member?.role ?? null
+}
+
+/**
+ * Whether the user is the team's only owner (who can't leave or be demoted)
+ */
+export async function isLastOwner(db: DbClient, teamId: string, userId: string): Promise<boolean> {
+  const owners = (await db`
+    SELECT user_id FROM team_members WHERE team_id = ${teamId} AND role = 'owner'
+  `) as { user_id: string }[]
+  return owners.length === 1 && owners[0]!.user_id === userId
+}
+
+/**
+ * Find a team by the identifier in a content URL (slug or team ID)
+ */
+export async function findTeam(db: DbClient, identifier: string): Promise<{ id: string; slug: string } | null> {
+  const [team] = (await db`
+    SELECT id, slug FROM teams WHERE slug = ${identifier.toLowerCase()} OR id = ${identifier}
+  `) as { id: string; slug: string }[]
+  return team ?? null
+}
+
+/**
+ * Format a team row for API responses
+ */
+export function formatTeam(row: TeamRow): Team {
+  return {
+    id: row.id,
+    slug: row.slug,
+    name: row.name,
+    role: row.role,
+    member_count: row.member_count,
+    project_count: row.project_count,
+    created_at: row.created_at,
+  }
+}
+
+/**
+ * Format a team member row for API responses
+ */
+export function formatTeamMember(row: TeamMemberRow): TeamMember {
+  return {
+    user_id: row.user_id,
+    email: row.email,
+    name: row.name,
+    role: row.role,
+    created_at: row.created_at,
+  }
+}
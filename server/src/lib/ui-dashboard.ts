@@ -0,0 +1,221 @@
+/**
+ * Server-rendered dashboard pages
+ *
+ * Pages are rendered from the same queries as the API. Changes go through the
+ * existing /api routes: a small inline script submits each `data-api` form as
+ * a same-origin JSON request, so the API's origin and content-type checks apply.
+ */
+
+import type { Deploy, Project, ShareToken } from '@scratchwork/shared/api'
+import { hasTeamRole, shareTokenDurations, visibilityRole } from '@scratchwork/shared/api'
+import { baseHtml, escapeHtml, logo } from './ui'
+
+interface DashboardUser {
+  id: string
+  email: string
+}
+
+export interface ProjectPageData {
+  project: Project
+  deploys: Deploy[]
+  // null when share tokens are disabled on this server
+  shareTokens: ShareToken[] | null
+}
+
+const DURATION_LABELS: Record<(typeof shareTokenDurations)[number], string> = {
+  '1d': '1 day',
+  '1w': '1 week',
+  '1m': '1 month',
+}
+
+// Submits data-api forms to the API; reloads (or follows data-redirect) on success.
+// A created share link is shown in place since its token is only returned once.
+const DASHBOARD_SCRIPT = `document.addEventListener('submit',async e=>{const f=e.target.closest('form[data-api]');if(!f)return;e.preventDefault();if(f.dataset.confirm&&!confirm(f.dataset.confirm))return;const m=f.dataset.method||'POST',o={method:m,credentials:'same-origin',headers:{}};if(m!=='DELETE'){o.headers['Content-Type']='application/json';o.body=JSON.stringify(Object.fromEntries(new FormData(f)))}const r=await fetch(f.dataset.api,o),d=r.status===204?{}:await r.json().catch(()=>({}));if(!r.ok){alert(d.error||'Request failed');return}if(d.share_url){const b=document.getElementById('share-url');b.hidden=false;b.querySelector('code').textContent=d.share_url;return}if(f.dataset.redirect)location.href=f.dataset.redirect;else location.reload()})`
+
+/**
+ * The ?team= or ?owner= query that selects a project by name (see getProjectScope).
+ */
+function projectScopeQuery(project: Project, user: DashboardUser): string {
+  if (project.team) return `?team=${encodeURIComponent(project.team.slug)}`
+  if (project.owner_id !== user.id) return `?owner=${encodeURIComponent(project.owner_email)}`
+  return ''
+}
+
+function projectOwnerLabel(project: Project, user: DashboardUser): string {
+  if (project.team) return `team ${project.team.slug}`
+  return project.owner_id === user.id ? 'you' : project.owner_email
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// SQLite datetimes and ISO strings, shown to the minute
+function formatDate(value: string | null): string {
+  return value ? escapeHtml(value.replace('T', ' ').slice(0, 16)) : '-'
+}
+
+function dashboardHtml(title: string, user: DashboardUser, content: string): string {
+  return baseHtml(
+    title,
+    `
+<div class="page dashboard">
+  <div class="dashboard-header">
+    <a href="/dashboard">${logo()}</a>
+    <p class="text-muted text-sm">${escapeHtml(user.email)} · <a href="/auth/logout" class="text-link">Log out</a></p>
+  </div>
+  ${content}
+</div>
+<script>${DASHBOARD_SCRIPT}</script>`
+  )
+}
+
+export function renderDashboardPage(user: DashboardUser, projects: Project[]): string {
+  const rows = projects
+    .map(
+      (p) => `
+    <tr>
+      <td><a href="/dashboard/projects/${encodeURIComponent(p.name)}${projectScopeQuery(p, user)}">${escapeHtml(p.name)}</a></td>
+      <td>${escapeHtml(projectOwnerLabel(p, user))}</td>
+      <td>${escapeHtml(p.visibility)}</td>
+      <td>${p.live_version === null ? '-' : `v${p.live_version}`}</td>
+      <td>${formatDate(p.last_deploy_at)}</td>
+    </tr>`
+    )
+    .join('')
+
+  const content =
+    projects.length === 0
+      ? `<p class="text-muted">No projects yet. Publish one with <code>scratch publish</code>.</p>`
+      : `
+  <table class="table">
+    <thead><tr><th>Project</th><th>Owner</th><th>Visibility</th><th>Live</th><th>Last deploy</th></tr></thead>
+    <tbody>${rows}
+    </tbody>
+  </table>`
+
+  return dashboardHtml('Projects - Scratchwork', user, `<h1>Projects</h1>${content}`)
+}
+
+export function renderProjectPage(user: DashboardUser, data: ProjectPageData): string {
+  const { project, deploys, shareTokens } = data
+  const scope = projectScopeQuery(project, user)
+  const api = `/api/projects/${encodeURIComponent(project.name)}`
+  const canPublish = hasTeamRole(project.role, 'publisher')
+  const canShare = hasTeamRole(project.role, 'sharer')
+  const canChangeVisibility = hasTeamRole(project.role, visibilityRole(!!project.team))
+
+  const urls = [project.urls.primary, project.urls.www]
+    .filter((url): url is string => !!url)
+    .map((url) => `<a href="${escapeHtml(url)}" class="text-link">${escapeHtml(url)}</a>`)
+    .join('<br>')
+
+  const visibility = canChangeVisibility
+    ? `
+  <form class="inline-form" data-api="${api}${scope}" data-method="PATCH">
+    <input class="input" name="visibility" value="${escapeHtml(project.visibility)}" aria-label="Visibility" required>
+    <button type="submit" class="btn btn-sm btn-primary">Save</button>
+  </form>
+  <p class="text-muted text-sm">public, private, an email, @domain, or a comma-separated list.</p>`
+    : `<p>${escapeHtml(project.visibility)}</p>`
+
+  const deployRows = deploys
+    .map((d) => {
+      const action = d.is_live
+        ? '<span class="badge badge-live">live</span>'
+        : canPublish
+          ? `<form data-api="${api}/deploys/${d.version}/promote${scope}" data-confirm="Make v${d.version} live?"><button type="submit" class="btn btn-sm btn-secondary">Promote</button></form>`
+          : ''
+      return `
+    <tr>
+      <td>v${d.version}</td>
+      <td>${d.file_count}</td>
+      <td>${formatBytes(d.total_bytes)}</td>
+      <td>${formatDate(d.created_at)}</td>
+      <td>${action}</td>
+    </tr>`
+    })
+    .join('')
+
+  const deploysSection =
+    deploys.length === 0
+      ? '<p class="text-muted">No deploys yet.</p>'
+      : `
+  <table class="table">
+    <thead><tr><th>Version</th><th>Files</th><th>Size</th><th>Deployed</th><th></th></tr></thead>
+    <tbody>${deployRows}
+    </tbody>
+  </table>`
+
+  const content = `
+  <p class="text-sm"><a href="/dashboard" class="text-link">Projects</a> / ${escapeHtml(projectOwnerLabel(project, user))}</p>
+  <h1>${escapeHtml(project.name)}</h1>
+  ${urls ? `<p>${urls}</p>` : ''}
+  <h2>Visibility</h2>
+  ${visibility}
+  <h2>Deploys</h2>
+  ${deploysSection}
+  ${shareTokens ? renderShareTokensSection(shareTokens, `${api}/share-tokens`, scope, canShare) : ''}
+  ${
+    hasTeamRole(project.role, 'owner')
+      ? `
+  <h2>Delete project</h2>
+  <p class="text-muted text-sm">Deletes the project and all of its deploys.</p>
+  <form data-api="${api}${scope}" data-method="DELETE" data-redirect="/dashboard" data-confirm="Delete ${escapeHtml(project.name)} and all of its deploys?">
+    <button type="submit" class="btn btn-sm btn-danger">Delete project</button>
+  </form>`
+      : ''
+  }`
+
+  return dashboardHtml(`${project.name} - Scratchwork`, user, content)
+}
+
+function renderShareTokensSection(tokens: ShareToken[], api: string, scope: string, canShare: boolean): string {
+  const rows = tokens
+    .map((t) => {
+      const status = t.is_revoked ? 'revoked' : t.is_expired ? 'expired' : 'active'
+      const action =
+        t.is_active && canShare
+          ? `<form data-api="${api}/${encodeURIComponent(t.id)}${scope}" data-method="DELETE" data-confirm="Revoke ${escapeHtml(t.name)}?"><button type="submit" class="btn btn-sm btn-secondary">Revoke</button></form>`
+          : ''
+      return `
+    <tr>
+      <td>${escapeHtml(t.name)}</td>
+      <td><span class="badge${t.is_active ? ' badge-live' : ''}">${status}</span></td>
+      <td>${formatDate(t.expires_at)}</td>
+      <td>${action}</td>
+    </tr>`
+    })
+    .join('')
+
+  const list =
+    tokens.length === 0
+      ? '<p class="text-muted">No share links.</p>'
+      : `
+  <table class="table">
+    <thead><tr><th>Name</th><th>Status</th><th>Expires</th><th></th></tr></thead>
+    <tbody>${rows}
+    </tbody>
+  </table>`
+
+  const durations = shareTokenDurations.map((d) => `<option value="${d}">${DURATION_LABELS[d]}</option>`).join('')
+  const create = canShare
+    ? `
+  <form class="inline-form" data-api="${api}${scope}">
+    <input class="input" name="name" placeholder="Name" aria-label="Name" required>
+    <select class="input" name="duration" aria-label="Duration">${durations}</select>
+    <button type="submit" class="btn btn-sm btn-primary">Create link</button>
+  </form>
+  <div id="share-url" class="alert alert-success" hidden>
+    <p>Copy this link now, it won't be shown again:</p>
+    <p><code></code></p>
+  </div>`
+    : ''
+
+  return `
+  <h2>Share links</h2>
+  ${list}
+  ${create}`
+}
@@ -1,14 +1,15 @@
 /**
  * Server-rendered UI pages
  *
- * These pages are rendered directly by the server with zero client-side JS.
+ * These pages are rendered directly by the server with zero client-side JS
+ * (the dashboard, in ui-dashboard.ts, is the exception).
  * All CSS is inlined for single HTTP request rendering.
  */
 
 import { UI_CSS } from './ui-styles'
 import { LOGO_SVG } from './ui-logo'
 
-function escapeHtml(str: string): string {
+export function escapeHtml(str: string): string {
   return str
     .replace(/&/g, '&amp;')
     .replace(/</g, '&lt;')
@@ -17,7 +18,7 @@ function escapeHtml(str: string): string {
     .replace(/'/g, '&#39;')
 }
 
-function baseHtml(title: string, content: string, preconnect?: string[]): string {
+export function baseHtml(title: string, content: string, preconnect?: string[]): string {
   const preconnectTags = preconnect?.map(url =>
     `<link rel="preconnect" href="${url}" crossorigin>`
   ).join('') || ''
@@ -35,7 +36,7 @@ ${preconnectTags}
 </html>`
 }
 
-function logo(): string {
+export function logo(): string {
   return LOGO_SVG
 }
 
@@ -51,6 +52,7 @@ export function renderHomePage(user: { email: string; name?: string | null } | n
     <p class="user-email">${escapeHtml(user.email)}</p>
     ${user.name ? `<p class="user-name">${escapeHtml(user.name)}</p>` : ''}
   </div>
+  <p><a href="/dashboard" class="btn btn-primary">Your projects</a></p>
   <a href="/auth/logout" class="text-link">Log out</a>
 </div>`
   } else {
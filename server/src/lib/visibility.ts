@@ -6,7 +6,7 @@ import type { Env } from '../env'
 
 /**
  * Check if a user can access a project based on:
- * 1. Owner always has access
+ * 1. Owner and project members (for team projects, only team members) always have access
  * 2. Project visibility check
  * 3. MAX_VISIBILITY ceiling check
  *
@@ -14,16 +14,18 @@ import type { Env } from '../env'
  * @param userId - The user's ID (null if not logged in)
  * @param project - The project to check access for
  * @param env - Environment with MAX_VISIBILITY setting
+ * @param isMember - Whether the user is a member of the project's team, or of the project itself
  * @returns true if user has access
  */
 export function canAccessProject(
   userEmail: string | null,
   userId: string | null,
-  project: { owner_id: string; visibility: string | null },
-  env: Env
+  project: { owner_id: string; team_id?: string | null; visibility: string | null },
+  env: Env,
+  isMember = false
 ): boolean {
-  // Owner always has access
-  if (userId && userId === project.owner_id) {
+  // Owner and members always have access; a team project's creator only while they're a member
+  if (isMember || (!project.team_id && userId && userId === project.owner_id)) {
     return true
   }
 
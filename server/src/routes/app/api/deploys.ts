@@ -2,17 +2,174 @@ import { Hono } from 'hono'
 import type { Env } from '../../../env'
 import { createDbClient } from '../../../db/client'
 import { generateId } from '../../../lib/id'
-import { validateProjectName, buildProjectUrls } from '@scratchwork/shared/project'
-import { deployCreateQuerySchema } from '@scratchwork/shared'
+import { validateProjectName, buildProjectUrls, buildDeployVersionUrl } from '@scratchwork/shared/project'
+import {
+  deployCreateQuerySchema,
+  deployCheckRequestSchema,
+  deployManifestSchema,
+  hasTeamRole,
+  visibilityRole,
+  type ProjectRole,
+} from '@scratchwork/shared'
 import { normalizePath, isValidFilePath } from '../../../lib/files'
 import { unzip } from 'unzipit'
-import { getAuthenticatedUser, parseAndValidateVisibility, type DeployRow } from '../../../lib/api-helpers'
+import {
+  getAuthenticatedUser,
+  getProjectForUser,
+  getProjectByIdForUser,
+  getProjectScope,
+  projectOwner,
+  parseAndValidateVisibility,
+  roleRequiredError,
+  formatDeploy,
+  listProjectDeploys,
+  type DeployRow,
+  type ProjectAccess,
+} from '../../../lib/api-helpers'
+import { getTeamForUser } from '../../../lib/teams'
 import { getContentDomain, getRootDomain } from '../../../lib/domains'
-import { invalidateProjectCache } from '../../../lib/cache'
+import { getVerifiedDomainUrls } from '../../../lib/custom-domains'
+import { invalidateProjectCache, invalidateDeployCache, type ProjectOwner } from '../../../lib/cache'
+import {
+  BLOB_HASH_PATTERN,
+  blobKey,
+  sha256Hex,
+  listProjectBlobs,
+  insertDeployFiles,
+} from '../../../lib/deploy-files'
+import { serializeDeployRules } from '../../../lib/site-rules'
+import { HEADERS_FILE, REDIRECTS_FILE } from '@scratchwork/shared/site-rules'
 
 export const deployRoutes = new Hono<{ Bindings: Env }>({ strict: true })
 
-// POST /api/projects/:name/deploy - Deploy a project (upload zip)
+const MAX_FILES = 10000
+
+// What a deploy request uploaded
+type DeployUpload =
+  // Path -> hash manifest plus the blobs the server didn't have
+  | { kind: 'manifest'; manifest: Record<string, string>; blobs: Map<string, Uint8Array> }
+  // The whole site as a zip (older CLIs)
+  | { kind: 'files'; files: { path: string; data: Uint8Array }[] }
+
+type ExtractResult =
+  | { ok: true; files: { path: string; data: Uint8Array }[] }
+  | { ok: false; error: string; code: string }
+
+// Text of a top-level file in the upload, or null if the deploy doesn't include it
+// Manifest uploads may leave out files whose blob the project already stored
+async function readUploadedText(
+  upload: DeployUpload,
+  path: string,
+  r2: R2Bucket,
+  projectId: string
+): Promise<string | null> {
+  if (upload.kind === 'files') {
+    const file = upload.files.find((f) => f.path === path)
+    return file ? new TextDecoder().decode(file.data) : null
+  }
+  const hash = upload.manifest[path]
+  if (!hash) return null
+  const data = upload.blobs.get(hash)
+  if (data) return new TextDecoder().decode(data)
+  const object = await r2.get(blobKey(projectId, hash))
+  return object ? object.text() : null
+}
+
+// Helper to detect symlinks in Unix-created zips
+// Unix file mode is in upper 16 bits of externalFileAttributes
+// S_IFLNK (symlink) = 0xA000
+function isSymlink(entry: { externalFileAttributes: number; versionMadeBy: number }): boolean {
+  const isUnix = (entry.versionMadeBy >> 8) === 3
+  if (!isUnix) return false
+  const unixMode = (entry.externalFileAttributes >> 16) & 0xf000
+  return unixMode === 0xa000
+}
+
+// Extract and validate the files in an uploaded zip
+async function extractZip(zipData: ArrayBuffer, maxExtractedBytes: number): Promise<ExtractResult> {
+  let entries: {
+    [key: string]: {
+      blob: () => Promise<Blob>
+      isDirectory: boolean
+      externalFileAttributes: number
+      versionMadeBy: number
+    }
+  }
+  try {
+    const result = await unzip(zipData)
+    entries = result.entries
+  } catch (err) {
+    return { ok: false, error: 'Invalid zip file', code: 'INVALID_ZIP' }
+  }
+
+  const files: { path: string; data: Uint8Array }[] = []
+  let totalExtractedBytes = 0
+
+  for (const [rawPath, entry] of Object.entries(entries)) {
+    if (entry.isDirectory) continue
+
+    // Reject symlinks
+    if (isSymlink(entry)) {
+      return { ok: false, error: 'Symbolic links not allowed', code: 'SYMLINK_NOT_ALLOWED' }
+    }
+
+    if (files.length >= MAX_FILES) {
+      return { ok: false, error: 'Too many files (max 10,000)', code: 'TOO_MANY_FILES' }
+    }
+
+    // Normalize and validate path
+    const path = normalizePath(rawPath)
+    if (!isValidFilePath(path)) {
+      return { ok: false, error: `Invalid file path: ${rawPath}`, code: 'INVALID_PATH' }
+    }
+
+    // Get file data
+    const blob = await entry.blob()
+    const data = new Uint8Array(await blob.arrayBuffer())
+
+    totalExtractedBytes += data.length
+    if (totalExtractedBytes > maxExtractedBytes) {
+      return { ok: false, error: 'Extracted content too large (possible zip bomb)', code: 'EXTRACTED_TOO_LARGE' }
+    }
+
+    files.push({ path, data })
+  }
+
+  return { ok: true, files }
+}
+
+// POST /api/projects/:name/deploy/check - List the files a deploy needs to upload
+// Files whose hash the project already has (from earlier deploys) can be skipped
+deployRoutes.post('/projects/:name/deploy/check', async (c) => {
+  const auth = await getAuthenticatedUser(c)
+  if (!auth) {
+    return c.json({ error: 'Not authenticated' }, 401)
+  }
+
+  const name = c.req.param('name')
+
+  const body = await c.req.json().catch(() => null)
+  const parsed = deployCheckRequestSchema.safeParse(body)
+  if (!parsed.success) {
+    return c.json({ error: 'Invalid deploy manifest', code: 'INVALID_MANIFEST' }, 400)
+  }
+  const { manifest, project_id: projectIdParam, team: teamParam, owner: ownerParam } = parsed.data
+
+  const db = createDbClient(c.env.DB)
+
+  // Find the project the same way the deploy will (by ID if given, else by name)
+  // A project that doesn't exist yet has no stored files
+  const project = projectIdParam
+    ? await getProjectByIdForUser(db, projectIdParam, auth.userId)
+    : await getProjectForUser(db, name, auth.userId, { team: teamParam, owner: ownerParam })
+
+  const stored = project ? await listProjectBlobs(c.env.FILES, project.id) : new Map<string, number>()
+  const missing = [...new Set(Object.values(manifest))].filter((hash) => !stored.has(hash))
+
+  return c.json({ missing })
+})
+
+// POST /api/projects/:name/deploy - Deploy a project (upload manifest and files)
 deployRoutes.post('/projects/:name/deploy', async (c) => {
   const auth = await getAuthenticatedUser(c)
   if (!auth) {
@@ -25,12 +182,24 @@ deployRoutes.post('/projects/:name/deploy', async (c) => {
   const queryResult = deployCreateQuerySchema.safeParse({
     visibility: c.req.query('visibility'),
     project_id: c.req.query('project_id'),
+    team: c.req.query('team'),
+    owner: c.req.query('owner'),
     www: c.req.query('www'),
+    preview: c.req.query('preview'),
+    version: c.req.query('version'),
   })
   if (!queryResult.success) {
     return c.json({ error: 'Invalid query parameters', code: 'INVALID_PARAMS' }, 400)
   }
-  const { visibility: rawVisibility, project_id: projectIdParam, www: wwwMode } = queryResult.data
+  const {
+    visibility: rawVisibility,
+    project_id: projectIdParam,
+    team: teamParam,
+    owner: ownerParam,
+    www: wwwMode,
+    preview,
+    version: expectedVersion,
+  } = queryResult.data
 
   // Validate project name
   const nameValidation = validateProjectName(name)
@@ -52,126 +221,184 @@ deployRoutes.post('/projects/:name/deploy', async (c) => {
   const MAX_EXTRACTED_ABSOLUTE = 100 * 1024 * 1024
   const maxExtractedBytes = Math.min(maxDeploySizeBytes * 10, MAX_EXTRACTED_ABSOLUTE)
 
-  // Check content type
+  // Read the upload: a manifest plus the files the server doesn't have yet, or
+  // (from older CLIs) the whole site as one zip
   const contentType = c.req.header('content-type')
-  if (!contentType?.includes('application/zip') && !contentType?.includes('application/octet-stream')) {
-    return c.json({ error: 'Content-Type must be application/zip', code: 'INVALID_ZIP' }, 400)
-  }
-
-  // Get zip data
-  const zipData = await c.req.arrayBuffer()
-
-  // Check zip size
-  if (zipData.byteLength > maxDeploySizeBytes) {
-    return c.json(
-      { error: `Deploy too large (max ${maxDeploySizeMB} MB)`, code: 'DEPLOY_TOO_LARGE' },
-      413
-    )
-  }
-
-  // Extract zip
-  let entries: {
-    [key: string]: {
-      blob: () => Promise<Blob>
-      isDirectory: boolean
-      externalFileAttributes: number
-      versionMadeBy: number
+  let upload: DeployUpload
+
+  if (contentType?.includes('multipart/form-data')) {
+    const form = await c.req.parseBody()
+    const manifestField = form['manifest']
+    const blobsField = form['blobs']
+
+    let manifestJson: unknown = null
+    try {
+      manifestJson = typeof manifestField === 'string' ? JSON.parse(manifestField) : null
+    } catch {
+      // Reported below
+    }
+    const manifestResult = deployManifestSchema.safeParse(manifestJson)
+    if (!manifestResult.success) {
+      return c.json({ error: 'Invalid deploy manifest', code: 'INVALID_MANIFEST' }, 400)
     }
-  }
-  try {
-    const result = await unzip(zipData)
-    entries = result.entries
-  } catch (err) {
-    return c.json({ error: 'Invalid zip file', code: 'INVALID_ZIP' }, 400)
-  }
-
-  // Helper to detect symlinks in Unix-created zips
-  // Unix file mode is in upper 16 bits of externalFileAttributes
-  // S_IFLNK (symlink) = 0xA000
-  const isSymlink = (entry: { externalFileAttributes: number; versionMadeBy: number }) => {
-    const isUnix = (entry.versionMadeBy >> 8) === 3
-    if (!isUnix) return false
-    const unixMode = (entry.externalFileAttributes >> 16) & 0xf000
-    return unixMode === 0xa000
-  }
-
-  // Validate and collect files
-  const files: { path: string; data: Uint8Array }[] = []
-  let totalExtractedBytes = 0
-  let fileCount = 0
-
-  for (const [rawPath, entry] of Object.entries(entries)) {
-    if (entry.isDirectory) continue
 
-    // Reject symlinks
-    if (isSymlink(entry)) {
-      return c.json({ error: 'Symbolic links not allowed', code: 'SYMLINK_NOT_ALLOWED' }, 400)
+    // Normalize and validate paths
+    const manifest: Record<string, string> = {}
+    for (const [rawPath, hash] of Object.entries(manifestResult.data)) {
+      const path = normalizePath(rawPath)
+      if (!isValidFilePath(path)) {
+        return c.json({ error: `Invalid file path: ${rawPath}`, code: 'INVALID_PATH' }, 400)
+      }
+      manifest[path] = hash
     }
 
-    fileCount++
-    if (fileCount > 10000) {
+    const fileCount = Object.keys(manifest).length
+    if (fileCount === 0) {
+      return c.json({ error: 'Cannot deploy empty archive', code: 'EMPTY_DEPLOY' }, 400)
+    }
+    if (fileCount > MAX_FILES) {
       return c.json({ error: 'Too many files (max 10,000)', code: 'TOO_MANY_FILES' }, 400)
     }
 
-    // Normalize and validate path
-    const path = normalizePath(rawPath)
-    if (!isValidFilePath(path)) {
-      return c.json({ error: `Invalid file path: ${rawPath}`, code: 'INVALID_PATH' }, 400)
+    // Only the uploaded (changed) files count toward the size limit
+    const blobs = new Map<string, Uint8Array>()
+    if (blobsField instanceof File) {
+      if (blobsField.size > maxDeploySizeBytes) {
+        return c.json(
+          { error: `Deploy too large (max ${maxDeploySizeMB} MB)`, code: 'DEPLOY_TOO_LARGE' },
+          413
+        )
+      }
+
+      const extracted = await extractZip(await blobsField.arrayBuffer(), maxExtractedBytes)
+      if (!extracted.ok) {
+        return c.json({ error: extracted.error, code: extracted.code }, 400)
+      }
+
+      // Each blob is named by its hash, which must be in the manifest and match its contents
+      const hashes = new Set(Object.values(manifest))
+      for (const file of extracted.files) {
+        if (!BLOB_HASH_PATTERN.test(file.path) || !hashes.has(file.path)) {
+          return c.json({ error: `Unexpected file in upload: ${file.path}`, code: 'INVALID_PATH' }, 400)
+        }
+        if ((await sha256Hex(file.data)) !== file.path) {
+          return c.json(
+            { error: `Contents of ${file.path} don't match its hash`, code: 'BLOB_HASH_MISMATCH' },
+            400
+          )
+        }
+        blobs.set(file.path, file.data)
+      }
     }
 
-    // Get file data
-    const blob = await entry.blob()
-    const data = new Uint8Array(await blob.arrayBuffer())
+    upload = { kind: 'manifest', manifest, blobs }
+  } else if (contentType?.includes('application/zip') || contentType?.includes('application/octet-stream')) {
+    // Get zip data
+    const zipData = await c.req.arrayBuffer()
 
-    totalExtractedBytes += data.length
-    if (totalExtractedBytes > maxExtractedBytes) {
+    // Check zip size
+    if (zipData.byteLength > maxDeploySizeBytes) {
       return c.json(
-        { error: 'Extracted content too large (possible zip bomb)', code: 'EXTRACTED_TOO_LARGE' },
-        400
+        { error: `Deploy too large (max ${maxDeploySizeMB} MB)`, code: 'DEPLOY_TOO_LARGE' },
+        413
       )
     }
 
-    files.push({ path, data })
-  }
+    const extracted = await extractZip(zipData, maxExtractedBytes)
+    if (!extracted.ok) {
+      return c.json({ error: extracted.error, code: extracted.code }, 400)
+    }
+
+    if (extracted.files.length === 0) {
+      return c.json({ error: 'Cannot deploy empty archive', code: 'EMPTY_DEPLOY' }, 400)
+    }
 
-  if (files.length === 0) {
-    return c.json({ error: 'Cannot deploy empty archive', code: 'EMPTY_DEPLOY' }, 400)
+    upload = { kind: 'files', files: extracted.files }
+  } else {
+    return c.json(
+      { error: 'Content-Type must be multipart/form-data or application/zip', code: 'INVALID_ZIP' },
+      400
+    )
   }
 
   const db = createDbClient(c.env.DB)
   const deployId = generateId()
+  // Blobs the project already has, as hash -> size (manifest uploads only)
+  let storedBlobs = new Map<string, number>()
 
   // Step 1: DB operations (returns discriminated union to avoid exception-based control flow)
   // Note: D1's single-writer model serializes all writes, making explicit locking unnecessary
   type DbResult =
-    | { ok: true; projectId: string; version: number; projectCreated: boolean }
-    | { ok: false; reason: 'PROJECT_NOT_FOUND' | 'PROJECT_NAME_TAKEN' }
+    | {
+        ok: true
+        projectId: string
+        owner: ProjectOwner
+        version: number
+        projectCreated: boolean
+        fileCount: number
+        totalBytes: number
+      }
+    | { ok: false; reason: 'PROJECT_NOT_FOUND' | 'PROJECT_NAME_TAKEN' | 'TEAM_NOT_FOUND' }
+    | { ok: false; reason: 'TEAM_ROLE_REQUIRED'; required: ProjectRole }
+    | { ok: false; reason: 'MISSING_BLOBS'; missing: string[] }
+    | { ok: false; reason: 'DEPLOY_VERSION_CONFLICT'; nextVersion: number }
+
+  // Apply the visibility given with the deploy. The CLI sends the project's
+  // configured visibility every time, so only an actual change needs the role.
+  const updateVisibility = async (project: ProjectAccess): Promise<DbResult | null> => {
+    if (!rawVisibility) {
+      return null
+    }
+    const [current] = (await db`SELECT visibility FROM projects WHERE id = ${project.id}`) as { visibility: string }[]
+    if (current?.visibility === projectVisibility) {
+      return null
+    }
+    const required = visibilityRole(!!project.team_id)
+    if (!hasTeamRole(project.role, required)) {
+      return { ok: false, reason: 'TEAM_ROLE_REQUIRED', required }
+    }
+    await db`
+      UPDATE projects
+      SET visibility = ${projectVisibility}, updated_at = datetime('now')
+      WHERE id = ${project.id}
+    `
+    return null
+  }
 
   const dbResult = await (async (): Promise<DbResult> => {
     let projId: string
     let created = false
+    let owner: ProjectOwner
 
     if (projectIdParam) {
-      // Project ID provided - look up by ID
-      const [existingProject] = (await db`
-        SELECT id, name, owner_id FROM projects
-        WHERE id = ${projectIdParam}
-      `) as { id: string; name: string; owner_id: string }[]
-
-      if (!existingProject || existingProject.owner_id !== auth.userId) {
-        // Project doesn't exist or owned by different user
+      // Project ID provided - look up by ID (its owner or team comes with it)
+      const existingProject = await getProjectByIdForUser(db, projectIdParam, auth.userId)
+
+      if (!existingProject) {
+        // Project doesn't exist or isn't reachable by the user
         return { ok: false, reason: 'PROJECT_NOT_FOUND' }
       }
+      if (!hasTeamRole(existingProject.role, 'publisher')) {
+        return { ok: false, reason: 'TEAM_ROLE_REQUIRED', required: 'publisher' }
+      }
 
       projId = existingProject.id
+      owner = projectOwner(existingProject)
 
       // Check if name changed (rename)
       if (existingProject.name !== name) {
-        // Check if user already has a project with the new name
+        // Renaming moves the project's URLs, like deleting it does
+        if (!hasTeamRole(existingProject.role, 'owner')) {
+          return { ok: false, reason: 'TEAM_ROLE_REQUIRED', required: 'owner' }
+        }
+
+        // Check if the owner (user or team) already has a project with the new name
         const [nameConflict] = (await db`
-          SELECT id FROM projects
-          WHERE name = ${name} AND owner_id = ${auth.userId}
-        `) as { id: string }[]
+          SELECT 1 FROM projects
+          WHERE name = ${name}
+            AND team_id IS ${existingProject.team_id}
+            AND (team_id IS NOT NULL OR owner_id = ${existingProject.owner_id})
+        `) as unknown[]
 
         if (nameConflict) {
           return { ok: false, reason: 'PROJECT_NAME_TAKEN' }
@@ -185,57 +412,124 @@ deployRoutes.post('/projects/:name/deploy', async (c) => {
         `
       }
 
-      // Update visibility if provided
-      if (rawVisibility) {
-        await db`
-          UPDATE projects
-          SET visibility = ${projectVisibility}, updated_at = datetime('now')
-          WHERE id = ${projId}
-        `
+      const visibilityDenied = await updateVisibility(existingProject)
+      if (visibilityDenied) {
+        return visibilityDenied
       }
     } else {
-      // No project ID - use existing behavior (lookup by name + owner, auto-create)
-      const [existingProject] = (await db`
-        SELECT id, owner_id FROM projects
-        WHERE name = ${name} AND owner_id = ${auth.userId}
-      `) as { id: string; owner_id: string }[]
+      // No project ID - look up by name (in the team or owner's projects, if given),
+      // auto-create if missing
+      if (teamParam) {
+        const teamRow = await getTeamForUser(db, teamParam, auth.userId)
+        if (!teamRow) {
+          return { ok: false, reason: 'TEAM_NOT_FOUND' }
+        }
+        if (!hasTeamRole(teamRow.role, 'publisher')) {
+          return { ok: false, reason: 'TEAM_ROLE_REQUIRED', required: 'publisher' }
+        }
+        owner = { ...auth, team: { id: teamRow.id, slug: teamRow.slug } }
+      } else {
+        owner = { ...auth, team: null }
+      }
+
+      const scope = { team: teamParam, owner: ownerParam }
+      const existingProject = await getProjectForUser(db, name, auth.userId, scope)
+      const isOtherOwner =
+        !teamParam &&
+        !!ownerParam &&
+        ownerParam !== auth.userId &&
+        ownerParam.toLowerCase() !== auth.user.email.toLowerCase()
 
       if (existingProject) {
-        // Project exists - already owned by this user
+        // Project exists - owned by this user (or their team), or they're a member of it
+        if (!hasTeamRole(existingProject.role, 'publisher')) {
+          return { ok: false, reason: 'TEAM_ROLE_REQUIRED', required: 'publisher' }
+        }
         projId = existingProject.id
+        owner = projectOwner(existingProject)
 
-        // Update visibility if provided
-        if (rawVisibility) {
-          await db`
-            UPDATE projects
-            SET visibility = ${projectVisibility}, updated_at = datetime('now')
-            WHERE id = ${projId}
-          `
+        const visibilityDenied = await updateVisibility(existingProject)
+        if (visibilityDenied) {
+          return visibilityDenied
         }
+      } else if (isOtherOwner) {
+        // Projects are only created in the user's own (or their team's) namespace
+        return { ok: false, reason: 'PROJECT_NOT_FOUND' }
       } else {
-        // Auto-create project with specified or default visibility
+        // Auto-create project (inserted below, once the upload is known to be complete)
         projId = generateId()
-        await db`
-          INSERT INTO projects (id, name, owner_id, visibility, created_at, updated_at)
-          VALUES (${projId}, ${name}, ${auth.userId}, ${projectVisibility}, datetime('now'), datetime('now'))
-        `
         created = true
       }
     }
 
+    // Manifest uploads may reference blobs stored by earlier deploys
+    let fileCount: number
+    let totalBytes = 0
+    if (upload.kind === 'manifest') {
+      storedBlobs = created ? new Map() : await listProjectBlobs(c.env.FILES, projId)
+      const missing = new Set<string>()
+      for (const hash of Object.values(upload.manifest)) {
+        const size = upload.blobs.get(hash)?.length ?? storedBlobs.get(hash)
+        if (size === undefined) {
+          missing.add(hash)
+        } else {
+          totalBytes += size
+        }
+      }
+      if (missing.size > 0) {
+        return { ok: false, reason: 'MISSING_BLOBS', missing: [...missing] }
+      }
+      fileCount = Object.keys(upload.manifest).length
+    } else {
+      fileCount = upload.files.length
+      for (const file of upload.files) {
+        totalBytes += file.data.length
+      }
+    }
+
+    if (created) {
+      // Auto-create project with specified or default visibility
+      await db`
+        INSERT INTO projects (id, name, owner_id, team_id, visibility, created_at, updated_at)
+        VALUES (${projId}, ${name}, ${auth.userId}, ${owner.team?.id ?? null}, ${projectVisibility}, datetime('now'), datetime('now'))
+      `
+    }
+
     // Get next version number
     const [versionRow] = (await db`
       SELECT COALESCE(MAX(version), 0) + 1 as next_version
       FROM deploys WHERE project_id = ${projId}
     `) as { next_version: number }[]
 
+    // The client built for a specific version (its URLs include ~v{version})
+    if (expectedVersion !== undefined && expectedVersion !== versionRow.next_version) {
+      return { ok: false, reason: 'DEPLOY_VERSION_CONFLICT', nextVersion: versionRow.next_version }
+    }
+
+    // _redirects and _headers are parsed once here and applied when serving
+    const rules = serializeDeployRules(
+      await readUploadedText(upload, REDIRECTS_FILE, c.env.FILES, projId),
+      await readUploadedText(upload, HEADERS_FILE, c.env.FILES, projId)
+    )
+
     // Create deploy record (but don't set live_deploy_id yet!)
     await db`
-      INSERT INTO deploys (id, project_id, version, file_count, total_bytes, created_at)
-      VALUES (${deployId}, ${projId}, ${versionRow.next_version}, ${files.length}, ${totalExtractedBytes}, datetime('now'))
+      INSERT INTO deploys (id, project_id, version, file_count, total_bytes, redirect_rules, header_rules, created_at)
+      VALUES (
+        ${deployId}, ${projId}, ${versionRow.next_version}, ${fileCount}, ${totalBytes},
+        ${rules.redirect_rules}, ${rules.header_rules}, datetime('now')
+      )
     `
 
-    return { ok: true, projectId: projId, version: versionRow.next_version, projectCreated: created }
+    return {
+      ok: true,
+      projectId: projId,
+      owner,
+      version: versionRow.next_version,
+      projectCreated: created,
+      fileCount,
+      totalBytes,
+    }
   })()
 
   // Handle errors from DB operations
@@ -243,21 +537,46 @@ deployRoutes.post('/projects/:name/deploy', async (c) => {
     if (dbResult.reason === 'PROJECT_NOT_FOUND') {
       return c.json({ error: 'Project not found', code: 'PROJECT_NOT_FOUND' }, 400)
     }
+    if (dbResult.reason === 'TEAM_NOT_FOUND') {
+      return c.json({ error: 'Team not found', code: 'TEAM_NOT_FOUND' }, 404)
+    }
+    if (dbResult.reason === 'TEAM_ROLE_REQUIRED') {
+      return c.json(roleRequiredError(dbResult.required), 403)
+    }
+    if (dbResult.reason === 'MISSING_BLOBS') {
+      return c.json(
+        { error: 'Upload is missing files listed in the manifest', code: 'MISSING_BLOBS', missing: dbResult.missing },
+        400
+      )
+    }
+    if (dbResult.reason === 'DEPLOY_VERSION_CONFLICT') {
+      return c.json(
+        {
+          error: `Expected to create v${expectedVersion} but the next version is v${dbResult.nextVersion}`,
+          code: 'DEPLOY_VERSION_CONFLICT',
+        },
+        409
+      )
+    }
     // PROJECT_NAME_TAKEN
     return c.json({ error: 'Project name already taken', code: 'PROJECT_NAME_TAKEN' }, 400)
   }
 
-  const { projectId, version, projectCreated } = dbResult
+  const { projectId, owner, version, projectCreated, fileCount, totalBytes } = dbResult
+
+  // Verified custom domains serve the project at their root, like www mode
+  const domainUrls = await getVerifiedDomainUrls(db, projectId, c.env)
 
   // Validate WWW mode if requested
   // WWW_PROJECT_ID can be: undefined, "_" (disabled), or a project ID
   // - If not set or "_", any project can use --www (but won't be served at root until configured)
-  // - If set to a project ID, only that project can use --www; others get WWW_PROJECT_MISMATCH
+  // - If set to a project ID, only that project and projects with custom domains
+  //   can use --www; others get WWW_PROJECT_MISMATCH
   let wwwConfigured = false
   if (wwwMode) {
     const wwwProjectId = c.env.WWW_PROJECT_ID
     // "_" is the convention for "disabled/not configured" in .vars files
-    if (wwwProjectId && wwwProjectId !== '_' && wwwProjectId !== projectId) {
+    if (wwwProjectId && wwwProjectId !== '_' && wwwProjectId !== projectId && domainUrls.length === 0) {
       return c.json({
         error: 'WWW_PROJECT_ID is already configured for a different project. ' +
                'Update your server configuration if you want to change which project is served at the root domain.',
@@ -271,33 +590,52 @@ deployRoutes.post('/projects/:name/deploy', async (c) => {
   // Step 2: Upload files to R2 (outside transaction - can't rollback R2)
   // Batch uploads with concurrency limit for performance
   const BATCH_SIZE = 10
-  for (let i = 0; i < files.length; i += BATCH_SIZE) {
-    const batch = files.slice(i, i + BATCH_SIZE)
-    await Promise.all(
-      batch.map((file) => c.env.FILES.put(`${deployId}/${file.path}`, file.data))
-    )
+  if (upload.kind === 'manifest') {
+    // Store blobs the project doesn't have yet, then record the manifest
+    const newBlobs = [...upload.blobs].filter(([hash]) => !storedBlobs.has(hash))
+    for (let i = 0; i < newBlobs.length; i += BATCH_SIZE) {
+      const batch = newBlobs.slice(i, i + BATCH_SIZE)
+      await Promise.all(
+        batch.map(([hash, data]) => c.env.FILES.put(blobKey(projectId, hash), data))
+      )
+    }
+    await insertDeployFiles(db, deployId, upload.manifest)
+  } else {
+    const files = upload.files
+    for (let i = 0; i < files.length; i += BATCH_SIZE) {
+      const batch = files.slice(i, i + BATCH_SIZE)
+      await Promise.all(
+        batch.map((file) => c.env.FILES.put(`${deployId}/${file.path}`, file.data))
+      )
+    }
   }
 
   // Step 3: Only NOW make it live (after R2 success)
-  await db`
-    UPDATE projects
-    SET live_deploy_id = ${deployId}, updated_at = datetime('now')
-    WHERE id = ${projectId}
-  `
+  // Preview deploys stay reachable at their version URL only
+  if (!preview) {
+    await db`
+      UPDATE projects
+      SET live_deploy_id = ${deployId}, updated_at = datetime('now')
+      WHERE id = ${projectId}
+    `
+  }
 
   // Build URLs for response
   const urls = buildProjectUrls({
     pagesDomain: getContentDomain(c.env),
     projectName: name,
-    ownerId: auth.userId,
-    ownerEmail: auth.user.email,
+    ownerId: owner.userId,
+    ownerEmail: owner.user.email,
     allowedUsers: c.env.ALLOWED_USERS || '',
+    team: owner.team,
     // Include www domain URL if www mode is requested and configured
     wwwDomain: wwwMode && wwwConfigured ? getRootDomain(c.env) : undefined,
   })
 
   // Step 4: Invalidate cache for this project (best-effort, don't block response)
-  c.executionCtx.waitUntil(invalidateProjectCache(auth, name, c.env))
+  if (!preview) {
+    c.executionCtx.waitUntil(invalidateProjectCache(owner, name, c.env))
+  }
 
   return c.json(
     {
@@ -305,16 +643,20 @@ deployRoutes.post('/projects/:name/deploy', async (c) => {
         id: deployId,
         project_id: projectId,
         version,
-        file_count: files.length,
-        total_bytes: totalExtractedBytes,
+        is_live: !preview,
+        file_count: fileCount,
+        total_bytes: totalBytes,
         created_at: new Date().toISOString(),
       },
       project: {
         id: projectId,
         name,
         created: projectCreated,
+        team: owner.team?.slug ?? null,
       },
       urls,
+      version_url: buildDeployVersionUrl(urls.primary, version),
+      domain_urls: domainUrls,
       // Include www mode info when requested
       ...(wwwMode && {
         www: {
@@ -338,33 +680,76 @@ deployRoutes.get('/projects/:name/deploys', async (c) => {
 
   const db = createDbClient(c.env.DB)
 
-  // Get project
-  const [project] = (await db`
-    SELECT id, live_deploy_id FROM projects
-    WHERE name = ${name}
-      AND owner_id = ${auth.userId}
-  `) as { id: string; live_deploy_id: string | null }[]
+  // Get project (any role can list deploys)
+  const access = await getProjectForUser(db, name, auth.userId, getProjectScope(c))
+  if (!access) {
+    return c.json({ error: 'Project not found', code: 'PROJECT_NOT_FOUND' }, 404)
+  }
+
+  return c.json({ deploys: await listProjectDeploys(db, access.id) })
+})
+
+// POST /api/projects/:name/deploys/:version/promote - Make an existing deploy live
+// Used for both rollbacks (older version) and re-promoting a newer one
+deployRoutes.post('/projects/:name/deploys/:version/promote', async (c) => {
+  const auth = await getAuthenticatedUser(c)
+  if (!auth) {
+    return c.json({ error: 'Not authenticated' }, 401)
+  }
+
+  const name = c.req.param('name')
+  const versionParam = c.req.param('version')
+  if (!/^\d+$/.test(versionParam)) {
+    return c.json({ error: 'Invalid deploy version', code: 'DEPLOY_VERSION_INVALID' }, 400)
+  }
+  const version = parseInt(versionParam, 10)
+
+  const db = createDbClient(c.env.DB)
 
-  if (!project) {
+  // Get project (switching the live deploy needs the publisher role)
+  const access = await getProjectForUser(db, name, auth.userId, getProjectScope(c))
+  if (!access) {
     return c.json({ error: 'Project not found', code: 'PROJECT_NOT_FOUND' }, 404)
   }
+  if (!hasTeamRole(access.role, 'publisher')) {
+    return c.json(roleRequiredError('publisher'), 403)
+  }
 
-  // Get deploys
-  const deploys = (await db`
-    SELECT id, version, file_count, total_bytes, created_at
+  // Current live version
+  const [project] = (await db`
+    SELECT p.id, p.live_deploy_id, d.version as live_version
+    FROM projects p
+    LEFT JOIN deploys d ON d.id = p.live_deploy_id
+    WHERE p.id = ${access.id}
+  `) as { id: string; live_deploy_id: string | null; live_version: number | null }[]
+
+  const [deploy] = (await db`
+    SELECT id, project_id, version, file_count, total_bytes, created_at
     FROM deploys
     WHERE project_id = ${project.id}
-    ORDER BY version DESC
+      AND version = ${version}
   `) as DeployRow[]
 
+  if (!deploy) {
+    return c.json({ error: `Deploy v${version} not found`, code: 'DEPLOY_NOT_FOUND' }, 404)
+  }
+
+  // Switch the live deploy in a single statement, so content requests see
+  // either the old deploy or the new one
+  if (deploy.id !== project.live_deploy_id) {
+    await db`
+      UPDATE projects
+      SET live_deploy_id = ${deploy.id}, updated_at = datetime('now')
+      WHERE id = ${project.id}
+    `
+
+    // Both deploys' files may be cached (best-effort, don't block response)
+    const deployIds = project.live_deploy_id ? [project.live_deploy_id, deploy.id] : [deploy.id]
+    c.executionCtx.waitUntil(invalidateDeployCache(projectOwner(access), name, c.env, deployIds))
+  }
+
   return c.json({
-    deploys: deploys.map((d) => ({
-      id: d.id,
-      version: d.version,
-      is_live: d.id === project.live_deploy_id,
-      file_count: d.file_count,
-      total_bytes: parseInt(d.total_bytes, 10),
-      created_at: d.created_at,
-    })),
+    deploy: formatDeploy(deploy, true),
+    previous_version: project.live_version,
   })
 })
@@ -0,0 +1,225 @@
+import { Hono } from 'hono'
+import type { Env } from '../../../env'
+import { createDbClient } from '../../../db/client'
+import { generateId } from '../../../lib/id'
+import { normalizeHostname } from '@scratchwork/shared/project'
+import { getAuthenticatedUser, getProjectForUser, getProjectScope, roleRequiredError } from '../../../lib/api-helpers'
+import { domainCreateRequestSchema, ErrorCodes, hasTeamRole } from '@scratchwork/shared/api'
+import {
+  type ProjectDomainRow,
+  formatProjectDomain,
+  generateVerificationToken,
+  hasVerificationRecord,
+  isReservedHostname,
+} from '../../../lib/custom-domains'
+
+export const domainRoutes = new Hono<{ Bindings: Env }>({ strict: true })
+
+const MAX_DOMAINS_PER_PROJECT = 10
+
+// POST /api/projects/:name/domains - Add a custom domain (unverified)
+domainRoutes.post('/projects/:name/domains', async (c) => {
+  const auth = await getAuthenticatedUser(c)
+  if (!auth) {
+    return c.json({ error: 'Not authenticated' }, 401)
+  }
+
+  const projectName = c.req.param('name')
+
+  let body: unknown
+  try {
+    body = await c.req.json()
+  } catch {
+    return c.json({ error: 'Invalid JSON body', code: ErrorCodes.INVALID_REQUEST }, 400)
+  }
+
+  const parseResult = domainCreateRequestSchema.safeParse(body)
+  const hostname = parseResult.success ? normalizeHostname(parseResult.data.hostname) : null
+  if (!hostname) {
+    return c.json(
+      { error: 'Domain must be a hostname like docs.example.com', code: ErrorCodes.DOMAIN_INVALID },
+      400
+    )
+  }
+
+  if (isReservedHostname(hostname, c.env)) {
+    return c.json({ error: 'This domain is used by the server itself', code: ErrorCodes.DOMAIN_RESERVED }, 400)
+  }
+
+  const db = createDbClient(c.env.DB)
+
+  // Verify project access (adding domains needs the publisher role)
+  const project = await getProjectForUser(db, projectName, auth.userId, getProjectScope(c))
+  if (!project) {
+    return c.json({ error: 'Project not found', code: ErrorCodes.PROJECT_NOT_FOUND }, 404)
+  }
+  if (!hasTeamRole(project.role, 'publisher')) {
+    return c.json(roleRequiredError('publisher'), 403)
+  }
+
+  // One row per project and hostname; another project may only hold an unverified claim
+  const existing = (await db`
+    SELECT project_id, verified_at FROM project_domains WHERE hostname = ${hostname}
+  `) as { project_id: string; verified_at: string | null }[]
+  if (existing.some((d) => d.project_id === project.id || d.verified_at !== null)) {
+    return c.json(
+      { error: `${hostname} is already attached to a project`, code: ErrorCodes.DOMAIN_TAKEN },
+      400
+    )
+  }
+
+  const [countResult] = (await db`
+    SELECT CAST(COUNT(*) AS INTEGER) as count FROM project_domains WHERE project_id = ${project.id}
+  `) as { count: number }[]
+  if (countResult!.count >= MAX_DOMAINS_PER_PROJECT) {
+    return c.json(
+      {
+        error: `Maximum ${MAX_DOMAINS_PER_PROJECT} domains per project`,
+        code: ErrorCodes.DOMAIN_LIMIT_EXCEEDED,
+      },
+      400
+    )
+  }
+
+  const [inserted] = (await db`
+    INSERT INTO project_domains (id, hostname, project_id, verification_token, created_at)
+    VALUES (${generateId()}, ${hostname}, ${project.id}, ${generateVerificationToken()}, datetime('now'))
+    RETURNING hostname, project_id, verification_token, verified_at, created_at
+  `) as ProjectDomainRow[]
+
+  return c.json({ domain: formatProjectDomain(inserted!, c.env) }, 201)
+})
+
+// GET /api/projects/:name/domains - List a project's custom domains
+domainRoutes.get('/projects/:name/domains', async (c) => {
+  const auth = await getAuthenticatedUser(c)
+  if (!auth) {
+    return c.json({ error: 'Not authenticated' }, 401)
+  }
+
+  const projectName = c.req.param('name')
+
+  const db = createDbClient(c.env.DB)
+
+  // Verify project access (any role can list domains)
+  const project = await getProjectForUser(db, projectName, auth.userId, getProjectScope(c))
+  if (!project) {
+    return c.json({ error: 'Project not found', code: ErrorCodes.PROJECT_NOT_FOUND }, 404)
+  }
+
+  const domains = (await db`
+    SELECT hostname, project_id, verification_token, verified_at, created_at
+    FROM project_domains
+    WHERE project_id = ${project.id}
+    ORDER BY hostname
+  `) as ProjectDomainRow[]
+
+  return c.json({
+    domains: domains.map((row) => formatProjectDomain(row, c.env)),
+  })
+})
+
+// POST /api/projects/:name/domains/:hostname/verify - Check the TXT record and verify
+domainRoutes.post('/projects/:name/domains/:hostname/verify', async (c) => {
+  const auth = await getAuthenticatedUser(c)
+  if (!auth) {
+    return c.json({ error: 'Not authenticated' }, 401)
+  }
+
+  const projectName = c.req.param('name')
+  const hostname = normalizeHostname(c.req.param('hostname'))
+
+  const db = createDbClient(c.env.DB)
+
+  // Verify project access (verifying needs the publisher role)
+  const project = await getProjectForUser(db, projectName, auth.userId, getProjectScope(c))
+  if (project && !hasTeamRole(project.role, 'publisher')) {
+    return c.json(roleRequiredError('publisher'), 403)
+  }
+
+  const [domain] = project
+    ? ((await db`
+        SELECT hostname, project_id, verification_token, verified_at, created_at
+        FROM project_domains
+        WHERE hostname = ${hostname} AND project_id = ${project.id}
+      `) as ProjectDomainRow[])
+    : []
+
+  if (!domain) {
+    return c.json({ error: 'Domain not found', code: ErrorCodes.DOMAIN_NOT_FOUND }, 404)
+  }
+
+  if (domain.verified_at) {
+    return c.json({ domain: formatProjectDomain(domain, c.env) })
+  }
+
+  if (!(await hasVerificationRecord(domain))) {
+    const { verification } = formatProjectDomain(domain, c.env)
+    return c.json(
+      {
+        error: `TXT record ${verification!.name} with value ${verification!.value} not found. DNS changes can take a few minutes to appear.`,
+        code: ErrorCodes.DOMAIN_VERIFICATION_FAILED,
+      },
+      400
+    )
+  }
+
+  // Another project may have verified the same hostname first
+  const [taken] = (await db`
+    SELECT 1 FROM project_domains WHERE hostname = ${domain.hostname} AND verified_at IS NOT NULL
+  `) as unknown[]
+  if (taken) {
+    return c.json(
+      { error: `${domain.hostname} is already attached to a project`, code: ErrorCodes.DOMAIN_TAKEN },
+      400
+    )
+  }
+
+  const [updated] = (await db`
+    UPDATE project_domains
+    SET verified_at = datetime('now')
+    WHERE hostname = ${domain.hostname} AND project_id = ${domain.project_id}
+    RETURNING hostname, project_id, verification_token, verified_at, created_at
+  `) as ProjectDomainRow[]
+
+  // The verified domain replaces any other project's pending claim
+  await db`
+    DELETE FROM project_domains
+    WHERE hostname = ${domain.hostname} AND verified_at IS NULL
+  `
+
+  return c.json({ domain: formatProjectDomain(updated!, c.env) })
+})
+
+// DELETE /api/projects/:name/domains/:hostname - Remove a custom domain
+domainRoutes.delete('/projects/:name/domains/:hostname', async (c) => {
+  const auth = await getAuthenticatedUser(c)
+  if (!auth) {
+    return c.json({ error: 'Not authenticated' }, 401)
+  }
+
+  const projectName = c.req.param('name')
+  const hostname = normalizeHostname(c.req.param('hostname'))
+
+  const db = createDbClient(c.env.DB)
+
+  // Verify project access (removing domains needs the publisher role)
+  const project = await getProjectForUser(db, projectName, auth.userId, getProjectScope(c))
+  if (project && !hasTeamRole(project.role, 'publisher')) {
+    return c.json(roleRequiredError('publisher'), 403)
+  }
+
+  const deleted = project
+    ? ((await db`
+        DELETE FROM project_domains
+        WHERE hostname = ${hostname} AND project_id = ${project.id}
+        RETURNING hostname
+      `) as { hostname: string }[])
+    : []
+
+  if (deleted.length === 0) {
+    return c.json({ error: 'Domain not found', code: ErrorCodes.DOMAIN_NOT_FOUND }, 404)
+  }
+
+  return c.body(null, 204)
+})
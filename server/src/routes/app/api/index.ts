@@ -4,6 +4,9 @@ import { userRoutes } from './users'
 import { projectRoutes } from './projects'
 import { deployRoutes } from './deploys'
 import { shareTokenRoutes } from './share-tokens'
+import { domainRoutes } from './domains'
+import { teamRoutes } from './teams'
+import { projectMemberRoutes } from './project-members'
 import { getAppBaseUrl } from '../../../lib/domains'
 import { isUserAllowed } from '../../../lib/access'
 import { createAuth, getSession } from '../../../auth'
@@ -98,3 +101,6 @@ apiRoutes.route('/', userRoutes)
 apiRoutes.route('/', projectRoutes)
 apiRoutes.route('/', deployRoutes)
 apiRoutes.route('/', shareTokenRoutes)
+apiRoutes.route('/', domainRoutes)
+apiRoutes.route('/', teamRoutes)
+apiRoutes.route('/', projectMemberRoutes)
@@ -0,0 +1,160 @@
+import { Hono } from 'hono'
+import type { Env } from '../../../env'
+import { createDbClient } from '../../../db/client'
+import {
+  getAuthenticatedUser,
+  getProjectForUser,
+  getProjectScope,
+  roleRequiredError,
+  type ProjectAccess,
+} from '../../../lib/api-helpers'
+import { ErrorCodes, hasTeamRole, projectMemberRequestSchema } from '@scratchwork/shared/api'
+import { type ProjectMemberRow, formatProjectMember } from '../../../lib/project-members'
+
+export const projectMemberRoutes = new Hono<{ Bindings: Env }>({ strict: true })
+
+// Team projects are shared through team roles instead
+function teamProjectError(project: ProjectAccess) {
+  return {
+    error: `${project.name} belongs to team ${project.team_slug}; manage access with team roles`,
+    code: ErrorCodes.PROJECT_MEMBERS_IN_TEAM,
+  }
+}
+
+// GET /api/projects/:name/members - List a project's members
+projectMemberRoutes.get('/projects/:name/members', async (c) => {
+  const auth = await getAuthenticatedUser(c)
+  if (!auth) {
+    return c.json({ error: 'Not authenticated' }, 401)
+  }
+
+  const projectName = c.req.param('name')
+
+  const db = createDbClient(c.env.DB)
+
+  // Verify project access (any role can list members)
+  const project = await getProjectForUser(db, projectName, auth.userId, getProjectScope(c))
+  if (!project) {
+    return c.json({ error: 'Project not found', code: ErrorCodes.PROJECT_NOT_FOUND }, 404)
+  }
+  if (project.team_id) {
+    return c.json(teamProjectError(project), 400)
+  }
+
+  const members = (await db`
+    SELECT m.user_id, u.email, u.name, m.role, m.created_at
+    FROM project_members m
+    JOIN "user" u ON m.user_id = u.id
+    WHERE m.project_id = ${project.id}
+    ORDER BY u.email
+  `) as ProjectMemberRow[]
+
+  return c.json({ members: members.map(formatProjectMember) })
+})
+
+// POST /api/projects/:name/members - Add a member, or change a member's role (owner only)
+projectMemberRoutes.post('/projects/:name/members', async (c) => {
+  const auth = await getAuthenticatedUser(c)
+  if (!auth) {
+    return c.json({ error: 'Not authenticated' }, 401)
+  }
+
+  const projectName = c.req.param('name')
+
+  let body: unknown
+  try {
+    body = await c.req.json()
+  } catch {
+    return c.json({ error: 'Invalid JSON body', code: ErrorCodes.INVALID_REQUEST }, 400)
+  }
+
+  const parseResult = projectMemberRequestSchema.safeParse(body)
+  if (!parseResult.success) {
+    return c.json(
+      { error: 'Email and role (publisher, sharer or viewer) are required', code: ErrorCodes.INVALID_REQUEST },
+      400
+    )
+  }
+  const { email, role } = parseResult.data
+
+  const db = createDbClient(c.env.DB)
+
+  const project = await getProjectForUser(db, projectName, auth.userId, getProjectScope(c))
+  if (!project) {
+    return c.json({ error: 'Project not found', code: ErrorCodes.PROJECT_NOT_FOUND }, 404)
+  }
+  if (project.team_id) {
+    return c.json(teamProjectError(project), 400)
+  }
+  if (!hasTeamRole(project.role, 'owner')) {
+    return c.json(roleRequiredError('owner'), 403)
+  }
+
+  // Members must have signed in to the server at least once
+  const [user] = (await db`
+    SELECT id FROM "user" WHERE lower(email) = ${email.toLowerCase()}
+  `) as { id: string }[]
+  if (!user) {
+    return c.json(
+      { error: `No user with email ${email}. They need to log in once before joining a project.`, code: ErrorCodes.USER_NOT_FOUND },
+      404
+    )
+  }
+  if (user.id === project.owner_id) {
+    return c.json({ error: 'The owner already has full access to the project', code: ErrorCodes.INVALID_REQUEST }, 400)
+  }
+
+  await db`
+    INSERT INTO project_members (project_id, user_id, role, created_at)
+    VALUES (${project.id}, ${user.id}, ${role}, datetime('now'))
+    ON CONFLICT (project_id, user_id) DO UPDATE SET role = excluded.role
+  `
+
+  const [member] = (await db`
+    SELECT m.user_id, u.email, u.name, m.role, m.created_at
+    FROM project_members m
+    JOIN "user" u ON m.user_id = u.id
+    WHERE m.project_id = ${project.id} AND m.user_id = ${user.id}
+  `) as ProjectMemberRow[]
+
+  return c.json({ member: formatProjectMember(member!) })
+})
+
+// DELETE /api/projects/:name/members/:email - Remove a member (the owner, or members leaving)
+projectMemberRoutes.delete('/projects/:name/members/:email', async (c) => {
+  const auth = await getAuthenticatedUser(c)
+  if (!auth) {
+    return c.json({ error: 'Not authenticated' }, 401)
+  }
+
+  const projectName = c.req.param('name')
+  const email = c.req.param('email').toLowerCase()
+
+  const db = createDbClient(c.env.DB)
+
+  const project = await getProjectForUser(db, projectName, auth.userId, getProjectScope(c))
+  if (!project) {
+    return c.json({ error: 'Project not found', code: ErrorCodes.PROJECT_NOT_FOUND }, 404)
+  }
+  if (project.team_id) {
+    return c.json(teamProjectError(project), 400)
+  }
+
+  const [member] = (await db`
+    SELECT m.user_id
+    FROM project_members m
+    JOIN "user" u ON m.user_id = u.id
+    WHERE m.project_id = ${project.id} AND lower(u.email) = ${email}
+  `) as { user_id: string }[]
+
+  if (member?.user_id !== auth.userId && !hasTeamRole(project.role, 'owner')) {
+    return c.json(roleRequiredError('owner'), 403)
+  }
+  if (!member) {
+    return c.json({ error: 'Member not found', code: ErrorCodes.PROJECT_MEMBER_NOT_FOUND }, 404)
+  }
+
+  await db`DELETE FROM project_members WHERE project_id = ${project.id} AND user_id = ${member.user_id}`
+
+  return c.body(null, 204)
+})
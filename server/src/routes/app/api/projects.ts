@@ -3,8 +3,22 @@ import type { Env } from '../../../env'
 import { createDbClient } from '../../../db/client'
 import { generateId } from '../../../lib/id'
 import { validateProjectName } from '@scratchwork/shared/project'
-import { getAuthenticatedUser, formatProject, buildProjectDetailsQuery, parseAndValidateVisibility, type ProjectRow } from '../../../lib/api-helpers'
+import { hasTeamRole, visibilityRole } from '@scratchwork/shared/api'
+import {
+  getAuthenticatedUser,
+  getProjectForUser,
+  getProjectScope,
+  projectOwner,
+  formatProject,
+  getProjectDetails,
+  listProjectsForUser,
+  parseAndValidateVisibility,
+  roleRequiredError,
+  type ProjectRow,
+} from '../../../lib/api-helpers'
 import { invalidateProjectCache } from '../../../lib/cache'
+import { deleteProjectFiles } from '../../../lib/deploy-files'
+import { getTeamForUser } from '../../../lib/teams'
 
 export const projectRoutes = new Hono<{ Bindings: Env }>({ strict: true })
 
@@ -15,7 +29,7 @@ projectRoutes.post('/projects', async (c) => {
     return c.json({ error: 'Not authenticated' }, 401)
   }
 
-  const body = (await c.req.json()) as { name?: string }
+  const body = (await c.req.json()) as { name?: string; team?: string }
   const { name } = body
 
   if (!name) {
@@ -31,54 +45,55 @@ projectRoutes.post('/projects', async (c) => {
   const db = createDbClient(c.env.DB)
   const projectId = generateId()
 
+  // Team projects need the publisher role in the team
+  const team = body.team ? await getTeamForUser(db, body.team, auth.userId) : null
+  if (body.team) {
+    if (!team) {
+      return c.json({ error: 'Team not found', code: 'TEAM_NOT_FOUND' }, 404)
+    }
+    if (!hasTeamRole(team.role, 'publisher')) {
+      return c.json(roleRequiredError('publisher'), 403)
+    }
+  }
+
   try {
     await db`
-      INSERT INTO projects (id, name, owner_id, visibility, created_at, updated_at)
-      VALUES (${projectId}, ${name}, ${auth.userId}, 'public', datetime('now'), datetime('now'))
+      INSERT INTO projects (id, name, owner_id, team_id, visibility, created_at, updated_at)
+      VALUES (${projectId}, ${name}, ${auth.userId}, ${team?.id ?? null}, 'public', datetime('now'), datetime('now'))
     `
   } catch (err: any) {
     // Check for unique constraint violation
-    if (err.message?.includes('idx_projects_name_owner') || err.code === '23505') {
-      return c.json({ error: 'You already have a project with this name', code: 'PROJECT_NAME_TAKEN' }, 409)
+    if (err.message?.includes('UNIQUE constraint failed') || err.code === '23505') {
+      const error = team ? 'The team already has a project with this name' : 'You already have a project with this name'
+      return c.json({ error, code: 'PROJECT_NAME_TAKEN' }, 409)
     }
     throw err
   }
 
   const [project] = (await db`
-    SELECT p.*, u.email as owner_email
+    SELECT p.*, u.email as owner_email, t.slug as team_slug
     FROM projects p
     JOIN "user" u ON p.owner_id = u.id
+    LEFT JOIN teams t ON p.team_id = t.id
     WHERE p.id = ${projectId}
-  `) as (ProjectRow & { owner_email: string })[]
+  `) as ProjectRow[]
 
-  return c.json({ project: formatProject(project, c.env) }, 201)
+  return c.json({ project: formatProject(project, c.env, { role: team?.role }) }, 201)
 })
 
-// GET /api/projects - List user's projects
+// GET /api/projects - List user's projects (personal, from their teams, and ones they're a member of)
 projectRoutes.get('/projects', async (c) => {
   const auth = await getAuthenticatedUser(c)
   if (!auth) {
     return c.json({ error: 'Not authenticated' }, 401)
   }
 
-  // Get projects with live version derived from live_deploy_id
-  // Uses GROUP BY to avoid N+1 subqueries for deploy_count and last_deploy_at
-  const query = buildProjectDetailsQuery('p.owner_id = ?', 'p.updated_at DESC')
-  const result = await c.env.DB.prepare(query).bind(auth.userId).all()
-  const projects = result.results as unknown as (ProjectRow & { owner_email: string; live_version: number | null; deploy_count: number; last_deploy_at: string | null })[]
-
-  return c.json({
-    projects: projects.map((p) =>
-      formatProject(p, c.env, {
-        live_version: p.live_version,
-        deploy_count: p.deploy_count,
-        last_deploy_at: p.last_deploy_at,
-      })
-    ),
-  })
+  return c.json({ projects: await listProjectsForUser(c.env, auth.userId) })
 })
 
 // GET /api/projects/:name - Get project details
+// ?team={slug} selects a team project instead of a personal one, and ?owner={email or id}
+// another user's project the user is a member of (same for the routes below)
 projectRoutes.get('/projects/:name', async (c) => {
   const auth = await getAuthenticatedUser(c)
   if (!auth) {
@@ -87,22 +102,13 @@ projectRoutes.get('/projects/:name', async (c) => {
 
   const name = c.req.param('name')
 
-  // Uses GROUP BY to avoid N+1 subqueries for deploy_count and last_deploy_at
-  const query = buildProjectDetailsQuery('p.name = ? AND p.owner_id = ?')
-  const result = await c.env.DB.prepare(query).bind(name, auth.userId).all()
-  const [project] = result.results as unknown as (ProjectRow & { owner_email: string; live_version: number | null; deploy_count: number; last_deploy_at: string | null })[]
-
-  if (!project) {
+  const db = createDbClient(c.env.DB)
+  const access = await getProjectForUser(db, name, auth.userId, getProjectScope(c))
+  if (!access) {
     return c.json({ error: 'Project not found', code: 'PROJECT_NOT_FOUND' }, 404)
   }
 
-  return c.json({
-    project: formatProject(project, c.env, {
-      live_version: project.live_version,
-      deploy_count: project.deploy_count,
-      last_deploy_at: project.last_deploy_at,
-    }),
-  })
+  return c.json({ project: await getProjectDetails(c.env, access) })
 })
 
 // PATCH /api/projects/:name - Update project (visibility)
@@ -123,16 +129,15 @@ projectRoutes.patch('/projects/:name', async (c) => {
 
   const db = createDbClient(c.env.DB)
 
-  // Get project to verify ownership
-  const [project] = (await db`
-    SELECT id FROM projects
-    WHERE name = ${name}
-      AND owner_id = ${auth.userId}
-  `) as { id: string }[]
-
+  // Get project to verify access (see visibilityRole for the role it needs)
+  const project = await getProjectForUser(db, name, auth.userId, getProjectScope(c))
   if (!project) {
     return c.json({ error: 'Project not found', code: 'PROJECT_NOT_FOUND' }, 404)
   }
+  const required = visibilityRole(!!project.team_id)
+  if (!hasTeamRole(project.role, required)) {
+    return c.json(roleRequiredError(required), 403)
+  }
 
   // Validate and parse visibility
   const visResult = parseAndValidateVisibility(body.visibility, c.env)
@@ -152,17 +157,7 @@ projectRoutes.patch('/projects/:name', async (c) => {
   // the updated visibility against the user's session.
 
   // Fetch updated project with all details
-  const fetchQuery = buildProjectDetailsQuery('p.id = ?')
-  const fetchResult = await c.env.DB.prepare(fetchQuery).bind(project.id).all()
-  const [updatedProject] = fetchResult.results as unknown as (ProjectRow & { owner_email: string; live_version: number | null; deploy_count: number; last_deploy_at: string | null })[]
-
-  return c.json({
-    project: formatProject(updatedProject, c.env, {
-      live_version: updatedProject.live_version,
-      deploy_count: updatedProject.deploy_count,
-      last_deploy_at: updatedProject.last_deploy_at,
-    }),
-  })
+  return c.json({ project: await getProjectDetails(c.env, project) })
 })
 
 // DELETE /api/projects/:name - Delete project and all deploys
@@ -176,35 +171,26 @@ projectRoutes.delete('/projects/:name', async (c) => {
 
   const db = createDbClient(c.env.DB)
 
-  // Get project to verify ownership and get deploy IDs for R2 cleanup
-  const [project] = (await db`
-    SELECT id FROM projects
-    WHERE name = ${name}
-      AND owner_id = ${auth.userId}
-  `) as { id: string }[]
-
+  // Get project to verify access (deleting needs the owner role)
+  const project = await getProjectForUser(db, name, auth.userId, getProjectScope(c))
   if (!project) {
     return c.json({ error: 'Project not found', code: 'PROJECT_NOT_FOUND' }, 404)
   }
+  if (!hasTeamRole(project.role, 'owner')) {
+    return c.json(roleRequiredError('owner'), 403)
+  }
 
   // Get all deploy IDs for R2 cleanup
   const deploys = (await db`SELECT id FROM deploys WHERE project_id = ${project.id}`) as { id: string }[]
 
-  // Delete files from R2 for each deploy (batched for performance)
-  const BATCH_SIZE = 10
-  for (const deploy of deploys) {
-    const listed = await c.env.FILES.list({ prefix: `${deploy.id}/` })
-    for (let i = 0; i < listed.objects.length; i += BATCH_SIZE) {
-      const batch = listed.objects.slice(i, i + BATCH_SIZE)
-      await Promise.all(batch.map((obj) => c.env.FILES.delete(obj.key)))
-    }
-  }
+  // Delete files from R2: the project's blobs and older per-deploy files
+  await deleteProjectFiles(c.env.FILES, project.id, deploys.map((d) => d.id))
 
   // Delete project (CASCADE handles deploys)
   await db`DELETE FROM projects WHERE id = ${project.id}`
 
   // Invalidate cache for deleted project
-  await invalidateProjectCache(auth, name, c.env)
+  await invalidateProjectCache(projectOwner(project), name, c.env)
 
   return c.body(null, 204)
 })
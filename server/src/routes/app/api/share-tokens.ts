@@ -3,14 +3,22 @@ import type { Env } from '../../../env'
 import { createDbClient } from '../../../db/client'
 import { generateId } from '../../../lib/id'
 import { buildProjectUrls } from '@scratchwork/shared/project'
-import { getAuthenticatedUser, getProjectForUser } from '../../../lib/api-helpers'
 import {
+  getAuthenticatedUser,
+  getProjectForUser,
+  getProjectScope,
+  projectOwner,
+  roleRequiredError,
+} from '../../../lib/api-helpers'
+import {
+  hasTeamRole,
   shareTokenCreateRequestSchema,
-  type ShareToken,
-  type ShareTokenDuration,
 } from '@scratchwork/shared/api'
 import {
+  type ShareTokenRow,
+  formatShareToken,
   isShareTokensEnabled,
+  listShareTokens,
   sanitizeTokenName,
   calculateExpiry,
   generateShareToken,
@@ -18,17 +26,6 @@ import {
 import { ErrorCodes } from '@scratchwork/shared/api'
 import { getContentDomain } from '../../../lib/domains'
 
-// Database row type for share tokens - used for query results
-interface ShareTokenRow {
-  id: string
-  project_id: string
-  name: string
-  duration: string
-  expires_at: string
-  revoked_at: string | null
-  created_at: string
-}
-
 export const shareTokenRoutes = new Hono<{ Bindings: Env }>({ strict: true })
 
 // Middleware: check feature flag for all share token routes
@@ -44,27 +41,6 @@ shareTokenRoutes.use('*', async (c, next) => {
 
 const MAX_ACTIVE_TOKENS_PER_PROJECT = 10
 
-// Helper to format a share token row for API response
-function formatShareToken(row: ShareTokenRow): ShareToken {
-  const now = new Date()
-  const expiresAt = new Date(row.expires_at)
-  const isExpired = expiresAt < now
-  const isRevoked = row.revoked_at !== null
-
-  return {
-    id: row.id,
-    project_id: row.project_id,
-    name: row.name,
-    duration: row.duration as ShareTokenDuration,
-    expires_at: row.expires_at,
-    is_active: !isExpired && !isRevoked,
-    is_expired: isExpired,
-    is_revoked: isRevoked,
-    revoked_at: row.revoked_at,
-    created_at: row.created_at,
-  }
-}
-
 // POST /api/projects/:name/share-tokens - Create a share token
 shareTokenRoutes.post('/projects/:name/share-tokens', async (c) => {
   const auth = await getAuthenticatedUser(c)
@@ -112,11 +88,14 @@ shareTokenRoutes.post('/projects/:name/share-tokens', async (c) => {
 
   const db = createDbClient(c.env.DB)
 
-  // Verify project ownership
-  const project = await getProjectForUser(db, projectName, auth.userId)
+  // Verify project access (creating tokens needs the sharer role)
+  const project = await getProjectForUser(db, projectName, auth.userId, getProjectScope(c))
   if (!project) {
     return c.json({ error: 'Project not found', code: ErrorCodes.PROJECT_NOT_FOUND }, 404)
   }
+  if (!hasTeamRole(project.role, 'sharer')) {
+    return c.json(roleRequiredError('sharer'), 403)
+  }
 
   // Check active token limit
   const [countResult] = (await db`
@@ -148,13 +127,15 @@ shareTokenRoutes.post('/projects/:name/share-tokens', async (c) => {
     RETURNING id, project_id, name, duration, expires_at, revoked_at, created_at
   `) as ShareTokenRow[]
 
-  // Build share URL using primary URL
+  // Build share URL using primary URL (the project's owner may not be the user)
+  const owner = projectOwner(project)
   const urls = buildProjectUrls({
     pagesDomain: getContentDomain(c.env),
     projectName,
-    ownerId: auth.userId,
-    ownerEmail: auth.user.email,
+    ownerId: owner.userId,
+    ownerEmail: owner.user.email,
     allowedUsers: c.env.ALLOWED_USERS || '',
+    team: owner.team,
   })
   const shareUrl = `${urls.primary}?token=${encodeURIComponent(token)}`
 
@@ -179,22 +160,14 @@ shareTokenRoutes.get('/projects/:name/share-tokens', async (c) => {
 
   const db = createDbClient(c.env.DB)
 
-  // Verify project ownership
-  const project = await getProjectForUser(db, projectName, auth.userId)
+  // Verify project access (any role can list tokens; their values are never returned)
+  const project = await getProjectForUser(db, projectName, auth.userId, getProjectScope(c))
   if (!project) {
     return c.json({ error: 'Project not found', code: ErrorCodes.PROJECT_NOT_FOUND }, 404)
   }
 
-  // Fetch all tokens (including expired/revoked for audit)
-  const tokens = (await db`
-    SELECT id, project_id, name, duration, expires_at, revoked_at, created_at
-    FROM share_tokens
-    WHERE project_id = ${project.id}
-    ORDER BY created_at DESC
-  `) as ShareTokenRow[]
-
   return c.json({
-    share_tokens: tokens.map(formatShareToken),
+    share_tokens: await listShareTokens(db, project.id),
   })
 })
 
@@ -210,15 +183,20 @@ shareTokenRoutes.delete('/projects/:name/share-tokens/:tokenId', async (c) => {
 
   const db = createDbClient(c.env.DB)
 
-  // Verify ownership and get token
-  const [token] = (await db`
-    SELECT st.id, st.project_id, st.name, st.duration, st.expires_at, st.revoked_at, st.created_at
-    FROM share_tokens st
-    JOIN projects p ON st.project_id = p.id
-    WHERE st.id = ${tokenId}
-      AND p.name = ${projectName}
-      AND p.owner_id = ${auth.userId}
-  `) as ShareTokenRow[]
+  // Verify project access (revoking needs the sharer role) and get token
+  const project = await getProjectForUser(db, projectName, auth.userId, getProjectScope(c))
+  if (project && !hasTeamRole(project.role, 'sharer')) {
+    return c.json(roleRequiredError('sharer'), 403)
+  }
+
+  const [token] = project
+    ? ((await db`
+        SELECT id, project_id, name, duration, expires_at, revoked_at, created_at
+        FROM share_tokens
+        WHERE id = ${tokenId}
+          AND project_id = ${project.id}
+      `) as ShareTokenRow[])
+    : []
 
   if (!token) {
     return c.json({ error: 'Share token not found', code: ErrorCodes.SHARE_TOKEN_NOT_FOUND }, 404)
@@ -0,0 +1,255 @@
+import { Hono } from 'hono'
+import type { Env } from '../../../env'
+import { createDbClient } from '../../../db/client'
+import { generateId } from '../../../lib/id'
+import { isSingleDomainAllowedUsers, validateTeamSlug } from '@scratchwork/shared/project'
+import { getAuthenticatedUser, roleRequiredError } from '../../../lib/api-helpers'
+import {
+  ErrorCodes,
+  hasTeamRole,
+  teamCreateRequestSchema,
+  teamMemberRequestSchema,
+} from '@scratchwork/shared/api'
+import {
+  type TeamMemberRow,
+  type TeamRow,
+  formatTeam,
+  formatTeamMember,
+  getTeamForUser,
+  isLastOwner,
+} from '../../../lib/teams'
+
+export const teamRoutes = new Hono<{ Bindings: Env }>({ strict: true })
+
+// POST /api/teams - Create a team (the creator becomes its owner)
+teamRoutes.post('/teams', async (c) => {
+  const auth = await getAuthenticatedUser(c)
+  if (!auth) {
+    return c.json({ error: 'Not authenticated' }, 401)
+  }
+
+  let body: unknown
+  try {
+    body = await c.req.json()
+  } catch {
+    return c.json({ error: 'Invalid JSON body', code: ErrorCodes.INVALID_REQUEST }, 400)
+  }
+
+  const parseResult = teamCreateRequestSchema.safeParse(body)
+  if (!parseResult.success) {
+    return c.json({ error: 'Slug is required', code: ErrorCodes.TEAM_SLUG_INVALID }, 400)
+  }
+  const { slug } = parseResult.data
+
+  const slugValidation = validateTeamSlug(slug)
+  if (!slugValidation.valid) {
+    return c.json({ error: slugValidation.error, code: ErrorCodes.TEAM_SLUG_INVALID }, 400)
+  }
+
+  const db = createDbClient(c.env.DB)
+
+  // Team slugs share the first URL segment with user IDs and, on single-domain
+  // servers, email local parts; don't take over an existing user's URLs
+  const singleDomain = isSingleDomainAllowedUsers(c.env.ALLOWED_USERS || '')
+  const [taken] = (await db`
+    SELECT 1 FROM teams WHERE slug = ${slug}
+    UNION ALL
+    SELECT 1 FROM "user" WHERE id = ${slug} OR lower(email) = ${singleDomain ? `${slug}@${singleDomain}` : ''}
+  `) as unknown[]
+  if (taken) {
+    return c.json({ error: 'This team slug is already taken', code: ErrorCodes.TEAM_SLUG_TAKEN }, 409)
+  }
+
+  const teamId = generateId()
+  await db`
+    INSERT INTO teams (id, slug, name, created_at)
+    VALUES (${teamId}, ${slug}, ${parseResult.data.name ?? slug}, datetime('now'))
+  `
+  await db`
+    INSERT INTO team_members (team_id, user_id, role, created_at)
+    VALUES (${teamId}, ${auth.userId}, 'owner', datetime('now'))
+  `
+
+  const team = await getTeamForUser(db, slug, auth.userId)
+  return c.json({ team: formatTeam(team!) }, 201)
+})
+
+// GET /api/teams - List the teams the user belongs to
+teamRoutes.get('/teams', async (c) => {
+  const auth = await getAuthenticatedUser(c)
+  if (!auth) {
+    return c.json({ error: 'Not authenticated' }, 401)
+  }
+
+  const db = createDbClient(c.env.DB)
+  const teams = (await db`
+    SELECT t.id, t.slug, t.name, m.role, t.created_at,
+      (SELECT CAST(COUNT(*) AS INTEGER) FROM team_members WHERE team_id = t.id) as member_count,
+      (SELECT CAST(COUNT(*) AS INTEGER) FROM projects WHERE team_id = t.id) as project_count
+    FROM teams t
+    JOIN team_members m ON m.team_id = t.id
+    WHERE m.user_id = ${auth.userId}
+    ORDER BY t.slug
+  `) as TeamRow[]
+
+  return c.json({ teams: teams.map(formatTeam) })
+})
+
+// DELETE /api/teams/:slug - Delete a team (owners only, once it has no projects)
+teamRoutes.delete('/teams/:slug', async (c) => {
+  const auth = await getAuthenticatedUser(c)
+  if (!auth) {
+    return c.json({ error: 'Not authenticated' }, 401)
+  }
+
+  const db = createDbClient(c.env.DB)
+
+  const team = await getTeamForUser(db, c.req.param('slug'), auth.userId)
+  if (!team) {
+    return c.json({ error: 'Team not found', code: ErrorCodes.TEAM_NOT_FOUND }, 404)
+  }
+  if (!hasTeamRole(team.role, 'owner')) {
+    return c.json(roleRequiredError('owner'), 403)
+  }
+
+  // Projects' files live in R2, so they're deleted project by project first
+  if (team.project_count > 0) {
+    return c.json(
+      { error: "Delete the team's projects first", code: ErrorCodes.TEAM_NOT_EMPTY },
+      400
+    )
+  }
+
+  // CASCADE handles members
+  await db`DELETE FROM teams WHERE id = ${team.id}`
+
+  return c.body(null, 204)
+})
+
+// GET /api/teams/:slug/members - List a team's members
+teamRoutes.get('/teams/:slug/members', async (c) => {
+  const auth = await getAuthenticatedUser(c)
+  if (!auth) {
+    return c.json({ error: 'Not authenticated' }, 401)
+  }
+
+  const db = createDbClient(c.env.DB)
+
+  const team = await getTeamForUser(db, c.req.param('slug'), auth.userId)
+  if (!team) {
+    return c.json({ error: 'Team not found', code: ErrorCodes.TEAM_NOT_FOUND }, 404)
+  }
+
+  const members = (await db`
+    SELECT m.user_id, u.email, u.name, m.role, m.created_at
+    FROM team_members m
+    JOIN "user" u ON m.user_id = u.id
+    WHERE m.team_id = ${team.id}
+    ORDER BY u.email
+  `) as TeamMemberRow[]
+
+  return c.json({ members: members.map(formatTeamMember) })
+})
+
+// POST /api/teams/:slug/members - Add a member, or change a member's role (owners only)
+teamRoutes.post('/teams/:slug/members', async (c) => {
+  const auth = await getAuthenticatedUser(c)
+  if (!auth) {
+    return c.json({ error: 'Not authenticated' }, 401)
+  }
+
+  let body: unknown
+  try {
+    body = await c.req.json()
+  } catch {
+    return c.json({ error: 'Invalid JSON body', code: ErrorCodes.INVALID_REQUEST }, 400)
+  }
+
+  const parseResult = teamMemberRequestSchema.safeParse(body)
+  if (!parseResult.success) {
+    return c.json(
+      { error: 'Email and role (owner, publisher or viewer) are required', code: ErrorCodes.INVALID_REQUEST },
+      400
+    )
+  }
+  const { email, role } = parseResult.data
+
+  const db = createDbClient(c.env.DB)
+
+  const team = await getTeamForUser(db, c.req.param('slug'), auth.userId)
+  if (!team) {
+    return c.json({ error: 'Team not found', code: ErrorCodes.TEAM_NOT_FOUND }, 404)
+  }
+  if (!hasTeamRole(team.role, 'owner')) {
+    return c.json(roleRequiredError('owner'), 403)
+  }
+
+  // Members must have signed in to the server at least once
+  const [user] = (await db`
+    SELECT id FROM "user" WHERE lower(email) = ${email.toLowerCase()}
+  `) as { id: string }[]
+  if (!user) {
+    return c.json(
+      { error: `No user with email ${email}. They need to log in once before joining a team.`, code: ErrorCodes.USER_NOT_FOUND },
+      404
+    )
+  }
+
+  if (role !== 'owner' && (await isLastOwner(db, team.id, user.id))) {
+    return c.json({ error: 'A team needs at least one owner', code: ErrorCodes.TEAM_LAST_OWNER }, 400)
+  }
+
+  await db`
+    INSERT INTO team_members (team_id, user_id, role, created_at)
+    VALUES (${team.id}, ${user.id}, ${role}, datetime('now'))
+    ON CONFLICT (team_id, user_id) DO UPDATE SET role = excluded.role
+  `
+
+  const [member] = (await db`
+    SELECT m.user_id, u.email, u.name, m.role, m.created_at
+    FROM team_members m
+    JOIN "user" u ON m.user_id = u.id
+    WHERE m.team_id = ${team.id} AND m.user_id = ${user.id}
+  `) as TeamMemberRow[]
+
+  return c.json({ member: formatTeamMember(member!) })
+})
+
+// DELETE /api/teams/:slug/members/:email - Remove a member (owners, or members leaving)
+teamRoutes.delete('/teams/:slug/members/:email', async (c) => {
+  const auth = await getAuthenticatedUser(c)
+  if (!auth) {
+    return c.json({ error: 'Not authenticated' }, 401)
+  }
+
+  const email = c.req.param('email').toLowerCase()
+
+  const db = createDbClient(c.env.DB)
+
+  const team = await getTeamForUser(db, c.req.param('slug'), auth.userId)
+  if (!team) {
+    return c.json({ error: 'Team not found', code: ErrorCodes.TEAM_NOT_FOUND }, 404)
+  }
+
+  const [member] = (await db`
+    SELECT m.user_id
+    FROM team_members m
+    JOIN "user" u ON m.user_id = u.id
+    WHERE m.team_id = ${team.id} AND lower(u.email) = ${email}
+  `) as { user_id: string }[]
+
+  if (member?.user_id !== auth.userId && !hasTeamRole(team.role, 'owner')) {
+    return c.json(roleRequiredError('owner'), 403)
+  }
+  if (!member) {
+    return c.json({ error: 'Member not found', code: ErrorCodes.TEAM_MEMBER_NOT_FOUND }, 404)
+  }
+
+  if (await isLastOwner(db, team.id, member.user_id)) {
+    return c.json({ error: 'A team needs at least one owner', code: ErrorCodes.TEAM_LAST_OWNER }, 400)
+  }
+
+  await db`DELETE FROM team_members WHERE team_id = ${team.id} AND user_id = ${member.user_id}`
+
+  return c.body(null, 204)
+})
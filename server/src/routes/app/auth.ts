@@ -7,8 +7,10 @@ import { isUserAllowed } from '../../lib/access'
 import { createContentToken } from '../../lib/content-token'
 import { createDbClient } from '../../db/client'
 import { canAccessProject } from '../../lib/visibility'
+import { isProjectMember } from '../../lib/project-members'
 import { getAuthenticatedUser } from '../../lib/api-helpers'
 import { errorRedirectUrl } from '../../lib/url-helpers'
+import { findDomainProjectId } from '../../lib/custom-domains'
 
 export const authRoutes = new Hono<{ Bindings: Env }>({ strict: false })
 
@@ -87,6 +89,7 @@ interface Project {
   id: string
   name: string
   owner_id: string
+  team_id: string | null
   visibility: string
 }
 
@@ -101,12 +104,16 @@ authRoutes.get('/content-access', async (c) => {
     return c.redirect(errorRedirectUrl('Missing parameters'))
   }
 
-  // Validate return_url is on our content domain (prevent open redirect)
+  // Validate return_url is on our content domain or one of the project's
+  // verified custom domains (prevent open redirect)
   try {
     const contentDomain = getContentDomain(c.env)
     const returnUrlParsed = new URL(returnUrl)
     if (returnUrlParsed.host !== contentDomain) {
-      return c.redirect(errorRedirectUrl('Invalid return URL'))
+      const domainProjectId = await findDomainProjectId(createDbClient(c.env.DB), returnUrlParsed.host)
+      if (domainProjectId !== projectId) {
+        return c.redirect(errorRedirectUrl('Invalid return URL'))
+      }
     }
   } catch {
     return c.redirect(errorRedirectUrl('Invalid return URL'))
@@ -126,12 +133,13 @@ authRoutes.get('/content-access', async (c) => {
   // Look up project and verify access
   const db = createDbClient(c.env.DB)
   const [project] = (await db`
-    SELECT id, name, owner_id, visibility
+    SELECT id, name, owner_id, team_id, visibility
     FROM projects WHERE id = ${projectId}
   `) as Project[]
+  const isMember = !!project && (await isProjectMember(db, project, user.id))
 
   // Generic error for both "not found" and "no access" (don't reveal existence)
-  if (!project || !canAccessProject(user.email, user.id, project, c.env)) {
+  if (!project || !canAccessProject(user.email, user.id, project, c.env, isMember)) {
     return c.redirect(errorRedirectUrl('Unable to access this content'))
   }
 
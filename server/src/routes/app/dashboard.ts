@@ -0,0 +1,83 @@
+import { Hono, type Context } from 'hono'
+import type { Env } from '../../env'
+import { createDbClient } from '../../db/client'
+import { getAppBaseUrl } from '../../lib/domains'
+import { isUserAllowed } from '../../lib/access'
+import {
+  getAuthenticatedUser,
+  getProjectDetails,
+  getProjectForUser,
+  getProjectScope,
+  listProjectDeploys,
+  listProjectsForUser,
+  type AuthResult,
+} from '../../lib/api-helpers'
+import { isShareTokensEnabled, listShareTokens } from '../../lib/share-tokens'
+import { renderErrorPage } from '../../lib/ui'
+import { renderDashboardPage, renderProjectPage } from '../../lib/ui-dashboard'
+
+export const dashboardRoutes = new Hono<{ Bindings: Env }>({ strict: false })
+
+// Helper to return HTML response with appropriate headers
+function html(content: string, status = 200): Response {
+  return new Response(content, {
+    status,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'private, no-cache',
+    },
+  })
+}
+
+// The logged-in, allowed user, or the response to send instead
+async function requireUser(c: Context<{ Bindings: Env }>): Promise<AuthResult | Response> {
+  const auth = await getAuthenticatedUser(c)
+
+  if (!auth) {
+    if (c.env.AUTH_MODE === 'cloudflare-access') {
+      return html(renderErrorPage('Not authenticated via Cloudflare Access'), 401)
+    }
+    // Redirect to OAuth login, then return here
+    const url = new URL(c.req.url)
+    const returnUrl = encodeURIComponent(`${getAppBaseUrl(c.env)}${url.pathname}${url.search}`)
+    return c.redirect(`/auth/login?callbackURL=${returnUrl}`)
+  }
+
+  if (!isUserAllowed(auth.user.email, c.env)) {
+    return html(renderErrorPage('Access denied'), 403)
+  }
+
+  return auth
+}
+
+// Project list
+dashboardRoutes.get('/', async (c) => {
+  const auth = await requireUser(c)
+  if (auth instanceof Response) return auth
+
+  const projects = await listProjectsForUser(c.env, auth.userId)
+  return html(renderDashboardPage({ id: auth.userId, email: auth.user.email }, projects))
+})
+
+// Project details: deploys and share links
+// ?team={slug} and ?owner={email or id} select the project as in the API
+dashboardRoutes.get('/projects/:name', async (c) => {
+  const auth = await requireUser(c)
+  if (auth instanceof Response) return auth
+
+  const db = createDbClient(c.env.DB)
+  const access = await getProjectForUser(db, c.req.param('name'), auth.userId, getProjectScope(c))
+  if (!access) {
+    return html(renderErrorPage('Project not found'), 404)
+  }
+
+  const page = renderProjectPage(
+    { id: auth.userId, email: auth.user.email },
+    {
+      project: await getProjectDetails(c.env, access),
+      deploys: await listProjectDeploys(db, access.id),
+      shareTokens: isShareTokensEnabled(c.env) ? await listShareTokens(db, access.id) : null,
+    }
+  )
+  return html(page)
+})
@@ -1,7 +1,9 @@
 // Pages handler - serves static files for published projects on content subdomain
 // URLs: /{owner-identifier}/{project-name}/{path}
+//       /{owner-identifier}/{project-name}/~v{version}/{path} (a specific deploy)
 //
 // Owner identifier can be:
+// - Team slug or team ID: team projects (checked first)
 // - User ID: always works
 // - Email: always works (case-insensitive)
 // - Email local part: only when ALLOWED_USERS is a single domain
@@ -16,7 +18,7 @@
 import { Hono } from 'hono'
 import type { Env } from '../env'
 import { createDbClient } from '../db/client'
-import { parsePagePath, isSingleDomainAllowedUsers } from '@scratchwork/shared/project'
+import { parsePagePath, parseDeployVersionPath, isSingleDomainAllowedUsers } from '@scratchwork/shared/project'
 import {
   type Project,
   validateFilePath,
@@ -25,6 +27,7 @@ import {
 } from '../lib/content-serving'
 import { isPublicProject } from '../lib/visibility'
 import { mdxRedirectMiddleware } from '../lib/redirects'
+import { findTeam } from '../lib/teams'
 
 export const pagesRoutes = new Hono<{ Bindings: Env }>({ strict: true })
 
@@ -44,13 +47,25 @@ pagesRoutes.get('*', async (c) => {
     return c.redirect(redirectUrl.toString(), 301)
   }
 
+  // Same for /{owner}/{project}/~v{version}
+  if (pathname.match(/^\/[^/]+\/[^/]+\/~v\d+$/)) {
+    const redirectUrl = new URL(url)
+    redirectUrl.pathname = pathname + '/'
+    return c.redirect(redirectUrl.toString(), 301)
+  }
+
   // Parse the path
   const parsed = parsePagePath(pathname)
   if (!parsed || !parsed.projectName) {
     return c.text('Not Found', 404)
   }
 
-  const { ownerIdentifier, projectName, filePath: rawFilePath } = parsed
+  const { ownerIdentifier, projectName } = parsed
+
+  // Paths under ~v{version}/ serve that deploy instead of the live one
+  const versionPath = parseDeployVersionPath(parsed.filePath)
+  const version = versionPath?.version
+  const rawFilePath = versionPath ? versionPath.filePath : parsed.filePath
 
   // Validate file path
   const filePath = validateFilePath(rawFilePath)
@@ -60,55 +75,70 @@ pagesRoutes.get('*', async (c) => {
 
   const db = createDbClient(c.env.DB)
 
-  // Resolve owner identifier to user ID
-  // Tries: user ID, email (case-insensitive), or local-part (if single domain)
+  // Resolve owner identifier to a team, or else to a user ID
+  // Tries: team slug or ID, user ID, email (case-insensitive), or local-part (if single domain)
+  const team = await findTeam(db, ownerIdentifier)
   let ownerId: string | null = null
-  const [byId] = (await db`SELECT id FROM "user" WHERE id = ${ownerIdentifier}`) as { id: string }[]
-  if (byId) {
-    ownerId = byId.id
-  } else {
-    const [byEmail] = (await db`SELECT id FROM "user" WHERE lower(email) = ${ownerIdentifier.toLowerCase()}`) as {
-      id: string
-    }[]
-    if (byEmail) {
-      ownerId = byEmail.id
+  if (!team) {
+    const [byId] = (await db`SELECT id FROM "user" WHERE id = ${ownerIdentifier}`) as { id: string }[]
+    if (byId) {
+      ownerId = byId.id
     } else {
-      const singleDomain = isSingleDomainAllowedUsers(c.env.ALLOWED_USERS || '')
-      if (singleDomain) {
-        const fullEmail = `${ownerIdentifier.toLowerCase()}@${singleDomain}`
-        const [byLocalPart] = (await db`SELECT id FROM "user" WHERE lower(email) = ${fullEmail}`) as { id: string }[]
-        if (byLocalPart) {
-          ownerId = byLocalPart.id
+      const [byEmail] = (await db`SELECT id FROM "user" WHERE lower(email) = ${ownerIdentifier.toLowerCase()}`) as {
+        id: string
+      }[]
+      if (byEmail) {
+        ownerId = byEmail.id
+      } else {
+        const singleDomain = isSingleDomainAllowedUsers(c.env.ALLOWED_USERS || '')
+        if (singleDomain) {
+          const fullEmail = `${ownerIdentifier.toLowerCase()}@${singleDomain}`
+          const [byLocalPart] = (await db`SELECT id FROM "user" WHERE lower(email) = ${fullEmail}`) as { id: string }[]
+          if (byLocalPart) {
+            ownerId = byLocalPart.id
+          }
         }
       }
     }
   }
 
-  // Look up project with visibility info (only if owner exists)
+  // Look up project with visibility info (only if the team or owner exists)
   let project: Project | undefined
-  if (ownerId) {
-    try {
+  try {
+    if (team) {
+      const [row] = (await db`
+        SELECT p.id, p.name, p.owner_id, u.email as owner_email, p.team_id, p.visibility, p.live_deploy_id
+        FROM projects p
+        JOIN "user" u ON p.owner_id = u.id
+        WHERE p.name = ${projectName} AND p.team_id = ${team.id}
+      `) as Project[]
+      project = row
+    } else if (ownerId) {
       const [row] = (await db`
-        SELECT p.id, p.name, p.owner_id, u.email as owner_email, p.visibility, p.live_deploy_id
+        SELECT p.id, p.name, p.owner_id, u.email as owner_email, p.team_id, p.visibility, p.live_deploy_id
         FROM projects p
         JOIN "user" u ON p.owner_id = u.id
-        WHERE p.name = ${projectName} AND p.owner_id = ${ownerId}
+        WHERE p.name = ${projectName} AND p.owner_id = ${ownerId} AND p.team_id IS NULL
       `) as Project[]
       project = row
-    } catch (err) {
-      console.error('Database error:', err)
-      return c.text('Internal Server Error', 500)
     }
+  } catch (err) {
+    console.error('Database error:', err)
+    return c.text('Internal Server Error', 500)
   }
 
   // Cookie path for auth tokens (scoped to this project's URL path)
   const cookiePath = `/${ownerIdentifier}/${projectName}/`
+  const basePath = version === undefined ? cookiePath : `${cookiePath}~v${version}/`
 
   // If project exists and is public, serve immediately
+  // Version URLs aren't cached: cache invalidation only covers live URLs
   if (project && isPublicProject(project.visibility, c.env)) {
     return serveProjectContent(c, project, filePath, {
       cookiePath,
-      enableCaching: true,
+      basePath,
+      enableCaching: version === undefined,
+      version,
     })
   }
 
@@ -118,7 +148,9 @@ pagesRoutes.get('*', async (c) => {
     // Project exists but is non-public - use real project ID
     return serveProjectContent(c, project, filePath, {
       cookiePath,
+      basePath,
       enableCaching: false,
+      version,
     })
   }
 
@@ -1,8 +1,9 @@
-// WWW handler - serves a specific project on www and root domain
-// URLs: www.example.com/* or example.com/*
+// Root handlers - serve a single project at the root of a hostname
+// URLs: www.example.com/*, example.com/* or a custom domain like docs.example.org/*
 //
-// The project is specified by the WWW_PROJECT_ID environment variable.
-// If not set or set to "_", returns 404 for all requests.
+// The www and root domain serve the project in the WWW_PROJECT_ID environment
+// variable. If not set or set to "_", they return 404 for all requests.
+// Custom domains serve the project that verified them (see lib/custom-domains.ts).
 //
 // Visibility enforcement:
 // - Public projects: served immediately
@@ -10,7 +11,7 @@
 // - Share tokens: provide anonymous access
 // - Missing project or no access: 404
 
-import { Hono } from 'hono'
+import { Hono, type Context } from 'hono'
 import type { Env } from '../env'
 import { createDbClient } from '../db/client'
 import {
@@ -18,25 +19,19 @@ import {
   validateFilePath,
   serveProjectContent,
 } from '../lib/content-serving'
+import { findDomainProjectId } from '../lib/custom-domains'
 import { mdxRedirectMiddleware } from '../lib/redirects'
 
-export const wwwRoutes = new Hono<{ Bindings: Env }>({ strict: true })
-
-// Apply middleware for .mdx -> .md redirects
-wwwRoutes.use('*', mdxRedirectMiddleware())
-
-// GET requests for static file serving
-wwwRoutes.get('*', async (c) => {
-  // Check if WWW_PROJECT_ID is configured
-  const wwwProjectId = c.env.WWW_PROJECT_ID
-  if (!wwwProjectId || wwwProjectId === '_') {
+// Serve a request from the project with the given ID, at the root
+async function serveAtRoot(c: Context<{ Bindings: Env }>, projectId: string | null): Promise<Response> {
+  if (!projectId) {
     return c.text('Not Found', 404)
   }
 
   const url = new URL(c.req.url)
   const pathname = url.pathname
 
-  // Normalize pathname for www routes:
+  // Normalize pathname for root routes:
   // - Remove leading slash for file path validation
   // - Root "/" becomes empty string (will serve index.html)
   const rawFilePath = pathname.replace(/^\/+/, '')
@@ -57,10 +52,10 @@ wwwRoutes.get('*', async (c) => {
   let project: Project | undefined
   try {
     const [row] = (await db`
-      SELECT p.id, p.name, p.owner_id, u.email as owner_email, p.visibility, p.live_deploy_id
+      SELECT p.id, p.name, p.owner_id, u.email as owner_email, p.team_id, p.visibility, p.live_deploy_id
       FROM projects p
       JOIN "user" u ON p.owner_id = u.id
-      WHERE p.id = ${wwwProjectId}
+      WHERE p.id = ${projectId}
     `) as Project[]
     project = row
   } catch (err) {
@@ -73,9 +68,38 @@ wwwRoutes.get('*', async (c) => {
   }
 
   // Serve the project content
-  // Use "/" as cookie path since www routes serve at root
+  // Use "/" as cookie and base path since root routes serve at root
   return serveProjectContent(c, project, filePath, {
     cookiePath: '/',
+    basePath: '/',
     enableCaching: true,
   })
+}
+
+export const wwwRoutes = new Hono<{ Bindings: Env }>({ strict: true })
+
+// Apply middleware for .mdx -> .md redirects
+wwwRoutes.use('*', mdxRedirectMiddleware())
+
+// GET requests for static file serving
+wwwRoutes.get('*', async (c) => {
+  // "_" is the convention for "disabled/not configured" in .vars files
+  const wwwProjectId = c.env.WWW_PROJECT_ID
+  return serveAtRoot(c, wwwProjectId && wwwProjectId !== '_' ? wwwProjectId : null)
+})
+
+export const customDomainRoutes = new Hono<{ Bindings: Env }>({ strict: true })
+
+customDomainRoutes.use('*', mdxRedirectMiddleware())
+
+customDomainRoutes.get('*', async (c) => {
+  const host = new URL(c.req.url).host
+  let projectId: string | null
+  try {
+    projectId = await findDomainProjectId(createDbClient(c.env.DB), host)
+  } catch (err) {
+    console.error('Database error:', err)
+    return c.text('Internal Server Error', 500)
+  }
+  return serveAtRoot(c, projectId)
 })
@@ -9,6 +9,7 @@ describe('buildProjectDetailsQuery', () => {
     // Should include all required SELECT columns
     expect(query).toContain('p.*')
     expect(query).toContain('u.email as owner_email')
+    expect(query).toContain('t.slug as team_slug')
     expect(query).toContain('d.version as live_version')
     expect(query).toContain('CAST(COUNT(all_d.id) AS INTEGER) as deploy_count')
     expect(query).toContain('MAX(all_d.created_at) as last_deploy_at')
@@ -16,6 +17,7 @@ describe('buildProjectDetailsQuery', () => {
     // Should include all required JOINs
     expect(query).toContain('FROM projects p')
     expect(query).toContain('JOIN "user" u ON p.owner_id = u.id')
+    expect(query).toContain('LEFT JOIN teams t ON p.team_id = t.id')
     expect(query).toContain('LEFT JOIN deploys d ON p.live_deploy_id = d.id')
     expect(query).toContain('LEFT JOIN deploys all_d ON all_d.project_id = p.id')
 
@@ -23,7 +25,7 @@ describe('buildProjectDetailsQuery', () => {
     expect(query).toContain('WHERE p.owner_id = ?')
 
     // Should include GROUP BY
-    expect(query).toContain('GROUP BY p.id, u.email, d.version')
+    expect(query).toContain('GROUP BY p.id, u.email, t.slug, d.version')
 
     // Should NOT include ORDER BY when not specified
     expect(query).not.toContain('ORDER BY')
@@ -1,5 +1,10 @@
 import { describe, test, expect } from 'bun:test'
-import { buildCacheBaseUrlsFromOptions, type CacheUrlOptions } from '../src/lib/cache'
+import {
+  buildCacheBaseUrlsFromOptions,
+  buildCachePathsForFiles,
+  buildPurgeUrls,
+  type CacheUrlOptions,
+} from '../src/lib/cache'
 
 // Helper to create default cache options
 function createOptions(overrides: Partial<CacheUrlOptions> = {}): CacheUrlOptions {
@@ -118,4 +123,69 @@ describe('buildCacheBaseUrlsFromOptions', () => {
       expect(urls).toContain('https://pages.example.com/alice+test/my-project')
     })
   })
+
+  describe('team projects', () => {
+    test('uses the team ID and slug instead of the owner', () => {
+      const options = createOptions({
+        singleDomain: 'example.com',
+        team: { id: 'team-456', slug: 'design' },
+      })
+
+      const urls = buildCacheBaseUrlsFromOptions(options)
+
+      expect(urls).toEqual([
+        'https://pages.example.com/team-456/my-project',
+        'https://pages.example.com/design/my-project',
+      ])
+    })
+  })
+})
+
+describe('buildCachePathsForFiles', () => {
+  test('includes the clean URLs each HTML file is served at', () => {
+    expect(buildCachePathsForFiles(['index.html', 'docs/index.html', 'about.html'])).toEqual([
+      '/index.html',
+      '/',
+      '/docs/index.html',
+      '/docs/',
+      '/docs',
+      '/about.html',
+      '/about',
+    ])
+  })
+
+  test('includes other files as-is', () => {
+    expect(buildCachePathsForFiles(['_build/app-a1b2c3d4.js', 'logo.png'])).toEqual([
+      '/_build/app-a1b2c3d4.js',
+      '/logo.png',
+    ])
+  })
+
+  test('dedupes files shared between deploys', () => {
+    expect(buildCachePathsForFiles(['index.html', 'index.html'])).toEqual(['/index.html', '/'])
+  })
+})
+
+describe('buildPurgeUrls', () => {
+  const baseUrls = ['https://pages.example.com/user-123/site', 'https://docs.example.com']
+
+  test('covers each path on every host before the next path', () => {
+    expect(buildPurgeUrls(baseUrls, ['/', '/about'])).toEqual([
+      'https://pages.example.com/user-123/site/',
+      'https://docs.example.com/',
+      'https://pages.example.com/user-123/site/about',
+      'https://docs.example.com/about',
+    ])
+  })
+
+  test('caps the number of URLs', () => {
+    const paths = Array.from({ length: 1000 }, (_, i) => `/page-${i}`)
+    const urls = buildPurgeUrls(baseUrls, paths, 3)
+    expect(urls).toEqual([
+      'https://pages.example.com/user-123/site/page-0',
+      'https://docs.example.com/page-0',
+      'https://pages.example.com/user-123/site/page-1',
+    ])
+    expect(buildPurgeUrls(baseUrls, paths)).toHaveLength(500)
+  })
 })
@@ -9,6 +9,7 @@ import {
   type ContentAuthResult,
 } from '../src/lib/content-serving'
 import type { Env } from '../src/env'
+import type { DbClient } from '../src/db/client'
 import { createContentToken } from '../src/lib/content-token'
 
 // Mock Hono context factory
@@ -30,7 +31,10 @@ function createMockContext(options: {
     },
     env: {
       FILES: {} as R2Bucket,
-      DB: {} as D1Database,
+      // Answers every query with no rows (no project members)
+      DB: {
+        prepare: () => ({ bind: () => ({ all: async () => ({ results: [] }) }) }),
+      } as unknown as D1Database,
       D1_DATABASE_ID: '12345678-1234-1234-1234-123456789012',
       BASE_DOMAIN: 'example.com',
       APP_SUBDOMAIN: 'app',
@@ -45,6 +49,9 @@ function createMockContext(options: {
       MAX_VISIBILITY: 'public',
       ALLOW_SHARE_TOKENS: 'false',
       MAX_DEPLOY_SIZE: '10',
+      DEPLOY_RETENTION_COUNT: '_',
+      DEPLOY_RETENTION_DAYS: '_',
+      PROJECT_RETENTION_DAYS: '_',
       ...options.env,
     } as Env,
     res: {
@@ -78,6 +85,7 @@ function createMockProject(overrides: Partial<Project> = {}): Project {
     name: 'test-project',
     owner_id: 'user-456',
     owner_email: 'owner@example.com',
+    team_id: null,
     visibility: 'public',
     live_deploy_id: 'deploy-789',
     ...overrides,
@@ -230,6 +238,64 @@ describe('content-serving', () => {
 
       expect(result).toBeNull()
     })
+
+    describe('with a deploy manifest', () => {
+      // Mock DB answering the manifest lookups from a path -> hash map
+      function createManifestDb(files: Record<string, string>): DbClient {
+        const queryFn = mock(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+          const sql = strings.join('?')
+          if (sql.includes('f.path IN')) {
+            const paths = values.slice(1) as string[]
+            return Object.entries(files)
+              .filter(([path]) => paths.includes(path))
+              .map(([path, hash]) => ({ path, hash, project_id: 'project-1' }))
+          }
+          if (sql.includes('SELECT 1 FROM deploy_files')) {
+            return Object.keys(files).length > 0 ? [{ 1: 1 }] : []
+          }
+          return []
+        })
+        return Object.assign(queryFn, { query: queryFn }) as unknown as DbClient
+      }
+
+      test('resolves clean URLs through the manifest to blobs', async () => {
+        const getMock = mock(async (key: string) =>
+          key === 'blobs/project-1/aaa' ? createMockR2Object('<html>docs</html>') : null
+        )
+        const mockR2 = { get: getMock } as unknown as R2Bucket
+        const db = createManifestDb({ 'docs/index.html': 'aaa', docs: 'bbb' })
+
+        const result = await findFile(mockR2, 'deploy-123', 'docs', db)
+
+        // Logical path for content type, blob key for the lookup
+        expect(result?.key).toBe('deploy-123/docs/index.html')
+        expect(getMock).toHaveBeenCalledTimes(1)
+        expect(getMock.mock.calls[0]![0]).toBe('blobs/project-1/aaa')
+      })
+
+      test('returns null for paths not in the manifest without reading R2', async () => {
+        const getMock = mock(async () => null)
+        const mockR2 = { get: getMock } as unknown as R2Bucket
+        const db = createManifestDb({ 'index.html': 'aaa' })
+
+        const result = await findFile(mockR2, 'deploy-123', 'missing', db)
+
+        expect(result).toBeNull()
+        expect(getMock).not.toHaveBeenCalled()
+      })
+
+      test('falls back to per-deploy keys for deploys without a manifest', async () => {
+        const mockR2 = {
+          get: mock(async (key: string) =>
+            key === 'deploy-123/index.html' ? createMockR2Object('<html>old</html>') : null
+          ),
+        } as unknown as R2Bucket
+
+        const result = await findFile(mockR2, 'deploy-123', '', createManifestDb({}))
+
+        expect(result?.key).toBe('deploy-123/index.html')
+      })
+    })
   })
 
   describe('serveFile', () => {
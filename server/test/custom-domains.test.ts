@@ -0,0 +1,121 @@
+import { describe, test, expect, afterEach } from 'bun:test'
+import {
+  formatProjectDomain,
+  hasVerificationRecord,
+  isReservedHostname,
+  lookupTxtRecords,
+  type ProjectDomainRow,
+} from '../src/lib/custom-domains'
+import type { Env } from '../src/env'
+
+// Helper to create a minimal env for custom domain tests
+function createEnv(overrides: Partial<Env> = {}): Env {
+  return {
+    FILES: {} as R2Bucket,
+    DB: {} as D1Database,
+    D1_DATABASE_ID: '12345678-1234-1234-1234-123456789012',
+    BASE_DOMAIN: 'example.com',
+    APP_SUBDOMAIN: 'app',
+    CONTENT_SUBDOMAIN: 'pages',
+    WWW_PROJECT_ID: '_',
+    BETTER_AUTH_SECRET: 'some-secret-key-that-is-long-enough',
+    AUTH_MODE: 'local',
+    GOOGLE_CLIENT_ID: 'client-id',
+    GOOGLE_CLIENT_SECRET: 'client-secret',
+    CLOUDFLARE_ACCESS_TEAM: '_',
+    ALLOWED_USERS: 'public',
+    MAX_VISIBILITY: 'public',
+    ALLOW_SHARE_TOKENS: 'true',
+    MAX_DEPLOY_SIZE: '10',
+    DEPLOY_RETENTION_COUNT: '_',
+    DEPLOY_RETENTION_DAYS: '_',
+    PROJECT_RETENTION_DAYS: '_',
+    ...overrides,
+  }
+}
+
+const row: ProjectDomainRow = {
+  hostname: 'docs.example.org',
+  project_id: 'project-1',
+  verification_token: 'abc123',
+  verified_at: null,
+  created_at: '2026-01-01 00:00:00',
+}
+
+// Replace fetch with one that answers DNS queries with the given TXT values
+function mockDns(values: string[]) {
+  globalThis.fetch = (async () =>
+    Response.json({
+      Answer: values.map((data) => ({ type: 16, data })),
+    })) as unknown as typeof fetch
+}
+
+describe('isReservedHostname', () => {
+  test("rejects the server's own domains", () => {
+    const env = createEnv()
+    for (const hostname of ['example.com', 'www.example.com', 'app.example.com', 'pages.example.com']) {
+      expect(isReservedHostname(hostname, env)).toBe(true)
+    }
+  })
+
+  test('allows other subdomains and other domains', () => {
+    const env = createEnv()
+    expect(isReservedHostname('docs.example.com', env)).toBe(false)
+    expect(isReservedHostname('docs.example.org', env)).toBe(false)
+  })
+
+  test('ignores the port in a localhost BASE_DOMAIN', () => {
+    const env = createEnv({ BASE_DOMAIN: 'localhost:8787' })
+    expect(isReservedHostname('pages.localhost', env)).toBe(true)
+  })
+})
+
+describe('formatProjectDomain', () => {
+  test('includes the TXT record until the domain is verified', () => {
+    const domain = formatProjectDomain(row, createEnv())
+    expect(domain.is_verified).toBe(false)
+    expect(domain.url).toBe('https://docs.example.org/')
+    expect(domain.verification).toEqual({
+      type: 'TXT',
+      name: '_scratchwork.docs.example.org',
+      value: 'scratchwork-verification=abc123',
+    })
+  })
+
+  test('omits the TXT record once verified', () => {
+    const domain = formatProjectDomain({ ...row, verified_at: '2026-01-02 00:00:00' }, createEnv())
+    expect(domain.is_verified).toBe(true)
+    expect(domain.verification).toBeNull()
+  })
+})
+
+describe('DNS verification', () => {
+  const originalFetch = globalThis.fetch
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+  })
+
+  test('lookupTxtRecords unquotes and joins TXT strings', async () => {
+    mockDns(['"v=spf1 -all"', '"scratchwork-verification=" "abc123"'])
+    expect(await lookupTxtRecords('_scratchwork.docs.example.org')).toEqual([
+      'v=spf1 -all',
+      'scratchwork-verification=abc123',
+    ])
+  })
+
+  test('lookupTxtRecords returns nothing when the lookup fails', async () => {
+    globalThis.fetch = (async () => {
+      throw new Error('network down')
+    }) as unknown as typeof fetch
+    expect(await lookupTxtRecords('_scratchwork.docs.example.org')).toEqual([])
+  })
+
+  test('hasVerificationRecord requires the exact token', async () => {
+    mockDns(['"scratchwork-verification=abc123"'])
+    expect(await hasVerificationRecord(row)).toBe(true)
+
+    mockDns(['"scratchwork-verification=other"'])
+    expect(await hasVerificationRecord(row)).toBe(false)
+  })
+})
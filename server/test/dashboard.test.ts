@@ -0,0 +1,108 @@
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { Database } from 'bun:sqlite'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { dashboardRoutes } from '../src/routes/app/dashboard'
+import type { Env } from '../src/env'
+
+const schema = readFileSync(join(__dirname, '../src/db/schema.d1.sql'), 'utf-8')
+
+// Just enough of D1 for createDbClient, backed by SQLite
+function createD1(sqlite: Database): D1Database {
+  return {
+    prepare: (sql: string) => ({
+      bind: (...values: unknown[]) => ({
+        all: async () => ({ results: sqlite.query(sql).all(...(values as string[])) }),
+      }),
+    }),
+  } as unknown as D1Database
+}
+
+describe('dashboard', () => {
+  let sqlite: Database
+  let env: Env
+
+  function get(path: string, token?: string) {
+    const headers: Record<string, string> = token ? { Authorization: `Bearer ${token}` } : {}
+    return dashboardRoutes.request(path, { headers }, env)
+  }
+
+  beforeEach(() => {
+    sqlite = new Database(':memory:')
+    sqlite.run(schema)
+    sqlite.run(`INSERT INTO user (id, email) VALUES ('alice', 'alice@example.com'), ('bob', 'bob@example.com')`)
+    sqlite.run(`INSERT INTO session (id, user_id, token, expires_at) VALUES
+      ('s1', 'alice', 'alice-token', datetime('now', '+1 day')),
+      ('s2', 'bob', 'bob-token', datetime('now', '+1 day'))`)
+    sqlite.run(`INSERT INTO teams (id, slug, name) VALUES ('t1', 'docs-team', 'Docs')`)
+    sqlite.run(`INSERT INTO team_members (team_id, user_id, role) VALUES ('t1', 'alice', 'owner'), ('t1', 'bob', 'viewer')`)
+    sqlite.run(`INSERT INTO projects (id, name, owner_id, visibility) VALUES ('p1', 'blog', 'alice', 'public')`)
+    sqlite.run(`INSERT INTO projects (id, name, owner_id, team_id, visibility) VALUES ('p2', 'handbook', 'alice', 't1', 'private')`)
+    sqlite.run(`INSERT INTO deploys (id, project_id, version, file_count, total_bytes) VALUES
+      ('d1', 'p2', 1, 3, 2048), ('d2', 'p2', 2, 4, 4096)`)
+    sqlite.run(`UPDATE projects SET live_deploy_id = 'd2' WHERE id = 'p2'`)
+    sqlite.run(`INSERT INTO share_tokens (id, project_id, owner_id, token, name, duration, expires_at) VALUES
+      ('st1', 'p2', 'alice', 'shr_x', 'reviewers', '1w', datetime('now', '+7 days'))`)
+
+    env = {
+      DB: createD1(sqlite),
+      AUTH_MODE: 'cloudflare-access',
+      CLOUDFLARE_ACCESS_TEAM: 'example',
+      BASE_DOMAIN: 'example.com',
+      APP_SUBDOMAIN: 'app',
+      CONTENT_SUBDOMAIN: 'pages',
+      ALLOWED_USERS: '@example.com',
+      ALLOW_SHARE_TOKENS: 'true',
+    } as unknown as Env
+  })
+
+  test('requires a logged-in user', async () => {
+    const res = await get('/')
+    expect(res.status).toBe(401)
+  })
+
+  test('lists personal and team projects with links scoped to the team', async () => {
+    const res = await get('/', 'alice-token')
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Cache-Control')).toBe('private, no-cache')
+    const html = await res.text()
+    expect(html).toContain('href="/dashboard/projects/blog"')
+    expect(html).toContain('href="/dashboard/projects/handbook?team=docs-team"')
+    expect(html).toContain('team docs-team')
+    expect(html).toContain('<td>v2</td>')
+  })
+
+  test('shows deploys, share links and the actions the role allows', async () => {
+    const html = await (await get('/projects/handbook?team=docs-team', 'alice-token')).text()
+    expect(html).toContain('<span class="badge badge-live">live</span>')
+    expect(html).toContain('data-api="/api/projects/handbook/deploys/1/promote?team=docs-team"')
+    expect(html).toContain('data-api="/api/projects/handbook/share-tokens/st1?team=docs-team" data-method="DELETE"')
+    expect(html).toContain('data-api="/api/projects/handbook?team=docs-team" data-method="PATCH"')
+    expect(html).toContain('Delete project')
+  })
+
+  test('viewers see the project without its controls', async () => {
+    const html = await (await get('/projects/handbook?team=docs-team', 'bob-token')).text()
+    expect(html).toContain('v1')
+    expect(html).toContain('reviewers')
+    expect(html).not.toContain('/promote')
+    expect(html).not.toContain('data-method')
+    expect(html).not.toContain('Create link')
+  })
+
+  test('hides share links when they are disabled', async () => {
+    env.ALLOW_SHARE_TOKENS = 'false'
+    const html = await (await get('/projects/handbook?team=docs-team', 'alice-token')).text()
+    expect(html).not.toContain('Share links')
+  })
+
+  test("returns 404 for projects the user can't reach", async () => {
+    expect((await get('/projects/blog', 'bob-token')).status).toBe(404)
+    expect((await get('/projects/missing', 'alice-token')).status).toBe(404)
+  })
+
+  test('denies users outside ALLOWED_USERS', async () => {
+    env.ALLOWED_USERS = 'alice@example.com'
+    expect((await get('/', 'bob-token')).status).toBe(403)
+  })
+})
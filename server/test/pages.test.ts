@@ -1,6 +1,7 @@
-import { describe, test, expect } from 'bun:test'
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
 import type { Env } from '../src/env'
 import { pagesRoutes } from '../src/routes/pages'
+import { parseHeaders, parseRedirects } from '@scratchwork/shared/site-rules'
 
 // Helper to create a minimal env
 function createEnv(overrides: Partial<Env> = {}): Env {
@@ -21,6 +22,9 @@ function createEnv(overrides: Partial<Env> = {}): Env {
     MAX_VISIBILITY: 'public',
     ALLOW_SHARE_TOKENS: 'true',
     MAX_DEPLOY_SIZE: '10',
+    DEPLOY_RETENTION_COUNT: '_',
+    DEPLOY_RETENTION_DAYS: '_',
+    PROJECT_RETENTION_DAYS: '_',
     ...overrides,
   }
 }
@@ -110,6 +114,16 @@ describe('pages routes - URL handling', () => {
       expect(res.headers.get('Location')).toBe('https://pages.example.com/user123/my-project/?token=abc')
     })
 
+    test('redirects /{owner}/{project}/~v{version} to a trailing slash', async () => {
+      const env = createEnv()
+      const req = new Request('https://pages.example.com/user123/my-project/~v12')
+
+      const res = await pagesRoutes.fetch(req, env)
+
+      expect(res.status).toBe(301)
+      expect(res.headers.get('Location')).toBe('https://pages.example.com/user123/my-project/~v12/')
+    })
+
     test('does not redirect paths with trailing slash', async () => {
       const env = createEnv({ DB: createMockDb() })
       const req = new Request('https://pages.example.com/user123/my-project/')
@@ -214,7 +228,7 @@ describe('pages routes - non-existent project handling (security)', () => {
       ['SELECT id FROM "user" WHERE id = ?', [[{ id: userId }]]],
       // Project not found
       [
-        'SELECT p.id, p.name, p.owner_id, u.email as owner_email, p.visibility, p.live_deploy_id FROM projects p JOIN "user" u ON p.owner_id = u.id WHERE p.name = ? AND p.owner_id = ?',
+        'SELECT p.id, p.name, p.owner_id, u.email as owner_email, p.team_id, p.visibility, p.live_deploy_id FROM projects p JOIN "user" u ON p.owner_id = u.id WHERE p.name = ? AND p.owner_id = ? AND p.team_id IS NULL',
         [[]],
       ],
     ])
@@ -298,3 +312,251 @@ describe('pages routes - non-existent project handling (security)', () => {
     expect(syntheticId!.length).toBe(21)
   })
 })
+
+describe('pages routes - deploy version URLs', () => {
+  const projectSql =
+    'SELECT p.id, p.name, p.owner_id, u.email as owner_email, p.team_id, p.visibility, p.live_deploy_id FROM projects p JOIN "user" u ON p.owner_id = u.id WHERE p.name = ? AND p.owner_id = ? AND p.team_id IS NULL'
+  const deploySql = 'SELECT id, redirect_rules, header_rules FROM deploys WHERE project_id = ? AND version = ?'
+
+  // Workers' edge cache isn't available under bun; record any use of it
+  let cacheCalls: string[]
+  beforeEach(() => {
+    cacheCalls = []
+    ;(globalThis as any).caches = {
+      default: {
+        match: async (req: Request) => void cacheCalls.push(`match ${req.url}`),
+        put: async (req: Request) => void cacheCalls.push(`put ${req.url}`),
+      },
+    }
+  })
+  afterEach(() => {
+    delete (globalThis as any).caches
+  })
+
+  function createProjectEnv(visibility: string, deploys: unknown[][]) {
+    const queryResults = new Map<string, unknown[][]>([
+      ['SELECT id FROM "user" WHERE id = ?', [[{ id: 'user-1' }]]],
+      [
+        projectSql,
+        [[{
+          id: 'project-1',
+          name: 'my-project',
+          owner_id: 'user-1',
+          owner_email: 'pete@example.com',
+          team_id: null,
+          visibility,
+          live_deploy_id: 'deploy-live',
+        }]],
+      ],
+      [deploySql, deploys],
+    ])
+    const requestedKeys: string[] = []
+    const files = {
+      get: async (key: string) => {
+        requestedKeys.push(key)
+        return key === 'deploy-12/docs/index.html' ? { body: 'v12 docs', etag: 'abc' } : null
+      },
+    } as unknown as R2Bucket
+    return { env: createEnv({ DB: createMockDb(queryResults), FILES: files }), requestedKeys }
+  }
+
+  test('serves files from the requested deploy instead of the live one', async () => {
+    const { env, requestedKeys } = createProjectEnv('public', [[{ id: 'deploy-12' }]])
+    const req = new Request('https://pages.example.com/user-1/my-project/~v12/docs/')
+
+    const res = await pagesRoutes.fetch(req, env)
+
+    expect(res.status).toBe(200)
+    expect(await res.text()).toBe('v12 docs')
+    expect(requestedKeys.every((key) => key.startsWith('deploy-12/'))).toBe(true)
+    // Version URLs bypass the edge cache entirely
+    expect(cacheCalls).toEqual([])
+  })
+
+  test('returns plain 404 for missing files when the site has no 404 page', async () => {
+    const { env } = createProjectEnv('public', [[{ id: 'deploy-12' }]])
+    const req = new Request('https://pages.example.com/user-1/my-project/~v12/missing/')
+
+    const res = await pagesRoutes.fetch(req, env)
+
+    expect(res.status).toBe(404)
+    expect(await res.text()).toBe('Not Found')
+  })
+
+  test('returns 404 for an unknown version', async () => {
+    const { env } = createProjectEnv('public', [[]])
+    const req = new Request('https://pages.example.com/user-1/my-project/~v99/')
+
+    const res = await pagesRoutes.fetch(req, env)
+
+    expect(res.status).toBe(404)
+  })
+
+  test('requires access to private projects like live URLs', async () => {
+    const { env } = createProjectEnv('private', [[{ id: 'deploy-12' }]])
+    const req = new Request('https://pages.example.com/user-1/my-project/~v12/docs/')
+
+    const res = await pagesRoutes.fetch(req, env)
+
+    expect(res.status).toBe(302)
+    const location = new URL(res.headers.get('Location')!)
+    expect(location.pathname).toBe('/auth/content-access')
+    expect(location.searchParams.get('project_id')).toBe('project-1')
+    expect(location.searchParams.get('return_url')).toBe(req.url)
+  })
+})
+
+const liveDeploySql = 'SELECT id, redirect_rules, header_rules FROM deploys WHERE id = ?'
+
+describe('pages routes - _redirects, _headers and 404 page', () => {
+  const projectSql =
+    'SELECT p.id, p.name, p.owner_id, u.email as owner_email, p.team_id, p.visibility, p.live_deploy_id FROM projects p JOIN "user" u ON p.owner_id = u.id WHERE p.name = ? AND p.owner_id = ? AND p.team_id IS NULL'
+
+  beforeEach(() => {
+    ;(globalThis as any).caches = { default: { match: async () => undefined, put: async () => {} } }
+  })
+  afterEach(() => {
+    delete (globalThis as any).caches
+  })
+
+  function fetchPage(url: string) {
+    const { rules: redirects } = parseRedirects(`
+/old-docs/* /docs/:splat
+/guide https://example.org/guide 302
+/app/* /app/index.html 200
+`)
+    const { rules: headers } = parseHeaders(`
+/docs/*
+  X-Robots-Tag: noindex
+`)
+    const queryResults = new Map<string, unknown[][]>([
+      ['SELECT id FROM "user" WHERE id = ?', [[{ id: 'user-1' }]]],
+      [
+        projectSql,
+        [[{
+          id: 'project-1',
+          name: 'my-project',
+          owner_id: 'user-1',
+          owner_email: 'pete@example.com',
+          team_id: null,
+          visibility: 'public',
+          live_deploy_id: 'deploy-live',
+        }]],
+      ],
+      [
+        liveDeploySql,
+        [[{ id: 'deploy-live', redirect_rules: JSON.stringify(redirects), header_rules: JSON.stringify(headers) }]],
+      ],
+    ])
+    const pages: Record<string, string> = {
+      'deploy-live/docs/intro/index.html': 'intro',
+      'deploy-live/app/index.html': 'app shell',
+      'deploy-live/_redirects': '/old-docs/* /docs/:splat',
+      'deploy-live/404/index.html': 'custom not found',
+    }
+    const files = {
+      get: async (key: string) => (key in pages ? { body: pages[key], etag: 'abc' } : null),
+    } as unknown as R2Bucket
+    const env = createEnv({ DB: createMockDb(queryResults), FILES: files })
+    const ctx = { waitUntil: () => {}, passThroughOnException: () => {} } as unknown as ExecutionContext
+    return pagesRoutes.fetch(new Request(url), env, ctx)
+  }
+
+  test('redirects site paths under the project URL, keeping the query string', async () => {
+    const res = await fetchPage('https://pages.example.com/user-1/my-project/old-docs/intro?ref=nav')
+
+    expect(res.status).toBe(301)
+    expect(res.headers.get('Location')).toBe('/user-1/my-project/docs/intro?ref=nav')
+  })
+
+  test('redirects to external URLs with the rule status', async () => {
+    const res = await fetchPage('https://pages.example.com/user-1/my-project/guide')
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe('https://example.org/guide')
+  })
+
+  test('serves the target of 200 rules at the requested URL', async () => {
+    const res = await fetchPage('https://pages.example.com/user-1/my-project/app/settings/profile')
+
+    expect(res.status).toBe(200)
+    expect(await res.text()).toBe('app shell')
+  })
+
+  test('adds headers from matching _headers rules', async () => {
+    const res = await fetchPage('https://pages.example.com/user-1/my-project/docs/intro/')
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('X-Robots-Tag')).toBe('noindex')
+  })
+
+  test('does not serve the rules files themselves', async () => {
+    const res = await fetchPage('https://pages.example.com/user-1/my-project/_redirects')
+
+    expect(res.status).toBe(404)
+    expect(await res.text()).toBe('custom not found')
+  })
+
+  test("serves the site's own 404 page for missing files", async () => {
+    const res = await fetchPage('https://pages.example.com/user-1/my-project/no/such/page/')
+
+    expect(res.status).toBe(404)
+    expect(res.headers.get('Content-Type')).toContain('text/html')
+    expect(await res.text()).toBe('custom not found')
+  })
+})
+
+describe('pages routes - team projects', () => {
+  const teamSql = 'SELECT id, slug FROM teams WHERE slug = ? OR id = ?'
+  const teamProjectSql =
+    'SELECT p.id, p.name, p.owner_id, u.email as owner_email, p.team_id, p.visibility, p.live_deploy_id FROM projects p JOIN "user" u ON p.owner_id = u.id WHERE p.name = ? AND p.team_id = ?'
+
+  test('serves a team project at /{team-slug}/{project}/ without looking up users', async () => {
+    const queryResults = new Map<string, unknown[][]>([
+      [teamSql, [[{ id: 'team-1', slug: 'design' }]]],
+      [
+        teamProjectSql,
+        [[{
+          id: 'project-1',
+          name: 'specs',
+          owner_id: 'user-1',
+          owner_email: 'pete@example.com',
+          team_id: 'team-1',
+          visibility: 'public',
+          live_deploy_id: 'deploy-live',
+        }]],
+      ],
+      [liveDeploySql, [[{ id: 'deploy-live', redirect_rules: null, header_rules: null }]]],
+      // A user lookup would find someone else's project
+      ['SELECT id FROM "user" WHERE id = ?', [[{ id: 'user-2' }]]],
+    ])
+    const files = {
+      get: async (key: string) => (key === 'deploy-live/index.html' ? { body: 'team specs', etag: 'abc' } : null),
+    } as unknown as R2Bucket
+    ;(globalThis as any).caches = { default: { match: async () => undefined, put: async () => {} } }
+
+    try {
+      const env = createEnv({ DB: createMockDb(queryResults), FILES: files })
+      const ctx = { waitUntil: () => {}, passThroughOnException: () => {} } as unknown as ExecutionContext
+      const res = await pagesRoutes.fetch(new Request('https://pages.example.com/design/specs/'), env, ctx)
+
+      expect(res.status).toBe(200)
+      expect(await res.text()).toBe('team specs')
+    } finally {
+      delete (globalThis as any).caches
+    }
+  })
+
+  test('redirects to auth when the team has no such project', async () => {
+    const queryResults = new Map<string, unknown[][]>([
+      [teamSql, [[{ id: 'team-1', slug: 'design' }]]],
+      [teamProjectSql, [[]]],
+    ])
+
+    const env = createEnv({ DB: createMockDb(queryResults) })
+    const res = await pagesRoutes.fetch(new Request('https://pages.example.com/design/missing/'), env)
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toContain('/auth/content-access')
+  })
+})
@@ -0,0 +1,155 @@
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { Database } from 'bun:sqlite'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { createDbClient, type DbClient } from '../src/db/client'
+import { getProjectForUser, getProjectByIdForUser, projectOwner } from '../src/lib/api-helpers'
+import { getProjectMemberRole, isProjectMember } from '../src/lib/project-members'
+import { canAccessProject } from '../src/lib/visibility'
+import { deployRoutes } from '../src/routes/app/api/deploys'
+import { shareTokenRoutes } from '../src/routes/app/api/share-tokens'
+import type { Env } from '../src/env'
+
+const schema = readFileSync(join(__dirname, '../src/db/schema.d1.sql'), 'utf-8')
+
+// Just enough of D1 for createDbClient, backed by SQLite
+function createD1(sqlite: Database): D1Database {
+  return {
+    prepare: (sql: string) => ({
+      bind: (...values: unknown[]) => ({
+        all: async () => ({ results: sqlite.query(sql).all(...(values as string[])) }),
+      }),
+    }),
+  } as unknown as D1Database
+}
+
+describe('project member access', () => {
+  let sqlite: Database
+  let db: DbClient
+
+  beforeEach(() => {
+    sqlite = new Database(':memory:')
+    sqlite.run(schema)
+    sqlite.run(`INSERT INTO user (id, email) VALUES ('alice', 'alice@example.com'), ('bob', 'bob@example.com'),
+      ('carol', 'carol@example.com'), ('dave', 'dave@example.com')`)
+    // Bob publishes Alice's spec; Carol can only read it
+    sqlite.run(`INSERT INTO projects (id, name, owner_id) VALUES ('spec', 'spec', 'alice')`)
+    sqlite.run(`INSERT INTO project_members (project_id, user_id, role) VALUES
+      ('spec', 'bob', 'publisher'), ('spec', 'carol', 'viewer')`)
+    db = createDbClient(createD1(sqlite))
+  })
+
+  test("members reach the owner's project by the owner's email or ID, with their role", async () => {
+    expect(await getProjectForUser(db, 'spec', 'bob', { owner: 'alice@example.com' })).toMatchObject({
+      id: 'spec',
+      owner_id: 'alice',
+      owner_email: 'alice@example.com',
+      role: 'publisher',
+    })
+    expect(await getProjectForUser(db, 'spec', 'carol', { owner: 'alice' })).toMatchObject({ role: 'viewer' })
+    expect(await getProjectByIdForUser(db, 'spec', 'bob')).toMatchObject({ role: 'publisher' })
+  })
+
+  test('the owner keeps the owner role, with or without an owner scope', async () => {
+    expect(await getProjectForUser(db, 'spec', 'alice')).toMatchObject({ role: 'owner' })
+    expect(await getProjectForUser(db, 'spec', 'alice', { owner: 'Alice@Example.com' })).toMatchObject({
+      role: 'owner',
+    })
+  })
+
+  test("a member's own namespace doesn't include the project", async () => {
+    expect(await getProjectForUser(db, 'spec', 'bob')).toBeNull()
+  })
+
+  test('non-members have no access', async () => {
+    expect(await getProjectForUser(db, 'spec', 'dave', { owner: 'alice@example.com' })).toBeNull()
+    expect(await getProjectByIdForUser(db, 'spec', 'dave')).toBeNull()
+    expect(await isProjectMember(db, { id: 'spec', team_id: null }, 'dave')).toBe(false)
+  })
+
+  test('membership lookups', async () => {
+    expect(await getProjectMemberRole(db, 'spec', 'bob')).toBe('publisher')
+    expect(await getProjectMemberRole(db, 'spec', 'alice')).toBeNull()
+    expect(await isProjectMember(db, { id: 'spec', team_id: null }, 'carol')).toBe(true)
+  })
+
+  test("URLs and cache entries stay under the owner's identity", async () => {
+    const access = await getProjectForUser(db, 'spec', 'bob', { owner: 'alice@example.com' })
+    expect(projectOwner(access!)).toEqual({
+      userId: 'alice',
+      user: { email: 'alice@example.com' },
+      team: null,
+    })
+  })
+})
+
+describe('what project members may change', () => {
+  let sqlite: Database
+  let env: Env
+
+  beforeEach(() => {
+    sqlite = new Database(':memory:')
+    sqlite.run(schema)
+    sqlite.run(`INSERT INTO user (id, email) VALUES ('alice', 'alice@example.com'), ('bob', 'bob@example.com'),
+      ('erin', 'erin@example.com')`)
+    sqlite.run(`INSERT INTO session (id, user_id, token, expires_at) VALUES
+      ('s1', 'bob', 'bob-token', datetime('now', '+1 day')),
+      ('s2', 'erin', 'erin-token', datetime('now', '+1 day'))`)
+    sqlite.run(`INSERT INTO projects (id, name, owner_id, visibility) VALUES ('spec', 'spec', 'alice', 'public')`)
+    sqlite.run(`INSERT INTO project_members (project_id, user_id, role) VALUES
+      ('spec', 'bob', 'publisher'), ('spec', 'erin', 'sharer')`)
+    env = {
+      DB: createD1(sqlite),
+      MAX_VISIBILITY: 'public',
+      BASE_DOMAIN: 'example.com',
+      CONTENT_SUBDOMAIN: 'pages',
+      ALLOW_SHARE_TOKENS: 'true',
+    } as unknown as Env
+  })
+
+  function deploy(path: string, token: string) {
+    const form = new FormData()
+    form.set('manifest', JSON.stringify({ 'index.html': 'a'.repeat(64) }))
+    return deployRoutes.request(path, { method: 'POST', headers: { Authorization: `Bearer ${token}` }, body: form }, env)
+  }
+
+  test("publishers can't rename the project or change its visibility", async () => {
+    const renamed = await deploy('/projects/renamed/deploy?project_id=spec', 'bob-token')
+    expect(renamed.status).toBe(403)
+    expect(await renamed.json()).toMatchObject({ error: 'This action requires the owner role in the project' })
+
+    const hidden = await deploy('/projects/spec/deploy?project_id=spec&visibility=private', 'bob-token')
+    expect(hidden.status).toBe(403)
+    expect(sqlite.query(`SELECT name, visibility FROM projects WHERE id = 'spec'`).get()).toEqual({
+      name: 'spec',
+      visibility: 'public',
+    })
+  })
+
+  test("sharers create share links but can't publish", async () => {
+    const res = await shareTokenRoutes.request(
+      '/projects/spec/share-tokens?owner=alice@example.com',
+      {
+        method: 'POST',
+        headers: { Authorization: 'Bearer erin-token', 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'reviewers', duration: '1w' }),
+      },
+      env
+    )
+    expect(res.status).toBe(201)
+
+    const published = await deploy('/projects/spec/deploy?project_id=spec', 'erin-token')
+    expect(published.status).toBe(403)
+    expect(await published.json()).toMatchObject({ error: 'This action requires the publisher role in the project' })
+  })
+})
+
+describe('canAccessProject for project members', () => {
+  const env = { MAX_VISIBILITY: 'public' } as Env
+  const project = { owner_id: 'alice', team_id: null, visibility: 'private' }
+
+  test('members can see private content', () => {
+    expect(canAccessProject('bob@example.com', 'bob', project, env, true)).toBe(true)
+    expect(canAccessProject('dave@example.com', 'dave', project, env, false)).toBe(false)
+  })
+})
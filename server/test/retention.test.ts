@@ -0,0 +1,134 @@
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { Database } from 'bun:sqlite'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import {
+  expiredDeploysQuery,
+  expiredProjectsQuery,
+  parseRetentionPolicy,
+  type RetentionPolicy,
+} from '../src/lib/retention-policy'
+
+const schema = readFileSync(join(__dirname, '../src/db/schema.d1.sql'), 'utf-8')
+
+function policy(overrides: Partial<RetentionPolicy> = {}): RetentionPolicy {
+  return { deployCount: null, deployDays: null, projectDays: null, exemptProjectIds: [], ...overrides }
+}
+
+describe('parseRetentionPolicy', () => {
+  test('treats _ and empty values as disabled', () => {
+    expect(
+      parseRetentionPolicy({
+        DEPLOY_RETENTION_COUNT: '_',
+        DEPLOY_RETENTION_DAYS: '',
+        PROJECT_RETENTION_DAYS: undefined,
+        WWW_PROJECT_ID: '_',
+      })
+    ).toEqual(policy())
+  })
+
+  test('reads limits and exempts the www project', () => {
+    expect(
+      parseRetentionPolicy({
+        DEPLOY_RETENTION_COUNT: '10',
+        DEPLOY_RETENTION_DAYS: '90',
+        PROJECT_RETENTION_DAYS: '30',
+        WWW_PROJECT_ID: 'www-id',
+      })
+    ).toEqual(policy({ deployCount: 10, deployDays: 90, projectDays: 30, exemptProjectIds: ['www-id'] }))
+  })
+
+  test('rejects values that are not positive whole numbers', () => {
+    for (const value of ['0', '-1', '2.5', 'ten']) {
+      expect(() =>
+        parseRetentionPolicy({
+          DEPLOY_RETENTION_COUNT: value,
+          DEPLOY_RETENTION_DAYS: '_',
+          PROJECT_RETENTION_DAYS: '_',
+          WWW_PROJECT_ID: '_',
+        })
+      ).toThrow('DEPLOY_RETENTION_COUNT must be a positive whole number or _')
+    }
+  })
+})
+
+describe('retention queries', () => {
+  let db: Database
+
+  // Add a project created daysAgo with one deploy per entry of deployAges (days ago, oldest first)
+  function addProject(id: string, daysAgo: number, deployAges: number[], liveVersion?: number) {
+    db.run(`INSERT INTO projects (id, name, owner_id, created_at) VALUES (?, ?, 'u1', datetime('now', ?))`, [
+      id,
+      `${id}-site`,
+      `-${daysAgo} days`,
+    ])
+    deployAges.forEach((age, i) => {
+      db.run(
+        `INSERT INTO deploys (id, project_id, version, file_count, total_bytes, created_at)
+         VALUES (?, ?, ?, 1, 100, datetime('now', ?))`,
+        [`${id}-v${i + 1}`, id, i + 1, `-${age} days`]
+      )
+    })
+    if (liveVersion !== undefined) {
+      db.run(`UPDATE projects SET live_deploy_id = ? WHERE id = ?`, [`${id}-v${liveVersion}`, id])
+    }
+  }
+
+  function run<T>(sql: string | null): T[] {
+    expect(sql).not.toBeNull()
+    return db.query(sql!).all() as T[]
+  }
+
+  beforeEach(() => {
+    db = new Database(':memory:')
+    db.exec(schema)
+    db.run(`INSERT INTO user (id, email) VALUES ('u1', 'a@example.com')`)
+  })
+
+  test('queries are null when their rules are disabled', () => {
+    expect(expiredProjectsQuery(policy())).toBeNull()
+    expect(expiredDeploysQuery(policy())).toBeNull()
+  })
+
+  test('expires projects older than the limit, except exempt ones', () => {
+    addProject('old', 40, [40, 35])
+    addProject('new', 5, [5])
+    addProject('www', 40, [40])
+
+    const rows = run<{ id: string; deploy_count: number; total_bytes: number }>(
+      expiredProjectsQuery(policy({ projectDays: 30, exemptProjectIds: ['www'] }))
+    )
+    expect(rows.map((r) => [r.id, r.deploy_count, r.total_bytes])).toEqual([['old', 2, 200]])
+  })
+
+  test('keeps the newest deploys per project and always the live one', () => {
+    addProject('p', 1, [5, 4, 3, 2, 1], 1)
+
+    const rows = run<{ version: number; reason: string }>(expiredDeploysQuery(policy({ deployCount: 2 })))
+    expect(rows.map((r) => [r.version, r.reason])).toEqual([
+      [2, 'count'],
+      [3, 'count'],
+    ])
+  })
+
+  test('deletes deploys older than the age limit', () => {
+    addProject('p', 100, [100, 60, 10], 3)
+    addProject('q', 100, [100], 1)
+
+    const rows = run<{ id: string; reason: string }>(
+      expiredDeploysQuery(policy({ deployCount: 5, deployDays: 30 }))
+    )
+    expect(rows.map((r) => [r.id, r.reason])).toEqual([
+      ['p-v1', 'age'],
+      ['p-v2', 'age'],
+    ])
+  })
+
+  test('leaves deploys of expiring projects to project expiry', () => {
+    addProject('old', 40, [40, 35])
+    addProject('kept', 5, [5, 4, 3])
+
+    const rows = run<{ id: string }>(expiredDeploysQuery(policy({ deployCount: 1, projectDays: 30 })))
+    expect(rows.map((r) => r.id)).toEqual(['kept-v1', 'kept-v2'])
+  })
+})
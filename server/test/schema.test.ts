@@ -1,5 +1,6 @@
 import { describe, test, expect } from 'bun:test'
-import { readFileSync } from 'fs'
+import { Database } from 'bun:sqlite'
+import { readFileSync, readdirSync } from 'fs'
 import { join } from 'path'
 
 // Read the schema file
@@ -13,8 +14,14 @@ const REQUIRED_TABLES = [
   'account',
   'verification',
   'projects',
+  'project_members',
+  'teams',
+  'team_members',
   'deploys',
+  'deploy_files',
   'share_tokens',
+  'project_domains',
+  'retention_runs',
   'apikey',
 ] as const
 
@@ -38,9 +45,9 @@ describe('schema.d1.sql', () => {
       const tableMatches = schemaContent.match(/CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?/gi)
       const tableCount = tableMatches?.length ?? 0
 
-      // We expect 8 required tables plus device_code (9 total)
+      // We expect 14 required tables plus device_code (15 total)
       // If this changes, update REQUIRED_TABLES or this count
-      expect(tableCount).toBe(9)
+      expect(tableCount).toBe(15)
     })
   })
 
@@ -124,4 +131,55 @@ describe('schema.d1.sql', () => {
       expect(schemaContent).toMatch(/CREATE\s+INDEX\s+(?:IF\s+NOT\s+EXISTS\s+)?\w*apikey.*ON\s+apikey\s*\(\s*key\s*\)/i)
     })
   })
+
+  describe('migrations', () => {
+    const migrationsDir = join(__dirname, '../src/db/migrations')
+
+    test('upgrade an existing database to the current schema', () => {
+      // The projects table and name index as they were before teams
+      const db = new Database(':memory:')
+      db.run(`CREATE TABLE user (id TEXT PRIMARY KEY, email TEXT UNIQUE NOT NULL)`)
+      db.run(`CREATE TABLE projects (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        owner_id TEXT NOT NULL REFERENCES user(id) ON DELETE CASCADE,
+        live_deploy_id TEXT,
+        visibility TEXT NOT NULL DEFAULT 'public',
+        created_at TEXT DEFAULT (datetime('now')),
+        updated_at TEXT DEFAULT (datetime('now'))
+      )`)
+      db.run(`CREATE UNIQUE INDEX idx_projects_name_owner ON projects(name, owner_id)`)
+      db.run(`CREATE TABLE deploys (
+        id TEXT PRIMARY KEY,
+        project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        file_count INTEGER NOT NULL,
+        total_bytes INTEGER NOT NULL,
+        created_at TEXT DEFAULT (datetime('now')),
+        UNIQUE(project_id, version)
+      )`)
+
+      for (const file of readdirSync(migrationsDir).sort()) {
+        db.run(readFileSync(join(migrationsDir, file), 'utf-8'))
+      }
+      db.run(schemaContent)
+
+      // A user's personal project and their team's project can share a name
+      db.run(`INSERT INTO user (id, email) VALUES ('u1', 'pete@example.com')`)
+      db.run(`INSERT INTO teams (id, slug, name) VALUES ('t1', 'design', 'Design')`)
+      db.run(`INSERT INTO projects (id, name, owner_id) VALUES ('p1', 'specs', 'u1')`)
+      db.run(`INSERT INTO projects (id, name, owner_id, team_id) VALUES ('p2', 'specs', 'u1', 't1')`)
+      expect(() => db.run(`INSERT INTO projects (id, name, owner_id) VALUES ('p3', 'specs', 'u1')`)).toThrow(
+        'UNIQUE constraint failed'
+      )
+      expect(() =>
+        db.run(`INSERT INTO projects (id, name, owner_id, team_id) VALUES ('p4', 'specs', 'u1', 't1')`)
+      ).toThrow('UNIQUE constraint failed')
+
+      // Deploys gained columns for their _redirects and _headers rules
+      const deployColumns = db.query(`PRAGMA table_info(deploys)`).all() as { name: string }[]
+      expect(deployColumns.map((c) => c.name)).toContain('redirect_rules')
+      expect(deployColumns.map((c) => c.name)).toContain('header_rules')
+    })
+  })
 })
@@ -21,6 +21,9 @@ function createEnv(overrides: Partial<Env> = {}): Env {
     MAX_VISIBILITY: 'public',
     ALLOW_SHARE_TOKENS: 'false',
     MAX_DEPLOY_SIZE: '10',
+    DEPLOY_RETENTION_COUNT: '_',
+    DEPLOY_RETENTION_DAYS: '_',
+    PROJECT_RETENTION_DAYS: '_',
     ...overrides,
   }
 }
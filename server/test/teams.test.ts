@@ -0,0 +1,143 @@
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { Database } from 'bun:sqlite'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { hasTeamRole } from '@scratchwork/shared/api'
+import { createDbClient, type DbClient } from '../src/db/client'
+import { getProjectForUser, getProjectByIdForUser } from '../src/lib/api-helpers'
+import { deployRoutes } from '../src/routes/app/api/deploys'
+import { getTeamForUser, getTeamRole, findTeam, isLastOwner } from '../src/lib/teams'
+import { canAccessProject } from '../src/lib/visibility'
+import type { Env } from '../src/env'
+
+const schema = readFileSync(join(__dirname, '../src/db/schema.d1.sql'), 'utf-8')
+
+// Just enough of D1 for createDbClient, backed by SQLite
+function createD1(sqlite: Database): D1Database {
+  return {
+    prepare: (sql: string) => ({
+      bind: (...values: unknown[]) => ({
+        all: async () => ({ results: sqlite.query(sql).all(...(values as string[])) }),
+      }),
+    }),
+  } as unknown as D1Database
+}
+
+describe('hasTeamRole', () => {
+  test('higher roles include lower ones', () => {
+    expect(hasTeamRole('owner', 'publisher')).toBe(true)
+    expect(hasTeamRole('publisher', 'publisher')).toBe(true)
+    expect(hasTeamRole('viewer', 'publisher')).toBe(false)
+    expect(hasTeamRole('publisher', 'owner')).toBe(false)
+  })
+
+  test("project members' sharer role sits between viewer and publisher", () => {
+    expect(hasTeamRole('sharer', 'viewer')).toBe(true)
+    expect(hasTeamRole('sharer', 'publisher')).toBe(false)
+    expect(hasTeamRole('publisher', 'sharer')).toBe(true)
+  })
+})
+
+describe('project access', () => {
+  let sqlite: Database
+  let db: DbClient
+
+  beforeEach(() => {
+    sqlite = new Database(':memory:')
+    sqlite.run(schema)
+    sqlite.run(`INSERT INTO user (id, email) VALUES ('alice', 'alice@example.com'), ('bob', 'bob@example.com'),
+      ('carol', 'carol@example.com'), ('dave', 'dave@example.com')`)
+    sqlite.run(`INSERT INTO teams (id, slug, name) VALUES ('t1', 'design', 'Design')`)
+    sqlite.run(`INSERT INTO team_members (team_id, user_id, role) VALUES
+      ('t1', 'alice', 'owner'), ('t1', 'bob', 'publisher'), ('t1', 'carol', 'viewer')`)
+    // Alice has a personal project and created a team project with the same name
+    sqlite.run(`INSERT INTO projects (id, name, owner_id) VALUES ('personal', 'specs', 'alice')`)
+    sqlite.run(`INSERT INTO projects (id, name, owner_id, team_id) VALUES ('shared', 'specs', 'alice', 't1')`)
+    db = createDbClient(createD1(sqlite))
+  })
+
+  test('personal projects are only reachable by their owner', async () => {
+    expect(await getProjectForUser(db, 'specs', 'alice')).toMatchObject({ id: 'personal', role: 'owner' })
+    expect(await getProjectForUser(db, 'specs', 'bob')).toBeNull()
+    expect(await getProjectByIdForUser(db, 'personal', 'bob')).toBeNull()
+  })
+
+  test('team projects are reachable by every member, with their role', async () => {
+    expect(await getProjectForUser(db, 'specs', 'alice', { team: 'design' })).toMatchObject({ id: 'shared', role: 'owner' })
+    expect(await getProjectForUser(db, 'specs', 'bob', { team: 'design' })).toMatchObject({
+      id: 'shared',
+      team_id: 't1',
+      team_slug: 'design',
+      role: 'publisher',
+    })
+    expect(await getProjectByIdForUser(db, 'shared', 'carol')).toMatchObject({ role: 'viewer' })
+  })
+
+  test('team projects are not reachable by non-members, including by ID', async () => {
+    expect(await getProjectForUser(db, 'specs', 'dave', { team: 'design' })).toBeNull()
+    expect(await getProjectByIdForUser(db, 'shared', 'dave')).toBeNull()
+  })
+
+  test("a removed member loses access to projects they created", async () => {
+    sqlite.run(`DELETE FROM team_members WHERE user_id = 'alice'`)
+    expect(await getProjectByIdForUser(db, 'shared', 'alice')).toBeNull()
+    expect(await getTeamRole(db, 't1', 'alice')).toBeNull()
+  })
+
+  test('publishers deploy by project ID but only owners rename the project', async () => {
+    sqlite.run(`INSERT INTO session (id, user_id, token, expires_at) VALUES
+      ('s1', 'bob', 'bob-token', datetime('now', '+1 day'))`)
+    const env = { DB: createD1(sqlite), MAX_VISIBILITY: 'public' } as unknown as Env
+    const form = new FormData()
+    form.set('manifest', JSON.stringify({ 'index.html': 'a'.repeat(64) }))
+
+    const res = await deployRoutes.request(
+      '/projects/renamed/deploy?project_id=shared',
+      { method: 'POST', headers: { Authorization: 'Bearer bob-token' }, body: form },
+      env
+    )
+    expect(res.status).toBe(403)
+    expect(await res.json()).toEqual({
+      error: 'This action requires the owner role in the project',
+      code: 'TEAM_ROLE_REQUIRED',
+    })
+    expect(sqlite.query(`SELECT name FROM projects WHERE id = 'shared'`).get()).toEqual({ name: 'specs' })
+  })
+
+  test('getTeamForUser includes the role and counts', async () => {
+    expect(await getTeamForUser(db, 'design', 'carol')).toMatchObject({
+      slug: 'design',
+      role: 'viewer',
+      member_count: 3,
+      project_count: 1,
+    })
+    expect(await getTeamForUser(db, 'design', 'dave')).toBeNull()
+  })
+
+  test('findTeam matches the slug or the team ID', async () => {
+    expect(await findTeam(db, 'design')).toEqual({ id: 't1', slug: 'design' })
+    expect(await findTeam(db, 't1')).toEqual({ id: 't1', slug: 'design' })
+    expect(await findTeam(db, 'alice')).toBeNull()
+  })
+
+  test('isLastOwner is true only for a sole owner', async () => {
+    expect(await isLastOwner(db, 't1', 'alice')).toBe(true)
+    expect(await isLastOwner(db, 't1', 'bob')).toBe(false)
+
+    sqlite.run(`UPDATE team_members SET role = 'owner' WHERE user_id = 'bob'`)
+    expect(await isLastOwner(db, 't1', 'alice')).toBe(false)
+  })
+})
+
+describe('canAccessProject for team projects', () => {
+  const env = { MAX_VISIBILITY: 'public' } as Env
+  const project = { owner_id: 'alice', team_id: 't1', visibility: 'private' }
+
+  test('members can see private content', () => {
+    expect(canAccessProject('bob@example.com', 'bob', project, env, true)).toBe(true)
+  })
+
+  test("the creator has no special access once they're no longer a member", () => {
+    expect(canAccessProject('alice@example.com', 'alice', project, env, false)).toBe(false)
+  })
+})
@@ -1,11 +1,35 @@
 import { z } from 'zod'
 
+// Deploy manifest: file path -> SHA-256 (lowercase hex) of the file's contents
+export const deployManifestSchema = z.record(z.string(), z.string().regex(/^[a-f0-9]{64}$/))
+
+export type DeployManifest = z.infer<typeof deployManifestSchema>
+
+// Deploy check request body
+// POST /api/projects/:name/deploy/check
+//
+// Returns the manifest hashes the server doesn't have yet (see DeployCheckResponse)
+export const deployCheckRequestSchema = z.object({
+  manifest: deployManifestSchema,
+  // Project ID from local config - enables rename detection
+  project_id: z.string().optional(),
+  // Team slug, for team projects
+  team: z.string().optional(),
+  // Owner's email or user ID, for another user's project the caller is a member of
+  owner: z.string().optional(),
+})
+
+export type DeployCheckRequest = z.infer<typeof deployCheckRequestSchema>
+
 // Deploy request query parameters
 // POST /api/projects/:name/deploy
 //
 // URL path: name (project name)
-// Query params: visibility
-// Body: zip file (application/zip)
+// Query params: visibility, project_id, team, owner, www, preview, version
+// Body: multipart/form-data with fields
+//   manifest: JSON DeployManifest
+//   blobs: zip of the missing files, each named by its hash (omitted if none)
+// Older clients send the whole site as a zip file (application/zip) instead
 
 export const deployCreateQuerySchema = z.object({
   // Project visibility (defaults to 'public' for new projects)
@@ -17,9 +41,18 @@ export const deployCreateQuerySchema = z.object({
   ]).optional(),
   // Project ID from local config - enables rename detection
   project_id: z.string().optional(),
+  // Team slug - deploy to (or create) the team's project instead of a personal one
+  team: z.string().optional(),
+  // Owner's email or user ID - deploy to another user's project the caller is a member of
+  owner: z.string().optional(),
   // WWW mode - deploy this project to be served at the naked domain
   // Server validates that WWW_PROJECT_ID matches this project (if configured)
   www: z.coerce.boolean().optional(),
+  // Preview mode - upload the deploy without making it live
+  preview: z.coerce.boolean().optional(),
+  // Version the client built for (preview builds bake ~v{version} into their
+  // base path); the deploy is rejected if the next version differs
+  version: z.coerce.number().int().positive().optional(),
 })
 
 export type DeployCreateQuery = z.infer<typeof deployCreateQuerySchema>
@@ -34,6 +67,14 @@ export interface DeployCreateParams {
   visibility?: string
   // Project ID from local config - enables rename detection
   project_id?: string
+  // Team slug (query parameter), for team projects
+  team?: string
+  // Owner's email or user ID (query parameter), for projects the user is a member of
+  owner?: string
   // WWW mode - deploy to be served at the naked domain
   www?: boolean
+  // Preview mode - don't make the deploy live
+  preview?: boolean
+  // Expected version number of the new deploy
+  version?: number
 }
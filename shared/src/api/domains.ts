@@ -0,0 +1,37 @@
+import { z } from 'zod'
+
+// Add request schema (hostname is normalized and validated by the server)
+export const domainCreateRequestSchema = z.object({
+  hostname: z.string().min(1).max(253),
+})
+export type DomainCreateRequest = z.infer<typeof domainCreateRequestSchema>
+
+// DNS record that proves control of a domain
+export interface DomainVerificationRecord {
+  type: 'TXT'
+  name: string
+  value: string
+}
+
+// Custom domain attached to a project
+export interface ProjectDomain {
+  hostname: string
+  project_id: string
+  // Verified domains serve the project at their root
+  is_verified: boolean
+  verified_at: string | null
+  // Only present until the domain is verified
+  verification: DomainVerificationRecord | null
+  url: string
+  created_at: string
+}
+
+// Response for listing a project's domains
+export interface DomainListResponse {
+  domains: ProjectDomain[]
+}
+
+// Response for single domain operations (add, verify)
+export interface DomainResponse {
+  domain: ProjectDomain
+}
@@ -28,6 +28,12 @@ export const ErrorCodes = {
   INVALID_PATH: 'INVALID_PATH',
   SYMLINK_NOT_ALLOWED: 'SYMLINK_NOT_ALLOWED',
   EMPTY_DEPLOY: 'EMPTY_DEPLOY',
+  INVALID_MANIFEST: 'INVALID_MANIFEST',
+  MISSING_BLOBS: 'MISSING_BLOBS',
+  BLOB_HASH_MISMATCH: 'BLOB_HASH_MISMATCH',
+  DEPLOY_NOT_FOUND: 'DEPLOY_NOT_FOUND',
+  DEPLOY_VERSION_INVALID: 'DEPLOY_VERSION_INVALID',
+  DEPLOY_VERSION_CONFLICT: 'DEPLOY_VERSION_CONFLICT',
 
   // General errors
   INVALID_REQUEST: 'INVALID_REQUEST',
@@ -39,6 +45,28 @@ export const ErrorCodes = {
   SHARE_TOKEN_NAME_INVALID: 'SHARE_TOKEN_NAME_INVALID',
   SHARE_TOKEN_DURATION_INVALID: 'SHARE_TOKEN_DURATION_INVALID',
   SHARE_TOKEN_ALREADY_REVOKED: 'SHARE_TOKEN_ALREADY_REVOKED',
+
+  // Custom domain errors
+  DOMAIN_INVALID: 'DOMAIN_INVALID',
+  DOMAIN_RESERVED: 'DOMAIN_RESERVED',
+  DOMAIN_TAKEN: 'DOMAIN_TAKEN',
+  DOMAIN_NOT_FOUND: 'DOMAIN_NOT_FOUND',
+  DOMAIN_LIMIT_EXCEEDED: 'DOMAIN_LIMIT_EXCEEDED',
+  DOMAIN_VERIFICATION_FAILED: 'DOMAIN_VERIFICATION_FAILED',
+
+  // Team errors
+  TEAM_SLUG_INVALID: 'TEAM_SLUG_INVALID',
+  TEAM_SLUG_TAKEN: 'TEAM_SLUG_TAKEN',
+  TEAM_NOT_FOUND: 'TEAM_NOT_FOUND',
+  TEAM_NOT_EMPTY: 'TEAM_NOT_EMPTY',
+  TEAM_MEMBER_NOT_FOUND: 'TEAM_MEMBER_NOT_FOUND',
+  TEAM_LAST_OWNER: 'TEAM_LAST_OWNER',
+  TEAM_ROLE_REQUIRED: 'TEAM_ROLE_REQUIRED',
+  USER_NOT_FOUND: 'USER_NOT_FOUND',
+
+  // Project member errors
+  PROJECT_MEMBER_NOT_FOUND: 'PROJECT_MEMBER_NOT_FOUND',
+  PROJECT_MEMBERS_IN_TEAM: 'PROJECT_MEMBERS_IN_TEAM',
 } as const
 
 export type ErrorCode = typeof ErrorCodes[keyof typeof ErrorCodes]
@@ -4,4 +4,7 @@ export * from './responses'
 export * from './errors'
 export * from './device'
 export * from './share-tokens'
+export * from './domains'
+export * from './teams'
+export * from './project-members'
 export * from './deploys'
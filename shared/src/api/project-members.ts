@@ -0,0 +1,35 @@
+import { z } from 'zod'
+
+// Roles a project owner can grant on a personal project (see projectRoles)
+// - viewer: can see the project, its deploys and private content
+// - sharer: can also create and revoke share tokens
+// - publisher: can also deploy, roll back, and manage domains
+// Changing visibility, renaming or deleting the project and managing its
+// members stay with the owner.
+export const projectMemberRoles = ['viewer', 'sharer', 'publisher'] as const
+export type ProjectMemberRole = (typeof projectMemberRoles)[number]
+
+// Add a member, or change an existing member's role
+export const projectMemberRequestSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(projectMemberRoles),
+})
+export type ProjectMemberRequest = z.infer<typeof projectMemberRequestSchema>
+
+export interface ProjectMember {
+  user_id: string
+  email: string
+  name: string | null
+  role: ProjectMemberRole
+  created_at: string
+}
+
+// Response for listing a project's members
+export interface ProjectMemberListResponse {
+  members: ProjectMember[]
+}
+
+// Response for single member operations (add, change role)
+export interface ProjectMemberResponse {
+  member: ProjectMember
+}
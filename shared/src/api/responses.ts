@@ -1,6 +1,8 @@
 // API Response Types
 // These match the actual JSON responses from the server
 
+import type { ProjectRole } from './teams'
+
 // User
 export interface User {
   id: string
@@ -15,8 +17,8 @@ export interface UserResponse {
 
 // Project URLs
 export interface ProjectUrls {
-  primary: string  // Short URL (local-part) when single domain, or email URL
-  byId: string     // User ID URL (always works)
+  primary: string  // Team slug URL for team projects; else local-part (single domain) or email URL
+  byId: string     // User ID (or team ID) URL (always works)
   www?: string     // WWW/root domain URL (only when www mode is requested and configured)
 }
 
@@ -25,6 +27,11 @@ export interface Project {
   id: string
   name: string
   owner_id: string
+  owner_email: string
+  // Team the project belongs to (null for personal projects)
+  team: { id: string; slug: string } | null
+  // The requesting user's role (owner, or a project member's role, for personal projects)
+  role: ProjectRole
   live_version: number | null
   deploy_count: number
   visibility: string
@@ -56,12 +63,27 @@ export interface DeployListResponse {
   deploys: Deploy[]
 }
 
+// Deploy check response (POST /api/projects/:name/deploy/check)
+export interface DeployCheckResponse {
+  // Hashes to upload with the deploy
+  missing: string[]
+}
+
+// Deploy promote response (POST /api/projects/:name/deploys/:version/promote)
+export interface DeployPromoteResponse {
+  deploy: Deploy
+  // Version that was live before, or null if the project had no live deploy
+  previous_version: number | null
+}
+
 // Deploy create response (POST /api/projects/:name/deploy)
 export interface DeployCreateResponse {
   deploy: {
     id: string
     project_id: string
     version: number
+    // False for preview deploys
+    is_live: boolean
     file_count: number
     total_bytes: number
     created_at: string
@@ -70,8 +92,14 @@ export interface DeployCreateResponse {
     id: string
     name: string
     created: boolean
+    // Slug of the team the project belongs to (null for personal projects)
+    team: string | null
   }
   urls: ProjectUrls
+  // URL that always serves this deploy (/{owner}/{project}/~v{version}/)
+  version_url: string
+  // URLs of the project's verified custom domains
+  domain_urls: string[]
   // WWW mode info (only present when www=true in request)
   www?: {
     // Whether server's WWW_PROJECT_ID is configured for this project
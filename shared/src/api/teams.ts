@@ -0,0 +1,78 @@
+import { z } from 'zod'
+
+// Team roles, from least to most access
+// - viewer: can see the team's projects, deploys and private content
+// - publisher: can also deploy, roll back, and manage share tokens, domains and visibility
+// - owner: can also delete projects and manage the team and its members
+export const teamRoles = ['viewer', 'publisher', 'owner'] as const
+export type TeamRole = (typeof teamRoles)[number]
+
+// Roles in a project, from least to most access: the team roles, plus sharer,
+// which only members of a personal project have (see projectMemberRoles)
+export const projectRoles = ['viewer', 'sharer', 'publisher', 'owner'] as const
+export type ProjectRole = (typeof projectRoles)[number]
+
+// Whether a role includes everything the required role can do
+export function hasTeamRole(role: ProjectRole, required: ProjectRole): boolean {
+  return projectRoles.indexOf(role) >= projectRoles.indexOf(required)
+}
+
+// Role needed to change who can see a project: team publishers can, while a
+// personal project's visibility stays with its owner
+export function visibilityRole(inTeam: boolean): ProjectRole {
+  return inTeam ? 'publisher' : 'owner'
+}
+
+// Create request schema (slug is validated by the server, see validateTeamSlug)
+export const teamCreateRequestSchema = z.object({
+  slug: z.string().min(1).max(63),
+  name: z.string().min(1).max(100).optional(),
+})
+export type TeamCreateRequest = z.infer<typeof teamCreateRequestSchema>
+
+// Add a member, or change an existing member's role
+export const teamMemberRequestSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(teamRoles),
+})
+export type TeamMemberRequest = z.infer<typeof teamMemberRequestSchema>
+
+// Team, as seen by one of its members
+export interface Team {
+  id: string
+  slug: string
+  name: string
+  // The requesting user's role
+  role: TeamRole
+  member_count: number
+  project_count: number
+  created_at: string
+}
+
+export interface TeamMember {
+  user_id: string
+  email: string
+  name: string | null
+  role: TeamRole
+  created_at: string
+}
+
+// Response for listing the teams the user belongs to
+export interface TeamListResponse {
+  teams: Team[]
+}
+
+// Response for single team operations (create)
+export interface TeamResponse {
+  team: Team
+}
+
+// Response for listing a team's members
+export interface TeamMemberListResponse {
+  members: TeamMember[]
+}
+
+// Response for single member operations (add, change role)
+export interface TeamMemberResponse {
+  member: TeamMember
+}
@@ -13,6 +13,7 @@ export {
 // Project validation and URL utilities
 export {
   validateProjectName,
+  validateTeamSlug,
   getEmailLocalPart,
   getEmailDomain,
   isSingleDomainAllowedUsers,
@@ -24,5 +25,15 @@ export {
   type ParsedPagePath,
 } from './project'
 
+// _redirects and _headers files
+export {
+  parseRedirects,
+  parseHeaders,
+  matchRedirect,
+  matchHeaders,
+  type RedirectRule,
+  type HeaderRule,
+} from './site-rules'
+
 // API types
 export * from './api'
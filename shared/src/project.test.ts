@@ -1,11 +1,16 @@
 import { describe, expect, test } from 'bun:test'
 import {
   validateProjectName,
+  validateTeamSlug,
   getEmailLocalPart,
   getEmailDomain,
   isSingleDomainAllowedUsers,
   buildProjectUrls,
   parsePagePath,
+  buildDeployVersionUrl,
+  parseDeployVersionPath,
+  normalizeHostname,
+  domainVerificationRecordName,
 } from './project'
 
 describe('validateProjectName', () => {
@@ -34,6 +39,19 @@ describe('validateProjectName', () => {
   })
 })
 
+describe('validateTeamSlug', () => {
+  test('accepts slugs that are valid project names', () => {
+    expect(validateTeamSlug('design').valid).toBe(true)
+    expect(validateTeamSlug('platform-team').valid).toBe(true)
+  })
+
+  test('rejects invalid and reserved slugs', () => {
+    expect(validateTeamSlug('Design').valid).toBe(false)
+    expect(validateTeamSlug('ab').valid).toBe(false)
+    expect(validateTeamSlug('admin').error).toBe('This team slug is reserved')
+  })
+})
+
 describe('getEmailLocalPart', () => {
   test('extracts local part from email', () => {
     expect(getEmailLocalPart('pete@mydomain.com')).toBe('pete')
@@ -183,6 +201,20 @@ describe('buildProjectUrls', () => {
 
     expect(urls.www).toBe('https://scratchwork.dev/')
   })
+
+  test('team projects are served under the team, not the owner', () => {
+    const urls = buildProjectUrls({
+      pagesDomain: 'pages.scratchwork.dev',
+      projectName: 'specs',
+      ownerId: 'user123',
+      ownerEmail: 'pete@mydomain.com',
+      allowedUsers: '@mydomain.com',
+      team: { id: 'team456', slug: 'design' },
+    })
+
+    expect(urls.primary).toBe('https://pages.scratchwork.dev/design/specs/')
+    expect(urls.byId).toBe('https://pages.scratchwork.dev/team456/specs/')
+  })
 })
 
 describe('parsePagePath', () => {
@@ -219,3 +251,61 @@ describe('parsePagePath', () => {
     expect(parsePagePath('')).toBe(null)
   })
 })
+
+describe('buildDeployVersionUrl', () => {
+  test('appends the version segment to the project URL', () => {
+    expect(buildDeployVersionUrl('https://pages.example.com/pete/my-app/', 12)).toBe(
+      'https://pages.example.com/pete/my-app/~v12/'
+    )
+    expect(buildDeployVersionUrl('https://pages.example.com/pete/my-app', 3)).toBe(
+      'https://pages.example.com/pete/my-app/~v3/'
+    )
+  })
+})
+
+describe('parseDeployVersionPath', () => {
+  test('splits off the version segment', () => {
+    expect(parseDeployVersionPath('~v12/docs/index.html')).toEqual({ version: 12, filePath: 'docs/index.html' })
+    expect(parseDeployVersionPath('~v3/')).toEqual({ version: 3, filePath: '' })
+    expect(parseDeployVersionPath('~v3')).toEqual({ version: 3, filePath: '' })
+  })
+
+  test('returns null for other paths', () => {
+    expect(parseDeployVersionPath('')).toBe(null)
+    expect(parseDeployVersionPath('docs/~v3/index.html')).toBe(null)
+    expect(parseDeployVersionPath('~v0/')).toBe(null)
+    expect(parseDeployVersionPath('~vlatest/')).toBe(null)
+  })
+})
+
+describe('normalizeHostname', () => {
+  test('lowercases and strips a trailing dot', () => {
+    expect(normalizeHostname('Docs.Example.COM')).toBe('docs.example.com')
+    expect(normalizeHostname(' docs.example.com. ')).toBe('docs.example.com')
+    expect(normalizeHostname('a-b.c1.example.io')).toBe('a-b.c1.example.io')
+  })
+
+  test('rejects things that are not bare hostnames', () => {
+    for (const value of [
+      '',
+      'localhost',
+      'https://docs.example.com',
+      'docs.example.com:8080',
+      'docs.example.com/path',
+      '-docs.example.com',
+      'docs-.example.com',
+      'docs..example.com',
+      '*.example.com',
+      '192.168.0.1',
+      `${'a'.repeat(64)}.com`,
+    ]) {
+      expect(normalizeHostname(value)).toBeNull()
+    }
+  })
+})
+
+describe('domainVerificationRecordName', () => {
+  test('prefixes the hostname', () => {
+    expect(domainVerificationRecordName('docs.example.com')).toBe('_scratchwork.docs.example.com')
+  })
+})
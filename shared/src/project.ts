@@ -38,6 +38,21 @@ export function validateProjectName(name: string): ValidationResult {
   return { valid: true }
 }
 
+// Team slugs share the project name rules: they take the owner's place in URLs
+export function validateTeamSlug(slug: string): ValidationResult {
+  if (!PROJECT_NAME_REGEX.test(slug)) {
+    return {
+      valid: false,
+      error:
+        'Team slug must be 3-63 characters, lowercase letters, numbers, and hyphens, starting with a letter',
+    }
+  }
+  if (RESERVED_NAMES.includes(slug)) {
+    return { valid: false, error: 'This team slug is reserved' }
+  }
+  return { valid: true }
+}
+
 // =============================================================================
 // Email utilities
 // =============================================================================
@@ -76,8 +91,8 @@ export function isSingleDomainAllowedUsers(allowedUsers: string): string | null
 // =============================================================================
 
 export interface ProjectUrls {
-  primary: string  // Short URL (local-part) when single domain, or email URL
-  byId: string     // User ID URL (always works)
+  primary: string  // Team slug URL for team projects; else local-part (single domain) or email URL
+  byId: string     // User ID (or team ID) URL (always works)
   www?: string     // WWW/root domain URL (only when www mode is requested)
 }
 
@@ -87,19 +102,23 @@ export interface BuildProjectUrlsOptions {
   ownerId: string
   ownerEmail: string
   allowedUsers: string
+  // Team the project belongs to; team projects are served under the team, not the owner
+  team?: { id: string; slug: string } | null
   // Optional: include www URL in response (for www mode publishes)
   wwwDomain?: string
 }
 
 export function buildProjectUrls(options: BuildProjectUrlsOptions): ProjectUrls {
-  const { pagesDomain, projectName, ownerId, ownerEmail, allowedUsers, wwwDomain } = options
+  const { pagesDomain, projectName, ownerId, ownerEmail, allowedUsers, team, wwwDomain } = options
   const protocol = pagesDomain.includes('localhost') ? 'http' : 'https'
 
-  const byId = `${protocol}://${pagesDomain}/${ownerId}/${projectName}/`
+  const byId = `${protocol}://${pagesDomain}/${team ? team.id : ownerId}/${projectName}/`
 
   const singleDomain = isSingleDomainAllowedUsers(allowedUsers)
   let primary: string
-  if (singleDomain) {
+  if (team) {
+    primary = `${protocol}://${pagesDomain}/${team.slug}/${projectName}/`
+  } else if (singleDomain) {
     const localPart = getEmailLocalPart(ownerEmail)
     primary = `${protocol}://${pagesDomain}/${localPart}/${projectName}/`
   } else {
@@ -116,12 +135,22 @@ export function buildProjectUrls(options: BuildProjectUrlsOptions): ProjectUrls
   return result
 }
 
+// Every deploy is also served at /{owner}/{project}/~v{version}/, whether or
+// not it's the live deploy
+export const DEPLOY_VERSION_PREFIX = '~v'
+
+// URL of a specific deploy, given the project's URL
+export function buildDeployVersionUrl(projectUrl: string, version: number): string {
+  const base = projectUrl.endsWith('/') ? projectUrl : `${projectUrl}/`
+  return `${base}${DEPLOY_VERSION_PREFIX}${version}/`
+}
+
 // =============================================================================
 // URL parsing for content serving
 // =============================================================================
 
 export interface ParsedPagePath {
-  ownerIdentifier: string  // Could be user ID, email, or local-part
+  ownerIdentifier: string  // Could be user ID, email, local-part, or team slug or ID
   projectName: string
   filePath: string
 }
@@ -142,3 +171,50 @@ export function parsePagePath(pathname: string): ParsedPagePath | null {
     filePath: parts.slice(2).join('/') || '',
   }
 }
+
+export interface ParsedDeployVersionPath {
+  version: number
+  filePath: string  // Path within the deploy
+}
+
+// Split a leading ~v{version} segment off a project file path
+// Returns null if the path isn't a deploy version path
+export function parseDeployVersionPath(filePath: string): ParsedDeployVersionPath | null {
+  const match = /^~v([1-9]\d*)(?:\/(.*))?$/.exec(filePath)
+  if (!match) {
+    return null
+  }
+
+  return {
+    version: parseInt(match[1]!, 10),
+    filePath: match[2] || '',
+  }
+}
+
+// =============================================================================
+// Custom domains
+// =============================================================================
+
+const HOSTNAME_LABEL_REGEX = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/
+
+// Normalize a custom domain hostname: lowercase, no trailing dot
+// Returns null if it isn't a valid hostname with at least two labels
+// (no scheme, port, path or IP address)
+export function normalizeHostname(value: string): string | null {
+  const hostname = value.trim().toLowerCase().replace(/\.$/, '')
+  if (hostname.length > 253) return null
+
+  const labels = hostname.split('.')
+  if (labels.length < 2 || !labels.every((label) => HOSTNAME_LABEL_REGEX.test(label))) {
+    return null
+  }
+  // The top-level domain is never all digits, which also rules out IPv4 addresses
+  if (/^\d+$/.test(labels[labels.length - 1]!)) return null
+
+  return hostname
+}
+
+// DNS name of the TXT record that proves control of a custom domain
+export function domainVerificationRecordName(hostname: string): string {
+  return `_scratchwork.${hostname}`
+}
@@ -0,0 +1,111 @@
+import { describe, expect, test } from 'bun:test'
+import { parseRedirects, parseHeaders, matchRedirect, matchHeaders, MAX_HEADER_RULES } from './site-rules'
+
+describe('parseRedirects', () => {
+  test('parses rules with default and explicit statuses', () => {
+    const { rules, errors } = parseRedirects(`
+# Moved pages
+/old    /new
+/blog/:slug   /posts/:slug   302
+/app/*  /app/index.html 200
+/ext    https://example.com/  308
+`)
+    expect(errors).toEqual([])
+    expect(rules).toEqual([
+      { from: '/old', to: '/new', status: 301 },
+      { from: '/blog/:slug', to: '/posts/:slug', status: 302 },
+      { from: '/app/*', to: '/app/index.html', status: 200 },
+      { from: '/ext', to: 'https://example.com/', status: 308 },
+    ])
+  })
+
+  test('skips invalid lines and reports their line numbers', () => {
+    const { rules, errors } = parseRedirects(['/a', 'old /new', '/b /c 404', '/d https://example.com/ 200', '/e /f'].join('\n'))
+    expect(rules).toEqual([{ from: '/e', to: '/f', status: 301 }])
+    expect(errors.map((e) => e.line)).toEqual([1, 2, 3, 4])
+  })
+})
+
+describe('parseHeaders', () => {
+  test('groups indented headers under their path', () => {
+    const { rules, errors } = parseHeaders(`
+/assets/*
+  Cache-Control: public, max-age=31536000
+  X-Robots-Tag: noindex
+  X-Robots-Tag: nofollow
+
+/*
+  X-Frame-Options: SAMEORIGIN
+`)
+    expect(errors).toEqual([])
+    expect(rules).toEqual([
+      {
+        path: '/assets/*',
+        headers: { 'Cache-Control': 'public, max-age=31536000', 'X-Robots-Tag': 'noindex, nofollow' },
+      },
+      { path: '/*', headers: { 'X-Frame-Options': 'SAMEORIGIN' } },
+    ])
+  })
+
+  test('reports headers without a path and malformed header lines', () => {
+    const { rules, errors } = parseHeaders(['  X-Early: 1', '/page', '  not a header', '  X-Ok: yes'].join('\n'))
+    expect(rules).toEqual([{ path: '/page', headers: { 'X-Ok': 'yes' } }])
+    expect(errors.map((e) => e.line)).toEqual([1, 3])
+  })
+
+  test('stops at the rule limit', () => {
+    const text = Array.from({ length: MAX_HEADER_RULES + 1 }, (_, i) => `/p${i}\n  X-N: ${i}`).join('\n')
+    const { rules, errors } = parseHeaders(text)
+    expect(rules).toHaveLength(MAX_HEADER_RULES)
+    expect(errors).toHaveLength(1)
+  })
+})
+
+describe('matchRedirect', () => {
+  const { rules } = parseRedirects(`
+/old /new
+/blog/:year/:slug /posts/:slug?year=:year
+/docs/* /guide/:splat 302
+`)
+
+  test('matches exact paths, ignoring a trailing slash', () => {
+    expect(matchRedirect(rules, '/old')).toEqual({ to: '/new', status: 301 })
+    expect(matchRedirect(rules, '/old/')).toEqual({ to: '/new', status: 301 })
+    expect(matchRedirect(rules, '/older')).toBeNull()
+  })
+
+  test('fills placeholders and splats', () => {
+    expect(matchRedirect(rules, '/blog/2024/hello')).toEqual({ to: '/posts/hello?year=2024', status: 301 })
+    expect(matchRedirect(rules, '/docs/setup/install')).toEqual({ to: '/guide/setup/install', status: 302 })
+    expect(matchRedirect(rules, '/blog/2024')).toBeNull()
+  })
+
+  test('keeps the query string unless the destination has one', () => {
+    expect(matchRedirect(rules, '/old', '?ref=nav')?.to).toBe('/new?ref=nav')
+    expect(matchRedirect(rules, '/blog/2024/hello', '?ref=nav')?.to).toBe('/posts/hello?year=2024')
+  })
+
+  test('uses the first matching rule', () => {
+    const { rules: ordered } = parseRedirects('/a/* /first\n/a/b /second')
+    expect(matchRedirect(ordered, '/a/b')?.to).toBe('/first')
+  })
+})
+
+describe('matchHeaders', () => {
+  test('combines headers from every matching rule', () => {
+    const { rules } = parseHeaders(`
+/*
+  X-Site: docs
+  Link: </style.css>; rel=preload
+/assets/*
+  Cache-Control: immutable
+  Link: </font.woff2>; rel=preload
+`)
+    expect(matchHeaders(rules, '/assets/app.js')).toEqual({
+      'X-Site': 'docs',
+      'Cache-Control': 'immutable',
+      Link: '</style.css>; rel=preload, </font.woff2>; rel=preload',
+    })
+    expect(matchHeaders(rules, '/')).toEqual({ 'X-Site': 'docs', Link: '</style.css>; rel=preload' })
+  })
+})
@@ -0,0 +1,229 @@
+// _redirects and _headers files
+//
+// A published site can include these files at its root. The server parses them
+// when a deploy is uploaded and applies them to every request for that deploy;
+// `scratch preview` applies the same rules to the local build.
+//
+// _redirects has one rule per line: `from to [status]`
+//   /old-page        /new-page
+//   /blog/:year/:slug  /posts/:slug  302
+//   /docs/*          /guide/:splat
+//   /app/*           /app/index.html  200   (rewrite: serve another file, URL unchanged)
+//
+// _headers has a path line followed by indented `Name: value` lines
+//   /assets/*
+//     Cache-Control: public, max-age=31536000
+//
+// Paths are relative to the site root. Lines starting with # are comments.
+
+export const REDIRECTS_FILE = '_redirects'
+export const HEADERS_FILE = '_headers'
+
+export const MAX_REDIRECT_RULES = 2000
+export const MAX_HEADER_RULES = 100
+
+export const redirectStatuses = [200, 301, 302, 303, 307, 308] as const
+export type RedirectStatus = (typeof redirectStatuses)[number]
+
+export interface RedirectRule {
+  from: string
+  to: string
+  status: RedirectStatus
+}
+
+export interface HeaderRule {
+  path: string
+  headers: Record<string, string>
+}
+
+export interface RuleParseError {
+  line: number
+  message: string
+}
+
+export interface ParsedRules<T> {
+  rules: T[]
+  errors: RuleParseError[]
+}
+
+export interface RedirectMatch {
+  to: string
+  status: RedirectStatus
+}
+
+// RFC 9110 token characters
+const HEADER_NAME_REGEX = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/
+const ABSOLUTE_URL_REGEX = /^https?:\/\//i
+
+// Strip a trailing slash so /docs and /docs/ match the same rules
+function trimTrailingSlash(path: string): string {
+  return path.length > 1 ? path.replace(/\/+$/, '') : path
+}
+
+// Compile a rule path into a regex; :name placeholders match one segment and
+// * matches the rest of the path (available as :splat)
+function compilePattern(pattern: string): { regex: RegExp; names: string[] } {
+  const names: string[] = []
+  let source = ''
+  for (const part of trimTrailingSlash(pattern).split(/(:[A-Za-z_]\w*|\*)/)) {
+    if (part === '*') {
+      names.push('splat')
+      source += '(.*)'
+    } else if (part.startsWith(':')) {
+      names.push(part.slice(1))
+      source += '([^/]+)'
+    } else {
+      source += part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return { regex: new RegExp(`^${source}$`), names }
+}
+
+// Match a path against a rule path, returning its placeholder values
+function matchPattern(pattern: string, pathname: string): Record<string, string> | null {
+  const { regex, names } = compilePattern(pattern)
+  const match = regex.exec(trimTrailingSlash(pathname))
+  if (!match) return null
+  const params: Record<string, string> = {}
+  names.forEach((name, i) => {
+    params[name] = match[i + 1] ?? ''
+  })
+  return params
+}
+
+// Non-empty, non-comment lines with their 1-based line numbers
+function contentLines(text: string): { line: number; raw: string }[] {
+  return text
+    .split(/\r?\n/)
+    .map((raw, i) => ({ line: i + 1, raw }))
+    .filter(({ raw }) => raw.trim() !== '' && !raw.trim().startsWith('#'))
+}
+
+/**
+ * Parse a _redirects file.
+ * Invalid lines are skipped and reported in errors.
+ */
+export function parseRedirects(text: string): ParsedRules<RedirectRule> {
+  const rules: RedirectRule[] = []
+  const errors: RuleParseError[] = []
+
+  for (const { line, raw } of contentLines(text)) {
+    const fields = raw.trim().split(/\s+/)
+    const [from, to, statusField] = fields
+
+    if (fields.length < 2 || fields.length > 3) {
+      errors.push({ line, message: 'Expected "from to [status]"' })
+      continue
+    }
+    if (!from!.startsWith('/')) {
+      errors.push({ line, message: `"${from}" must start with /` })
+      continue
+    }
+    if (!to!.startsWith('/') && !ABSOLUTE_URL_REGEX.test(to!)) {
+      errors.push({ line, message: `"${to}" must start with / or be an http(s) URL` })
+      continue
+    }
+
+    const status = statusField === undefined ? 301 : Number(statusField)
+    if (!(redirectStatuses as readonly number[]).includes(status)) {
+      errors.push({ line, message: `Status must be one of ${redirectStatuses.join(', ')}` })
+      continue
+    }
+    if (status === 200 && !to!.startsWith('/')) {
+      errors.push({ line, message: 'Rewrites (200) must point to a path on the site' })
+      continue
+    }
+
+    if (rules.length === MAX_REDIRECT_RULES) {
+      errors.push({ line, message: `Only the first ${MAX_REDIRECT_RULES} rules are used` })
+      break
+    }
+    rules.push({ from: from!, to: to!, status: status as RedirectStatus })
+  }
+
+  return { rules, errors }
+}
+
+/**
+ * Parse a _headers file.
+ * Invalid lines are skipped and reported in errors.
+ */
+export function parseHeaders(text: string): ParsedRules<HeaderRule> {
+  const rules: HeaderRule[] = []
+  const errors: RuleParseError[] = []
+  let current: HeaderRule | null = null
+
+  for (const { line, raw } of contentLines(text)) {
+    const indented = /^\s/.test(raw)
+    const trimmed = raw.trim()
+
+    if (!indented) {
+      current = null
+      if (!trimmed.startsWith('/')) {
+        errors.push({ line, message: `"${trimmed}" must start with /` })
+        continue
+      }
+      if (rules.length === MAX_HEADER_RULES) {
+        errors.push({ line, message: `Only the first ${MAX_HEADER_RULES} rules are used` })
+        break
+      }
+      current = { path: trimmed, headers: {} }
+      rules.push(current)
+      continue
+    }
+
+    if (!current) {
+      errors.push({ line, message: 'Header lines must follow a path' })
+      continue
+    }
+
+    const colon = trimmed.indexOf(':')
+    const name = colon > 0 ? trimmed.slice(0, colon).trim() : ''
+    const value = trimmed.slice(colon + 1).trim()
+    if (!HEADER_NAME_REGEX.test(name) || !value) {
+      errors.push({ line, message: 'Expected "Name: value"' })
+      continue
+    }
+
+    // Repeated headers are joined, like repeated fields in HTTP
+    const existing = current.headers[name]
+    current.headers[name] = existing ? `${existing}, ${value}` : value
+  }
+
+  return { rules, errors }
+}
+
+/**
+ * Find the first redirect rule matching a path.
+ * Placeholders in the destination are filled in, and the request's query
+ * string is kept unless the destination has its own.
+ */
+export function matchRedirect(rules: RedirectRule[], pathname: string, search = ''): RedirectMatch | null {
+  for (const rule of rules) {
+    const params = matchPattern(rule.from, pathname)
+    if (!params) continue
+
+    let to = rule.to.replace(/:([A-Za-z_]\w*)/g, (placeholder, name: string) => params[name] ?? placeholder)
+    if (search && !to.includes('?')) {
+      to += search
+    }
+    return { to, status: rule.status }
+  }
+  return null
+}
+
+/**
+ * Collect the headers of every header rule matching a path.
+ * Later rules add to (rather than replace) a header set by earlier ones.
+ */
+export function matchHeaders(rules: HeaderRule[], pathname: string): Record<string, string> {
+  const headers: Record<string, string> = {}
+  for (const rule of rules) {
+    if (!matchPattern(rule.path, pathname)) continue
+    for (const [name, value] of Object.entries(rule.headers)) {
+      const existing = headers[name]
+      headers[name] = existing ? `${existing}, ${value}` : value
+    }
+  }
+  return headers
+}